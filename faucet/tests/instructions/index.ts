@@ -2,7 +2,7 @@ import * as anchor from '@coral-xyz/anchor'
 import { Keypair, PublicKey } from '@solana/web3.js'
 import { getAssociatedTokenAddressSync } from '@solana/spl-token'
 import { PirateFaucet } from '../../target/types/pirate_faucet'
-import { toBigIntQuantity } from '../util/token'
+import { TokenAmount } from '../util/amount'
 
 /**
  *
@@ -50,7 +50,11 @@ export async function fundFaucet(
     decimals: number
 ) {
     await program.methods
-        .fund(new anchor.BN(toBigIntQuantity(quantity, decimals).toString()))
+        .fund(
+            new anchor.BN(
+                TokenAmount.fromDecimal(quantity, decimals).raw.toString()
+            )
+        )
         .accounts({
             faucet,
             mint,
@@ -95,7 +99,7 @@ export async function requestAirdrop(
 ) {
     await program.methods
         .requestAirdrop(
-            // new anchor.BN(toBigIntQuantity(quantity, decimals).toString())
+            // new anchor.BN(TokenAmount.fromDecimal(quantity, decimals).raw.toString())
             new anchor.BN(quantity)
         )
         .accounts({
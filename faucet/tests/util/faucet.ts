@@ -7,7 +7,7 @@ import {
 } from '@solana/spl-token'
 import { Connection, PublicKey } from '@solana/web3.js'
 import { PirateFaucet } from '../../target/types/pirate_faucet'
-import { fromBigIntQuantity } from './token'
+import { TokenAmount } from './amount'
 
 /**
  *
@@ -73,34 +73,34 @@ export async function calculateBalances(
         connection,
         getAssociatedTokenAddressSync(receiveAddress, owner)
     )
-    const receiveUserBalance = fromBigIntQuantity(
+    const receiveUserBalance = new TokenAmount(
         receiveUserTokenAccount.amount,
         receiveDecimals
-    )
+    ).toFixed(6)
     const payUserTokenAccount = await getTokenAccount(
         connection,
         getAssociatedTokenAddressSync(payAddress, owner)
     )
-    const payUserBalance = fromBigIntQuantity(
+    const payUserBalance = new TokenAmount(
         payUserTokenAccount.amount,
         payDecimals
-    )
+    ).toFixed(6)
     const receiveFaucetTokenAccount = await getTokenAccount(
         connection,
         getAssociatedTokenAddressSync(receiveAddress, faucet, true)
     )
-    const receiveFaucetBalance = fromBigIntQuantity(
+    const receiveFaucetBalance = new TokenAmount(
         receiveFaucetTokenAccount.amount,
         receiveDecimals
-    )
+    ).toFixed(6)
     const payFaucetTokenAccount = await getTokenAccount(
         connection,
         getAssociatedTokenAddressSync(payAddress, faucet, true)
     )
-    const payFaucetBalance = fromBigIntQuantity(
+    const payFaucetBalance = new TokenAmount(
         payFaucetTokenAccount.amount,
         payDecimals
-    )
+    ).toFixed(6)
     return [
         receiveUserBalance,
         receiveFaucetBalance,
@@ -5,7 +5,7 @@ import {
     getAccount as getTokenAccount,
 } from '@solana/spl-token'
 import { Connection, PublicKey } from '@solana/web3.js'
-import { fromBigIntQuantity } from './token'
+import { TokenAmount } from './amount'
 import { calculateBalances } from './faucet'
 
 /**
@@ -197,7 +197,10 @@ export async function logFaucet(
     for (const a of assets) {
         const holding = getHoldings(a.address, tokenAccounts)
         const mint = await getMint(connection, a.address)
-        const normalizedHolding = fromBigIntQuantity(holding, mint.decimals)
+        const normalizedHolding = new TokenAmount(
+            holding,
+            mint.decimals
+        ).toFixed(6)
         console.log(
             `                   ${a.name.padEnd(
                 padding,
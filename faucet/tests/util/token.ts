@@ -11,35 +11,10 @@ import {
     TOKEN_PROGRAM_ID,
 } from '@solana/spl-token'
 import { Connection, Keypair, PublicKey, SystemProgram } from '@solana/web3.js'
+import { TokenAmount } from './amount'
 import { buildTransaction } from './transaction'
 import { logNewMint } from './log'
 
-/**
- *
- * Returns the real quantity of a `quantity` parameter by
- * increasing the number using the mint's decimal places
- *
- * @param quantity The provided quantity argument
- * @param decimals The decimals of the associated mint
- * @returns The real quantity of a `quantity` parameter
- */
-export function toBigIntQuantity(quantity: number, decimals: number): bigint {
-    return BigInt(quantity) * BigInt(10) ** BigInt(decimals)
-}
-
-/**
- *
- * Returns the nominal quantity of a `quantity` parameter by
- * decreasing the number using the mint's decimal places
- *
- * @param quantity The real quantity of a `quantity` parameter
- * @param decimals The decimals of the associated mint
- * @returns The nominal quantity of a `quantity` parameter
- */
-export function fromBigIntQuantity(quantity: bigint, decimals: number): string {
-    return (Number(quantity) / 10 ** decimals).toFixed(6)
-}
-
 /**
  *
  * Creates and mints new SPL tokens to the local keypair
@@ -122,7 +97,7 @@ export async function mintNewTokens(
         mintKeypair.publicKey,
         tokenAccount,
         payer.publicKey,
-        toBigIntQuantity(quantity, decimals)
+        TokenAmount.fromDecimal(quantity, decimals).raw
     )
 
     const tx = await buildTransaction(
@@ -177,7 +152,7 @@ export async function mintExistingTokens(
         mint,
         tokenAccount,
         payer.publicKey,
-        toBigIntQuantity(quantity, decimals)
+        TokenAmount.fromDecimal(quantity, decimals).raw
     )
 
     const tx = await buildTransaction(
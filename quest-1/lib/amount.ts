@@ -0,0 +1,198 @@
+/**
+ * An exact amount of tokens, for parsing and formatting decimal amounts without losing precision
+ * ---
+ * token amounts are stored on-chain as integers of the mint's base units (e.g. with 9 decimals,
+ * `1.5` tokens are stored as `1_500_000_000`). Converting them through a `number` loses precision
+ * for large supplies and mints with many decimals, so a `TokenAmount` only ever uses a `bigint`
+ */
+
+/*
+  Expand a number's string representation (which may use exponential notation, like `1e-7`) into
+  a plain decimal string
+*/
+function numberToDecimalString(value: number) {
+  if (!Number.isFinite(value)) throw Error(`Invalid token amount: ${value}`);
+
+  const [coefficient, exponent] = String(value).split("e");
+  if (exponent === undefined) return coefficient;
+
+  const negative = coefficient.startsWith("-");
+  const [whole, fraction = ""] = coefficient.replace("-", "").split(".");
+  const digits = whole + fraction;
+  const point = whole.length + Number(exponent);
+
+  const expanded =
+    point <= 0
+      ? `0.${"0".repeat(-point)}${digits}`
+      : point >= digits.length
+      ? digits.padEnd(point, "0")
+      : `${digits.slice(0, point)}.${digits.slice(point)}`;
+
+  return (negative ? "-" : "") + expanded;
+}
+
+/**
+ * An exact amount of tokens, stored in the mint's base units alongside the mint's decimals
+ */
+export class TokenAmount {
+  constructor(public readonly raw: bigint, public readonly decimals: number) {
+    if (!Number.isInteger(decimals) || decimals < 0) throw Error(`Invalid decimals: ${decimals}`);
+  }
+
+  /**
+   * Parse a nominal decimal amount (e.g. `"1.5"` or `1.5`) into the mint's base units, throwing
+   * when it has more decimal places than the mint supports
+   */
+  static fromDecimal(value: string | number, decimals: number) {
+    const text = typeof value === "number" ? numberToDecimalString(value) : value.trim();
+
+    const match = /^([+-]?)(\d*)(?:\.(\d*))?$/.exec(text);
+    if (!match || (!match[2] && !match[3])) throw Error(`Invalid token amount: ${value}`);
+
+    const [, sign, whole, fraction = ""] = match;
+    const significant = fraction.replace(/0+$/, "");
+    if (significant.length > decimals)
+      throw Error(`Token amount ${value} has more than ${decimals} decimal places`);
+
+    const raw = BigInt((whole || "0") + significant.padEnd(decimals, "0"));
+    return new TokenAmount(sign === "-" ? -raw : raw, decimals);
+  }
+
+  /**
+   * Create an amount from the mint's base units (e.g. a token account's `amount`)
+   */
+  static fromRaw(raw: bigint | number | string, decimals: number) {
+    return new TokenAmount(BigInt(raw), decimals);
+  }
+
+  /*
+    Only amounts of mints with the same decimals can be combined or compared
+  */
+  private assertSameDecimals(other: TokenAmount) {
+    if (other.decimals !== this.decimals)
+      throw Error(
+        `Cannot combine token amounts with ${this.decimals} and ${other.decimals} decimals`,
+      );
+  }
+
+  add(other: TokenAmount) {
+    this.assertSameDecimals(other);
+    return new TokenAmount(this.raw + other.raw, this.decimals);
+  }
+
+  sub(other: TokenAmount) {
+    this.assertSameDecimals(other);
+    return new TokenAmount(this.raw - other.raw, this.decimals);
+  }
+
+  mul(factor: bigint | number) {
+    return new TokenAmount(this.raw * BigInt(factor), this.decimals);
+  }
+
+  /**
+   * Divide the amount by a whole divisor, rounding toward zero (like integer division on-chain)
+   */
+  div(divisor: bigint | number) {
+    return new TokenAmount(this.raw / BigInt(divisor), this.decimals);
+  }
+
+  /**
+   * Compare to another amount, returning `-1`, `0` or `1` when this amount is lower, equal or greater
+   */
+  cmp(other: TokenAmount) {
+    this.assertSameDecimals(other);
+    return this.raw < other.raw ? -1 : this.raw > other.raw ? 1 : 0;
+  }
+
+  eq(other: TokenAmount) {
+    return this.cmp(other) === 0;
+  }
+
+  lt(other: TokenAmount) {
+    return this.cmp(other) < 0;
+  }
+
+  lte(other: TokenAmount) {
+    return this.cmp(other) <= 0;
+  }
+
+  gt(other: TokenAmount) {
+    return this.cmp(other) > 0;
+  }
+
+  gte(other: TokenAmount) {
+    return this.cmp(other) >= 0;
+  }
+
+  isZero() {
+    return this.raw === 0n;
+  }
+
+  isNegative() {
+    return this.raw < 0n;
+  }
+
+  /**
+   * Format the nominal amount with a fixed number of decimal places, rounding half away from zero
+   */
+  toFixed(fractionDigits: number) {
+    const negative = this.raw < 0n;
+    let units = negative ? -this.raw : this.raw;
+    let digits = this.decimals;
+
+    if (fractionDigits < digits) {
+      const divisor = 10n ** BigInt(digits - fractionDigits);
+      const remainder = units % divisor;
+      units = units / divisor + (remainder * 2n >= divisor ? 1n : 0n);
+      digits = fractionDigits;
+    }
+
+    const padded = units.toString().padStart(digits + 1, "0");
+    const whole = padded.slice(0, padded.length - digits);
+    const fraction = padded.slice(padded.length - digits).padEnd(fractionDigits, "0");
+
+    return (negative && units !== 0n ? "-" : "") + whole + (fraction ? `.${fraction}` : "");
+  }
+
+  /**
+   * Format the nominal amount for display, using the locale's digit grouping and decimal separator
+   * ---
+   * unlike `Intl.NumberFormat`, every decimal place is shown by default (up to the mint's decimals)
+   */
+  toLocaleString(
+    locales?: string | string[],
+    {
+      minimumFractionDigits = 0,
+      maximumFractionDigits = Math.max(minimumFractionDigits, this.decimals),
+    }: { minimumFractionDigits?: number; maximumFractionDigits?: number } = {},
+  ) {
+    const [whole, fraction = ""] = this.toFixed(maximumFractionDigits).split(".");
+    const trimmed = fraction.replace(/0+$/, "").padEnd(minimumFractionDigits, "0");
+
+    const formatter = new Intl.NumberFormat(locales);
+    const separator =
+      formatter.formatToParts(0.5).find(part => part.type === "decimal")?.value ?? ".";
+
+    // `Intl.NumberFormat` formats a `bigint` exactly
+    const grouped = formatter.format(BigInt(whole));
+    // `BigInt("-0")` drops the sign of amounts between -1 and 0 (e.g. "-0.5")
+    const sign = whole === "-0" ? "-" : "";
+
+    return sign + grouped + (trimmed ? separator + trimmed : "");
+  }
+
+  /**
+   * Format the exact nominal amount, without any trailing zeros
+   */
+  toString() {
+    const fixed = this.toFixed(this.decimals);
+    return this.decimals > 0 ? fixed.replace(/\.?0+$/, "") : fixed;
+  }
+
+  /**
+   * Convert to a (lossy) `number`, e.g. for use in charts
+   */
+  toNumber() {
+    return Number(this.toString());
+  }
+}
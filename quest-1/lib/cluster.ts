@@ -0,0 +1,89 @@
+/**
+ * The RPC connection used by every script, configured from the env variables
+ * ---
+ * the cluster is selected by name with the `CLUSTER` env variable:
+ * - `localnet` (the default): a local test validator (`solana-test-validator`)
+ * - `devnet`: the public devnet cluster
+ * - `custom`: any other cluster, using the `RPC_URL` env variable
+ *
+ * `RPC_URL` can also override the RPC endpoint of `localnet` and `devnet` (e.g. to use an RPC
+ * provider). When only `RPC_URL` is set, the cluster is inferred from it
+ */
+import dotenv from "dotenv";
+import { Connection, LAMPORTS_PER_SOL, clusterApiUrl } from "@solana/web3.js";
+
+// load the env variables from file
+dotenv.config();
+
+export type ClusterName = "localnet" | "devnet" | "custom";
+
+export type ClusterProfile = {
+  name: ClusterName;
+  // the RPC endpoint to connect to
+  rpcUrl: string;
+  // the amount of lamports to airdrop when low on funds (`0` when airdrops are unavailable)
+  airdropAmount: number;
+  // the balance (in lamports) below which `airdropOnLowBalance` requests an airdrop
+  minBalance: number;
+};
+
+// the default RPC endpoint of a local test validator
+const LOCALNET_URL = "http://127.0.0.1:8899";
+
+const CLUSTER_PROFILES: Record<ClusterName, (rpcUrl?: string) => ClusterProfile> = {
+  // a local validator has no airdrop limits, so plenty of SOL is requested at once
+  localnet: (rpcUrl = LOCALNET_URL) => ({
+    name: "localnet",
+    rpcUrl,
+    airdropAmount: 100 * LAMPORTS_PER_SOL,
+    minBalance: 10 * LAMPORTS_PER_SOL,
+  }),
+  // devnet airdrops are rate limited, so only small amounts are requested
+  devnet: (rpcUrl = clusterApiUrl("devnet")) => ({
+    name: "devnet",
+    rpcUrl,
+    airdropAmount: LAMPORTS_PER_SOL,
+    minBalance: LAMPORTS_PER_SOL / 2,
+  }),
+  custom: rpcUrl => {
+    if (!rpcUrl) throw Error("The `custom` cluster requires the `RPC_URL` env variable");
+    return { name: "custom", rpcUrl, airdropAmount: 0, minBalance: 0 };
+  },
+};
+
+/*
+  Infer the name of the cluster an RPC endpoint belongs to
+*/
+function inferClusterName(rpcUrl: string): ClusterName {
+  const { hostname } = new URL(rpcUrl);
+  if (hostname === "localhost" || hostname === "127.0.0.1" || hostname === "0.0.0.0")
+    return "localnet";
+  if (hostname.includes("devnet")) return "devnet";
+  return "custom";
+}
+
+/**
+ * Get the cluster profile selected by the `CLUSTER` and `RPC_URL` env variables
+ */
+export function getClusterProfile(
+  name: string | undefined = process.env.CLUSTER,
+  rpcUrl: string | undefined = process.env.RPC_URL,
+): ClusterProfile {
+  name ||= rpcUrl ? inferClusterName(rpcUrl) : "localnet";
+
+  if (!(name in CLUSTER_PROFILES))
+    throw Error(
+      `Unknown cluster "${name}": use one of ${Object.keys(CLUSTER_PROFILES).join(", ")}`,
+    );
+
+  return CLUSTER_PROFILES[name as ClusterName](rpcUrl || undefined);
+}
+
+// the cluster used by every script
+export const CLUSTER = getClusterProfile();
+
+// the cluster RPC url
+export const CLUSTER_URL = CLUSTER.rpcUrl;
+
+// create a new rpc connection
+export const connection = new Connection(CLUSTER_URL, "confirmed");
@@ -0,0 +1,239 @@
+/**
+ * Decodes failed transactions into the program that failed and its named error
+ * ---
+ * custom error codes are mapped to their names and messages using the error tables of the
+ * bootcamp programs' IDLs, and any other program can be added via `registerProgramErrors`
+ */
+
+import { Connection } from "@solana/web3.js";
+import { explorerURL } from "./helpers";
+import swapProgramIdl from "../../quest-4/app/src/idl/swap_program.json";
+import pirateFaucetIdl from "../../faucet/idl/pirate_faucet.json";
+
+/**
+ * The errors section of an Anchor IDL (or of any program, in the same format)
+ */
+export type IdlErrors = {
+  name: string;
+  errors?: { code: number; name: string; msg?: string }[];
+};
+
+export type DecodedTransactionError = {
+  signature?: string;
+  // the program that returned the error
+  programId?: string;
+  programName?: string;
+  instructionIndex?: number;
+  // the program's custom error code, with its name and message when known
+  code?: number;
+  name?: string;
+  message: string;
+  logs: string[];
+};
+
+/*
+  Error tables from the bootcamp programs' IDLs:
+  - `swap_program`: quest-4/app/src/idl/swap_program.json
+  - `pirate_faucet`: faucet/idl/pirate_faucet.json
+  - `seven_seas`: quest-6/seven-seas/app/idl/seven_seas.ts
+  - `idle_game`: quest-6/idle-game/app/src/idl/idle_game.ts
+  - `vrf`: quest-6/coin-flip/app/idl/vrf.ts
+  - `arb_program`: the native `ArbitrageProgramError` in quest-5/program/src/error.rs
+  the programs with a JSON IDL have their errors read straight from it, so each program keeps
+  its own error codes
+*/
+export const PROGRAM_ERRORS = {
+  swap_program: { name: swapProgramIdl.name, errors: swapProgramIdl.errors },
+  pirate_faucet: { name: pirateFaucetIdl.name, errors: pirateFaucetIdl.errors },
+  seven_seas: {
+    name: "seven_seas",
+    errors: [
+      { code: 6000, name: "TileOutOfBounds" },
+      { code: 6001, name: "BoardIsFull" },
+      { code: 6002, name: "PlayerAlreadyExists" },
+      { code: 6003, name: "TriedToMovePlayerThatWasNotOnTheBoard" },
+      { code: 6004, name: "TriedToShootWithPlayerThatWasNotOnTheBoard" },
+      { code: 6005, name: "WrongDirectionInput" },
+      { code: 6006, name: "MaxShipLevelReached" },
+      { code: 6007, name: "CouldNotFindAShipToAttack" },
+    ],
+  },
+  idle_game: {
+    name: "idle_game",
+    errors: [
+      { code: 6000, name: "NotEnoughWood", msg: "Not enough wood." },
+      { code: 6001, name: "NotEnoughGold", msg: "Not enough gold." },
+    ],
+  },
+  vrf: {
+    name: "vrf",
+    errors: [
+      {
+        code: 6000,
+        name: "InvalidVrfAuthorityError",
+        msg: "Switchboard VRF Account's authority should be set to the client's state pubkey",
+      },
+      { code: 6001, name: "InvalidVrfAccount", msg: "Invalid VRF account provided." },
+    ],
+  },
+  // native program errors are numbered from 0, rather than Anchor's 6000
+  arb_program: {
+    name: "arb_program",
+    errors: [
+      {
+        code: 0,
+        name: "InvalidAccountsList",
+        msg: "Invalid list of accounts: Each list of accounts should be the same length and passed in the following order: user token accounts, swap 1 token accounts, swap 2 token accounts, mints",
+      },
+      {
+        code: 1,
+        name: "TokenAccountOwnerNotFound",
+        msg: "A token account not belonging to the user, swap #1's Liquidity Pool, or swap #2's Liquidity Pool was passed into the program",
+      },
+      {
+        code: 2,
+        name: "InvalidSwapNotEnoughLiquidity",
+        msg: "The amount proposed to pay resolves to a receive amount that is greater than the current liquidity",
+      },
+      { code: 3, name: "NoArbitrage", msg: "No arbitrage opportunity detected" },
+    ],
+  },
+};
+
+// the known program deployments, by program id
+const registry = new Map<string, IdlErrors>([
+  ["FVCG6YkMbACgskY3ZrwqWFr45ERgJuKrf7C9dRDh6LjX", PROGRAM_ERRORS.swap_program],
+  ["7832S4UAeNDGrqMSiZqhL5mqo9Xh1ytHKfcPe6AJapSi", PROGRAM_ERRORS.swap_program],
+  ["5koF84vG5xwah17PNRyge3HmqdJZ4rqdqPvZnMKqi8Bq", PROGRAM_ERRORS.swap_program],
+  ["DRP4K7yv8EBftb3roP81idoPtRDJwpak1Apw8d4Df14T", PROGRAM_ERRORS.swap_program],
+  ["4qqkcdDu3porjEyRDpD7ScaDCU7jg8epBPF7HfCSLY7h", PROGRAM_ERRORS.pirate_faucet],
+  ["2a4NcnkF5zf14JQXHAv39AsRf7jMFj13wKmTL6ZcDQNd", PROGRAM_ERRORS.seven_seas],
+  ["HMz4pAww1UAhwnsE2WFEkSTazKgFf5pwUAnnMxvDbrjf", PROGRAM_ERRORS.idle_game],
+  ["FXWi8jVNNcyCARo6JckMFPiqzcMhPo585NirdPvD2hva", PROGRAM_ERRORS.vrf],
+]);
+
+/**
+ * Register the errors of a program (like your own deployment of one of the bootcamp programs),
+ * so they can be decoded
+ */
+export function registerProgramErrors(programId: string, idl: IdlErrors) {
+  registry.set(programId, idl);
+}
+
+/*
+  Extract the failed transaction's signature from an error (or its message)
+*/
+function extractSignature(err: any): string | undefined {
+  if (err?.signature) return err.signature;
+
+  return new RegExp(/^((.*)?Error: )?(Transaction|Signature) ([A-Z0-9]{32,}) /gim).exec(
+    err?.message?.toString(),
+  )?.[4];
+}
+
+/*
+  Locate the program that failed (and why) from a transaction's logs
+*/
+function findFailedProgram(logs: string[]) {
+  for (let i = logs.length - 1; i >= 0; i--) {
+    const failed = /^Program (\w{32,44}) failed: (.*)$/.exec(logs[i]);
+    if (failed) return { programId: failed[1], reason: failed[2] };
+  }
+}
+
+/**
+ * Decode an error thrown when sending or simulating a transaction, fetching the transaction's
+ * logs from the cluster when the error does not include them
+ */
+export async function decodeTransactionError(
+  connection: Connection,
+  err: any,
+): Promise<DecodedTransactionError> {
+  const signature = extractSignature(err);
+  let logs: string[] = err?.logs ?? err?.simulationResponse?.logs ?? [];
+
+  // processed transactions can have their logs fetched
+  if (!logs.length && signature)
+    logs = await connection
+      .getTransaction(signature, { commitment: "confirmed", maxSupportedTransactionVersion: 0 })
+      .then(tx => tx?.meta?.logMessages ?? [])
+      .catch(() => []);
+
+  const failed = findFailedProgram(logs);
+  const reason: string = failed?.reason ?? err?.message?.toString() ?? String(err);
+
+  // the transaction error includes the failed instruction and custom error code, when available
+  const instructionError = err?.err?.InstructionError;
+  const instructionMatch = /Error processing Instruction (\d+)/.exec(err?.message ?? "");
+  const instructionIndex: number | undefined =
+    instructionError?.[0] ?? (instructionMatch ? Number(instructionMatch[1]) : undefined);
+
+  const hexCode = /custom program error: (0x[0-9a-f]+)/i.exec(reason)?.[1];
+  const code: number | undefined =
+    instructionError?.[1]?.Custom ?? (hexCode ? parseInt(hexCode, 16) : undefined);
+
+  const decoded: DecodedTransactionError = {
+    signature,
+    programId: failed?.programId,
+    instructionIndex,
+    code,
+    message: reason,
+    logs,
+  };
+
+  // Anchor programs log their errors, so use them as a fallback for unknown programs
+  const anchorError = logs
+    .map(line => /Error Code: (\w+)\. Error Number: (\d+)\. Error Message: (.*?)\.?$/.exec(line))
+    .find(match => !!match);
+  if (anchorError) {
+    decoded.name = anchorError[1];
+    decoded.code = Number(anchorError[2]);
+    decoded.message = anchorError[3];
+  }
+
+  const idl = decoded.programId ? registry.get(decoded.programId) : undefined;
+  if (idl) {
+    decoded.programName = idl.name;
+
+    const idlError = idl.errors?.find(item => item.code === decoded.code);
+    if (idlError) {
+      decoded.name = idlError.name;
+      decoded.message = idlError.msg ?? idlError.name;
+    }
+  }
+
+  return decoded;
+}
+
+/**
+ * Format a decoded transaction error as a short, human readable summary
+ * (e.g. for a notification toast)
+ */
+export function formatDecodedError(decoded: DecodedTransactionError) {
+  const program = decoded.programName ?? decoded.programId ?? "Unknown program";
+  const error =
+    decoded.code === undefined
+      ? decoded.name
+      : `${decoded.name ?? "Custom error"} (${decoded.code} / 0x${decoded.code.toString(16)})`;
+
+  return error ? `${program}: ${error} - ${decoded.message}` : `${program}: ${decoded.message}`;
+}
+
+/**
+ * Print a decoded transaction error to the console, optionally with the transaction's logs
+ */
+export function printDecodedError(decoded: DecodedTransactionError, printLogs: boolean = false) {
+  console.log("\n==== Transaction error ====");
+  console.log(formatDecodedError(decoded));
+  if (decoded.instructionIndex !== undefined)
+    console.log("Failed instruction:", decoded.instructionIndex);
+  if (decoded.programId) console.log("Program:", decoded.programId);
+
+  if (decoded.signature) {
+    console.log("Signature:", decoded.signature);
+    console.log(explorerURL({ txSignature: decoded.signature }), "");
+  }
+
+  if (printLogs) console.log(decoded.logs.length ? decoded.logs : "No log messages available");
+  console.log("==== END ERROR ====\n");
+}
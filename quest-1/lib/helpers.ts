@@ -9,19 +9,34 @@ import {
   TransactionMessage,
   VersionedTransaction,
 } from "@solana/web3.js";
+import {
+  decryptSecretKey,
+  encryptSecretKey,
+  getKeystorePassphrase,
+  isEncryptedKeystore,
+} from "./keystore";
+import { getProfileFilePath } from "./profiles";
+import { CLUSTER, ClusterName } from "./cluster";
+import { TokenAmount } from "./amount";
 
 // define some default locations
 const DEFAULT_KEY_DIR_NAME = ".local_keys";
 const DEFAULT_PUBLIC_KEY_FILE = "keys.json";
 const DEFAULT_DEMO_DATA_FILE = "demo.json";
 
+// the base URLs of the supported explorers (selected with the `EXPLORER` env variable)
+const EXPLORERS: Record<string, string> = {
+  solana: "https://explorer.solana.com",
+  solscan: "https://solscan.io",
+};
+
 /**
  * Load locally stored PublicKey addresses
+ * (defaults to the active profile's storage for the current cluster)
  */
-export function loadPublicKeysFromFile(
-  absPath: string = `${DEFAULT_KEY_DIR_NAME}/${DEFAULT_PUBLIC_KEY_FILE}`,
-) {
+export async function loadPublicKeysFromFile(absPath?: string) {
   try {
+    absPath ??= await getProfileFilePath(DEFAULT_PUBLIC_KEY_FILE);
     if (!absPath) throw Error("No path provided");
     if (!fs.existsSync(absPath)) throw Error("File does not exist.");
 
@@ -43,13 +58,11 @@ export function loadPublicKeysFromFile(
 
 /*
   Locally save a demo data to the filesystem for later retrieval
+  (defaults to the active profile's storage for the current cluster)
 */
-export function saveDemoDataToFile(
-  name: string,
-  newData: any,
-  absPath: string = `${DEFAULT_KEY_DIR_NAME}/${DEFAULT_DEMO_DATA_FILE}`,
-) {
+export async function saveDemoDataToFile(name: string, newData: any, absPath?: string) {
   try {
+    absPath ??= await getProfileFilePath(DEFAULT_DEMO_DATA_FILE);
     let data: object = {};
 
     // fetch all the current values, when the storage file exists
@@ -75,18 +88,17 @@ export function saveDemoDataToFile(
 
 /*
   Locally save a PublicKey addresses to the filesystem for later retrieval
+  (defaults to the active profile's storage for the current cluster)
 */
-export function savePublicKeyToFile(
-  name: string,
-  publicKey: PublicKey,
-  absPath: string = `${DEFAULT_KEY_DIR_NAME}/${DEFAULT_PUBLIC_KEY_FILE}`,
-) {
+export async function savePublicKeyToFile(name: string, publicKey: PublicKey, absPath?: string) {
   try {
+    absPath ??= await getProfileFilePath(DEFAULT_PUBLIC_KEY_FILE);
+
     // if (!absPath) throw Error("No path provided");
     // if (!fs.existsSync(absPath)) throw Error("File does not exist.");
 
     // fetch all the current values
-    let data: any = loadPublicKeysFromFile(absPath);
+    let data: any = await loadPublicKeysFromFile(absPath);
 
     // convert all loaded keyed values from PublicKeys to strings
     for (const [key, value] of Object.entries(data)) {
@@ -100,7 +112,7 @@ export function savePublicKeyToFile(
     });
 
     // reload the keys for sanity
-    data = loadPublicKeysFromFile(absPath);
+    data = await loadPublicKeysFromFile(absPath);
 
     return data;
   } catch (err) {
@@ -112,6 +124,7 @@ export function savePublicKeyToFile(
 
 /*
   Load a locally stored JSON keypair file and convert it to a valid Keypair
+  (supports both plaintext and passphrase-encrypted keypair files)
 */
 export function loadKeypairFromFile(absPath: string) {
   try {
@@ -119,9 +132,15 @@ export function loadKeypairFromFile(absPath: string) {
     if (!fs.existsSync(absPath)) throw Error("File does not exist.");
 
     // load the keypair from the file
-    const keyfileBytes = JSON.parse(fs.readFileSync(absPath, { encoding: "utf-8" }));
+    const keyfileData = JSON.parse(fs.readFileSync(absPath, { encoding: "utf-8" }));
+
+    // decrypt the secretKey of encrypted keypair files
+    const secretKey = isEncryptedKeystore(keyfileData)
+      ? decryptSecretKey(keyfileData, getKeystorePassphrase())
+      : new Uint8Array(keyfileData);
+
     // parse the loaded secretKey into a valid keypair
-    const keypair = Keypair.fromSecretKey(new Uint8Array(keyfileBytes));
+    const keypair = Keypair.fromSecretKey(secretKey);
     return keypair;
   } catch (err) {
     // return false;
@@ -131,11 +150,15 @@ export function loadKeypairFromFile(absPath: string) {
 
 /*
   Save a locally stored JSON keypair file for later importing
+  ---
+  when `encrypt` is enabled (the default when `ENCRYPT_LOCAL_KEYS=true`), the keypair is saved
+  using the passphrase-encrypted keystore format
 */
 export function saveKeypairToFile(
   keypair: Keypair,
   fileName: string,
   dirName: string = DEFAULT_KEY_DIR_NAME,
+  encrypt: boolean = process.env.ENCRYPT_LOCAL_KEYS === "true",
 ) {
   fileName = path.join(dirName, `${fileName}.json`);
 
@@ -145,8 +168,20 @@ export function saveKeypairToFile(
   // remove the current file, if it already exists
   if (fs.existsSync(fileName)) fs.unlinkSync(fileName);
 
-  // write the `secretKey` value as a string
-  fs.writeFileSync(fileName, `[${keypair.secretKey.toString()}]`, {
+  // write the `secretKey` value as a string, or as an encrypted keystore
+  const contents = encrypt
+    ? JSON.stringify(
+        encryptSecretKey(
+          keypair.secretKey,
+          keypair.publicKey.toBase58(),
+          getKeystorePassphrase(true),
+        ),
+        null,
+        2,
+      )
+    : `[${keypair.secretKey.toString()}]`;
+
+  fs.writeFileSync(fileName, contents, {
     encoding: "utf-8",
   });
 
@@ -175,31 +210,47 @@ export function loadOrGenerateKeypair(fileName: string, dirName: string = DEFAUL
 }
 
 /*
-  Compute the Solana explorer address for the various data
+  Compute the explorer address for the various data
+  ---
+  links follow the active cluster (see `lib/cluster.ts`), where localnet and custom clusters link
+  to the explorer with a `customUrl` of their RPC endpoint. Set the `EXPLORER` env variable to
+  `solscan` to use an alternative explorer
 */
 export function explorerURL({
   address,
   txSignature,
-  cluster,
+  cluster = CLUSTER.name,
+  customUrl,
 }: {
   address?: string;
   txSignature?: string;
-  cluster?: "devnet" | "testnet" | "mainnet" | "mainnet-beta";
+  cluster?: "devnet" | "testnet" | "mainnet" | "mainnet-beta" | ClusterName;
+  // the RPC endpoint of a localnet or custom cluster (defaults to the active cluster's)
+  customUrl?: string;
 }) {
+  const explorer = EXPLORERS[process.env.EXPLORER || "solana"];
+  if (!explorer) throw Error(`Unknown explorer: use one of ${Object.keys(EXPLORERS).join(", ")}`);
+
   let baseUrl: string;
   //
-  if (address) baseUrl = `https://explorer.solana.com/address/${address}`;
-  else if (txSignature) baseUrl = `https://explorer.solana.com/tx/${txSignature}`;
+  if (address) baseUrl = `${explorer}/address/${address}`;
+  else if (txSignature) baseUrl = `${explorer}/tx/${txSignature}`;
   else return "[unknown]";
 
   // auto append the desired search params
   const url = new URL(baseUrl);
-  url.searchParams.append("cluster", cluster || "devnet");
+  if (cluster === "localnet" || cluster === "custom") {
+    url.searchParams.append("cluster", "custom");
+    url.searchParams.append("customUrl", customUrl ?? CLUSTER.rpcUrl);
+  } else if (cluster !== "mainnet" && cluster !== "mainnet-beta") {
+    url.searchParams.append("cluster", cluster);
+  }
   return url.toString() + "\n";
 }
 
 /**
- * Auto airdrop the given wallet of of a balance of < 0.5 SOL
+ * Auto airdrop the given wallet when its balance is low, using the active cluster's airdrop
+ * settings (local validators allow much larger airdrops than devnet)
  */
 export async function airdropOnLowBalance(
   connection: Connection,
@@ -209,20 +260,25 @@ export async function airdropOnLowBalance(
   // get the current balance
   let balance = await connection.getBalance(keypair.publicKey);
 
-  // define the low balance threshold before airdrop
-  const MIN_BALANCE_TO_AIRDROP = LAMPORTS_PER_SOL / 2; // current: 0.5 SOL
-
-  // check the balance of the two accounts, airdrop when low
-  if (forceAirdrop === true || balance < MIN_BALANCE_TO_AIRDROP) {
-    console.log(`Requesting airdrop of 1 SOL to ${keypair.publicKey.toBase58()}...`);
-    await connection.requestAirdrop(keypair.publicKey, LAMPORTS_PER_SOL).then(sig => {
-      console.log("Tx signature:", sig);
-      // balance = balance + LAMPORTS_PER_SOL;
-    });
+  // check the balance of the account, airdrop when low
+  if (forceAirdrop === true || balance < CLUSTER.minBalance) {
+    if (!CLUSTER.airdropAmount) {
+      console.warn(`Airdrops are not available on the ${CLUSTER.name} cluster, please fund:`);
+      console.warn(keypair.publicKey.toBase58());
+      return balance;
+    }
 
-    // fetch the new balance
-    // const newBalance = await connection.getBalance(keypair.publicKey);
-    // return newBalance;
+    console.log(
+      `Requesting airdrop of ${
+        CLUSTER.airdropAmount / LAMPORTS_PER_SOL
+      } SOL to ${keypair.publicKey.toBase58()}...`,
+    );
+    const sig = await connection.requestAirdrop(keypair.publicKey, CLUSTER.airdropAmount);
+    console.log("Tx signature:", sig);
+
+    // wait for the airdrop, so the lamports can be used right away
+    await connection.confirmTransaction(sig);
+    balance = await connection.getBalance(keypair.publicKey);
   }
   // else console.log("Balance of:", balance / LAMPORTS_PER_SOL, "SOL");
 
@@ -230,51 +286,16 @@ export async function airdropOnLowBalance(
 }
 
 /*
-  Helper function to extract a transaction signature from a failed transaction's error message
+  Standard number formatter (token amounts are formatted exactly, see `lib/amount.ts`)
 */
-export async function extractSignatureFromFailedTransaction(
-  connection: Connection,
-  err: any,
-  fetchLogs?: boolean,
-) {
-  if (err?.signature) return err.signature;
-
-  // extract the failed transaction's signature
-  const failedSig = new RegExp(/^((.*)?Error: )?(Transaction|Signature) ([A-Z0-9]{32,}) /gim).exec(
-    err?.message?.toString(),
-  )?.[4];
-
-  // ensure a signature was found
-  if (failedSig) {
-    // when desired, attempt to fetch the program logs from the cluster
-    if (fetchLogs)
-      await connection
-        .getTransaction(failedSig, {
-          maxSupportedTransactionVersion: 0,
-        })
-        .then(tx => {
-          console.log(`\n==== Transaction logs for ${failedSig} ====`);
-          console.log(explorerURL({ txSignature: failedSig }), "");
-          console.log(tx?.meta?.logMessages ?? "No log messages provided by RPC");
-          console.log(`==== END LOGS ====\n`);
-        });
-    else {
-      console.log("\n========================================");
-      console.log(explorerURL({ txSignature: failedSig }));
-      console.log("========================================\n");
-    }
-  }
+export function numberFormatter(num: number | TokenAmount, forceDecimals = false) {
+  const isTokenAmount = num instanceof TokenAmount;
+  const isBelowOne = isTokenAmount ? num.lt(TokenAmount.fromDecimal(1, num.decimals)) : num < 1;
 
-  // always return the failed signature value
-  return failedSig;
-}
-
-/*
-  Standard number formatter
-*/
-export function numberFormatter(num: number, forceDecimals = false) {
   // set the significant figures
-  const minimumFractionDigits = num < 1 || forceDecimals ? 10 : 2;
+  const minimumFractionDigits = isBelowOne || forceDecimals ? 10 : 2;
+
+  if (isTokenAmount) return num.toLocaleString(undefined, { minimumFractionDigits });
 
   // do the formatting
   return new Intl.NumberFormat(undefined, {
@@ -0,0 +1,160 @@
+/**
+ * Passphrase-encrypted keystore format for locally stored keypairs
+ * ---
+ * the secret key is encrypted with AES-256-GCM, using a key derived from the passphrase with scrypt
+ */
+
+import fs from "fs";
+import { execSync } from "child_process";
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+
+// env variable used to provide the passphrase without being prompted
+export const KEYSTORE_PASSPHRASE_ENV = "LOCAL_KEYSTORE_PASSPHRASE";
+
+// scrypt cost parameters (the derivation uses ~32MB of memory)
+const SCRYPT_N = 2 ** 15;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 32;
+
+export type EncryptedKeystore = {
+  version: 1;
+  // the public key is stored in the clear, so the file can be identified without the passphrase
+  publicKey: string;
+  kdf: "scrypt";
+  kdfparams: { n: number; r: number; p: number; salt: string };
+  cipher: "aes-256-gcm";
+  iv: string;
+  tag: string;
+  ciphertext: string;
+};
+
+/*
+  Check if some parsed keypair file data is in the encrypted keystore format
+*/
+export function isEncryptedKeystore(data: any): data is EncryptedKeystore {
+  return data?.version === 1 && data?.kdf === "scrypt" && data?.cipher === "aes-256-gcm";
+}
+
+/*
+  Derive the encryption key from a passphrase
+*/
+function deriveKey(passphrase: string, params: EncryptedKeystore["kdfparams"]) {
+  return scryptSync(passphrase, Buffer.from(params.salt, "base64"), KEY_LENGTH, {
+    N: params.n,
+    r: params.r,
+    p: params.p,
+    maxmem: 256 * params.n * params.r,
+  });
+}
+
+/*
+  Encrypt a secret key into the keystore format
+*/
+export function encryptSecretKey(
+  secretKey: Uint8Array,
+  publicKey: string,
+  passphrase: string,
+): EncryptedKeystore {
+  const kdfparams = {
+    n: SCRYPT_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+    salt: randomBytes(16).toString("base64"),
+  };
+  const iv = randomBytes(12);
+
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(passphrase, kdfparams), iv);
+  // bind the public key to the ciphertext, so it cannot be swapped out
+  cipher.setAAD(Buffer.from(publicKey));
+  const ciphertext = Buffer.concat([cipher.update(secretKey), cipher.final()]);
+
+  return {
+    version: 1,
+    publicKey,
+    kdf: "scrypt",
+    kdfparams,
+    cipher: "aes-256-gcm",
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    ciphertext: ciphertext.toString("base64"),
+  };
+}
+
+/*
+  Decrypt the secret key from the keystore format
+*/
+export function decryptSecretKey(keystore: EncryptedKeystore, passphrase: string): Uint8Array {
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    deriveKey(passphrase, keystore.kdfparams),
+    Buffer.from(keystore.iv, "base64"),
+  );
+  decipher.setAAD(Buffer.from(keystore.publicKey));
+  decipher.setAuthTag(Buffer.from(keystore.tag, "base64"));
+
+  try {
+    return new Uint8Array(
+      Buffer.concat([
+        decipher.update(Buffer.from(keystore.ciphertext, "base64")),
+        decipher.final(),
+      ]),
+    );
+  } catch (err) {
+    throw Error(`Unable to decrypt keypair ${keystore.publicKey}: incorrect passphrase`);
+  }
+}
+
+/*
+  Synchronously prompt for a line of input on the terminal, hiding the typed characters when possible
+*/
+function promptHidden(question: string) {
+  process.stdout.write(question);
+
+  let hidden = false;
+  try {
+    execSync("stty -echo", { stdio: "inherit" });
+    hidden = true;
+  } catch (err) {
+    // not supported on this terminal, the input will be visible
+  }
+
+  const bytes: number[] = [];
+  const buffer = Buffer.alloc(1);
+  try {
+    while (fs.readSync(0, buffer, 0, 1, null) === 1 && buffer[0] !== 0x0a) {
+      if (buffer[0] !== 0x0d) bytes.push(buffer[0]);
+    }
+  } finally {
+    if (hidden) execSync("stty echo", { stdio: "inherit" });
+    process.stdout.write("\n");
+  }
+
+  return Buffer.from(bytes).toString("utf-8");
+}
+
+// only ask for the passphrase once per process
+let cachedPassphrase: string | undefined;
+
+/**
+ * Get the keystore passphrase from the `LOCAL_KEYSTORE_PASSPHRASE` env variable,
+ * or prompt for it on the terminal
+ */
+export function getKeystorePassphrase(confirm: boolean = false) {
+  if (process.env[KEYSTORE_PASSPHRASE_ENV]) return process.env[KEYSTORE_PASSPHRASE_ENV] as string;
+  if (cachedPassphrase !== undefined) return cachedPassphrase;
+
+  if (!process.stdin.isTTY)
+    throw Error(
+      `No keystore passphrase available, set the ${KEYSTORE_PASSPHRASE_ENV} env variable`,
+    );
+
+  const passphrase = promptHidden("Keystore passphrase: ");
+  if (!passphrase) throw Error("The keystore passphrase cannot be empty");
+
+  if (confirm && promptHidden("Confirm passphrase: ") !== passphrase)
+    throw Error("The passphrases do not match");
+
+  cachedPassphrase = passphrase;
+  return passphrase;
+}
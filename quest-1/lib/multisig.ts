@@ -0,0 +1,326 @@
+/**
+ * Helpers for SPL token multisig authorities, and for transactions signed by multiple people
+ * ---
+ * a multisig authority requires M of its N signers to sign every instruction it authorizes. Since
+ * the signers may not all be in the same place, a partially signed transaction can be saved to a
+ * file, passed from signer to signer, and sent once it has every required signature. These
+ * transactions use a durable nonce instead of a recent blockhash, so they do not expire while
+ * being passed around
+ *
+ * each signer checks what they are signing by decoding the transaction's instructions, rather than
+ * trusting a description written by whoever proposed it
+ */
+
+import fs from "fs";
+import {
+  Connection,
+  Keypair,
+  NONCE_ACCOUNT_LENGTH,
+  NonceAccount,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  MULTISIG_SIZE,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenInstruction,
+  createInitializeMultisigInstruction,
+  decodeInstruction,
+  getAssociatedTokenAddressSync,
+  isMintToInstruction,
+} from "@solana/spl-token";
+import { loadKeypairFromFile } from "./helpers";
+
+// the most signers an SPL multisig can have
+export const MAX_MULTISIG_SIGNERS = 11;
+
+/**
+ * A multisig signer, either loaded from a local keypair file or only known by its address
+ */
+export type MultisigSigner = {
+  publicKey: PublicKey;
+  keypair?: Keypair;
+};
+
+/**
+ * The contents of a partially signed transaction file
+ */
+export type PartialTransactionFile = {
+  // the base64 encoded, partially signed transaction
+  transaction: string;
+};
+
+/**
+ * One of a transaction's instructions, decoded from its program, accounts and data
+ */
+export type DecodedInstructionSummary = {
+  // what the instruction does, like "Mint tokens"
+  name: string;
+  // the instruction's accounts and arguments, as `[label, value]` pairs
+  fields: [string, string][];
+  // `false` when the instruction is not one this flow ever builds, so it cannot be checked
+  recognized: boolean;
+};
+
+/**
+ * Load a list of multisig signers, where each entry is either the path to a keypair file
+ * (which can then sign) or the base58 address of a signer who will sign elsewhere
+ */
+export function loadMultisigSigners(entries: string[]): MultisigSigner[] {
+  return entries.map(entry => {
+    if (fs.existsSync(entry)) {
+      const keypair = loadKeypairFromFile(entry);
+      return { publicKey: keypair.publicKey, keypair };
+    }
+
+    try {
+      return { publicKey: new PublicKey(entry) };
+    } catch (err) {
+      throw Error(`Not a keypair file or a valid address: ${entry}`);
+    }
+  });
+}
+
+/**
+ * Build the instructions to create and initialize an M-of-N multisig account
+ */
+export async function buildCreateMultisigInstructions({
+  connection,
+  payer,
+  multisig,
+  signers,
+  threshold,
+  programId = TOKEN_PROGRAM_ID,
+}: {
+  connection: Connection;
+  payer: PublicKey;
+  multisig: PublicKey;
+  signers: PublicKey[];
+  threshold: number;
+  programId?: PublicKey;
+}): Promise<TransactionInstruction[]> {
+  if (signers.length < 1 || signers.length > MAX_MULTISIG_SIGNERS)
+    throw Error(`A multisig must have between 1 and ${MAX_MULTISIG_SIGNERS} signers`);
+  if (threshold < 1 || threshold > signers.length)
+    throw Error(`The threshold must be between 1 and the number of signers (${signers.length})`);
+
+  return [
+    SystemProgram.createAccount({
+      fromPubkey: payer,
+      newAccountPubkey: multisig,
+      space: MULTISIG_SIZE,
+      lamports: await connection.getMinimumBalanceForRentExemption(MULTISIG_SIZE),
+      programId,
+    }),
+    createInitializeMultisigInstruction(multisig, signers, threshold, programId),
+  ];
+}
+
+/**
+ * Build the instructions to create a durable nonce account, used in place of a recent blockhash
+ * by transactions that take a while to be fully signed
+ */
+export async function buildCreateNonceAccountInstructions({
+  connection,
+  payer,
+  nonceAccount,
+  authority = payer,
+}: {
+  connection: Connection;
+  payer: PublicKey;
+  nonceAccount: PublicKey;
+  authority?: PublicKey;
+}): Promise<TransactionInstruction[]> {
+  return SystemProgram.createNonceAccount({
+    fromPubkey: payer,
+    noncePubkey: nonceAccount,
+    authorizedPubkey: authority,
+    lamports: await connection.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH),
+  }).instructions;
+}
+
+/**
+ * Build a transaction using a durable nonce (instead of a recent blockhash), so it can be
+ * signed by each signer over any period of time
+ * ---
+ * note: the nonce authority must also sign the transaction
+ */
+export async function buildDurableNonceTransaction({
+  connection,
+  feePayer,
+  nonceAccount,
+  nonceAuthority = feePayer,
+  instructions,
+}: {
+  connection: Connection;
+  feePayer: PublicKey;
+  nonceAccount: PublicKey;
+  nonceAuthority?: PublicKey;
+  instructions: TransactionInstruction[];
+}) {
+  const accountInfo = await connection.getAccountInfo(nonceAccount);
+  if (!accountInfo) throw Error(`Nonce account not found: ${nonceAccount.toBase58()}`);
+
+  const { nonce } = NonceAccount.fromAccountData(accountInfo.data);
+
+  const transaction = new Transaction({ feePayer, recentBlockhash: nonce });
+
+  // advancing the nonce must be the first instruction, so the transaction can only land once
+  transaction.add(
+    SystemProgram.nonceAdvance({ noncePubkey: nonceAccount, authorizedPubkey: nonceAuthority }),
+    ...instructions,
+  );
+
+  return transaction;
+}
+
+/*
+  Decode a single instruction, given the owners of the token accounts created within the same
+  transaction
+*/
+function decodeInstructionSummary(
+  instruction: TransactionInstruction,
+  nonceValue: string | undefined,
+  tokenAccountOwners: Map<string, PublicKey>,
+): DecodedInstructionSummary {
+  const { programId, keys } = instruction;
+
+  if (programId.equals(SystemProgram.programId)) {
+    const type = SystemInstruction.decodeInstructionType(instruction);
+    if (type !== "AdvanceNonceAccount")
+      return { name: `System program: ${type}`, fields: [], recognized: false };
+
+    const { noncePubkey, authorizedPubkey } = SystemInstruction.decodeNonceAdvance(instruction);
+    return {
+      name: "Advance the durable nonce",
+      fields: [
+        ["Nonce account", noncePubkey.toBase58()],
+        ["Nonce authority", authorizedPubkey.toBase58()],
+        ["Nonce value", nonceValue ?? "(none)"],
+      ],
+      recognized: true,
+    };
+  }
+
+  // `createAssociatedTokenAccountIdempotent` (or its non-idempotent version)
+  if (programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID) && keys.length >= 6) {
+    const [payer, account, owner, mint, , tokenProgram] = keys.map(meta => meta.pubkey);
+    const recognized =
+      instruction.data.length <= 1 &&
+      account.equals(getAssociatedTokenAddressSync(mint, owner, true, tokenProgram));
+
+    return {
+      name: "Create an associated token account",
+      fields: [
+        ["Account", account.toBase58()],
+        ["Owner", owner.toBase58()],
+        ["Mint", mint.toBase58()],
+        ["Rent payer", payer.toBase58()],
+      ],
+      recognized,
+    };
+  }
+
+  if (programId.equals(TOKEN_PROGRAM_ID) || programId.equals(TOKEN_2022_PROGRAM_ID)) {
+    try {
+      const decoded = decodeInstruction(instruction, programId);
+      if (!isMintToInstruction(decoded))
+        return {
+          name: `Token program: ${TokenInstruction[decoded.data.instruction]}`,
+          fields: [],
+          recognized: false,
+        };
+
+      const { mint, destination, authority, multiSigners } = decoded.keys;
+      const owner = tokenAccountOwners.get(destination.pubkey.toBase58());
+      return {
+        name: "Mint tokens",
+        fields: [
+          ["Mint", mint.pubkey.toBase58()],
+          ["Amount (base units)", decoded.data.amount.toString()],
+          ["Destination", destination.pubkey.toBase58()],
+          ["Destination owner", owner?.toBase58() ?? "(unknown, check the account before signing)"],
+          ["Mint authority", authority.pubkey.toBase58()],
+          ["Multisig signers", multiSigners.map(meta => meta.pubkey.toBase58()).join(", ")],
+        ],
+        recognized: true,
+      };
+    } catch (err) {
+      // not a valid token program instruction
+    }
+  }
+
+  return { name: `Unknown instruction for ${programId.toBase58()}`, fields: [], recognized: false };
+}
+
+/**
+ * Decode every instruction of a partially signed transaction, to check what it does before
+ * signing it
+ */
+export function decodePartialTransaction(transaction: Transaction): DecodedInstructionSummary[] {
+  // the owners of the associated token accounts created by the transaction, by address
+  const tokenAccountOwners = new Map<string, PublicKey>();
+  for (const { programId, keys } of transaction.instructions) {
+    if (programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID) && keys.length >= 6)
+      tokenAccountOwners.set(keys[1].pubkey.toBase58(), keys[2].pubkey);
+  }
+
+  return transaction.instructions.map(instruction =>
+    decodeInstructionSummary(instruction, transaction.recentBlockhash, tokenAccountOwners),
+  );
+}
+
+/**
+ * Get the addresses that must still sign a partially signed transaction
+ */
+export function getMissingSigners(transaction: Transaction) {
+  return transaction.signatures
+    .filter(({ signature }) => !signature)
+    .map(({ publicKey }) => publicKey);
+}
+
+/**
+ * Add the signatures of the given keypairs to a partially signed transaction
+ * (every keypair must be one of the transaction's required signers)
+ */
+export function addPartialSignatures(transaction: Transaction, keypairs: Keypair[]) {
+  const required = transaction.signatures.map(({ publicKey }) => publicKey.toBase58());
+
+  for (const keypair of keypairs) {
+    if (!required.includes(keypair.publicKey.toBase58()))
+      throw Error(`${keypair.publicKey.toBase58()} is not a signer of this transaction`);
+  }
+
+  if (keypairs.length) transaction.partialSign(...keypairs);
+
+  return transaction;
+}
+
+/**
+ * Save a partially signed transaction to a file, to be passed on to the next signer
+ */
+export function savePartialTransaction(filePath: string, transaction: Transaction) {
+  const data: PartialTransactionFile = {
+    transaction: transaction
+      .serialize({ requireAllSignatures: false, verifySignatures: true })
+      .toString("base64"),
+  };
+
+  fs.writeFileSync(filePath, JSON.stringify(data, null, 2), { encoding: "utf-8" });
+}
+
+/**
+ * Load a partially signed transaction from a file
+ */
+export function loadPartialTransaction(filePath: string) {
+  if (!fs.existsSync(filePath)) throw Error(`Transaction file does not exist: ${filePath}`);
+
+  const data: PartialTransactionFile = JSON.parse(fs.readFileSync(filePath, { encoding: "utf-8" }));
+
+  return Transaction.from(Buffer.from(data.transaction, "base64"));
+}
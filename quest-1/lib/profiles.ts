@@ -0,0 +1,173 @@
+/**
+ * Cluster-namespaced storage for the locally saved keys and demo data
+ * ---
+ * each cluster (identified by its genesis hash) has its own set of named profiles, stored as:
+ * `.local_keys/profiles/<genesis hash>/<profile name>/`
+ *
+ * the profile used by the scripts is selected with the `KEY_PROFILE` env variable
+ */
+
+import fs from "fs";
+import path from "path";
+import { connection, CLUSTER_URL } from "./cluster";
+
+// define some default locations
+const PROFILES_DIR = path.join(".local_keys", "profiles");
+const CLUSTER_INFO_FILE = "cluster.json";
+
+export const DEFAULT_PROFILE = "default";
+
+// the genesis hashes of the public clusters, used to label their profiles
+const KNOWN_CLUSTERS: { [genesisHash: string]: string } = {
+  "5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d": "mainnet-beta",
+  EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG: "devnet",
+  "4uhcVJyU9pJkvQyS88uRDiswHXSCkY3zQawwpjk2NsNY": "testnet",
+};
+
+export type ProfileExport = {
+  genesisHash: string;
+  cluster: string;
+  profile: string;
+  files: { [fileName: string]: any };
+};
+
+/**
+ * Check a profile name is safe to use as a directory name within the profile store
+ * (e.g. rejecting `../..`), and return it
+ */
+export function validateProfileName(profile: string) {
+  if (typeof profile !== "string" || !/^[\w-]+$/.test(profile))
+    throw Error(`Invalid profile name "${profile}": only letters, numbers, "_" and "-" allowed`);
+
+  return profile;
+}
+
+/*
+  Get the name of the profile selected with the `KEY_PROFILE` env variable
+*/
+export function getActiveProfile() {
+  return validateProfileName(process.env.KEY_PROFILE || DEFAULT_PROFILE);
+}
+
+// only fetch the genesis hash once per process
+let genesisHash: Promise<string> | undefined;
+
+/*
+  Get the genesis hash of the cluster the `connection` is using, which uniquely identifies it
+  (and changes every time a local test validator is reset)
+*/
+export function getClusterGenesisHash() {
+  genesisHash ??= connection.getGenesisHash();
+  return genesisHash;
+}
+
+/*
+  Get a human readable label for a cluster's genesis hash
+*/
+export function getClusterLabel(hash: string) {
+  return KNOWN_CLUSTERS[hash] ?? "custom";
+}
+
+/**
+ * Get the storage directory for a profile on the current cluster, creating it when needed
+ */
+export async function getProfileDir(profile: string = getActiveProfile()) {
+  const hash = await getClusterGenesisHash();
+  const clusterDir = path.join(PROFILES_DIR, hash);
+  const profileDir = path.join(clusterDir, validateProfileName(profile));
+
+  if (!fs.existsSync(profileDir)) fs.mkdirSync(profileDir, { recursive: true });
+
+  // record which cluster these profiles belong to, for listing them later
+  fs.writeFileSync(
+    path.join(clusterDir, CLUSTER_INFO_FILE),
+    JSON.stringify({ genesisHash: hash, cluster: getClusterLabel(hash), lastRpcUrl: CLUSTER_URL }),
+    { encoding: "utf-8" },
+  );
+
+  return profileDir;
+}
+
+/**
+ * Get the path of a storage file within a profile on the current cluster
+ */
+export async function getProfileFilePath(fileName: string, profile: string = getActiveProfile()) {
+  return path.join(await getProfileDir(profile), fileName);
+}
+
+/**
+ * List every locally stored profile, for every cluster
+ */
+export function listProfiles() {
+  if (!fs.existsSync(PROFILES_DIR)) return [];
+
+  return fs.readdirSync(PROFILES_DIR).flatMap(hash => {
+    const clusterDir = path.join(PROFILES_DIR, hash);
+    if (!fs.statSync(clusterDir).isDirectory()) return [];
+
+    let lastRpcUrl = "";
+    try {
+      lastRpcUrl = JSON.parse(
+        fs.readFileSync(path.join(clusterDir, CLUSTER_INFO_FILE), { encoding: "utf-8" }),
+      ).lastRpcUrl;
+    } catch (err) {
+      // the cluster info is only informational
+    }
+
+    return fs
+      .readdirSync(clusterDir)
+      .filter(profile => fs.statSync(path.join(clusterDir, profile)).isDirectory())
+      .map(profile => ({
+        genesisHash: hash,
+        cluster: getClusterLabel(hash),
+        lastRpcUrl,
+        profile,
+        files: fs.readdirSync(path.join(clusterDir, profile)),
+      }));
+  });
+}
+
+/**
+ * Export all of a profile's storage files (on the current cluster) into a single object
+ */
+export async function exportProfile(profile: string = getActiveProfile()): Promise<ProfileExport> {
+  const hash = await getClusterGenesisHash();
+  const profileDir = await getProfileDir(profile);
+
+  const files: ProfileExport["files"] = {};
+  for (const fileName of fs.readdirSync(profileDir)) {
+    if (!fileName.endsWith(".json")) continue;
+    files[fileName] = JSON.parse(
+      fs.readFileSync(path.join(profileDir, fileName), { encoding: "utf-8" }),
+    );
+  }
+
+  return { genesisHash: hash, cluster: getClusterLabel(hash), profile, files };
+}
+
+/**
+ * Import a previously exported profile into a profile on the current cluster,
+ * overwriting any of the profile's files with the same name
+ * (profiles exported from a different cluster are rejected, unless `force` is set)
+ */
+export async function importProfile(
+  data: ProfileExport,
+  profile: string = data.profile,
+  force: boolean = false,
+) {
+  const hash = await getClusterGenesisHash();
+  if (data.genesisHash !== hash && !force)
+    throw Error(
+      `The profile was exported from the ${data.cluster} cluster (${data.genesisHash}), ` +
+        `but the current cluster is ${getClusterLabel(hash)} (${hash})`,
+    );
+
+  const profileDir = await getProfileDir(profile);
+  for (const [fileName, contents] of Object.entries(data.files ?? {})) {
+    fs.writeFileSync(path.join(profileDir, path.basename(fileName)), JSON.stringify(contents), {
+      encoding: "utf-8",
+    });
+  }
+
+  return profileDir;
+}
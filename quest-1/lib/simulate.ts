@@ -0,0 +1,200 @@
+/**
+ * Simulate transactions instead of sending them, to explain what a transaction would do without
+ * spending any SOL
+ * ---
+ * the simulation reports the compute units consumed, the program logs, and how the SOL and token
+ * balances of every account involved in the transaction would change. Enable it for any script
+ * with the `--simulate` flag or `SIMULATE=true` (see `SIMULATE` in `lib/vars.ts`)
+ */
+
+import {
+  AccountInfo,
+  AddressLookupTableAccount,
+  Connection,
+  LAMPORTS_PER_SOL,
+  PublicKey,
+  Transaction,
+  TransactionError,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID, unpackAccount } from "@solana/spl-token";
+
+export type SolBalanceChange = {
+  address: PublicKey;
+  before: number;
+  after: number;
+};
+
+export type TokenBalanceChange = {
+  address: PublicKey;
+  mint: PublicKey;
+  owner: PublicKey;
+  before: bigint;
+  after: bigint;
+};
+
+export type SimulationResult = {
+  err: TransactionError | string | null;
+  logs: string[];
+  unitsConsumed?: number;
+  // the fee the transaction would pay, in lamports
+  fee: number | null;
+  solChanges: SolBalanceChange[];
+  tokenChanges: TokenBalanceChange[];
+};
+
+/**
+ * Error thrown when a simulated transaction would fail
+ */
+export class SimulationFailedError extends Error {
+  constructor(public err: TransactionError | string, public logs: string[] = []) {
+    super(`Transaction simulation failed: ${JSON.stringify(err)}`);
+    this.name = "SimulationFailedError";
+  }
+}
+
+/*
+  Get the token balance of an account, when it is a token account
+*/
+function getTokenBalance(address: PublicKey, info: AccountInfo<Buffer> | null) {
+  if (!info || !(info.owner.equals(TOKEN_PROGRAM_ID) || info.owner.equals(TOKEN_2022_PROGRAM_ID)))
+    return null;
+
+  try {
+    return unpackAccount(address, info, info.owner);
+  } catch (err) {
+    // mints and multisigs are also owned by the token programs
+    return null;
+  }
+}
+
+/**
+ * Simulate a transaction, comparing every involved account's balances before and after it
+ * ---
+ * the transaction does not need to be signed, since the signatures are not verified
+ */
+export async function simulateTransaction(
+  connection: Connection,
+  transaction: VersionedTransaction | Transaction,
+  lookupTables: AddressLookupTableAccount[] = [],
+): Promise<SimulationResult> {
+  // legacy transactions (like the ones built by Metaplex) are converted to versioned ones
+  const tx =
+    transaction instanceof VersionedTransaction
+      ? transaction
+      : new VersionedTransaction(transaction.compileMessage());
+
+  const addresses = tx.message
+    .getAccountKeys({ addressLookupTableAccounts: lookupTables })
+    .keySegments()
+    .flat();
+
+  const before = await connection.getMultipleAccountsInfo(addresses);
+  const { value } = await connection.simulateTransaction(tx, {
+    sigVerify: false,
+    replaceRecentBlockhash: true,
+    accounts: { encoding: "base64", addresses: addresses.map(key => key.toBase58()) },
+  });
+  const fee = await connection.getFeeForMessage(tx.message).then(res => res.value);
+
+  const after: (AccountInfo<Buffer> | null)[] = (value.accounts ?? []).map(account =>
+    account
+      ? {
+          ...account,
+          owner: new PublicKey(account.owner),
+          data: Buffer.from(account.data[0], "base64"),
+        }
+      : null,
+  );
+
+  const solChanges: SolBalanceChange[] = [];
+  const tokenChanges: TokenBalanceChange[] = [];
+
+  // failed transactions do not change any balances
+  if (!value.err) {
+    addresses.forEach((address, i) => {
+      const lamportsBefore = before[i]?.lamports ?? 0;
+      const lamportsAfter = after[i]?.lamports ?? 0;
+      if (lamportsBefore !== lamportsAfter)
+        solChanges.push({ address, before: lamportsBefore, after: lamportsAfter });
+
+      const tokensBefore = getTokenBalance(address, before[i]);
+      const tokensAfter = getTokenBalance(address, after[i]);
+      const tokenAccount = tokensAfter ?? tokensBefore;
+      if (tokenAccount && (tokensBefore?.amount ?? 0n) !== (tokensAfter?.amount ?? 0n))
+        tokenChanges.push({
+          address,
+          mint: tokenAccount.mint,
+          owner: tokenAccount.owner,
+          before: tokensBefore?.amount ?? 0n,
+          after: tokensAfter?.amount ?? 0n,
+        });
+    });
+  }
+
+  return {
+    err: value.err,
+    logs: value.logs ?? [],
+    unitsConsumed: value.unitsConsumed,
+    fee,
+    solChanges,
+    tokenChanges,
+  };
+}
+
+/*
+  Format a signed change in a balance
+*/
+function formatDelta(delta: number | bigint) {
+  return delta > 0 ? `+${delta}` : delta.toString();
+}
+
+/**
+ * Print the results of a simulated transaction
+ */
+export function printSimulationResult(result: SimulationResult) {
+  console.log("🧪 Simulation Results (no transaction was sent):");
+  console.log(
+    "   Result:",
+    result.err ? `❌ would fail: ${JSON.stringify(result.err)}` : "✅ success",
+  );
+  console.log("   Compute units consumed:", result.unitsConsumed ?? "unknown");
+  console.log("   Fee (in lamports):", result.fee ?? "unknown");
+
+  console.log("📜 Program logs:");
+  result.logs.forEach(log => console.log("   ", log));
+
+  if (result.err) return;
+
+  console.log("💰 SOL balance changes:");
+  if (!result.solChanges.length) console.log("   none");
+  result.solChanges.forEach(({ address, before, after }) =>
+    console.log(
+      `   ${address.toBase58()}: ${before / LAMPORTS_PER_SOL} → ${after / LAMPORTS_PER_SOL} SOL`,
+      `(${formatDelta(after - before)} lamports)`,
+    ),
+  );
+
+  console.log("🪙 Token balance changes:");
+  if (!result.tokenChanges.length) console.log("   none");
+  result.tokenChanges.forEach(({ address, mint, owner, before, after }) => {
+    console.log(`   ${address.toBase58()}: ${before} → ${after} (${formatDelta(after - before)})`);
+    console.log(`      mint: ${mint.toBase58()}, owner: ${owner.toBase58()}`);
+  });
+}
+
+/**
+ * Simulate a transaction and print the results, throwing when the transaction would fail
+ */
+export async function simulateAndPrintTransaction(
+  connection: Connection,
+  transaction: VersionedTransaction | Transaction,
+  lookupTables?: AddressLookupTableAccount[],
+) {
+  const result = await simulateTransaction(connection, transaction, lookupTables);
+  printSimulationResult(result);
+
+  if (result.err) throw new SimulationFailedError(result.err, result.logs);
+
+  return result;
+}
@@ -0,0 +1,181 @@
+/**
+ * A Metaplex storage driver that stores uploaded files within a local directory
+ * ---
+ * files are named by the hash of their content, so uploading the same image or JSON metadata
+ * twice always results in the same URI (and the same file on disk). The directory is served by
+ * a small built-in HTTP server (see `12.serveLocalStorage.ts`), so the URIs can be fetched like
+ * any other storage provider's, entirely offline
+ */
+
+import fs from "fs";
+import http from "http";
+import path from "path";
+import crypto from "crypto";
+import { fileURLToPath } from "url";
+import {
+  AssetNotFoundError,
+  MetaplexFile,
+  MetaplexPlugin,
+  StorageDriver,
+  lamports,
+  toMetaplexFile,
+} from "@metaplex-foundation/js";
+
+// the default directory to store the uploaded files within
+const DEFAULT_STORAGE_DIR = path.resolve(".local_keys", "storage");
+
+// the default port the storage server listens on
+const DEFAULT_STORAGE_PORT = 7878;
+
+// the content types of the served files, by extension
+const CONTENT_TYPES: Record<string, string> = {
+  ".json": "application/json",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp",
+};
+
+export type LocalStorageOptions = {
+  // the directory to store the uploaded files within (defaults to `LOCAL_STORAGE_DIR`)
+  directory?: string;
+  // the URL the directory is served at (defaults to `LOCAL_STORAGE_URL`)
+  baseUrl?: string;
+};
+
+/**
+ * Get the hex encoded SHA-256 hash of the given content
+ */
+export function hashContent(content: Buffer | string) {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+/*
+  Resolve the storage options, falling back to the env variables and the defaults
+*/
+function resolveOptions(options?: LocalStorageOptions) {
+  const directory = path.resolve(
+    options?.directory ?? process.env.LOCAL_STORAGE_DIR ?? DEFAULT_STORAGE_DIR,
+  );
+  const baseUrl =
+    options?.baseUrl ?? process.env.LOCAL_STORAGE_URL ?? `http://localhost:${DEFAULT_STORAGE_PORT}`;
+
+  return { directory, baseUrl: baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/` };
+}
+
+export class LocalStorageDriver implements StorageDriver {
+  readonly directory: string;
+  readonly baseUrl: string;
+
+  constructor(options?: LocalStorageOptions) {
+    ({ directory: this.directory, baseUrl: this.baseUrl } = resolveOptions(options));
+    fs.mkdirSync(this.directory, { recursive: true });
+  }
+
+  /*
+    Get the name a file is stored as within the storage directory
+  */
+  protected getStoredFileName(file: MetaplexFile) {
+    const extension = file.extension ?? path.extname(file.fileName).slice(1);
+    return extension ? `${hashContent(file.buffer)}.${extension}` : hashContent(file.buffer);
+  }
+
+  /*
+    Get the local path of a stored file from its URI, when the URI belongs to this storage
+  */
+  protected getStoredFilePath(uri: string) {
+    if (uri.startsWith(this.baseUrl))
+      return path.join(this.directory, path.basename(uri.slice(this.baseUrl.length)));
+
+    // files uploaded before the storage was served over HTTP
+    if (uri.startsWith("file://")) return fileURLToPath(uri);
+  }
+
+  // storing files locally is free
+  async getUploadPrice() {
+    return lamports(0);
+  }
+
+  async upload(file: MetaplexFile) {
+    const fileName = this.getStoredFileName(file);
+    const filePath = path.join(this.directory, fileName);
+
+    // the file name is the hash of its content, so an existing file is already up to date
+    if (!fs.existsSync(filePath)) fs.writeFileSync(filePath, file.buffer);
+
+    return `${this.baseUrl}${fileName}`;
+  }
+
+  async download(uri: string) {
+    const filePath = this.getStoredFilePath(uri);
+
+    // files from any other storage provider are fetched as normal
+    if (!filePath) {
+      const response = await fetch(uri);
+      if (!response.ok) throw new AssetNotFoundError(uri);
+
+      return toMetaplexFile(Buffer.from(await response.arrayBuffer()), path.basename(uri));
+    }
+
+    if (!fs.existsSync(filePath)) throw new AssetNotFoundError(uri);
+
+    return toMetaplexFile(fs.readFileSync(filePath), path.basename(filePath));
+  }
+}
+
+/**
+ * Metaplex plugin to upload files to a local directory (instead of a remote storage provider)
+ */
+export const localStorage = (options?: LocalStorageOptions): MetaplexPlugin => ({
+  install(metaplex) {
+    metaplex.storage().setDriver(new LocalStorageDriver(options));
+  },
+});
+
+/**
+ * Start an HTTP server for the local storage directory, listening on the port of its `baseUrl`
+ * ---
+ * any origin can fetch the files, so web apps (like the quest-4 app) can load the metadata
+ */
+export function startLocalStorageServer(options?: LocalStorageOptions): Promise<http.Server> {
+  const { directory, baseUrl } = resolveOptions(options);
+  const url = new URL(baseUrl);
+
+  const server = http.createServer((req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+
+    // a malformed percent-encoding can't name a file, and must not take the server down
+    let requestPath: string;
+    try {
+      requestPath = decodeURIComponent(req.url?.split("?")[0] ?? "");
+    } catch {
+      res.writeHead(400).end("Bad request");
+      return;
+    }
+
+    // only the files directly within the directory are served (ignoring the null padding of URIs
+    // read from on-chain metadata)
+    const fileName = path.basename(requestPath).replace(/\0/g, "");
+    const filePath = path.join(directory, fileName);
+
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      res.writeHead(405).end();
+    } else if (!fileName || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+      res.writeHead(404).end("Not found");
+    } else {
+      res.writeHead(200, {
+        "Content-Type": CONTENT_TYPES[path.extname(fileName)] ?? "application/octet-stream",
+        "Cache-Control": "public, max-age=31536000, immutable",
+      });
+      if (req.method === "HEAD") res.end();
+      else fs.createReadStream(filePath).pipe(res);
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(Number(url.port || 80), url.hostname, () => resolve(server));
+  });
+}
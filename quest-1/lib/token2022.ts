@@ -0,0 +1,221 @@
+/**
+ * Helpers for Token-2022 mints with the metadata, transfer fee and permanent delegate extensions
+ * ---
+ * note: the installed `@solana/spl-token` version does not include the metadata pointer, token
+ * metadata or permanent delegate instructions yet, so they are built by hand here
+ */
+
+import crypto from "crypto";
+import { Connection, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import {
+  ACCOUNT_SIZE,
+  ACCOUNT_TYPE_SIZE,
+  ExtensionType,
+  LENGTH_SIZE,
+  MULTISIG_SIZE,
+  TOKEN_2022_PROGRAM_ID,
+  TYPE_SIZE,
+  getExtensionData,
+  getMint,
+} from "@solana/spl-token";
+
+// the extension types missing from the installed `ExtensionType` enum
+export const METADATA_POINTER_EXTENSION = 18 as ExtensionType;
+export const TOKEN_METADATA_EXTENSION = 19 as ExtensionType;
+
+// the size of each fixed size extension's data
+const EXTENSION_SIZES: Record<number, number> = {
+  [ExtensionType.TransferFeeConfig]: 108,
+  [ExtensionType.PermanentDelegate]: 32,
+  [METADATA_POINTER_EXTENSION]: 64,
+};
+
+// the Token-2022 instructions used for the extensions
+const INITIALIZE_PERMANENT_DELEGATE_INSTRUCTION = 35;
+const METADATA_POINTER_EXTENSION_INSTRUCTION = 39;
+
+/**
+ * The metadata stored directly on a Token-2022 mint, by the token metadata extension
+ */
+export type TokenMetadata = {
+  updateAuthority: PublicKey | null;
+  mint: PublicKey;
+  name: string;
+  symbol: string;
+  uri: string;
+  additionalMetadata: [string, string][];
+};
+
+/*
+  Borsh encode a string (a u32 length, followed by the utf-8 bytes)
+*/
+function encodeString(value: string) {
+  const bytes = Buffer.from(value, "utf-8");
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(bytes.length);
+  return Buffer.concat([length, bytes]);
+}
+
+/*
+  Get the 8 byte discriminator of a token metadata interface instruction
+*/
+function getInterfaceDiscriminator(name: string) {
+  return crypto
+    .createHash("sha256")
+    .update(`spl_token_metadata_interface:${name}`)
+    .digest()
+    .subarray(0, 8);
+}
+
+/**
+ * Get the space a Token-2022 mint account needs for the given fixed size extensions
+ * (the token metadata is variable length, so it is added separately using `getTokenMetadataLen`)
+ */
+export function getMintLenWithExtensions(extensions: ExtensionType[]) {
+  const length =
+    ACCOUNT_SIZE +
+    ACCOUNT_TYPE_SIZE +
+    extensions.reduce((sum, extension) => {
+      const size = EXTENSION_SIZES[extension];
+      if (size === undefined) throw Error(`Unsupported extension type: ${extension}`);
+      return sum + TYPE_SIZE + LENGTH_SIZE + size;
+    }, 0);
+
+  // mint accounts must never be the same size as a multisig account
+  return length === MULTISIG_SIZE ? length + TYPE_SIZE : length;
+}
+
+/**
+ * Get the space the token metadata extension adds to a mint account
+ */
+export function getTokenMetadataLen({
+  name,
+  symbol,
+  uri,
+  additionalMetadata = [],
+}: Pick<TokenMetadata, "name" | "symbol" | "uri"> & Partial<TokenMetadata>) {
+  const strings = [name, symbol, uri, ...additionalMetadata.flat()];
+  return (
+    TYPE_SIZE +
+    LENGTH_SIZE +
+    // update authority + mint
+    32 +
+    32 +
+    strings.reduce((sum, value) => sum + 4 + Buffer.byteLength(value, "utf-8"), 0) +
+    // additional metadata vector length
+    4
+  );
+}
+
+/**
+ * Create an instruction to initialize the permanent delegate extension, which allows the
+ * `delegate` to transfer or burn the tokens of any token account for the mint
+ */
+export function createInitializePermanentDelegateInstruction(
+  mint: PublicKey,
+  delegate: PublicKey,
+  programId: PublicKey = TOKEN_2022_PROGRAM_ID,
+) {
+  return new TransactionInstruction({
+    programId,
+    keys: [{ pubkey: mint, isSigner: false, isWritable: true }],
+    data: Buffer.concat([
+      Buffer.from([INITIALIZE_PERMANENT_DELEGATE_INSTRUCTION]),
+      delegate.toBuffer(),
+    ]),
+  });
+}
+
+/**
+ * Create an instruction to initialize the metadata pointer extension, pointing to the account
+ * that stores the mint's metadata (the mint itself, when using the token metadata extension)
+ */
+export function createInitializeMetadataPointerInstruction(
+  mint: PublicKey,
+  authority: PublicKey | null,
+  metadataAddress: PublicKey | null,
+  programId: PublicKey = TOKEN_2022_PROGRAM_ID,
+) {
+  return new TransactionInstruction({
+    programId,
+    keys: [{ pubkey: mint, isSigner: false, isWritable: true }],
+    data: Buffer.concat([
+      Buffer.from([METADATA_POINTER_EXTENSION_INSTRUCTION, 0]),
+      // a zeroed address means "none"
+      (authority ?? PublicKey.default).toBuffer(),
+      (metadataAddress ?? PublicKey.default).toBuffer(),
+    ]),
+  });
+}
+
+/**
+ * Create an instruction to initialize the token metadata stored directly on the mint
+ * (the mint must already be initialized)
+ */
+export function createInitializeTokenMetadataInstruction(
+  {
+    mint,
+    updateAuthority,
+    mintAuthority,
+  }: { mint: PublicKey; updateAuthority: PublicKey; mintAuthority: PublicKey },
+  { name, symbol, uri }: Pick<TokenMetadata, "name" | "symbol" | "uri">,
+  programId: PublicKey = TOKEN_2022_PROGRAM_ID,
+) {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      { pubkey: mint, isSigner: false, isWritable: true },
+      { pubkey: updateAuthority, isSigner: false, isWritable: false },
+      { pubkey: mint, isSigner: false, isWritable: false },
+      { pubkey: mintAuthority, isSigner: true, isWritable: false },
+    ],
+    data: Buffer.concat([
+      getInterfaceDiscriminator("initialize_account"),
+      encodeString(name),
+      encodeString(symbol),
+      encodeString(uri),
+    ]),
+  });
+}
+
+/**
+ * Fetch and decode the token metadata stored directly on a Token-2022 mint
+ * (returns `null` when the mint does not use the token metadata extension)
+ */
+export async function getTokenMetadata(
+  connection: Connection,
+  mint: PublicKey,
+): Promise<TokenMetadata | null> {
+  const mintInfo = await getMint(connection, mint, "confirmed", TOKEN_2022_PROGRAM_ID);
+  const data = getExtensionData(TOKEN_METADATA_EXTENSION, mintInfo.tlvData);
+  if (!data) return null;
+
+  let offset = 0;
+  const readPublicKey = () => {
+    const key = new PublicKey(data.subarray(offset, offset + 32));
+    offset += 32;
+    return key;
+  };
+  const readString = () => {
+    const length = data.readUInt32LE(offset);
+    const value = data.subarray(offset + 4, offset + 4 + length).toString("utf-8");
+    offset += 4 + length;
+    return value;
+  };
+
+  const updateAuthority = readPublicKey();
+  const metadata: TokenMetadata = {
+    updateAuthority: updateAuthority.equals(PublicKey.default) ? null : updateAuthority,
+    mint: readPublicKey(),
+    name: readString(),
+    symbol: readString(),
+    uri: readString(),
+    additionalMetadata: [],
+  };
+
+  const count = data.readUInt32LE(offset);
+  offset += 4;
+  for (let i = 0; i < count; i++) metadata.additionalMetadata.push([readString(), readString()]);
+
+  return metadata;
+}
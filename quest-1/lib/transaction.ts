@@ -0,0 +1,330 @@
+/**
+ * Reliable transaction sending, for when the cluster is congested
+ * ---
+ * the transaction is re-broadcast until it is confirmed or its blockhash expires, and is then
+ * re-signed with a fresh blockhash. Priority fees can optionally be added, priced from the
+ * cluster's recent prioritization fees
+ *
+ * in simulation mode (see `SIMULATE` in `lib/vars.ts`), the transaction is simulated and its
+ * results printed instead of being sent
+ */
+
+import {
+  AddressLookupTableAccount,
+  Commitment,
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  PublicKey,
+  SendTransactionError,
+  TransactionError,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import { utils } from "@project-serum/anchor";
+import { SIMULATE } from "./vars";
+import { simulateAndPrintTransaction } from "./simulate";
+
+// how often an unconfirmed transaction is re-broadcast to the cluster
+const REBROADCAST_INTERVAL_MS = 2000;
+
+// the maximum compute units a transaction may request
+const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+
+export type PriorityFeeOptions = {
+  // the percentile of the recent prioritization fees to pay (0-100)
+  percentile?: number;
+  // the upper bound of the compute unit price, in micro-lamports
+  maxMicroLamports?: number;
+  // the compute unit limit to request (estimated by simulating the transaction when not set)
+  computeUnitLimit?: number;
+};
+
+export type SendTransactionOptions = {
+  connection: Connection;
+  payer: PublicKey;
+  signers: Keypair[];
+  instructions: TransactionInstruction[];
+  // prepend ComputeBudget instructions, defaults to the `PRIORITY_FEES` env variable
+  priorityFee?: boolean | PriorityFeeOptions;
+  // the number of times to sign the transaction with a fresh blockhash before giving up
+  maxAttempts?: number;
+  commitment?: Commitment;
+  lookupTables?: AddressLookupTableAccount[];
+  // simulate the transaction instead of sending it, defaults to `SIMULATE` (see `lib/vars.ts`)
+  simulate?: boolean;
+};
+
+export type TransactionResult = {
+  signature: string;
+  slot: number;
+  computeUnitsConsumed?: number;
+  // the total fee paid, in lamports
+  fee: number;
+  logs: string[];
+  // `true` when the transaction was only simulated (so the `signature` never landed)
+  simulated?: boolean;
+};
+
+/**
+ * Error thrown when a sent transaction was processed by the cluster, but failed
+ */
+export class TransactionFailedError extends Error {
+  constructor(public signature: string, public err: TransactionError, public logs: string[] = []) {
+    super(`Transaction ${signature} failed: ${JSON.stringify(err)}`);
+    this.name = "TransactionFailedError";
+  }
+}
+
+/*
+  Pause for the given number of milliseconds
+*/
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/*
+  Check if sending a transaction failed its preflight simulation, in which case the RPC never
+  forwarded it to the cluster (a simulation that only failed on an unknown blockhash is retried)
+*/
+function isPreflightFailure(err: unknown) {
+  return (
+    err instanceof SendTransactionError &&
+    err.message.includes("simulation failed") &&
+    !err.message.includes("Blockhash not found")
+  );
+}
+
+/*
+  Build and sign a versioned transaction using the given blockhash
+*/
+function signTransaction(
+  { payer, signers, lookupTables }: SendTransactionOptions,
+  instructions: TransactionInstruction[],
+  blockhash: string,
+) {
+  const tx = new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message(lookupTables),
+  );
+  tx.sign(signers);
+  return tx;
+}
+
+/**
+ * Get the compute unit price (in micro-lamports) paid by the given percentile of the recent
+ * transactions that locked any of the `writableAccounts`
+ */
+export async function getPriorityFeeEstimate(
+  connection: Connection,
+  writableAccounts: PublicKey[],
+  percentile: number = 75,
+) {
+  // note: `getRecentPrioritizationFees` is not available in the installed web3.js version
+  const response = await fetch(connection.rpcEndpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "getRecentPrioritizationFees",
+      params: [writableAccounts.map(key => key.toBase58())],
+    }),
+  }).then(res => res.json());
+
+  if (response.error)
+    throw Error(`Unable to get the recent prioritization fees: ${response.error.message}`);
+
+  const fees: number[] = response.result
+    .map((item: { prioritizationFee: number }) => item.prioritizationFee)
+    .sort((a: number, b: number) => a - b);
+  if (!fees.length) return 0;
+
+  return fees[Math.min(fees.length - 1, Math.floor((fees.length * percentile) / 100))];
+}
+
+/*
+  Build the ComputeBudget instructions to prepend to the transaction
+*/
+async function buildComputeBudgetInstructions(
+  options: SendTransactionOptions,
+  { percentile, maxMicroLamports = 1_000_000, computeUnitLimit }: PriorityFeeOptions,
+) {
+  const { connection, instructions } = options;
+
+  const writableAccounts = instructions.flatMap(ix =>
+    ix.keys.filter(meta => meta.isWritable).map(meta => meta.pubkey),
+  );
+  const microLamports = Math.min(
+    maxMicroLamports,
+    await getPriorityFeeEstimate(connection, writableAccounts, percentile),
+  );
+  const priceInstructions = microLamports
+    ? [ComputeBudgetProgram.setComputeUnitPrice({ microLamports })]
+    : [];
+
+  // estimate the compute units actually used, so the priority fee is not paid on unused units
+  if (!computeUnitLimit) {
+    const { blockhash } = await connection.getLatestBlockhash();
+    const simulation = await connection.simulateTransaction(
+      signTransaction(
+        options,
+        [
+          ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNIT_LIMIT }),
+          ...priceInstructions,
+          ...instructions,
+        ],
+        blockhash,
+      ),
+      { sigVerify: false, replaceRecentBlockhash: true },
+    );
+
+    // when the simulation fails, leave the error to be reported when actually sending
+    if (simulation.value.err || !simulation.value.unitsConsumed) return priceInstructions;
+
+    // add some headroom, since the accounts may change before the transaction lands
+    computeUnitLimit = Math.min(
+      MAX_COMPUTE_UNIT_LIMIT,
+      Math.ceil(simulation.value.unitsConsumed * 1.1),
+    );
+  }
+
+  return [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }),
+    ...priceInstructions,
+  ];
+}
+
+/*
+  Fetch the processed transaction's details, retrying while the RPC has not indexed it yet
+*/
+async function fetchTransactionResult(
+  connection: Connection,
+  signature: string,
+): Promise<TransactionResult> {
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const tx = await connection.getTransaction(signature, {
+      commitment: "confirmed",
+      maxSupportedTransactionVersion: 0,
+    });
+
+    if (tx) {
+      if (tx.meta?.err)
+        throw new TransactionFailedError(signature, tx.meta.err, tx.meta.logMessages ?? []);
+
+      return {
+        signature,
+        slot: tx.slot,
+        computeUnitsConsumed: tx.meta?.computeUnitsConsumed,
+        fee: tx.meta?.fee ?? 0,
+        logs: tx.meta?.logMessages ?? [],
+      };
+    }
+
+    await sleep(REBROADCAST_INTERVAL_MS);
+  }
+
+  throw Error(`Unable to fetch the details of transaction ${signature}`);
+}
+
+/**
+ * Sign, send and confirm a transaction, re-broadcasting it until it is confirmed and re-signing
+ * it with a fresh blockhash when its blockhash expires
+ */
+export async function sendTransactionWithRetries(
+  options: SendTransactionOptions,
+): Promise<TransactionResult> {
+  const {
+    connection,
+    priorityFee = process.env.PRIORITY_FEES === "true",
+    maxAttempts = 3,
+    commitment = "confirmed",
+    simulate = SIMULATE,
+  } = options;
+
+  const instructions = priorityFee
+    ? [
+        ...(await buildComputeBudgetInstructions(options, priorityFee === true ? {} : priorityFee)),
+        ...options.instructions,
+      ]
+    : options.instructions;
+
+  if (simulate) {
+    const { blockhash } = await connection.getLatestBlockhash(commitment);
+    const tx = signTransaction(options, instructions, blockhash);
+    const result = await simulateAndPrintTransaction(connection, tx, options.lookupTables);
+
+    return {
+      signature: utils.bytes.bs58.encode(tx.signatures[0]),
+      slot: await connection.getSlot(commitment),
+      computeUnitsConsumed: result.unitsConsumed,
+      fee: result.fee ?? 0,
+      logs: result.logs,
+      simulated: true,
+    };
+  }
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash(commitment);
+    const tx = signTransaction(options, instructions, blockhash);
+    const rawTransaction = tx.serialize();
+    // the signature is known before sending, so the transaction can be tracked even if sending it
+    // errors
+    const signature = utils.bytes.bs58.encode(tx.signatures[0]);
+
+    // the first broadcast runs the preflight checks, so failing transactions error right away
+    try {
+      await connection.sendRawTransaction(rawTransaction, { maxRetries: 0 });
+    } catch (err: unknown) {
+      if (isPreflightFailure(err)) throw err;
+
+      // any other error (like a timeout) may have happened after the transaction was forwarded,
+      // so keep tracking it until its blockhash expires rather than re-signing it right away
+      console.warn(
+        `Unable to send transaction ${signature} (attempt ${attempt}/${maxAttempts}):`,
+        err instanceof Error ? err.message : err,
+      );
+    }
+
+    // re-broadcast the transaction until it is confirmed, or its blockhash expires
+    while (true) {
+      // check the block height first: a transaction still unknown after its expiry never lands
+      const expired = (await connection.getBlockHeight(commitment)) > lastValidBlockHeight;
+      const status = (await connection.getSignatureStatuses([signature])).value[0];
+
+      if (status?.err) {
+        const failed = await connection
+          .getTransaction(signature, { commitment: "confirmed", maxSupportedTransactionVersion: 0 })
+          .catch(() => null);
+        throw new TransactionFailedError(signature, status.err, failed?.meta?.logMessages ?? []);
+      }
+
+      if (
+        status?.confirmationStatus === "finalized" ||
+        (status?.confirmationStatus === "confirmed" && commitment !== "finalized")
+      )
+        return fetchTransactionResult(connection, signature);
+
+      // only re-sign when the transaction was never processed, so it cannot land twice
+      if (expired && !status) break;
+
+      await sleep(REBROADCAST_INTERVAL_MS);
+      if (!status)
+        await connection
+          .sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 })
+          .catch(() => {
+            // the next status check will report any failure
+          });
+    }
+
+    console.warn(
+      `Transaction ${signature} expired before being confirmed (attempt ${attempt}/${maxAttempts})`,
+    );
+  }
+
+  throw Error(`Transaction was not confirmed after ${maxAttempts} attempts`);
+}
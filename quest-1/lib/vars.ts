@@ -1,13 +1,11 @@
 /**
  *
  */
-import dotenv from "dotenv";
-import { Connection, clusterApiUrl } from "@solana/web3.js";
 import { loadKeypairFromFile, loadOrGenerateKeypair } from "./helpers";
 import { PublicKey } from "@metaplex-foundation/js";
 
-// load the env variables from file
-dotenv.config();
+// the env variables are loaded from file when the connection is created
+export { CLUSTER, CLUSTER_URL, connection } from "./cluster";
 
 /**
  * Load the `payer` keypair from the local file system, or load/generate a new
@@ -20,11 +18,11 @@ export const payer = process.env?.LOCAL_PAYER_JSON_ABSPATH
 // generate a new Keypair for testing, named `wallet`
 export const testWallet = loadOrGenerateKeypair("testWallet");
 
-// load the env variables and store the cluster RPC url
-export const CLUSTER_URL = process.env.RPC_URL ?? clusterApiUrl("devnet");
-
-// create a new rpc connection
-export const connection = new Connection(CLUSTER_URL, "confirmed");
+/**
+ * Simulate every transaction instead of sending it, using the `--simulate` flag or by setting
+ * `SIMULATE=true` (see `lib/simulate.ts`)
+ */
+export const SIMULATE = process.argv.includes("--simulate") || process.env?.SIMULATE === "true";
 
 // define an address to also transfer lamports too
 export const STATIC_PUBLICKEY = new PublicKey("nickb1dAk4hKpHVPZenpzqVtw2F8RHnCq27QcfiReXD");
@@ -4,8 +4,9 @@
  */
 
 // import custom helpers for demos
-import { payer, connection } from "@/lib/vars";
-import { explorerURL, printConsoleSeparator } from "@/lib/helpers";
+import { payer, connection, SIMULATE } from "@/lib/vars";
+import { airdropOnLowBalance, explorerURL, printConsoleSeparator } from "@/lib/helpers";
+import { simulateAndPrintTransaction } from "@/lib/simulate";
 
 //
 import {
@@ -30,29 +31,19 @@ import {
   console.log("Current balance of 'payer' (in lamports):", currentBalance);
   console.log("Current balance of 'payer' (in SOL):", currentBalance / LAMPORTS_PER_SOL);
 
-  // airdrop on low balance
-  if (currentBalance <= LAMPORTS_PER_SOL) {
-    console.log("Low balance, requesting an airdrop...");
-    try {
-      const airdropSignature = await connection.requestAirdrop(payer.publicKey, LAMPORTS_PER_SOL);
-      console.log("Airdrop requested, signature:", airdropSignature);
-      
-      // Wait for airdrop confirmation
-      await connection.confirmTransaction(airdropSignature);
-      console.log("Airdrop confirmed!");
-      
-      // Check new balance
-      const newBalance = await connection.getBalance(payer.publicKey);
+  // airdrop on low balance (how much depends on the cluster, see `lib/cluster.ts`)
+  try {
+    const newBalance = await airdropOnLowBalance(connection, payer);
+    if (newBalance !== currentBalance)
       console.log("New balance after airdrop (in SOL):", newBalance / LAMPORTS_PER_SOL);
-    } catch (error: any) {
-      console.log("Airdrop failed (likely due to rate limiting):", error.message);
-      console.log("Current balance is sufficient or you can try again later.");
-      
-      // If balance is still too low, we should exit
-      if (currentBalance < 1000000) { // Less than 0.001 SOL
-        console.log("Balance too low to proceed. Please fund your account or try again later.");
-        process.exit(1);
-      }
+  } catch (error: any) {
+    console.log("Airdrop failed (likely due to rate limiting):", error.message);
+    console.log("Current balance is sufficient or you can try again later.");
+
+    // If balance is still too low, we should exit
+    if (currentBalance < 1000000) { // Less than 0.001 SOL
+      console.log("Balance too low to proceed. Please fund your account or try again later.");
+      process.exit(1);
     }
   }
 
@@ -125,6 +116,13 @@ import {
 
   // console.log(tx.signatures);
 
+  // in simulation mode, explain what the transaction would do instead of sending it
+  if (SIMULATE) {
+    printConsoleSeparator();
+    await simulateAndPrintTransaction(connection, tx);
+    return;
+  }
+
   // actually send the transaction
   const sig = await connection.sendTransaction(tx);
   console.log("Transaction sent with signature:", sig);
@@ -0,0 +1,62 @@
+/**
+ * Lists every ship NFT that is a verified member of the ship collection (created by
+ * `6.createNFTs.ts`), along with its metadata
+ */
+
+// import custom helpers for demos
+import { payer, connection } from "@/lib/vars";
+import { explorerURL, loadPublicKeysFromFile, printConsoleSeparator } from "@/lib/helpers";
+
+import { PublicKey } from "@solana/web3.js";
+import { Metadata, Metaplex } from "@metaplex-foundation/js";
+
+(async () => {
+  printConsoleSeparator("🗂️ Listing the Ship Collection");
+
+  // load the stored PublicKeys for ease of use
+  const localKeys = await loadPublicKeysFromFile();
+
+  // ensure the desired script was already run
+  if (!localKeys?.shipCollection) {
+    console.error("❌ No ship collection was found!");
+    console.log("💡 Please run '6.createNFTs.ts' first");
+    return;
+  }
+
+  const shipCollection: PublicKey = localKeys.shipCollection;
+
+  console.log("🗂️ Collection address:", shipCollection.toBase58());
+  console.log("🔗 Explorer:", explorerURL({ address: shipCollection.toBase58() }));
+
+  const metaplex = Metaplex.make(connection);
+
+  /**
+   * the ships are created with the `payer` as their first (verified) creator, so we can find them
+   * all by their creator and then only keep the verified members of the collection
+   */
+  const ships = (await metaplex.nfts().findAllByCreator({ creator: payer.publicKey })).filter(
+    nft =>
+      nft.model === "metadata" &&
+      nft.collection?.verified &&
+      nft.collection.address.equals(shipCollection),
+  ) as Metadata[];
+
+  printConsoleSeparator(`🚢 Found ${ships.length} ship(s)`);
+
+  for (const ship of ships) {
+    // load the ship's off-chain JSON metadata (when it is still available)
+    const nft = await metaplex
+      .nfts()
+      .load({ metadata: ship })
+      .catch(() => undefined);
+
+    console.log(`🚢 ${ship.name} (${ship.symbol})`);
+    console.log("   Mint Address:", ship.mintAddress.toBase58());
+    console.log("   Metadata URI:", ship.uri);
+    if (nft?.json) {
+      console.log("   Description:", nft.json.description);
+      console.log("   Image:", nft.json.image);
+    } else console.log("   ⚠️ Unable to load the JSON metadata");
+    console.log("   🔗 Explorer:", explorerURL({ address: ship.mintAddress.toBase58() }));
+  }
+})();
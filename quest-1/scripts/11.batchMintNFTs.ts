@@ -0,0 +1,288 @@
+/**
+ * Demonstrates how to mint a whole set of NFTs from a local folder of images
+ * ---
+ * the folder contains the images and a `manifest.csv` (or `manifest.json`) listing each item's
+ * image file, name, symbol, description and attributes. In the CSV, attributes are written as
+ * `Trait=Value;Trait=Value`
+ *
+ * every minted item is recorded by the hash of its content, so re-running the script only mints
+ * the new or changed items (and a crashed run can simply be re-run)
+ */
+
+// import custom helpers for demos
+import { payer, connection } from "@/lib/vars";
+import { explorerURL, loadPublicKeysFromFile, printConsoleSeparator } from "@/lib/helpers";
+import { getClusterGenesisHash, getClusterLabel, getProfileFilePath } from "@/lib/profiles";
+import { hashContent, localStorage } from "@/lib/storage";
+
+import fs from "fs";
+import path from "path";
+import { PublicKey } from "@solana/web3.js";
+import { Metaplex, keypairIdentity, toMetaplexFile } from "@metaplex-foundation/js";
+
+// define the default locations of the input and output files
+const DEFAULT_FOLDER = "ships";
+const MANIFEST_FILES = ["manifest.json", "manifest.csv"];
+const SUMMARY_FILE = "summary.json";
+const MINTED_FILE = "mintedNFTs.json";
+
+type Attribute = { trait_type: string; value: string };
+
+type ManifestItem = {
+  // the image file, relative to the folder
+  image: string;
+  name: string;
+  symbol?: string;
+  description?: string;
+  attributes?: Attribute[];
+};
+
+type MintedItem = {
+  name: string;
+  image: string;
+  mint: string;
+  metadataUri: string;
+  signature: string;
+  mintedAt: string;
+};
+
+type SummaryItem = {
+  image: string;
+  name: string;
+  hash: string;
+  status: "minted" | "skipped" | "failed";
+  mint?: string;
+  metadataUri?: string;
+  error?: string;
+};
+
+/*
+  Split a CSV line into its columns, allowing for quoted columns (e.g. descriptions with commas)
+*/
+function parseCsvLine(text: string) {
+  const columns: string[] = [];
+  let column = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        column += '"';
+        i++;
+      } else if (char === '"') quoted = false;
+      else column += char;
+    } else if (char === '"') quoted = true;
+    else if (char === ",") {
+      columns.push(column.trim());
+      column = "";
+    } else column += char;
+  }
+  columns.push(column.trim());
+
+  return columns;
+}
+
+/*
+  Read the items from the folder's manifest file
+*/
+function loadManifest(folder: string): ManifestItem[] {
+  const manifestFile = MANIFEST_FILES.map(file => path.join(folder, file)).find(file =>
+    fs.existsSync(file),
+  );
+  if (!manifestFile) throw Error(`No ${MANIFEST_FILES.join(" or ")} file found in ${folder}`);
+
+  const text = fs.readFileSync(manifestFile, { encoding: "utf-8" });
+  if (manifestFile.endsWith(".json")) return JSON.parse(text);
+
+  // the first row of the CSV is the header, naming each column
+  const [header, ...rows] = text.split(/\r?\n/).filter(line => line.trim());
+  const columns = parseCsvLine(header).map(column => column.toLowerCase());
+
+  return rows.map(line => {
+    const values = parseCsvLine(line);
+    const row: Record<string, string> = {};
+    columns.forEach((column, index) => (row[column] = values[index] ?? ""));
+
+    return {
+      image: row.image,
+      name: row.name,
+      symbol: row.symbol || undefined,
+      description: row.description || undefined,
+      attributes: row.attributes
+        ? row.attributes.split(";").map(attribute => {
+            const [trait_type, value = ""] = attribute.split("=").map(part => part.trim());
+            return { trait_type, value };
+          })
+        : undefined,
+    };
+  });
+}
+
+/*
+  Load the previously minted items, keyed by their content hash
+*/
+function loadMinted(mintedPath: string): Record<string, MintedItem> {
+  if (!fs.existsSync(mintedPath)) return {};
+  return JSON.parse(fs.readFileSync(mintedPath, { encoding: "utf-8" })) || {};
+}
+
+(async () => {
+  printConsoleSeparator("🖼️ Batch Minting NFTs");
+
+  const folder = path.resolve(process.argv[2] ?? DEFAULT_FOLDER);
+  const items = loadManifest(folder);
+
+  console.log("📋 Configuration:");
+  console.log("   Payer address:", payer.publicKey.toBase58());
+  console.log("   Folder:", folder);
+  console.log("   Items in manifest:", items.length);
+
+  // the ships are minted into the ship collection, when it was created by `6.createNFTs.ts`
+  const localKeys = await loadPublicKeysFromFile();
+  const shipCollection: PublicKey | undefined = localKeys.shipCollection;
+
+  if (shipCollection) console.log("   Collection:", shipCollection.toBase58());
+  else console.log("   Collection: none (run '6.createNFTs.ts' first to create one)");
+
+  // the minted items are tracked per cluster, since the mints only exist on a single cluster
+  const mintedPath = await getProfileFilePath(MINTED_FILE);
+  const minted = loadMinted(mintedPath);
+
+  // create an instance of Metaplex sdk for use
+  const metaplex = Metaplex.make(connection)
+    // set our keypair to use, and pay for the transaction
+    .use(keypairIdentity(payer))
+    // store the images and JSON metadata locally
+    .use(localStorage());
+
+  const summary: SummaryItem[] = [];
+
+  printConsoleSeparator("🚢 Minting");
+
+  for (const [index, item] of items.entries()) {
+    const progress = `[${index + 1}/${items.length}]`;
+    const imagePath = path.resolve(folder, item.image ?? "");
+
+    let hash = "";
+    try {
+      if (!item.image || !item.name) throw Error("every item requires an `image` and `name`");
+      if (!fs.existsSync(imagePath)) throw Error(`image file not found: ${imagePath}`);
+
+      const image = fs.readFileSync(imagePath);
+
+      // the hash covers the image and the metadata, so changing either mints a new item
+      const { symbol = "SHIP", description = "", attributes = [] } = item;
+      hash = hashContent(
+        Buffer.concat([
+          image,
+          Buffer.from(JSON.stringify({ name: item.name, symbol, description, attributes })),
+        ]),
+      );
+
+      const existing = minted[hash];
+      if (existing) {
+        console.log(`${progress} ⏭️ ${item.name}: already minted as ${existing.mint}`);
+        summary.push({
+          image: item.image,
+          name: item.name,
+          hash,
+          status: "skipped",
+          mint: existing.mint,
+          metadataUri: existing.metadataUri,
+        });
+        continue;
+      }
+
+      console.log(`${progress} 📤 ${item.name}: uploading the image and metadata...`);
+
+      const imageFile = toMetaplexFile(image, path.basename(imagePath));
+      const { uri } = await metaplex.nfts().uploadMetadata({
+        name: item.name,
+        symbol,
+        description,
+        image: imageFile,
+        attributes,
+        properties: {
+          category: "image",
+          files: [{ uri: imageFile, type: imageFile.contentType ?? undefined }],
+        },
+      });
+
+      console.log(`${progress} 🚀 ${item.name}: minting...`);
+
+      const { nft, response } = await metaplex.nfts().create({
+        uri,
+        name: item.name,
+        symbol,
+        sellerFeeBasisPoints: 500, // Represents 5.00%.
+        isMutable: true,
+        collection: shipCollection,
+        collectionAuthority: shipCollection ? payer : undefined,
+      });
+
+      // record the item right away, so it is never minted twice
+      minted[hash] = {
+        name: item.name,
+        image: item.image,
+        mint: nft.address.toBase58(),
+        metadataUri: uri,
+        signature: response.signature,
+        mintedAt: new Date().toISOString(),
+      };
+      fs.writeFileSync(mintedPath, JSON.stringify(minted, null, 2), { encoding: "utf-8" });
+
+      console.log(`${progress} ✅ ${item.name}: minted ${nft.address.toBase58()}`);
+      console.log("   🔗 Explorer:", explorerURL({ txSignature: response.signature }));
+
+      summary.push({
+        image: item.image,
+        name: item.name,
+        hash,
+        status: "minted",
+        mint: nft.address.toBase58(),
+        metadataUri: uri,
+      });
+    } catch (err) {
+      console.error(`${progress} ❌ ${item.name ?? item.image}:`, (err as Error).message);
+      summary.push({
+        image: item.image,
+        name: item.name,
+        hash,
+        status: "failed",
+        error: (err as Error).message,
+      });
+    }
+  }
+
+  printConsoleSeparator("📊 Summary");
+
+  const count = (status: SummaryItem["status"]) =>
+    summary.filter(item => item.status === status).length;
+
+  console.log("✅ Minted:", count("minted"));
+  console.log("⏭️ Skipped (already minted):", count("skipped"));
+  console.log("❌ Failed:", count("failed"));
+
+  // save the summary of every item to its mint address within the folder
+  const summaryPath = path.join(folder, SUMMARY_FILE);
+  const genesisHash = await getClusterGenesisHash();
+  fs.writeFileSync(
+    summaryPath,
+    JSON.stringify(
+      {
+        cluster: getClusterLabel(genesisHash),
+        genesisHash,
+        collection: shipCollection?.toBase58(),
+        items: summary,
+      },
+      null,
+      2,
+    ),
+    { encoding: "utf-8" },
+  );
+
+  console.log("📝 Summary saved to:", summaryPath);
+  if (count("failed")) console.log("💡 Fix the failed items and re-run to mint them");
+})();
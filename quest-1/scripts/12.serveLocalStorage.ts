@@ -0,0 +1,32 @@
+/**
+ * Serves the files uploaded with the local storage driver over HTTP
+ * ---
+ * keep this running while using the NFTs minted against a local test validator, so their
+ * metadata URIs can be fetched (e.g. by explorers, wallets or the quest-4 app)
+ */
+
+// import custom helpers for demos
+import { printConsoleSeparator } from "@/lib/helpers";
+import { LocalStorageDriver, startLocalStorageServer } from "@/lib/storage";
+
+import fs from "fs";
+
+(async () => {
+  printConsoleSeparator("🗄️ Local Storage Server");
+
+  // the driver resolves the same directory and URL that the uploads used
+  const { directory, baseUrl } = new LocalStorageDriver();
+
+  try {
+    await startLocalStorageServer({ directory, baseUrl });
+  } catch (err) {
+    console.error("❌ Unable to start the server:", (err as Error).message);
+    console.log("💡 Set `LOCAL_STORAGE_URL` within your `.env` file to use a different port");
+    return;
+  }
+
+  console.log("📁 Directory:", directory);
+  console.log("   Files:", fs.readdirSync(directory).length);
+  console.log("🌐 Serving at:", baseUrl);
+  console.log("\nPress Ctrl+C to stop the server");
+})();
@@ -0,0 +1,225 @@
+/**
+ * Demonstrates how to create a Token-2022 token, with its metadata stored directly on the mint
+ * (using the metadata pointer and token metadata extensions), optional transfer fees and a
+ * permanent delegate
+ * ---
+ * this is the Token-2022 sibling of `3.createTokenWithMetadata.ts`, which creates a classic SPL
+ * token with a separate Metaplex metadata account
+ */
+
+// import custom helpers for demos
+import { payer, connection } from "@/lib/vars";
+import { explorerURL, printConsoleSeparator, savePublicKeyToFile } from "@/lib/helpers";
+import { decodeTransactionError, printDecodedError } from "@/lib/errors";
+import { sendTransactionWithRetries } from "@/lib/transaction";
+import {
+  METADATA_POINTER_EXTENSION,
+  createInitializeMetadataPointerInstruction,
+  createInitializePermanentDelegateInstruction,
+  createInitializeTokenMetadataInstruction,
+  getMintLenWithExtensions,
+  getTokenMetadata,
+  getTokenMetadataLen,
+} from "@/lib/token2022";
+
+import { Keypair, SystemProgram, TransactionInstruction } from "@solana/web3.js";
+import {
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
+  createInitializeMint2Instruction,
+  createInitializeTransferFeeConfigInstruction,
+} from "@solana/spl-token";
+
+(async () => {
+  printConsoleSeparator("🏴‍☠️ Creating Token-2022 Token with Metadata");
+
+  console.log("📋 Configuration:");
+  console.log("   Payer address:", payer.publicKey.toBase58());
+
+  printConsoleSeparator("⚙️ Token Setup");
+
+  // generate a new keypair to be used for our mint
+  const mintKeypair = Keypair.generate();
+
+  console.log("🪙 Generated new mint keypair");
+  console.log("   Mint address:", mintKeypair.publicKey.toBase58());
+
+  // define the assorted token config settings
+  const tokenConfig = {
+    // define how many decimals we want our tokens to have
+    decimals: 9,
+    //
+    name: "Superteam Brasil Devs 2022",
+    //
+    symbol: "STBR22",
+    //
+    uri: "https://thisis.atest.superteam.com.br/info.json",
+    // charge a fee on every transfer (set to `null` to disable)
+    transferFee: {
+      // 1.00% of every transfer
+      basisPoints: 100,
+      // but never more than 5 tokens (in base units)
+      maximumFee: BigInt(5 * 10 ** 9),
+    },
+    // an authority able to transfer or burn anyone's tokens (set to `null` to disable)
+    permanentDelegate: payer.publicKey,
+  };
+
+  console.log("📝 Token Configuration:");
+  console.log("   Name:", tokenConfig.name);
+  console.log("   Symbol:", tokenConfig.symbol);
+  console.log("   Decimals:", tokenConfig.decimals);
+  console.log("   Metadata URI:", tokenConfig.uri);
+  console.log(
+    "   Transfer fee:",
+    tokenConfig.transferFee
+      ? `${tokenConfig.transferFee.basisPoints / 100}% (max ${
+          tokenConfig.transferFee.maximumFee
+        } base units)`
+      : "none",
+  );
+  console.log("   Permanent delegate:", tokenConfig.permanentDelegate?.toBase58() ?? "none");
+
+  printConsoleSeparator("🔧 Building Instructions");
+
+  /**
+   * Token-2022 mints store their extensions within the mint account itself, so the account must
+   * be created with enough space for every extension
+   * ---
+   * the token metadata is variable length, and the token program reallocates the account when it
+   * is initialized. So the account is created without it, but with enough lamports to cover it
+   */
+  const extensions: ExtensionType[] = [METADATA_POINTER_EXTENSION];
+  if (tokenConfig.transferFee) extensions.push(ExtensionType.TransferFeeConfig);
+  if (tokenConfig.permanentDelegate) extensions.push(ExtensionType.PermanentDelegate);
+
+  const mintLen = getMintLenWithExtensions(extensions);
+  const metadataLen = getTokenMetadataLen(tokenConfig);
+
+  console.log("📦 Creating mint account instruction");
+  console.log("   Mint account space (without metadata):", mintLen, "bytes");
+  console.log("   Token metadata space:", metadataLen, "bytes");
+
+  const instructions: TransactionInstruction[] = [
+    SystemProgram.createAccount({
+      fromPubkey: payer.publicKey,
+      newAccountPubkey: mintKeypair.publicKey,
+      space: mintLen,
+      lamports: await connection.getMinimumBalanceForRentExemption(mintLen + metadataLen),
+      // Token-2022 mints are owned by the Token-2022 program
+      programId: TOKEN_2022_PROGRAM_ID,
+    }),
+  ];
+
+  // every extension must be initialized before the mint itself
+  console.log("🧩 Creating extension instructions");
+
+  if (tokenConfig.transferFee) {
+    instructions.push(
+      createInitializeTransferFeeConfigInstruction(
+        mintKeypair.publicKey,
+        // the authority able to change the fees
+        payer.publicKey,
+        // the authority able to withdraw the withheld fees
+        payer.publicKey,
+        tokenConfig.transferFee.basisPoints,
+        tokenConfig.transferFee.maximumFee,
+        TOKEN_2022_PROGRAM_ID,
+      ),
+    );
+    console.log("   • Transfer fee config");
+  }
+
+  if (tokenConfig.permanentDelegate) {
+    instructions.push(
+      createInitializePermanentDelegateInstruction(
+        mintKeypair.publicKey,
+        tokenConfig.permanentDelegate,
+      ),
+    );
+    console.log("   • Permanent delegate");
+  }
+
+  // the metadata pointer points to the mint itself, since that is where the metadata is stored
+  instructions.push(
+    createInitializeMetadataPointerInstruction(
+      mintKeypair.publicKey,
+      payer.publicKey,
+      mintKeypair.publicKey,
+    ),
+  );
+  console.log("   • Metadata pointer");
+
+  console.log("🏭 Creating initialize mint instruction");
+  instructions.push(
+    createInitializeMint2Instruction(
+      mintKeypair.publicKey,
+      tokenConfig.decimals,
+      payer.publicKey,
+      payer.publicKey,
+      TOKEN_2022_PROGRAM_ID,
+    ),
+  );
+
+  // the token metadata can only be initialized once the mint is
+  console.log("📋 Creating token metadata instruction");
+  instructions.push(
+    createInitializeTokenMetadataInstruction(
+      {
+        mint: mintKeypair.publicKey,
+        updateAuthority: payer.publicKey,
+        mintAuthority: payer.publicKey,
+      },
+      tokenConfig,
+    ),
+  );
+
+  printConsoleSeparator("🚀 Transaction Execution");
+
+  console.log(`📡 Sending transaction with ${instructions.length} instructions...`);
+
+  try {
+    // actually send the transaction, retrying until it is confirmed
+    const result = await sendTransactionWithRetries({
+      connection,
+      payer: payer.publicKey,
+      signers: [payer, mintKeypair],
+      instructions,
+    });
+    const sig = result.signature;
+
+    // simulated transactions never create the token, so there is nothing to save
+    if (result.simulated) return;
+
+    printConsoleSeparator("✅ Success!");
+    console.log("🎉 Token-2022 token with metadata created successfully!");
+    console.log("📋 Transaction Details:");
+    console.log("   Signature:", sig);
+    console.log("   Slot:", result.slot);
+    console.log("   Compute units consumed:", result.computeUnitsConsumed);
+    console.log("   Fee (in lamports):", result.fee);
+    console.log("   🔗 Explorer:", explorerURL({ txSignature: sig }));
+
+    // read the metadata back from the mint account
+    const metadata = await getTokenMetadata(connection, mintKeypair.publicKey);
+
+    console.log("🪙 Token Details:");
+    console.log("   Mint Address:", mintKeypair.publicKey.toBase58());
+    console.log("   On-mint Name:", metadata?.name);
+    console.log("   On-mint Symbol:", metadata?.symbol);
+    console.log("   On-mint URI:", metadata?.uri);
+
+    // locally save our addresses for the demo
+    await savePublicKeyToFile("token2022Mint", mintKeypair.publicKey);
+    console.log("💾 Token-2022 mint address saved locally for future scripts");
+  } catch (err) {
+    printConsoleSeparator("❌ Transaction Failed");
+    console.error("🚨 Failed to send transaction:");
+    console.error("Error details:", err);
+
+    // decode which program failed, and why
+    printDecodedError(await decodeTransactionError(connection, err), true);
+
+    throw err;
+  }
+})();
@@ -0,0 +1,179 @@
+/**
+ * Demonstrates how to create an M-of-N SPL token multisig, and use it as the mint and freeze
+ * authority of a token (so no single person holds the mint key)
+ * ---
+ * usage: `14.createMultisig.ts [threshold] [signer...] [--set-authority]`
+ *
+ * each signer is either the path to a keypair file or the address of a signer. When no signers
+ * are given, 3 local demo signers are generated and a 2-of-3 multisig is created. Use
+ * `--set-authority` to make the multisig the mint and freeze authority of the token created by
+ * `3.createTokenWithMetadata.ts` (or pass `--multisig` to that script, after running this one)
+ */
+
+// import custom helpers for demos
+import { payer, connection } from "@/lib/vars";
+import {
+  explorerURL,
+  loadOrGenerateKeypair,
+  loadPublicKeysFromFile,
+  printConsoleSeparator,
+  savePublicKeyToFile,
+} from "@/lib/helpers";
+import { decodeTransactionError, printDecodedError } from "@/lib/errors";
+import { sendTransactionWithRetries } from "@/lib/transaction";
+import {
+  MultisigSigner,
+  buildCreateMultisigInstructions,
+  buildCreateNonceAccountInstructions,
+  loadMultisigSigners,
+} from "@/lib/multisig";
+
+import { Keypair, PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { AuthorityType, createSetAuthorityInstruction, getMint } from "@solana/spl-token";
+
+// the demo multisig, when no signers are given
+const DEMO_SIGNER_COUNT = 3;
+const DEMO_THRESHOLD = 2;
+
+(async () => {
+  printConsoleSeparator("🔐 Creating a Multisig Authority");
+
+  const args = process.argv.slice(2);
+  const setAuthority = args.includes("--set-authority");
+  const [thresholdArg, ...signerArgs] = args.filter(arg => !arg.startsWith("--"));
+
+  let signers: MultisigSigner[];
+  let threshold: number;
+
+  if (signerArgs.length) {
+    signers = loadMultisigSigners(signerArgs);
+    threshold = Number(thresholdArg);
+  } else {
+    // generate (or load) some local demo signers
+    signers = Array.from({ length: DEMO_SIGNER_COUNT }, (_, i) => {
+      const keypair = loadOrGenerateKeypair(`multisigSigner${i + 1}`);
+      return { publicKey: keypair.publicKey, keypair };
+    });
+    threshold = Number(thresholdArg ?? DEMO_THRESHOLD);
+  }
+
+  console.log("📋 Configuration:");
+  console.log("   Payer address:", payer.publicKey.toBase58());
+  console.log(`   Threshold: ${threshold} of ${signers.length} signers`);
+  signers.forEach((signer, i) =>
+    console.log(
+      `   Signer ${i + 1}:`,
+      signer.publicKey.toBase58(),
+      signer.keypair ? "(local keypair)" : "",
+    ),
+  );
+
+  printConsoleSeparator("🔧 Building Instructions");
+
+  // generate the new multisig account, and a durable nonce account for its partially signed
+  // transactions (which may take longer than a blockhash's lifetime to collect every signature)
+  const multisigKeypair = Keypair.generate();
+  const nonceKeypair = Keypair.generate();
+
+  console.log("🔐 Multisig address:", multisigKeypair.publicKey.toBase58());
+  console.log("🎲 Durable nonce address:", nonceKeypair.publicKey.toBase58());
+
+  const instructions: TransactionInstruction[] = [
+    ...(await buildCreateMultisigInstructions({
+      connection,
+      payer: payer.publicKey,
+      multisig: multisigKeypair.publicKey,
+      signers: signers.map(signer => signer.publicKey),
+      threshold,
+    })),
+    ...(await buildCreateNonceAccountInstructions({
+      connection,
+      payer: payer.publicKey,
+      nonceAccount: nonceKeypair.publicKey,
+    })),
+  ];
+
+  let tokenMint: PublicKey | undefined;
+
+  if (setAuthority) {
+    // load the stored PublicKeys for ease of use
+    const localKeys = await loadPublicKeysFromFile();
+
+    // ensure the desired script was already run
+    if (!localKeys?.tokenMint) {
+      console.error("❌ No local keys were found!");
+      console.log("💡 Please run '3.createTokenWithMetadata.ts' first");
+      return;
+    }
+
+    tokenMint = localKeys.tokenMint as PublicKey;
+    const mint = await getMint(connection, tokenMint);
+
+    // only the current authorities can hand their authority over to the multisig
+    if (!mint.mintAuthority?.equals(payer.publicKey)) {
+      console.error("❌ The payer is not the mint authority of:", tokenMint.toBase58());
+      return;
+    }
+
+    console.log("🏛️ Setting the multisig as the authorities of:", tokenMint.toBase58());
+    instructions.push(
+      createSetAuthorityInstruction(
+        tokenMint,
+        payer.publicKey,
+        AuthorityType.MintTokens,
+        multisigKeypair.publicKey,
+      ),
+    );
+    if (mint.freezeAuthority?.equals(payer.publicKey))
+      instructions.push(
+        createSetAuthorityInstruction(
+          tokenMint,
+          payer.publicKey,
+          AuthorityType.FreezeAccount,
+          multisigKeypair.publicKey,
+        ),
+      );
+  }
+
+  printConsoleSeparator("🚀 Transaction Execution");
+
+  console.log(`📡 Sending transaction with ${instructions.length} instructions...`);
+
+  try {
+    // actually send the transaction, retrying until it is confirmed
+    const result = await sendTransactionWithRetries({
+      connection,
+      payer: payer.publicKey,
+      signers: [payer, multisigKeypair, nonceKeypair],
+      instructions,
+    });
+
+    // simulated transactions never create the multisig, so there is nothing to save
+    if (result.simulated) return;
+
+    printConsoleSeparator("✅ Success!");
+    console.log("🎉 Multisig created successfully!");
+    console.log("📋 Transaction Details:");
+    console.log("   Signature:", result.signature);
+    console.log("   🔗 Explorer:", explorerURL({ txSignature: result.signature }));
+    console.log("🔐 Multisig Details:");
+    console.log("   Address:", multisigKeypair.publicKey.toBase58());
+    console.log(`   Threshold: ${threshold} of ${signers.length} signers`);
+    console.log("   Durable nonce:", nonceKeypair.publicKey.toBase58());
+    if (tokenMint) console.log("   Mint/freeze authority of:", tokenMint.toBase58());
+
+    // locally save our addresses for the demo
+    await savePublicKeyToFile("multisig", multisigKeypair.publicKey);
+    await savePublicKeyToFile("multisigNonce", nonceKeypair.publicKey);
+    console.log("💾 Multisig addresses saved locally for future scripts");
+  } catch (err) {
+    printConsoleSeparator("❌ Transaction Failed");
+    console.error("🚨 Failed to send transaction:");
+    console.error("Error details:", err);
+
+    // decode which program failed, and why
+    printDecodedError(await decodeTransactionError(connection, err), true);
+
+    throw err;
+  }
+})();
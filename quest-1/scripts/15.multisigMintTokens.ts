@@ -0,0 +1,283 @@
+/**
+ * Demonstrates how to mint tokens when the mint authority is an M-of-N multisig, collecting the
+ * signatures from multiple keypair files or from partially signed transactions passed between
+ * the signers
+ * ---
+ * usage:
+ * - `15.multisigMintTokens.ts mint <amount> <keypair...>`: sign with M local keypair files and
+ *   send right away
+ * - `15.multisigMintTokens.ts propose <amount> <signer...> [--file path]`: create a partially
+ *   signed transaction file, where each signer is a keypair file (signing now) or an address
+ *   (signing later)
+ * - `15.multisigMintTokens.ts sign <keypair...> [--file path]`: add signatures to the file
+ * - `15.multisigMintTokens.ts send [--file path]`: send the transaction once fully signed
+ *
+ * the `amount` is in the mint's base units (see `4.mintTokens.ts`), and the tokens are minted to
+ * the payer's token account. Run `14.createMultisig.ts --set-authority` first
+ */
+
+// import custom helpers for demos
+import { payer, connection, SIMULATE } from "@/lib/vars";
+import { explorerURL, loadPublicKeysFromFile, printConsoleSeparator } from "@/lib/helpers";
+import { decodeTransactionError, printDecodedError } from "@/lib/errors";
+import { sendTransactionWithRetries } from "@/lib/transaction";
+import { simulateAndPrintTransaction } from "@/lib/simulate";
+import {
+  MultisigSigner,
+  addPartialSignatures,
+  buildDurableNonceTransaction,
+  decodePartialTransaction,
+  getMissingSigners,
+  loadMultisigSigners,
+  loadPartialTransaction,
+  savePartialTransaction,
+} from "@/lib/multisig";
+
+import { PublicKey, Transaction, TransactionInstruction } from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createMintToInstruction,
+  getAssociatedTokenAddressSync,
+  getMint,
+  getMultisig,
+} from "@solana/spl-token";
+
+// the default file the partially signed transaction is passed around in
+const DEFAULT_TRANSACTION_FILE = "multisigMint.tx.json";
+
+/*
+  Build the instructions to mint `amount` tokens to the payer, authorized by the multisig
+*/
+async function buildMintInstructions(amount: bigint, signers: MultisigSigner[]) {
+  // load the stored PublicKeys for ease of use
+  const localKeys = await loadPublicKeysFromFile();
+
+  // ensure the desired scripts were already run
+  if (!localKeys?.tokenMint || !localKeys?.multisig)
+    throw Error(
+      "No local keys were found! Please run '14.createMultisig.ts --set-authority' first",
+    );
+
+  const tokenMint: PublicKey = localKeys.tokenMint;
+  const multisigAddress: PublicKey = localKeys.multisig;
+
+  const mint = await getMint(connection, tokenMint);
+  if (!mint.mintAuthority?.equals(multisigAddress))
+    throw Error(
+      `The multisig is not the mint authority (run '14.createMultisig.ts --set-authority' first)`,
+    );
+
+  // check the signers against the multisig, since the token program would reject them anyway
+  const multisig = await getMultisig(connection, multisigAddress);
+  const multisigSigners = [
+    multisig.signer1,
+    multisig.signer2,
+    multisig.signer3,
+    multisig.signer4,
+    multisig.signer5,
+    multisig.signer6,
+    multisig.signer7,
+    multisig.signer8,
+    multisig.signer9,
+    multisig.signer10,
+    multisig.signer11,
+  ].slice(0, multisig.n);
+
+  for (const signer of signers) {
+    if (!multisigSigners.some(key => key.equals(signer.publicKey)))
+      throw Error(`${signer.publicKey.toBase58()} is not a signer of the multisig`);
+  }
+  if (signers.length < multisig.m)
+    throw Error(`The multisig requires ${multisig.m} signers, but only ${signers.length} given`);
+
+  console.log("🪙 Token mint:", tokenMint.toBase58());
+  console.log(`🔐 Multisig: ${multisigAddress.toBase58()} (${multisig.m} of ${multisig.n})`);
+  console.log("   Amount to mint (base units):", amount.toString());
+
+  const tokenAccount = getAssociatedTokenAddressSync(tokenMint, payer.publicKey);
+
+  return {
+    nonceAccount: localKeys.multisigNonce as PublicKey | undefined,
+    instructions: [
+      createAssociatedTokenAccountIdempotentInstruction(
+        payer.publicKey,
+        tokenAccount,
+        payer.publicKey,
+        tokenMint,
+      ),
+      // the multisig is the authority, and each of the signers must sign the transaction
+      createMintToInstruction(
+        tokenMint,
+        tokenAccount,
+        multisigAddress,
+        amount,
+        signers.map(signer => signer.publicKey),
+      ),
+    ] as TransactionInstruction[],
+  };
+}
+
+/*
+  Print what a partially signed transaction does, decoded from its instructions, and return
+  whether every instruction was recognized
+*/
+function printTransactionInstructions(transaction: Transaction) {
+  const decoded = decodePartialTransaction(transaction);
+
+  console.log("📄 Fee payer:", transaction.feePayer?.toBase58());
+  decoded.forEach(({ name, fields, recognized }, index) => {
+    console.log(`${recognized ? "🧾" : "⚠️"} Instruction #${index + 1}: ${name}`);
+    fields.forEach(([label, value]) => console.log(`   ${label}: ${value}`));
+  });
+
+  return decoded.every(({ recognized }) => recognized);
+}
+
+/*
+  Print the signatures a partially signed transaction is still missing
+*/
+function printSignatureStatus(missing: PublicKey[]) {
+  if (!missing.length) return console.log("✅ The transaction is fully signed");
+
+  console.log(`✍️ Still waiting on ${missing.length} signature(s):`);
+  missing.forEach(key => console.log("   •", key.toBase58()));
+}
+
+(async () => {
+  printConsoleSeparator("🔐 Multisig Minting");
+
+  const args = process.argv.slice(2);
+  const fileFlag = args.indexOf("--file");
+  const transactionFile = fileFlag >= 0 ? args[fileFlag + 1] : DEFAULT_TRANSACTION_FILE;
+  const [command, ...params] = args.filter(
+    (arg, i) => !arg.startsWith("--") && (fileFlag < 0 || i !== fileFlag + 1),
+  );
+
+  console.log("📋 Configuration:");
+  console.log("   Payer address:", payer.publicKey.toBase58());
+  console.log("   Command:", command);
+
+  try {
+    if (command === "mint") {
+      // every signer is available locally, so the transaction is signed and sent right away
+      const [amount, ...signerArgs] = params;
+      const signers = loadMultisigSigners(signerArgs);
+      if (signers.some(signer => !signer.keypair))
+        throw Error("Every signer must be a keypair file (use `propose` to sign elsewhere)");
+
+      printConsoleSeparator("🔧 Building Instructions");
+      const { instructions } = await buildMintInstructions(BigInt(amount), signers);
+
+      printConsoleSeparator("🚀 Transaction Execution");
+      const result = await sendTransactionWithRetries({
+        connection,
+        payer: payer.publicKey,
+        signers: [payer, ...signers.map(signer => signer.keypair!)],
+        instructions,
+      });
+      if (result.simulated) return;
+
+      printConsoleSeparator("✅ Success!");
+      console.log("🎉 Tokens minted by the multisig!");
+      console.log("   Signature:", result.signature);
+      console.log("   🔗 Explorer:", explorerURL({ txSignature: result.signature }));
+    } else if (command === "propose") {
+      const [amount, ...signerArgs] = params;
+      const signers = loadMultisigSigners(signerArgs);
+
+      printConsoleSeparator("🔧 Building Instructions");
+      const { instructions, nonceAccount } = await buildMintInstructions(BigInt(amount), signers);
+      if (!nonceAccount) throw Error("No durable nonce found! Please run '14.createMultisig.ts'");
+
+      // the payer pays the fees and is the nonce authority, so it signs when proposing
+      const transaction = await buildDurableNonceTransaction({
+        connection,
+        feePayer: payer.publicKey,
+        nonceAccount,
+        instructions,
+      });
+      addPartialSignatures(transaction, [
+        payer,
+        ...signers.filter(signer => signer.keypair).map(signer => signer.keypair!),
+      ]);
+
+      savePartialTransaction(transactionFile, transaction);
+
+      printConsoleSeparator("📝 Transaction Proposed");
+      printTransactionInstructions(transaction);
+      console.log("💾 Saved the partially signed transaction to:", transactionFile);
+      printSignatureStatus(getMissingSigners(transaction));
+      console.log("💡 Pass the file to each remaining signer to run `sign`, then run `send`");
+    } else if (command === "sign") {
+      const signers = loadMultisigSigners(params);
+      if (signers.some(signer => !signer.keypair))
+        throw Error("Only keypair files can be used to sign");
+
+      const transaction = loadPartialTransaction(transactionFile);
+
+      // show what is being signed before signing it, decoded from the transaction itself (so a
+      // proposer cannot misrepresent it)
+      printConsoleSeparator("🔍 Transaction to Sign");
+      if (!printTransactionInstructions(transaction))
+        throw Error(
+          "The transaction has instructions that cannot be checked, so it was not signed",
+        );
+
+      addPartialSignatures(
+        transaction,
+        signers.map(signer => signer.keypair!),
+      );
+      savePartialTransaction(transactionFile, transaction);
+
+      printConsoleSeparator("✍️ Transaction Signed");
+      console.log("💾 Saved the signatures to:", transactionFile);
+      printSignatureStatus(getMissingSigners(transaction));
+    } else if (command === "send") {
+      const transaction = loadPartialTransaction(transactionFile);
+      printTransactionInstructions(transaction);
+
+      const missing = getMissingSigners(transaction);
+      if (missing.length) {
+        printSignatureStatus(missing);
+        return;
+      }
+
+      // in simulation mode, explain what the transaction would do instead of sending it
+      if (SIMULATE) {
+        await simulateAndPrintTransaction(connection, transaction);
+        return;
+      }
+
+      printConsoleSeparator("🚀 Transaction Execution");
+
+      // the nonce value is the transaction's "blockhash", so it never expires while unused
+      const minContextSlot = await connection.getSlot();
+      const signature = await connection.sendRawTransaction(transaction.serialize());
+      await connection.confirmTransaction(
+        {
+          signature,
+          minContextSlot,
+          nonceAccountPubkey: transaction.instructions[0].keys[0].pubkey,
+          nonceValue: transaction.recentBlockhash!,
+        },
+        "confirmed",
+      );
+
+      printConsoleSeparator("✅ Success!");
+      console.log("🎉 Tokens minted by the multisig!");
+      console.log("   Signature:", signature);
+      console.log("   🔗 Explorer:", explorerURL({ txSignature: signature }));
+    } else {
+      console.error("❌ Unknown command:", command);
+      console.log("💡 Use one of: mint, propose, sign, send");
+    }
+  } catch (err) {
+    printConsoleSeparator("❌ Multisig Minting Failed");
+    console.error("🚨 Error details:", err);
+
+    // decode which program failed, and why
+    printDecodedError(await decodeTransactionError(connection, err), true);
+
+    throw err;
+  }
+})();
@@ -4,8 +4,9 @@
  */
 
 // import custom helpers for demos
-import { payer, testWallet, connection, STATIC_PUBLICKEY } from "@/lib/vars";
+import { payer, testWallet, connection, STATIC_PUBLICKEY, SIMULATE } from "@/lib/vars";
 import { explorerURL, printConsoleSeparator } from "@/lib/helpers";
+import { simulateAndPrintTransaction } from "@/lib/simulate";
 
 import { SystemProgram, TransactionMessage, VersionedTransaction } from "@solana/web3.js";
 
@@ -184,6 +185,13 @@ import { SystemProgram, TransactionMessage, VersionedTransaction } from "@solana
   console.log(`   Transfer to test wallet: ${transferToTestWalletAmount} lamports`);
   console.log(`   Transfer to static wallet (2x): ${transferToStaticWalletAmount * 2} lamports`);
 
+  // in simulation mode, explain what the transaction would do instead of sending it
+  if (SIMULATE) {
+    printConsoleSeparator();
+    await simulateAndPrintTransaction(connection, tx);
+    return;
+  }
+
   // actually send the transaction
   console.log("\n🚀 Sending transaction to blockchain...");
   const sig = await connection.sendTransaction(tx);
@@ -1,20 +1,30 @@
 /**
  * Demonstrates how to create a SPL token and store it's metadata on chain (using the Metaplex MetaData program)
+ * ---
+ * use `--multisig` to hand the mint and freeze authorities over to the multisig created by
+ * `14.createMultisig.ts`, once the metadata is created
  */
 
 // import custom helpers for demos
 import { payer, testWallet, connection } from "@/lib/vars";
 
 import {
-  buildTransaction,
   explorerURL,
-  extractSignatureFromFailedTransaction,
+  loadPublicKeysFromFile,
   printConsoleSeparator,
   savePublicKeyToFile,
 } from "@/lib/helpers";
+import { decodeTransactionError, printDecodedError } from "@/lib/errors";
+import { sendTransactionWithRetries } from "@/lib/transaction";
 
 import { Keypair, PublicKey, SystemProgram } from "@solana/web3.js";
-import { MINT_SIZE, TOKEN_PROGRAM_ID, createInitializeMint2Instruction } from "@solana/spl-token";
+import {
+  AuthorityType,
+  MINT_SIZE,
+  TOKEN_PROGRAM_ID,
+  createInitializeMint2Instruction,
+  createSetAuthorityInstruction,
+} from "@solana/spl-token";
 
 import {
   PROGRAM_ID as METADATA_PROGRAM_ID,
@@ -156,56 +166,90 @@ import {
     },
   );
 
+  /**
+   * The metadata can only be created with the mint authority's signature, so the authorities are
+   * handed over to the multisig afterwards (from then on, minting requires M of its N signers)
+   */
+  const instructions = [
+    createMintAccountInstruction,
+    initializeMintInstruction,
+    createMetadataInstruction,
+  ];
+
+  if (process.argv.includes("--multisig")) {
+    const localKeys = await loadPublicKeysFromFile();
+
+    // ensure the desired script was already run
+    if (!localKeys?.multisig) {
+      console.error("❌ No multisig was found!");
+      console.log("💡 Please run '14.createMultisig.ts' first");
+      return;
+    }
+
+    const multisig: PublicKey = localKeys.multisig;
+    console.log("🔐 Handing the mint and freeze authorities to the multisig:", multisig.toBase58());
+
+    instructions.push(
+      createSetAuthorityInstruction(
+        mintKeypair.publicKey,
+        payer.publicKey,
+        AuthorityType.MintTokens,
+        multisig,
+      ),
+      createSetAuthorityInstruction(
+        mintKeypair.publicKey,
+        payer.publicKey,
+        AuthorityType.FreezeAccount,
+        multisig,
+      ),
+    );
+  }
+
   printConsoleSeparator("🚀 Transaction Execution");
   
-  console.log("🔨 Building transaction with 3 instructions:");
+  console.log(`🔨 Building transaction with ${instructions.length} instructions:`);
   console.log("   1. Create mint account");
   console.log("   2. Initialize mint");
   console.log("   3. Create metadata account");
-  /**
-   * Build the transaction to send to the blockchain
-   */
-
-  const tx = await buildTransaction({
-    connection,
-    payer: payer.publicKey,
-    signers: [payer, mintKeypair],
-    instructions: [
-      createMintAccountInstruction,
-      initializeMintInstruction,
-      createMetadataInstruction,
-    ],
-  });
+  if (instructions.length > 3) console.log("   4-5. Set the multisig as mint and freeze authority");
 
   console.log("📡 Sending transaction to blockchain...");
 
   try {
-    // actually send the transaction
-    const sig = await connection.sendTransaction(tx);
+    // actually send the transaction, retrying until it is confirmed
+    const result = await sendTransactionWithRetries({
+      connection,
+      payer: payer.publicKey,
+      signers: [payer, mintKeypair],
+      instructions,
+    });
+    const sig = result.signature;
+
+    // simulated transactions never create the token, so there is nothing to save
+    if (result.simulated) return;
 
     printConsoleSeparator("✅ Success!");
     console.log("🎉 Token with metadata created successfully!");
     console.log("📋 Transaction Details:");
     console.log("   Signature:", sig);
+    console.log("   Slot:", result.slot);
+    console.log("   Compute units consumed:", result.computeUnitsConsumed);
+    console.log("   Fee (in lamports):", result.fee);
     console.log("   🔗 Explorer:", explorerURL({ txSignature: sig }));
     console.log("🪙 Token Details:");
     console.log("   Mint Address:", mintKeypair.publicKey.toBase58());
     console.log("   Metadata Address:", metadataAccount.toBase58());
 
     // locally save our addresses for the demo
-    savePublicKeyToFile("tokenMint", mintKeypair.publicKey);
+    await savePublicKeyToFile("tokenMint", mintKeypair.publicKey);
     console.log("💾 Token mint address saved locally for future scripts");
   } catch (err) {
     printConsoleSeparator("❌ Transaction Failed");
     console.error("🚨 Failed to send transaction:");
     console.error("Error details:", err);
 
-    // attempt to extract the signature from the failed transaction
-    const failedSig = await extractSignatureFromFailedTransaction(connection, err);
-    if (failedSig) {
-      console.log("🔍 Failed transaction signature:", failedSig);
-      console.log("🔗 Explorer:", explorerURL({ txSignature: failedSig }));
-    }
+    // decode which program failed, and why
+    printDecodedError(await decodeTransactionError(connection, err), true);
 
     throw err;
   }
@@ -1,45 +1,134 @@
 /**
  * Demonstrates how to create new SPL tokens (aka "minting tokens") into an existing SPL Token Mint
+ * ---
+ * use `--token-2022` to mint into the Token-2022 mint created by `13.createToken2022WithMetadata.ts`
  */
 
 // import custom helpers for demos
-import { payer, connection } from "@/lib/vars";
-import { explorerURL, loadPublicKeysFromFile, printConsoleSeparator } from "@/lib/helpers";
+import { payer, connection, SIMULATE } from "@/lib/vars";
+import {
+  buildTransaction,
+  explorerURL,
+  loadPublicKeysFromFile,
+  printConsoleSeparator,
+} from "@/lib/helpers";
+import { simulateAndPrintTransaction } from "@/lib/simulate";
 
 import { PublicKey } from "@solana/web3.js";
-import { getOrCreateAssociatedTokenAccount, mintTo } from "@solana/spl-token";
+import {
+  TOKEN_2022_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createMintToInstruction,
+  getAssociatedTokenAddressSync,
+  getMint,
+  getOrCreateAssociatedTokenAccount,
+  mintTo,
+} from "@solana/spl-token";
 
 (async () => {
   printConsoleSeparator("🪙 Minting SPL Tokens");
-  
+
   console.log("📋 Configuration:");
   console.log("   Payer address:", payer.publicKey.toBase58());
 
   printConsoleSeparator("📁 Loading Saved Keys");
 
   // load the stored PublicKeys for ease of use
-  let localKeys = loadPublicKeysFromFile();
+  let localKeys = await loadPublicKeysFromFile();
+
+  const useToken2022 = process.argv.includes("--token-2022");
+  const mintKeyName = useToken2022 ? "token2022Mint" : "tokenMint";
 
   // ensure the desired script was already run
-  if (!localKeys?.tokenMint) {
+  if (!localKeys?.[mintKeyName]) {
     console.error("❌ No local keys were found!");
-    console.log("💡 Please run '3.createTokenWithMetadata.ts' first");
+    console.log(
+      `💡 Please run '${
+        useToken2022 ? "13.createToken2022WithMetadata.ts" : "3.createTokenWithMetadata.ts"
+      }' first`,
+    );
     return;
   }
 
-  const tokenMint: PublicKey = localKeys.tokenMint;
+  const tokenMint: PublicKey = localKeys[mintKeyName];
+
+  /**
+   * Token-2022 mints are owned by a different program than classic SPL token mints,
+   * so every token instruction must be sent to the program that owns the mint
+   */
+  const tokenProgramId = (await connection.getAccountInfo(tokenMint))?.owner;
+  if (!tokenProgramId) {
+    console.error("❌ The token mint was not found:", tokenMint.toBase58());
+    return;
+  }
+
+  // mints with a multisig mint authority require M of its N signers to sign
+  const { mintAuthority } = await getMint(connection, tokenMint, undefined, tokenProgramId);
+  if (!mintAuthority?.equals(payer.publicKey)) {
+    console.error("❌ The payer is not the mint authority:", mintAuthority?.toBase58() ?? "none");
+    if (localKeys.multisig && mintAuthority?.equals(localKeys.multisig))
+      console.log("💡 The mint authority is a multisig, use '15.multisigMintTokens.ts' instead");
+    return;
+  }
 
   console.log("✅ Local PublicKeys loaded successfully");
   console.log("🪙 Token mint address:", tokenMint.toBase58());
+  console.log(
+    "   Token program:",
+    tokenProgramId.equals(TOKEN_2022_PROGRAM_ID) ? "Token-2022" : "SPL Token",
+  );
   console.log("🔗 Explorer:", explorerURL({ address: tokenMint.toBase58() }));
 
+  const amountOfTokensToMint = 1_000;
+
+  /**
+   * the `getOrCreateAssociatedTokenAccount` and `mintTo` helpers below send their transactions
+   * right away, so in simulation mode their instructions are built (and simulated) manually
+   */
+  if (SIMULATE) {
+    printConsoleSeparator("🧪 Simulating Minting");
+
+    const tokenAccount = getAssociatedTokenAddressSync(
+      tokenMint,
+      payer.publicKey,
+      false,
+      tokenProgramId,
+    );
+    const tx = await buildTransaction({
+      connection,
+      payer: payer.publicKey,
+      signers: [payer],
+      instructions: [
+        // only creates the ata when it does not exist yet
+        createAssociatedTokenAccountIdempotentInstruction(
+          payer.publicKey,
+          tokenAccount,
+          payer.publicKey,
+          tokenMint,
+          tokenProgramId,
+        ),
+        createMintToInstruction(
+          tokenMint,
+          tokenAccount,
+          payer.publicKey,
+          amountOfTokensToMint,
+          [],
+          tokenProgramId,
+        ),
+      ],
+    });
+
+    await simulateAndPrintTransaction(connection, tx);
+    return;
+  }
+
   printConsoleSeparator("🏦 Setting up Token Account");
 
   console.log("📝 About Associated Token Accounts (ATAs):");
   console.log("   • SPL tokens are stored in Associated Token Accounts");
   console.log("   • Each user has one ATA per token mint");
   console.log("   • The ATA is owned by the user's wallet");
-  
+
   console.log("🔍 Getting or creating ATA for token mint...");
   /**
    * SPL tokens are owned using a special relationship where the actual tokens
@@ -57,6 +146,10 @@ import { getOrCreateAssociatedTokenAccount, mintTo } from "@solana/spl-token";
     payer,
     tokenMint,
     payer.publicKey,
+    false,
+    undefined,
+    undefined,
+    tokenProgramId,
   ).then(ata => ata.address);
 
   /*
@@ -74,7 +167,7 @@ import { getOrCreateAssociatedTokenAccount, mintTo } from "@solana/spl-token";
   console.log("   ATA address:", tokenAccount.toBase58());
 
   printConsoleSeparator("🏭 Minting Tokens");
-  
+
   console.log("📝 Understanding Token Decimals:");
   console.log("   • Token amounts include decimal places from the mint");
   console.log("   • If decimals=2, amount=1_000 → actual tokens = 10.00");
@@ -90,8 +183,6 @@ import { getOrCreateAssociatedTokenAccount, mintTo } from "@solana/spl-token";
    * - if decimals=2, amount=10 => actual tokens minted == 0.10
    */
 
-  const amountOfTokensToMint = 1_000;
-
   console.log("🪙 Minting Configuration:");
   console.log("   Raw amount to mint:", amountOfTokensToMint.toLocaleString());
   console.log("   Actual tokens (with 2 decimals):", (amountOfTokensToMint / 100).toLocaleString());
@@ -105,6 +196,9 @@ import { getOrCreateAssociatedTokenAccount, mintTo } from "@solana/spl-token";
     tokenAccount,
     payer,
     amountOfTokensToMint,
+    [],
+    undefined,
+    tokenProgramId,
   );
 
   printConsoleSeparator("✅ Success!");
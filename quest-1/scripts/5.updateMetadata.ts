@@ -1,151 +1,285 @@
 /**
  * Demonstrates how to update the metadata for an SPL token, using the Metaplex MetadataProgram
+ * ---
+ * the metadata is updated declaratively: the desired metadata of one or many mints is compared to
+ * their current on chain metadata, and only the mints with changed fields are updated
+ *
+ * the desired metadata can be read from a JSON file (passed as the first argument), containing an
+ * array of `{ mint, name, symbol, uri, sellerFeeBasisPoints, creators, isMutable }` objects. Any
+ * fields not included are left unchanged. Use `--dry-run` to only print the changes
  */
 
 // import custom helpers for demos
 import { payer, connection } from "@/lib/vars";
-import {
-  buildTransaction,
-  explorerURL,
-  extractSignatureFromFailedTransaction,
-  loadPublicKeysFromFile,
-  printConsoleSeparator,
-} from "@/lib/helpers";
+import { explorerURL, loadPublicKeysFromFile, printConsoleSeparator } from "@/lib/helpers";
+import { decodeTransactionError, printDecodedError } from "@/lib/errors";
+import { sendTransactionWithRetries } from "@/lib/transaction";
 
+import fs from "fs";
 import { PublicKey } from "@solana/web3.js";
 import {
+  Creator,
+  DataV2,
+  Metadata,
   PROGRAM_ID as METADATA_PROGRAM_ID,
   createUpdateMetadataAccountV2Instruction,
 } from "@metaplex-foundation/mpl-token-metadata";
 
+type DesiredMetadata = {
+  mint: string;
+  name?: string;
+  symbol?: string;
+  uri?: string;
+  sellerFeeBasisPoints?: number;
+  creators?: { address: string; share: number }[] | null;
+  isMutable?: boolean;
+};
+
+type FieldChange = { field: string; from: string; to: string };
+
+/*
+  Format a list of creators for comparing and printing
+*/
+function formatCreators(creators: Pick<Creator, "address" | "share">[] | null) {
+  if (!creators?.length) return "none";
+  return creators.map(creator => `${creator.address.toBase58()} (${creator.share}%)`).join(", ");
+}
+
+/*
+  Compare the desired metadata to the current on chain metadata, listing every changed field
+*/
+function diffMetadata(desired: DesiredMetadata, current: Metadata) {
+  // on chain strings are padded with null characters
+  const currentData = {
+    name: current.data.name.replace(/\0/g, ""),
+    symbol: current.data.symbol.replace(/\0/g, ""),
+    uri: current.data.uri.replace(/\0/g, ""),
+    sellerFeeBasisPoints: current.data.sellerFeeBasisPoints,
+  };
+
+  const changes: FieldChange[] = [];
+
+  for (const field of ["name", "symbol", "uri", "sellerFeeBasisPoints"] as const) {
+    if (desired[field] !== undefined && desired[field] !== currentData[field])
+      changes.push({
+        field,
+        from: JSON.stringify(currentData[field]),
+        to: JSON.stringify(desired[field]),
+      });
+  }
+
+  // keep the verified status of the existing creators (new creators are always unverified)
+  let creators = current.data.creators;
+  if (desired.creators !== undefined) {
+    const desiredCreators = desired.creators?.length
+      ? desired.creators.map(({ address, share }) => ({
+          address: new PublicKey(address),
+          share,
+          verified:
+            current.data.creators?.find(creator => creator.address.toBase58() === address)
+              ?.verified ?? false,
+        }))
+      : null;
+
+    if (formatCreators(desiredCreators) !== formatCreators(current.data.creators)) {
+      changes.push({
+        field: "creators",
+        from: formatCreators(current.data.creators),
+        to: formatCreators(desiredCreators),
+      });
+      creators = desiredCreators;
+    }
+  }
+
+  if (desired.isMutable !== undefined && desired.isMutable !== current.isMutable)
+    changes.push({
+      field: "isMutable",
+      from: String(current.isMutable),
+      to: String(desired.isMutable),
+    });
+
+  // the instruction replaces all of the data at once, so the unchanged fields are sent as is
+  const data: DataV2 = {
+    name: desired.name ?? currentData.name,
+    symbol: desired.symbol ?? currentData.symbol,
+    uri: desired.uri ?? currentData.uri,
+    sellerFeeBasisPoints: desired.sellerFeeBasisPoints ?? currentData.sellerFeeBasisPoints,
+    creators,
+    collection: current.collection,
+    uses: current.uses,
+  };
+
+  return {
+    changes,
+    dataChanged: changes.some(change => change.field !== "isMutable"),
+    data,
+  };
+}
+
 (async () => {
   printConsoleSeparator("📝 Updating Token Metadata");
-  
+
+  const args = process.argv.slice(2);
+  const dryRun = args.includes("--dry-run");
+  const desiredStateFile = args.find(arg => !arg.startsWith("--"));
+
   console.log("📋 Configuration:");
   console.log("   Payer address:", payer.publicKey.toBase58());
+  console.log("   Desired metadata:", desiredStateFile ?? "the demo token (from the saved keys)");
+  console.log("   Dry run:", dryRun);
 
-  printConsoleSeparator("📁 Loading Saved Keys");
+  printConsoleSeparator("⚙️ Desired Metadata");
 
-  // load the stored PublicKeys for ease of use
-  let localKeys = loadPublicKeysFromFile();
+  let desiredState: DesiredMetadata[];
 
-  // ensure the desired script was already run
-  if (!localKeys?.tokenMint) {
-    console.error("❌ No local keys were found!");
-    console.log("💡 Please run '3.createTokenWithMetadata.ts' first");
-    return;
-  }
+  if (desiredStateFile) {
+    desiredState = JSON.parse(fs.readFileSync(desiredStateFile, { encoding: "utf-8" }));
+  } else {
+    // load the stored PublicKeys for ease of use
+    let localKeys = await loadPublicKeysFromFile();
 
-  const tokenMint: PublicKey = localKeys.tokenMint;
+    // ensure the desired script was already run
+    if (!localKeys?.tokenMint) {
+      console.error("❌ No local keys were found!");
+      console.log("💡 Please run '3.createTokenWithMetadata.ts' first");
+      return;
+    }
 
-  console.log("✅ Local PublicKeys loaded successfully");
-  console.log("🪙 Token mint address:", tokenMint.toBase58());
-  console.log("🔗 Explorer:", explorerURL({ address: tokenMint.toBase58() }));
+    const tokenMint: PublicKey = localKeys.tokenMint;
 
-  printConsoleSeparator("⚙️ New Metadata Configuration");
+    // define the new token config settings
+    desiredState = [
+      {
+        mint: tokenMint.toBase58(),
+        // new name
+        name: "New Super Sweet Token",
+        // new symbol
+        symbol: "nSST",
+        // new uri
+        uri: "https://thisisnot.arealurl/new.json",
+      },
+    ];
+  }
 
-  // define the new token config settings
-  const tokenConfig = {
-    // new name
-    name: "New Super Sweet Token",
-    // new symbol
-    symbol: "nSST",
-    // new uri
-    uri: "https://thisisnot.arealurl/new.json",
-  };
+  console.log(`📝 Loaded the desired metadata of ${desiredState.length} mint(s)`);
 
-  console.log("📝 Updated Token Configuration:");
-  console.log("   New Name:", tokenConfig.name);
-  console.log("   New Symbol:", tokenConfig.symbol);
-  console.log("   New Metadata URI:", tokenConfig.uri);
+  printConsoleSeparator("🔍 Comparing On Chain Metadata");
 
-  printConsoleSeparator("🔧 Building Update Instruction");
-  
-  console.log("🔍 Deriving metadata account PDA...");
   /**
-   * Build the instruction to store the token's metadata on chain
-   * - derive the pda for the metadata account
-   * - create the instruction with the actual metadata in it
+   * derive the pda address for the Metadata account of every mint,
+   * then fetch all of their current metadata at once
    */
+  const metadataAccounts = desiredState.map(
+    desired =>
+      PublicKey.findProgramAddressSync(
+        [
+          Buffer.from("metadata"),
+          METADATA_PROGRAM_ID.toBuffer(),
+          new PublicKey(desired.mint).toBuffer(),
+        ],
+        METADATA_PROGRAM_ID,
+      )[0],
+  );
 
-  // derive the pda address for the Metadata account
-  const metadataAccount = PublicKey.findProgramAddressSync(
-    [Buffer.from("metadata"), METADATA_PROGRAM_ID.toBuffer(), tokenMint.toBuffer()],
-    METADATA_PROGRAM_ID,
-  )[0];
-
-  console.log("📍 Metadata PDA address:", metadataAccount.toBase58());
-
-  console.log("📝 Creating metadata update instruction...");
-  // Create the Metadata account for the Mint
-  const updateMetadataInstruction = createUpdateMetadataAccountV2Instruction(
-    {
-      metadata: metadataAccount,
-      updateAuthority: payer.publicKey,
-    },
-    {
-      updateMetadataAccountArgsV2: {
-        data: {
-          creators: null,
-          name: tokenConfig.name,
-          symbol: tokenConfig.symbol,
-          uri: tokenConfig.uri,
-          sellerFeeBasisPoints: 0,
-          collection: null,
-          uses: null,
+  const accountInfos = [];
+  // `getMultipleAccountsInfo` is limited to 100 accounts per request
+  for (let i = 0; i < metadataAccounts.length; i += 100)
+    accountInfos.push(
+      ...(await connection.getMultipleAccountsInfo(metadataAccounts.slice(i, i + 100))),
+    );
+
+  const updates = [];
+  let failed = 0;
+
+  for (const [index, desired] of desiredState.entries()) {
+    const accountInfo = accountInfos[index];
+    if (!accountInfo) {
+      console.log(`❌ ${desired.mint}: no metadata account found`);
+      failed++;
+      continue;
+    }
+
+    const [current] = Metadata.fromAccountInfo(accountInfo);
+    const { changes, dataChanged, data } = diffMetadata(desired, current);
+
+    if (!changes.length) {
+      console.log(`✅ ${desired.mint}: up to date`);
+      continue;
+    }
+
+    console.log(`✏️ ${desired.mint}:`);
+    changes.forEach(change => console.log(`   ${change.field}: ${change.from} → ${change.to}`));
+
+    if (!current.isMutable) {
+      console.log("   ❌ the metadata is immutable, so it cannot be updated");
+      failed++;
+      continue;
+    }
+    if (!current.updateAuthority.equals(payer.publicKey)) {
+      console.log(
+        "   ❌ the payer is not the update authority:",
+        current.updateAuthority.toBase58(),
+      );
+      failed++;
+      continue;
+    }
+
+    updates.push({
+      mint: desired.mint,
+      metadataAccount: metadataAccounts[index],
+      // only the changed parts of the metadata are sent
+      instruction: createUpdateMetadataAccountV2Instruction(
+        {
+          metadata: metadataAccounts[index],
+          updateAuthority: payer.publicKey,
         },
-        isMutable: true,
-        primarySaleHappened: null,
-        updateAuthority: payer.publicKey,
-      },
-    },
-  );
+        {
+          updateMetadataAccountArgsV2: {
+            data: dataChanged ? data : null,
+            isMutable: desired.isMutable !== current.isMutable ? desired.isMutable ?? null : null,
+            primarySaleHappened: null,
+            updateAuthority: null,
+          },
+        },
+      ),
+    });
+  }
+
+  printConsoleSeparator("📊 Summary");
+  console.log("✏️ Mints to update:", updates.length);
+  console.log("✅ Mints up to date:", desiredState.length - updates.length - failed);
+  console.log("❌ Mints unable to be updated:", failed);
+
+  if (dryRun) {
+    console.log("\n💡 Dry run: no transactions were sent (re-run without `--dry-run` to update)");
+    return;
+  }
+
+  if (!updates.length) return;
 
   printConsoleSeparator("🚀 Transaction Execution");
-  
-  console.log("🔨 Building transaction with metadata update instruction");
-  /**
-   * Build the transaction to send to the blockchain
-   */
 
-  const tx = await buildTransaction({
-    connection,
-    payer: payer.publicKey,
-    signers: [payer],
-    instructions: [updateMetadataInstruction],
-  });
-
-  console.log("📡 Sending metadata update transaction...");
-
-  try {
-    // actually send the transaction
-    const sig = await connection.sendTransaction(tx);
-
-    printConsoleSeparator("✅ Success!");
-    console.log("🎉 Token metadata updated successfully!");
-    console.log("📋 Transaction Details:");
-    console.log("   Signature:", sig);
-    console.log("   🔗 Explorer:", explorerURL({ txSignature: sig }));
-    console.log("📝 Updated Metadata:");
-    console.log("   Token Name:", tokenConfig.name);
-    console.log("   Token Symbol:", tokenConfig.symbol);
-    console.log("   Metadata URI:", tokenConfig.uri);
-    console.log("   Metadata Account:", metadataAccount.toBase58());
-
-    // locally save our addresses for the demo
-    // savePublicKeyToFile("tokenMint", mintKeypair.publicKey);
-  } catch (err) {
-    printConsoleSeparator("❌ Transaction Failed");
-    console.error("🚨 Failed to send metadata update transaction:");
-    console.error("Error details:", err);
-
-    // attempt to extract the signature from the failed transaction
-    const failedSig = await extractSignatureFromFailedTransaction(connection, err);
-    if (failedSig) {
-      console.log("🔍 Failed transaction signature:", failedSig);
-      console.log("🔗 Explorer:", explorerURL({ txSignature: failedSig }));
-    }
+  for (const update of updates) {
+    console.log(`📡 Sending the metadata update for ${update.mint}...`);
 
-    throw err;
+    try {
+      // actually send the transaction, retrying until it is confirmed
+      const result = await sendTransactionWithRetries({
+        connection,
+        payer: payer.publicKey,
+        signers: [payer],
+        instructions: [update.instruction],
+      });
+      if (result.simulated) continue;
+
+      console.log("✅ Updated! Signature:", result.signature);
+      console.log("   Metadata Account:", update.metadataAccount.toBase58());
+      console.log("   🔗 Explorer:", explorerURL({ txSignature: result.signature }));
+    } catch (err) {
+      console.error(`❌ Failed to update the metadata for ${update.mint}`);
+
+      // decode which program failed, and why
+      printDecodedError(await decodeTransactionError(connection, err), true);
+    }
   }
 })();
@@ -1,24 +1,42 @@
 /**
- * Demonstrates how to mint NFTs and store their metadata on chain using the Metaplex MetadataProgram
+ * Demonstrates how to mint NFTs into a verified collection and store their metadata on chain using
+ * the Metaplex MetadataProgram
  */
 
 // import custom helpers for demos
-import { payer, connection } from "@/lib/vars";
-import { explorerURL, loadPublicKeysFromFile, printConsoleSeparator } from "@/lib/helpers";
+import { payer, connection, SIMULATE } from "@/lib/vars";
+import {
+  explorerURL,
+  loadPublicKeysFromFile,
+  printConsoleSeparator,
+  savePublicKeyToFile,
+} from "@/lib/helpers";
+import { localStorage } from "@/lib/storage";
+import { simulateAndPrintTransaction } from "@/lib/simulate";
 
 import { PublicKey } from "@solana/web3.js";
-import { Metaplex, keypairIdentity, mockStorage } from "@metaplex-foundation/js";
+import { CreateNftBuilderParams, Metaplex, keypairIdentity } from "@metaplex-foundation/js";
+
+/*
+  Simulate creating an NFT (instead of creating it), using the Metaplex transaction builder
+*/
+async function simulateCreateNft(metaplex: Metaplex, input: CreateNftBuilderParams) {
+  const builder = await metaplex.nfts().builders().create(input);
+  const transaction = builder.toTransaction(await metaplex.connection.getLatestBlockhash());
+
+  await simulateAndPrintTransaction(metaplex.connection, transaction);
+}
 
 (async () => {
   printConsoleSeparator("🖼️ Creating NFTs with Metaplex");
-  
+
   console.log("📋 Configuration:");
   console.log("   Payer address:", payer.publicKey.toBase58());
 
   printConsoleSeparator("📁 Loading Saved Keys");
 
   // load the stored PublicKeys for ease of use
-  let localKeys = loadPublicKeysFromFile();
+  let localKeys = await loadPublicKeysFromFile();
 
   // ensure the desired script was already run
   if (!localKeys?.tokenMint) {
@@ -50,21 +68,21 @@ import { Metaplex, keypairIdentity, mockStorage } from "@metaplex-foundation/js"
     image:
       "https://bafybeic75qqhfytc6xxoze2lo5af2lfhmo2kh4mhirelni2wota633dgqu.ipfs.nftstorage.link/",
   };
-  
+
   console.log("🖼️ NFT Metadata:");
   console.log("   Name:", metadata.name);
   console.log("   Symbol:", metadata.symbol);
   console.log("   Description:", metadata.description);
   console.log("   Image URL:", metadata.image);
-  
+
   // another ship: "https://bafybeiblld2wlxyivlivnhaqbcixhzxrodjzrycjkitz3kdmzj65gebwxe.ipfs.nftstorage.link/"
   // Captain Rajovenko: "https://bafybeihww4tue5pme3h2udqvkpfbzs5zf4h2pysuoowwofbbk372vvtmja.ipfs.nftstorage.link/"
 
   printConsoleSeparator("⚙️ Metaplex SDK Setup");
-  
+
   console.log("🔧 Configuring Metaplex SDK:");
   console.log("   • Setting up keypair identity");
-  console.log("   • Using mock storage for metadata (for demo purposes)");
+  console.log("   • Using local storage for metadata (served by '12.serveLocalStorage.ts')");
   console.log("   • Note: In production, use proper IPFS storage");
   /**
    * Use the Metaplex sdk to handle most NFT actions
@@ -74,19 +92,66 @@ import { Metaplex, keypairIdentity, mockStorage } from "@metaplex-foundation/js"
   const metaplex = Metaplex.make(connection)
     // set our keypair to use, and pay for the transaction
     .use(keypairIdentity(payer))
-    // define a storage mechanism to upload with
-    .use(mockStorage());
+    // define a storage mechanism to upload with (a local directory, served over HTTP)
+    .use(localStorage());
 
   console.log("✅ Metaplex SDK configured successfully");
 
+  printConsoleSeparator("🗂️ Ship Collection");
+
+  /**
+   * every ship is minted into a single collection, which only needs to be created once
+   * (the collection's mint address is saved locally for later runs)
+   */
+  let shipCollection: PublicKey | undefined = localKeys.shipCollection;
+
+  if (shipCollection) {
+    console.log("✅ Using the existing ship collection:", shipCollection.toBase58());
+  } else {
+    console.log("🚀 Creating the ship collection NFT...");
+
+    const { uri: collectionUri } = await metaplex.nfts().uploadMetadata({
+      name: "Seven Seas Ships",
+      symbol: "SHIP",
+      description: "The fleet of legendary Pirate ships that sail the Seven Seas.",
+      image: metadata.image,
+    });
+
+    // `isCollection` creates a sized collection NFT, which other NFTs can be verified into
+    const collectionInput: CreateNftBuilderParams = {
+      uri: collectionUri,
+      name: "Seven Seas Ships",
+      symbol: "SHIP",
+      sellerFeeBasisPoints: 0,
+      isCollection: true,
+    };
+
+    // the ships can only be simulated once their collection exists
+    if (SIMULATE) {
+      console.log("🧪 Simulating the collection's creation instead");
+      await simulateCreateNft(metaplex, collectionInput);
+      return;
+    }
+
+    const { nft: collectionNft } = await metaplex.nfts().create(collectionInput);
+    shipCollection = collectionNft.address;
+
+    // locally save the collection's address for the later runs
+    await savePublicKeyToFile("shipCollection", shipCollection);
+
+    console.log("✅ Ship collection created:", shipCollection.toBase58());
+  }
+  console.log("🔗 Explorer:", explorerURL({ address: shipCollection.toBase58() }));
+
   printConsoleSeparator("☁️ Uploading Metadata");
-  console.log("📤 Uploading JSON metadata using mock storage...");
+  console.log("📤 Uploading JSON metadata using local storage...");
 
   // upload the JSON metadata
   const { uri } = await metaplex.nfts().uploadMetadata(metadata);
 
   console.log("✅ Metadata uploaded successfully!");
   console.log("🔗 Metadata URI:", uri);
+  console.log("💡 Run '12.serveLocalStorage.ts' to make the metadata URI fetchable");
 
   printConsoleSeparator("🎨 Creating NFT");
 
@@ -96,9 +161,9 @@ import { Metaplex, keypairIdentity, mockStorage } from "@metaplex-foundation/js"
   console.log("   • Symbol:", metadata.symbol);
   console.log("   • Royalties: 5.00% (500 basis points)");
   console.log("   • Mutable: Yes");
+  console.log("   • Collection:", shipCollection.toBase58());
 
-  // create a new nft using the metaplex sdk
-  const { nft, response } = await metaplex.nfts().create({
+  const nftInput: CreateNftBuilderParams = {
     uri,
     name: metadata.name,
     symbol: metadata.symbol,
@@ -108,11 +173,25 @@ import { Metaplex, keypairIdentity, mockStorage } from "@metaplex-foundation/js"
 
     //
     isMutable: true,
-  });
+
+    // mint the ship into the collection, and verify it (by signing as the collection's authority)
+    collection: shipCollection,
+    collectionAuthority: payer,
+  };
+
+  // in simulation mode, explain what creating the nft would do instead of creating it
+  if (SIMULATE) {
+    printConsoleSeparator("🧪 Simulating NFT Creation");
+    await simulateCreateNft(metaplex, nftInput);
+    return;
+  }
+
+  // create a new nft using the metaplex sdk
+  const { nft, response } = await metaplex.nfts().create(nftInput);
 
   printConsoleSeparator("✅ NFT Created Successfully!");
   console.log("🎉 Your pirate ship NFT has been minted!");
-  
+
   console.log("📋 NFT Details:");
   console.log("   Name:", nft.name);
   console.log("   Symbol:", nft.symbol);
@@ -122,6 +201,8 @@ import { Metaplex, keypairIdentity, mockStorage } from "@metaplex-foundation/js"
   console.log("   Is Mutable:", nft.isMutable);
   console.log("   Primary Sale Happened:", nft.primarySaleHappened);
   console.log("   Seller Fee Basis Points:", nft.sellerFeeBasisPoints);
+  console.log("   Collection:", nft.collection?.address.toBase58());
+  console.log("   Collection Verified:", nft.collection?.verified);
 
   console.log("📋 Transaction Details:");
   console.log("   Signature:", response.signature);
@@ -130,7 +211,7 @@ import { Metaplex, keypairIdentity, mockStorage } from "@metaplex-foundation/js"
   printConsoleSeparator("🔍 Optional: NFT Lookup Demo");
   console.log("💡 The code below demonstrates how to find NFT info by mint address");
   console.log("   (Currently commented out - uncomment to test)");
-  
+
   return;
 
   /**
@@ -145,7 +226,7 @@ import { Metaplex, keypairIdentity, mockStorage } from "@metaplex-foundation/js"
   const mintInfo = await metaplex.nfts().findByMint({
     mintAddress: tokenMint,
   });
-  
+
   console.log("📋 Found NFT Information:");
   console.log(mintInfo);
 })();
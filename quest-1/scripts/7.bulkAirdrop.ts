@@ -0,0 +1,466 @@
+/**
+ * Demonstrates how to airdrop SOL and SPL tokens to many wallets, driven by a CSV file
+ * ---
+ * each row of the CSV is `wallet,mint,amount`, where `mint` is either an SPL token mint address
+ * or `SOL`, and `amount` is the nominal (decimal) amount to send
+ *
+ * every batch is recorded to a journal file before it is sent, so a crashed run can be restarted
+ * without ever paying the same row twice. Rows are tracked by their wallet, mint and amount (not
+ * their line), so editing the CSV between runs does not pay the rows already sent again
+ */
+
+// import custom helpers for demos
+import { payer, connection } from "@/lib/vars";
+import { buildTransaction, explorerURL, printConsoleSeparator } from "@/lib/helpers";
+
+import fs from "fs";
+import path from "path";
+import {
+  PACKET_DATA_SIZE,
+  PublicKey,
+  SendTransactionError,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  getMint,
+} from "@solana/spl-token";
+import { utils } from "@project-serum/anchor";
+
+// define the default locations of the input and journal files
+const DEFAULT_CSV_FILE = "airdrop.csv";
+const JOURNAL_DIR_NAME = ".local_keys";
+
+// SOL amounts are sent in lamports
+const SOL_DECIMALS = 9;
+
+// how long to wait between checks on a batch that may still land
+const CONFIRMATION_POLL_MS = 2_000;
+
+type AirdropRow = {
+  // the 1-based line number within the CSV file
+  line: number;
+  // unique key used to track this row within the journal: its wallet, mint and amount, plus
+  // how many identical rows come before it (so repeated payments are each sent once)
+  key: string;
+  wallet: PublicKey;
+  // `null` when sending SOL
+  mint: PublicKey | null;
+  amount: string;
+};
+
+type JournalEntry = {
+  key: string;
+  status: "pending" | "sent" | "failed" | "expired";
+  signature: string;
+  // the last block height the batch's blockhash can be used at
+  lastValidBlockHeight?: number;
+  error?: string;
+  at: string;
+};
+
+/*
+  Convert a nominal decimal amount (e.g. "1.5") to its raw integer amount, without losing precision
+*/
+function parseAmount(amount: string, decimals: number): bigint {
+  const match = /^(\d+)(?:\.(\d+))?$/.exec(amount);
+  if (!match) throw Error(`invalid amount "${amount}"`);
+
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > decimals)
+    throw Error(`amount "${amount}" has more than ${decimals} decimal places`);
+
+  const raw = BigInt(whole + fraction.padEnd(decimals, "0"));
+  if (raw === BigInt(0)) throw Error("amount must be greater than 0");
+
+  return raw;
+}
+
+/*
+  Read and validate every row of the CSV file
+*/
+function loadRows(csvPath: string) {
+  const rows: AirdropRow[] = [];
+  const invalid: { line: number; reason: string }[] = [];
+
+  const lines = fs.readFileSync(csvPath, { encoding: "utf-8" }).split(/\r?\n/);
+
+  // count the identical rows seen so far
+  const occurrences = new Map<string, number>();
+
+  lines.forEach((text, index) => {
+    const line = index + 1;
+    const columns = text.split(",").map(column => column.trim());
+
+    // ignore blank lines and the optional header row
+    if (!text.trim() || (line === 1 && columns[0].toLowerCase() === "wallet")) return;
+
+    try {
+      if (columns.length !== 3) throw Error("expected 3 columns: wallet,mint,amount");
+
+      const [wallet, mint, amount] = columns;
+      const isSol = !mint || mint.toUpperCase() === "SOL";
+
+      const row = {
+        line,
+        wallet: new PublicKey(wallet),
+        mint: isSol ? null : new PublicKey(mint),
+        amount,
+      };
+
+      const payment = `${row.wallet.toBase58()}:${row.mint?.toBase58() ?? "SOL"}:${amount}`;
+      const occurrence = occurrences.get(payment) ?? 0;
+      occurrences.set(payment, occurrence + 1);
+
+      rows.push({ ...row, key: `${payment}:${occurrence}` });
+    } catch (err) {
+      invalid.push({ line, reason: (err as Error).message });
+    }
+  });
+
+  return { rows, invalid };
+}
+
+/*
+  Load the latest journal entry for every row key
+*/
+function loadJournal(journalPath: string) {
+  const entries = new Map<string, JournalEntry>();
+  if (!fs.existsSync(journalPath)) return entries;
+
+  for (const text of fs.readFileSync(journalPath, { encoding: "utf-8" }).split("\n")) {
+    if (!text.trim()) continue;
+    // a crash mid-write can leave a partial last line, which is safe to ignore
+    try {
+      const entry: JournalEntry = JSON.parse(text);
+      entries.set(entry.key, entry);
+    } catch (err) {
+      console.warn("Ignoring unreadable journal line:", text);
+    }
+  }
+
+  return entries;
+}
+
+/*
+  Append entries to the journal (the journal is append only, the last entry for a key wins)
+*/
+function appendJournal(
+  journalPath: string,
+  journal: Map<string, JournalEntry>,
+  entries: JournalEntry[],
+) {
+  fs.appendFileSync(journalPath, entries.map(entry => JSON.stringify(entry) + "\n").join(""), {
+    encoding: "utf-8",
+  });
+  entries.forEach(entry => journal.set(entry.key, entry));
+}
+
+/*
+  Wait for a sent batch to either land on chain or for its blockhash to expire
+  ---
+  a batch is only considered "not sent" once its blockhash has expired, since until then
+  the transaction could still be processed by the cluster
+*/
+async function awaitBatchOutcome(
+  signature: string,
+  lastValidBlockHeight: number,
+): Promise<Pick<JournalEntry, "status" | "error">> {
+  while (true) {
+    const { value } = await connection.getSignatureStatuses([signature], {
+      searchTransactionHistory: true,
+    });
+    const status = value[0];
+
+    if (status?.confirmationStatus === "confirmed" || status?.confirmationStatus === "finalized") {
+      return status.err
+        ? { status: "failed", error: JSON.stringify(status.err) }
+        : { status: "sent" };
+    }
+
+    // only check the expiry after checking the status, so a just landed batch is never missed
+    if (!status && (await connection.getBlockHeight("confirmed")) > lastValidBlockHeight)
+      return { status: "expired" };
+
+    await new Promise(resolve => setTimeout(resolve, CONFIRMATION_POLL_MS));
+  }
+}
+
+/*
+  Check if a list of instructions fits within a single transaction
+*/
+function fitsInTransaction(instructions: TransactionInstruction[]) {
+  try {
+    const tx = new VersionedTransaction(
+      new TransactionMessage({
+        payerKey: payer.publicKey,
+        // any valid blockhash works to compute the size
+        recentBlockhash: PublicKey.default.toBase58(),
+        instructions,
+      }).compileToV0Message(),
+    );
+    return tx.serialize().length <= PACKET_DATA_SIZE;
+  } catch (err) {
+    return false;
+  }
+}
+
+(async () => {
+  printConsoleSeparator("🪂 Bulk Airdrop from CSV");
+
+  const csvPath = process.argv[2] ?? DEFAULT_CSV_FILE;
+  const journalPath = path.join(
+    JOURNAL_DIR_NAME,
+    `${path.basename(csvPath, path.extname(csvPath))}.journal.jsonl`,
+  );
+
+  console.log("📋 Configuration:");
+  console.log("   Payer address:", payer.publicKey.toBase58());
+  console.log("   CSV file:", csvPath);
+  console.log("   Journal file:", journalPath);
+
+  if (!fs.existsSync(JOURNAL_DIR_NAME)) fs.mkdirSync(JOURNAL_DIR_NAME);
+
+  const { rows, invalid } = loadRows(csvPath);
+  const journal = loadJournal(journalPath);
+
+  // track the outcome of every row for the final report
+  const report = {
+    sent: [] as { row: AirdropRow; signature: string }[],
+    failed: [] as { row: AirdropRow; reason: string }[],
+    skipped: invalid.map(({ line, reason }) => ({ line, reason })),
+  };
+
+  console.log(`\n📄 Loaded ${rows.length} valid row(s), ${invalid.length} invalid row(s)`);
+
+  printConsoleSeparator("🔍 Resuming from Journal");
+
+  /**
+   * Any batch still marked as "pending" was sent by a previous run that never saw its outcome,
+   * so we must find out if it landed before we are allowed to send those rows again
+   */
+  const pendingBatches = new Map<string, JournalEntry[]>();
+  for (const entry of journal.values()) {
+    if (entry.status !== "pending") continue;
+    pendingBatches.set(entry.signature, [...(pendingBatches.get(entry.signature) ?? []), entry]);
+  }
+
+  for (const [signature, entries] of pendingBatches) {
+    console.log(`⏳ Checking the outcome of pending batch ${signature}...`);
+
+    const outcome = await awaitBatchOutcome(signature, entries[0].lastValidBlockHeight ?? 0);
+    appendJournal(
+      journalPath,
+      journal,
+      entries.map(entry => ({ ...entry, ...outcome, at: new Date().toISOString() })),
+    );
+
+    console.log(`   Batch was ${outcome.status}`);
+  }
+
+  // only rows that were never confirmed as sent need to be sent
+  const rowsToSend = rows.filter(row => {
+    const entry = journal.get(row.key);
+    if (entry?.status !== "sent") return true;
+
+    report.skipped.push({ line: row.line, reason: `already sent in ${entry.signature}` });
+    return false;
+  });
+
+  console.log(`✅ ${rows.length - rowsToSend.length} row(s) were already sent by a previous run`);
+
+  printConsoleSeparator("🔧 Building Instructions");
+
+  // fetch the decimals for each of the mints only once
+  const decimalsByMint = new Map<string, number>();
+  for (const mint of new Set(rowsToSend.map(row => row.mint?.toBase58()))) {
+    if (!mint) continue;
+    try {
+      decimalsByMint.set(mint, (await getMint(connection, new PublicKey(mint))).decimals);
+    } catch (err) {
+      console.warn(`⚠️ Unable to load mint ${mint}:`, (err as Error).message);
+    }
+  }
+
+  // track the atas that will be created by earlier rows in this run
+  const createdAtas = new Set<string>();
+  const rowInstructions: { row: AirdropRow; instructions: TransactionInstruction[] }[] = [];
+
+  for (const row of rowsToSend) {
+    try {
+      if (!row.mint) {
+        rowInstructions.push({
+          row,
+          instructions: [
+            SystemProgram.transfer({
+              fromPubkey: payer.publicKey,
+              toPubkey: row.wallet,
+              lamports: parseAmount(row.amount, SOL_DECIMALS),
+            }),
+          ],
+        });
+        continue;
+      }
+
+      const decimals = decimalsByMint.get(row.mint.toBase58());
+      if (decimals === undefined) throw Error(`unknown mint ${row.mint.toBase58()}`);
+
+      const source = getAssociatedTokenAddressSync(row.mint, payer.publicKey);
+      const destination = getAssociatedTokenAddressSync(row.mint, row.wallet, true);
+      const instructions: TransactionInstruction[] = [];
+
+      // create the recipient's ata when it does not exist yet
+      if (
+        !createdAtas.has(destination.toBase58()) &&
+        !(await connection.getAccountInfo(destination))
+      ) {
+        instructions.push(
+          createAssociatedTokenAccountIdempotentInstruction(
+            payer.publicKey,
+            destination,
+            row.wallet,
+            row.mint,
+          ),
+        );
+        createdAtas.add(destination.toBase58());
+      }
+
+      instructions.push(
+        createTransferCheckedInstruction(
+          source,
+          row.mint,
+          destination,
+          payer.publicKey,
+          parseAmount(row.amount, decimals),
+          decimals,
+        ),
+      );
+
+      rowInstructions.push({ row, instructions });
+    } catch (err) {
+      report.failed.push({ row, reason: (err as Error).message });
+    }
+  }
+
+  /**
+   * Pack as many rows as will fit into each transaction
+   */
+  const batches: (typeof rowInstructions)[] = [];
+  for (const item of rowInstructions) {
+    const current = batches[batches.length - 1];
+
+    if (
+      current &&
+      fitsInTransaction([...current, item].flatMap(({ instructions }) => instructions))
+    )
+      current.push(item);
+    else batches.push([item]);
+  }
+
+  console.log(`📦 Packed ${rowInstructions.length} row(s) into ${batches.length} transaction(s)`);
+
+  printConsoleSeparator("🚀 Sending Batches");
+
+  for (const [index, batch] of batches.entries()) {
+    const tx = await buildTransaction({
+      connection,
+      payer: payer.publicKey,
+      signers: [payer],
+      instructions: batch.flatMap(({ instructions }) => instructions),
+    });
+
+    const signature = utils.bytes.bs58.encode(tx.signatures[0]);
+
+    // fetched after building, this is never lower than the actual expiry of the tx's blockhash
+    const { lastValidBlockHeight } = await connection.getLatestBlockhash();
+
+    // always journal the batch before sending it
+    appendJournal(
+      journalPath,
+      journal,
+      batch.map(({ row }) => ({
+        key: row.key,
+        status: "pending",
+        signature,
+        lastValidBlockHeight,
+        at: new Date().toISOString(),
+      })),
+    );
+
+    console.log(`[${index + 1}/${batches.length}] Sending ${batch.length} row(s): ${signature}`);
+
+    // the RPC rejected the batch (e.g. its preflight simulation failed), so it was never sent
+    let rejected: string | undefined;
+    try {
+      await connection.sendTransaction(tx);
+    } catch (err: unknown) {
+      if (err instanceof SendTransactionError) rejected = err.message;
+      else
+        console.log(
+          "   ⚠️ Unable to send the batch, checking if it landed anyway:",
+          err instanceof Error ? err.message : err,
+        );
+    }
+
+    // any other error (like a timeout) may have happened after the batch was forwarded to the
+    // cluster, so its outcome is only known from its status
+    let outcome: Pick<JournalEntry, "status" | "error">;
+    if (rejected !== undefined) outcome = { status: "failed", error: rejected };
+    else {
+      try {
+        outcome = await awaitBatchOutcome(signature, lastValidBlockHeight);
+      } catch (err: unknown) {
+        // leave the batch pending, so the next run resolves it before sending its rows again
+        const reason = `unknown outcome (${err instanceof Error ? err.message : err})`;
+        batch.forEach(({ row }) => report.failed.push({ row, reason }));
+        console.log(`   ⏳ ${reason}, it will be checked by the next run`);
+        continue;
+      }
+    }
+
+    appendJournal(
+      journalPath,
+      journal,
+      batch.map(({ row }) => ({
+        key: row.key,
+        status: outcome.status,
+        signature,
+        error: outcome.error,
+        at: new Date().toISOString(),
+      })),
+    );
+
+    if (outcome.status === "sent") {
+      batch.forEach(({ row }) => report.sent.push({ row, signature }));
+      console.log("   ✅ Confirmed", explorerURL({ txSignature: signature }));
+    } else {
+      const reason = outcome.error ?? "transaction expired before it was confirmed";
+      batch.forEach(({ row }) => report.failed.push({ row, reason }));
+      console.log(`   ❌ ${outcome.status}: ${reason}`);
+    }
+  }
+
+  printConsoleSeparator("📊 Reconciliation Report");
+
+  console.log(`✅ Sent: ${report.sent.length}`);
+  report.sent.forEach(({ row, signature }) =>
+    console.log(
+      `   line ${row.line}: ${row.amount} ${
+        row.mint?.toBase58() ?? "SOL"
+      } -> ${row.wallet.toBase58()} (${signature})`,
+    ),
+  );
+
+  console.log(`❌ Failed: ${report.failed.length}`);
+  report.failed.forEach(({ row, reason }) => console.log(`   line ${row.line}: ${reason}`));
+
+  console.log(`⏭️ Skipped: ${report.skipped.length}`);
+  report.skipped.forEach(({ line, reason }) => console.log(`   line ${line}: ${reason}`));
+
+  if (report.failed.length) console.log("\n💡 Re-run this script to retry the failed rows");
+})();
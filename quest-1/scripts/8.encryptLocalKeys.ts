@@ -0,0 +1,84 @@
+/**
+ * Converts existing plaintext keypair files into the passphrase-encrypted keystore format
+ * ---
+ * by default, every plaintext keypair file within `.local_keys` is converted. Specific keypair
+ * files can also be converted by passing their paths as arguments
+ *
+ * the passphrase is read from the `LOCAL_KEYSTORE_PASSPHRASE` env variable, or prompted for
+ */
+
+// import custom helpers for demos
+import { loadKeypairFromFile, printConsoleSeparator } from "@/lib/helpers";
+import { encryptSecretKey, getKeystorePassphrase, isEncryptedKeystore } from "@/lib/keystore";
+
+import fs from "fs";
+import path from "path";
+import { Keypair } from "@solana/web3.js";
+
+// define the default location of the local keypair files
+const DEFAULT_KEY_DIR_NAME = ".local_keys";
+
+/*
+  Check if some parsed file data is a plaintext keypair (i.e. a 64 byte secret key array)
+*/
+function isPlaintextKeypair(data: any): data is number[] {
+  return Array.isArray(data) && data.length === 64 && data.every(byte => Number.isInteger(byte));
+}
+
+(async () => {
+  printConsoleSeparator("🔐 Encrypting Local Keypair Files");
+
+  // use the provided file paths, or every json file in the local keys directory
+  const filePaths = process.argv.slice(2).length
+    ? process.argv.slice(2)
+    : fs.existsSync(DEFAULT_KEY_DIR_NAME)
+    ? fs
+        .readdirSync(DEFAULT_KEY_DIR_NAME)
+        .filter(fileName => fileName.endsWith(".json"))
+        .map(fileName => path.join(DEFAULT_KEY_DIR_NAME, fileName))
+    : [];
+
+  const toEncrypt: { filePath: string; keypair: Keypair }[] = [];
+
+  for (const filePath of filePaths) {
+    let data: any;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, { encoding: "utf-8" }));
+    } catch (err) {
+      console.log(`⏭️ ${filePath}: unable to read the file, skipping`);
+      continue;
+    }
+
+    if (isEncryptedKeystore(data)) console.log(`⏭️ ${filePath}: already encrypted`);
+    else if (!isPlaintextKeypair(data)) console.log(`⏭️ ${filePath}: not a keypair file`);
+    else toEncrypt.push({ filePath, keypair: Keypair.fromSecretKey(new Uint8Array(data)) });
+  }
+
+  if (!toEncrypt.length) {
+    console.log("\n✅ No plaintext keypair files to encrypt");
+    return;
+  }
+
+  console.log(`\n🔑 Found ${toEncrypt.length} plaintext keypair file(s) to encrypt`);
+  const passphrase = getKeystorePassphrase(true);
+
+  for (const { filePath, keypair } of toEncrypt) {
+    const keystore = encryptSecretKey(keypair.secretKey, keypair.publicKey.toBase58(), passphrase);
+
+    // write to a temporary file first, so the original is never left half written
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(keystore, null, 2), { encoding: "utf-8" });
+
+    // make sure the encrypted file loads back to the same keypair before replacing the original
+    if (!loadKeypairFromFile(tempPath).publicKey.equals(keypair.publicKey)) {
+      fs.unlinkSync(tempPath);
+      throw Error(`Unable to verify the encrypted keypair for ${filePath}`);
+    }
+
+    fs.renameSync(tempPath, filePath);
+    console.log(`🔐 ${filePath}: encrypted (${keypair.publicKey.toBase58()})`);
+  }
+
+  printConsoleSeparator("✅ Success!");
+  console.log("💡 Set ENCRYPT_LOCAL_KEYS=true in your .env to also encrypt any new keypair files");
+})();
@@ -0,0 +1,128 @@
+/**
+ * Lists, exports and imports the cluster-namespaced profiles of locally saved keys and demo data
+ * ---
+ * usage:
+ * - `list`: list every locally stored profile, for every cluster
+ * - `export [profile] [file]`: export a profile on the current cluster into a single file
+ * - `import <file> [profile] [--force]`: import an exported profile (or a legacy `keys.json`
+ *   file) into a profile on the current cluster
+ */
+
+// import custom helpers for demos
+import { CLUSTER_URL } from "@/lib/vars";
+import { printConsoleSeparator } from "@/lib/helpers";
+import {
+  ProfileExport,
+  exportProfile,
+  getActiveProfile,
+  getClusterGenesisHash,
+  getClusterLabel,
+  importProfile,
+  listProfiles,
+  validateProfileName,
+} from "@/lib/profiles";
+
+import fs from "fs";
+import { PublicKey } from "@solana/web3.js";
+
+const USAGE = `Usage:
+  yarn demo ./scripts/9.manageProfiles.ts list
+  yarn demo ./scripts/9.manageProfiles.ts export [profile] [file]
+  yarn demo ./scripts/9.manageProfiles.ts import <file> [profile] [--force]`;
+
+/*
+  Check if some parsed file data is a legacy `keys.json` file (i.e. a map of names to addresses)
+*/
+function isLegacyKeysFile(data: any): data is { [name: string]: string } {
+  if (!data || typeof data !== "object" || Array.isArray(data)) return false;
+
+  return Object.values(data).every(value => {
+    try {
+      return typeof value === "string" && !!new PublicKey(value);
+    } catch (err) {
+      return false;
+    }
+  });
+}
+
+(async () => {
+  const force = process.argv.includes("--force");
+  const [command, ...args] = process.argv.slice(2).filter(arg => arg !== "--force");
+
+  if (command === "list") {
+    printConsoleSeparator("📁 Local Profiles");
+
+    const profiles = listProfiles();
+    if (!profiles.length) {
+      console.log("No profiles have been saved yet");
+      return;
+    }
+
+    for (const { cluster, genesisHash, lastRpcUrl, profile, files } of profiles) {
+      console.log(`📋 ${profile} (${cluster})`);
+      console.log("   Genesis hash:", genesisHash);
+      if (lastRpcUrl) console.log("   Last RPC url:", lastRpcUrl);
+      console.log("   Files:", files.join(", ") || "(none)");
+    }
+
+    return;
+  }
+
+  if (command === "export") {
+    const [profile = getActiveProfile(), filePath = `${profile}.profile.json`] = args;
+    validateProfileName(profile);
+
+    printConsoleSeparator(`📤 Exporting Profile: ${profile}`);
+
+    const data = await exportProfile(profile);
+    if (!Object.keys(data.files).length) throw Error(`The "${profile}" profile is empty`);
+
+    fs.writeFileSync(filePath, JSON.stringify(data, null, 2), { encoding: "utf-8" });
+
+    console.log("Cluster:", `${data.cluster} (${data.genesisHash})`);
+    console.log("Files:", Object.keys(data.files).join(", "));
+
+    printConsoleSeparator("✅ Success!");
+    console.log("💾 Saved to:", filePath);
+    return;
+  }
+
+  if (command === "import" && args[0]) {
+    const [filePath, profileArg] = args;
+
+    printConsoleSeparator(`📥 Importing Profile: ${filePath}`);
+
+    let data = JSON.parse(fs.readFileSync(filePath, { encoding: "utf-8" }));
+
+    // legacy `keys.json` files were not tied to any cluster, so assume the current one
+    if (!data?.files && isLegacyKeysFile(data)) {
+      const genesisHash = await getClusterGenesisHash();
+      console.log("⚠️ Legacy keys file, importing it for the current cluster:", CLUSTER_URL);
+
+      data = {
+        genesisHash,
+        cluster: getClusterLabel(genesisHash),
+        profile: getActiveProfile(),
+        files: { "keys.json": data },
+      } as ProfileExport;
+    }
+
+    if (!data?.genesisHash || !data?.files) throw Error(`Not a profile export file: ${filePath}`);
+
+    if (force && data.genesisHash !== (await getClusterGenesisHash()))
+      console.log(`⚠️ Importing a profile exported from the ${data.cluster} cluster`);
+
+    // the name comes from the command line or the file, so make sure it stays in the profile store
+    const profile = validateProfileName(profileArg ?? data.profile);
+    const profileDir = await importProfile(data, profile, force);
+
+    console.log("Files:", Object.keys(data.files).join(", "));
+
+    printConsoleSeparator("✅ Success!");
+    console.log("💾 Imported into:", profileDir);
+    console.log(`💡 Set KEY_PROFILE=${profile} in your .env to use it`);
+    return;
+  }
+
+  console.log(USAGE);
+})();
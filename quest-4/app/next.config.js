@@ -18,6 +18,13 @@ const nextConfig = {
                 port: '',
                 pathname: '/*',
             },
+            // the local storage, served by `anchor run serve-storage`
+            {
+                protocol: 'http',
+                hostname: 'localhost',
+                port: '7878',
+                pathname: '/*',
+            },
         ],
     },
 }
@@ -1,4 +1,5 @@
 import { useNetworkConfiguration } from '@/contexts/NetworkConfigurationProvider';
+import { TokenAmount } from '@/utils/amount';
 import { PublicKey } from '@solana/web3.js';
 import { request } from 'https';
 import Image from 'next/image';
@@ -9,7 +10,7 @@ interface AssetCardProps {
   symbol: string;
   uri: string;
   decimals: number;
-  balance: number;
+  balance: bigint;
   mint: PublicKey;
   poolTokenAccount: PublicKey;
 }
@@ -18,7 +19,7 @@ const LoanCard: FC<AssetCardProps> = (props: AssetCardProps) => {
   const { networkConfiguration } = useNetworkConfiguration();
   const [imagePath, setImagePath] = useState<string>('');
 
-  const nominalBalance = Math.floor(props.balance / Math.pow(10, props.decimals));
+  const nominalBalance = new TokenAmount(props.balance, props.decimals).toString();
 
   async function getMetadataFromArweave(uri: string) {
     const data = await fetch(uri).then((data) => data.json());
@@ -32,6 +32,9 @@ export const ContentContainer: React.FC<Props> = ({ children }) => {
                     <li>
                         <NavElement label="Home" href="/" />
                     </li>
+                    <li>
+                        <NavElement label="Analytics" href="/analytics" />
+                    </li>
                 </ul>
             </div>
         </div>
@@ -0,0 +1,120 @@
+interface LineChartSeries {
+    label: string
+    // One value for each point, `NaN` where the series has no value
+    values: number[]
+}
+
+interface LineChartProps {
+    title: string
+    series: LineChartSeries[]
+    // The label of each point (e.g. its time)
+    labels: string[]
+    formatValue?: (value: number) => string
+}
+
+// The colors of the chart's series, in order
+const COLORS = [
+    '#ca8a04',
+    '#38bdf8',
+    '#f87171',
+    '#4ade80',
+    '#c084fc',
+    '#fb923c',
+    '#f472b6',
+    '#a3e635',
+]
+
+// The chart's size, in SVG units
+const WIDTH = 600
+const HEIGHT = 200
+const PADDING = 8
+
+/**
+ * A plain SVG line chart, with every series scaled to the same range of values
+ */
+const LineChart: React.FC<LineChartProps> = ({
+    title,
+    series,
+    labels,
+    formatValue = (value) => value.toPrecision(4),
+}) => {
+    const values = series
+        .map((s) => s.values)
+        .reduce((all, v) => all.concat(v), [] as number[])
+        .filter((value) => isFinite(value))
+    const min = values.length ? Math.min(...values) : 0
+    const max = values.length ? Math.max(...values) : 0
+    const x = (index: number) =>
+        PADDING +
+        (labels.length > 1
+            ? (index / (labels.length - 1)) * (WIDTH - 2 * PADDING)
+            : (WIDTH - 2 * PADDING) / 2)
+    // Flat series are drawn in the middle of the chart
+    const y = (value: number) =>
+        max === min
+            ? HEIGHT / 2
+            : HEIGHT -
+              PADDING -
+              ((value - min) / (max - min)) * (HEIGHT - 2 * PADDING)
+
+    // Each series is drawn as a line through its points with values,
+    // leaving gaps where it has none
+    const path = (s: LineChartSeries) =>
+        s.values
+            .map((value, index) =>
+                isFinite(value)
+                    ? `${
+                          index > 0 && isFinite(s.values[index - 1]) ? 'L' : 'M'
+                      }${x(index).toFixed(1)},${y(value).toFixed(1)}`
+                    : ''
+            )
+            .join(' ')
+
+    return (
+        <div className="p-4 mt-4 shadow dark:bg-stone-900 dark:border-yellow-950 rounded-lg">
+            <h2 className="text-xl font-bold font-serif text-yellow-600 mb-2">
+                {title}
+            </h2>
+            {values.length === 0 ? (
+                <p className="text-xs text-stone-400">No data yet</p>
+            ) : (
+                <div>
+                    <p className="text-xs text-stone-400">{formatValue(max)}</p>
+                    <svg
+                        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                        className="w-full h-48 bg-black rounded"
+                        preserveAspectRatio="none"
+                    >
+                        {series.map((s, index) => (
+                            <path
+                                key={s.label}
+                                d={path(s)}
+                                fill="none"
+                                stroke={COLORS[index % COLORS.length]}
+                                strokeWidth={2}
+                                vectorEffect="non-scaling-stroke"
+                            />
+                        ))}
+                    </svg>
+                    <p className="text-xs text-stone-400">{formatValue(min)}</p>
+                    <div className="flex justify-between text-xs text-stone-400 mt-1">
+                        <span>{labels[0]}</span>
+                        <span>{labels[labels.length - 1]}</span>
+                    </div>
+                    <div className="flex flex-wrap gap-3 mt-2 text-xs">
+                        {series.map((s, index) => (
+                            <span
+                                key={s.label}
+                                style={{ color: COLORS[index % COLORS.length] }}
+                            >
+                                {s.label}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
+
+export default LineChart
@@ -0,0 +1,246 @@
+import useAnchorProgram from '@/hooks/useAnchorProgram'
+import {
+    LP_MINT_DECIMALS,
+    LiquidityPosition,
+    PoolAsset,
+    PoolState,
+    SwapClient,
+    SwapQuoteError,
+    WithdrawAmount,
+    quoteDeposit,
+    quoteWithdraw,
+} from '@/sdk'
+import { TokenAmount } from '@/utils/amount'
+import { notifyTransactionError } from '@/utils/errors'
+import { notify } from '@/utils/notifications'
+import { useWallet } from '@solana/wallet-adapter-react'
+import { useEffect, useState } from 'react'
+
+interface LiquidityPanelProps {
+    assets: PoolAsset[]
+    // Only offer withdrawals (while the pool is paused)
+    withdrawOnly?: boolean
+}
+
+type Tab = 'provide' | 'withdraw'
+
+const LiquidityPanel: React.FC<LiquidityPanelProps> = ({
+    assets,
+    withdrawOnly = false,
+}) => {
+    const program = useAnchorProgram()
+    const wallet = useWallet()
+    const [tab, setTab] = useState<Tab>(withdrawOnly ? 'withdraw' : 'provide')
+    const [state, setState] = useState<PoolState | null>(null)
+    const [position, setPosition] = useState<LiquidityPosition | null>(null)
+    // Bumped after each transaction, to fetch the new position
+    const [refresh, setRefresh] = useState(0)
+    const [asset, setAsset] = useState(assets[0])
+    const [input, setInput] = useState('')
+    const [shares, setShares] = useState<bigint | null>(null)
+    const [withdrawAmounts, setWithdrawAmounts] = useState<
+        WithdrawAmount[] | null
+    >(null)
+    const [quoteError, setQuoteError] = useState<string | null>(null)
+
+    useEffect(() => {
+        const fn = async () => {
+            const client = new SwapClient(program)
+            const [state, position] = await Promise.all([
+                client.fetchPoolState(),
+                client.fetchLiquidityPosition(wallet.publicKey!),
+            ])
+            setState(state)
+            setPosition(position)
+        }
+        if (program && wallet.publicKey) {
+            fn()
+        }
+    }, [program, wallet.publicKey, refresh])
+
+    useEffect(() => {
+        setShares(null)
+        setWithdrawAmounts(null)
+        setQuoteError(null)
+        if (!state) {
+            return
+        }
+        // Provide: the input is in the asset, withdraw: it's in LP shares
+        let amount: TokenAmount
+        try {
+            amount = TokenAmount.fromDecimal(
+                input,
+                tab === 'provide' ? asset.decimals : LP_MINT_DECIMALS
+            )
+        } catch {
+            return
+        }
+        if (amount.isZero()) {
+            return
+        }
+        try {
+            if (tab === 'provide') {
+                setShares(quoteDeposit(state, asset.mint, amount.raw))
+            } else if (position && amount.raw > position.shares) {
+                setQuoteError('You do not have enough LP shares')
+            } else {
+                setShares(amount.raw)
+                setWithdrawAmounts(quoteWithdraw(state, amount.raw))
+            }
+        } catch (error) {
+            if (!(error instanceof SwapQuoteError)) throw error
+            setQuoteError(error.message)
+        }
+    }, [input, tab, asset, state, position])
+
+    const handleTab = (next: Tab) => {
+        setTab(next)
+        setInput('')
+    }
+
+    const submit = async () => {
+        if (!wallet.publicKey || shares === null) {
+            return
+        }
+        const client = new SwapClient(program)
+        try {
+            const sig =
+                tab === 'provide'
+                    ? await client.fundPool(
+                          asset.mint,
+                          TokenAmount.fromDecimal(input, asset.decimals).raw
+                      )
+                    : await client.withdraw(shares)
+            notify({
+                type: 'success',
+                message:
+                    tab === 'provide'
+                        ? 'Liquidity provided!'
+                        : 'Liquidity withdrawn!',
+                txid: sig,
+            })
+            setInput('')
+            setRefresh((r) => r + 1)
+        } catch (error) {
+            await notifyTransactionError(
+                program.provider.connection,
+                error,
+                tab === 'provide'
+                    ? 'Providing liquidity failed!'
+                    : 'Withdrawing liquidity failed!'
+            )
+        }
+    }
+
+    const formatShares = (raw: bigint) =>
+        new TokenAmount(raw, LP_MINT_DECIMALS).toString()
+    const assetOf = (amount: WithdrawAmount) =>
+        assets.find((a) => a.mint.equals(amount.mint))
+
+    return (
+        <div className="p-4 mt-4 shadow dark:bg-stone-900 dark:border-yellow-950 rounded-lg">
+            <h2 className="text-xl font-bold font-serif text-yellow-600 mb-2">
+                {withdrawOnly
+                    ? 'Withdraw liquidity'
+                    : 'Provide / Withdraw liquidity'}
+            </h2>
+            {position && (
+                <p className="text-xs text-stone-400 mb-2">
+                    Your liquidity: {formatShares(position.shares)} LP shares
+                    {position.lpSupply > BigInt(0) &&
+                        ` (${new TokenAmount(
+                            (position.shares * BigInt(10000)) /
+                                position.lpSupply,
+                            2
+                        ).toFixed(2)}% of the pool)`}
+                </p>
+            )}
+            <div className="flex space-x-2 mb-2">
+                {(withdrawOnly
+                    ? (['withdraw'] as Tab[])
+                    : (['provide', 'withdraw'] as Tab[])
+                ).map((t) => (
+                    <button
+                        key={t}
+                        onClick={() => handleTab(t)}
+                        className={`px-3 py-1 rounded ${
+                            t === tab ? 'bg-yellow-700' : 'bg-black'
+                        }`}
+                    >
+                        {t === 'provide' ? 'Provide' : 'Withdraw'}
+                    </button>
+                ))}
+            </div>
+            <div className="flex items-center space-x-2">
+                {tab === 'provide' && (
+                    <select
+                        value={asset.symbol}
+                        onChange={(e) => {
+                            const selectedAsset = assets.find(
+                                (a) => a.symbol === e.target.value
+                            )
+                            if (selectedAsset) {
+                                setAsset(selectedAsset)
+                            }
+                        }}
+                        className="p-2 rounded-md border bg-black text-white"
+                    >
+                        {assets.map((a, index) => (
+                            <option key={index} value={a.symbol}>
+                                {a.name}
+                            </option>
+                        ))}
+                    </select>
+                )}
+                <input
+                    className="bg-black rounded-lg p-2"
+                    placeholder={tab === 'provide' ? 'Amount' : 'LP shares'}
+                    type="text"
+                    inputMode="decimal"
+                    value={input}
+                    onChange={(e) => setInput(e.target.value)}
+                />
+                {tab === 'withdraw' && position && (
+                    <button
+                        onClick={() => setInput(formatShares(position.shares))}
+                        className="px-2 py-1 rounded bg-black text-xs"
+                    >
+                        Max
+                    </button>
+                )}
+            </div>
+            <div className="text-xs text-stone-400 mt-2">
+                {tab === 'provide' && shares !== null && (
+                    <p>You will receive: {formatShares(shares)} LP shares</p>
+                )}
+                {tab === 'withdraw' &&
+                    withdrawAmounts &&
+                    withdrawAmounts.map((amount, index) => {
+                        const a = assetOf(amount)
+                        return (
+                            <p key={index}>
+                                {a
+                                    ? new TokenAmount(
+                                          amount.amount,
+                                          a.decimals
+                                      ).toString()
+                                    : amount.amount.toString()}{' '}
+                                {a ? a.symbol : 'UNKN'}
+                            </p>
+                        )
+                    })}
+            </div>
+            {quoteError && (
+                <p className="text-xs text-red-400 mt-2">{quoteError}</p>
+            )}
+            <button
+                className="w-full bg-yellow-700 hover:bg-yellow-900 h-12 mt-2 rounded-lg"
+                onClick={submit}
+            >
+                {tab === 'provide' ? 'Provide' : 'Withdraw'}
+            </button>
+        </div>
+    )
+}
+
+export default LiquidityPanel
@@ -0,0 +1,87 @@
+import { useNetworkConfiguration } from '@/contexts/NetworkConfigurationProvider'
+import useAnchorProgram from '@/hooks/useAnchorProgram'
+import { PoolAsset, SwapClient, SwappedEvent } from '@/sdk'
+import { TokenAmount } from '@/utils/amount'
+import { PublicKey } from '@solana/web3.js'
+import { useEffect, useState } from 'react'
+
+interface RecentTradesProps {
+    assets: PoolAsset[]
+}
+
+// The most trades the feed shows, newest first
+const MAX_TRADES = 10
+
+interface Trade {
+    event: SwappedEvent
+    signature: string
+    // When the app received the event (the event has no block time)
+    receivedAt: Date
+}
+
+const RecentTrades: React.FC<RecentTradesProps> = ({ assets }) => {
+    const program = useAnchorProgram()
+    const { networkConfiguration } = useNetworkConfiguration()
+    const [trades, setTrades] = useState<Trade[]>([])
+
+    useEffect(() => {
+        if (!program) {
+            return
+        }
+        const unsubscribe = new SwapClient(program).addEventListener(
+            'Swapped',
+            (event, _slot, signature) =>
+                setTrades((trades) =>
+                    [
+                        { event, signature, receivedAt: new Date() },
+                        ...trades,
+                    ].slice(0, MAX_TRADES)
+                )
+        )
+        return () => {
+            unsubscribe()
+        }
+    }, [program])
+
+    const formatAmount = (mint: PublicKey, amount: bigint) => {
+        const asset = assets.find((a) => a.mint.equals(mint))
+        return asset
+            ? `${new TokenAmount(amount, asset.decimals).toString()} ${
+                  asset.symbol
+              }`
+            : `${amount.toString()} UNKN`
+    }
+
+    return (
+        <div className="p-4 mt-4 shadow dark:bg-stone-900 dark:border-yellow-950 rounded-lg">
+            <h2 className="text-xl font-bold font-serif text-yellow-600 mb-2">
+                Recent trades
+            </h2>
+            {trades.length === 0 && (
+                <p className="text-xs text-stone-400">
+                    Waiting for the next swap...
+                </p>
+            )}
+            {trades.map(({ event, signature, receivedAt }) => (
+                <p
+                    key={signature + event.payMint.toBase58()}
+                    className="text-xs text-stone-400"
+                >
+                    {receivedAt.toLocaleTimeString()}:{' '}
+                    {formatAmount(event.payMint, event.payAmount)} for{' '}
+                    {formatAmount(event.receiveMint, event.receiveAmount)}{' '}
+                    <a
+                        className="text-slate-400 underline"
+                        href={`https://explorer.solana.com/tx/${signature}?cluster=${networkConfiguration}`}
+                        target="_blank"
+                        rel="noreferrer"
+                    >
+                        View
+                    </a>
+                </p>
+            ))}
+        </div>
+    )
+}
+
+export default RecentTrades
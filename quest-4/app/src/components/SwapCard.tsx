@@ -1,45 +1,109 @@
 import useAnchorProgram from '@/hooks/useAnchorProgram'
-import { notify } from '@/utils/notifications'
-import { BN } from '@coral-xyz/anchor'
 import {
-    TOKEN_PROGRAM_ID,
-    getAssociatedTokenAddressSync,
-} from '@solana/spl-token'
+    PoolAsset,
+    SwapClient,
+    SwapQuote,
+    SwapQuoteError,
+    SwapRoute,
+    applyRouteSlippage,
+    findSwapRoutes,
+    quoteSwap,
+} from '@/sdk'
+import { TokenAmount } from '@/utils/amount'
+import { notifyTransactionError } from '@/utils/errors'
+import { notify } from '@/utils/notifications'
 import { useWallet } from '@solana/wallet-adapter-react'
 import { PublicKey } from '@solana/web3.js'
 import { useEffect, useState } from 'react'
 import { TbArrowsLeftRight } from 'react-icons/tb'
 
-interface Asset {
-    name: string
-    symbol: string
-    uri: string
-    balance: number
-    mint: PublicKey
-    poolTokenAccount: PublicKey
-    decimals: number
-}
-
 interface TokenSwapProps {
-    assets: Asset[]
+    assets: PoolAsset[]
+    // The pool's swap fee, in basis points of the amount paid
+    feeBps: number
 }
 
-const SwapCard: React.FC<TokenSwapProps> = ({ assets }) => {
+// The slippage tolerances offered, in basis points (1 bps = 0.01%)
+const SLIPPAGE_PRESETS_BPS = [10, 50, 100]
+const DEFAULT_SLIPPAGE_BPS = 50
+
+const SwapCard: React.FC<TokenSwapProps> = ({ assets, feeBps }) => {
     const tokens = assets
     const program = useAnchorProgram()
     const [fromToken, setFromToken] = useState(tokens[0])
     const [toToken, setToToken] = useState(tokens[1])
-    const [amount, setAmount] = useState(0)
-    const [receiveAmount, setReceiveAmount] = useState(0)
+    const [input, setInput] = useState('')
+    const [amount, setAmount] = useState<TokenAmount | null>(null)
+    const [quote, setQuote] = useState<SwapQuote | null>(null)
+    const [quoteError, setQuoteError] = useState<string | null>(null)
+    const [route, setRoute] = useState<SwapRoute | null>(null)
+    const [slippageBps, setSlippageBps] = useState(DEFAULT_SLIPPAGE_BPS)
+    const [slippageInput, setSlippageInput] = useState('')
     const wallet = useWallet()
 
     useEffect(() => {
-        // Calculate the receive amount based on the constant product formula
-        const r = (toToken.balance * amount) / (fromToken.balance + amount)
-        const adjustedR = r / Math.pow(10, toToken.decimals)
-        const roundedR = Math.round(adjustedR * 100) / 100
-        setReceiveAmount(roundedR)
-    }, [amount, fromToken, toToken])
+        // Parse the typed amount exactly, in the pay mint's base units
+        try {
+            setAmount(TokenAmount.fromDecimal(input, fromToken.decimals))
+        } catch {
+            setAmount(null)
+        }
+    }, [input, fromToken])
+
+    useEffect(() => {
+        setQuote(null)
+        setQuoteError(null)
+        setRoute(null)
+        if (!amount || amount.isZero()) {
+            return
+        }
+        // Quote the swap exactly as the program will process it
+        try {
+            setQuote(
+                quoteSwap({
+                    poolReceiveBalance: toToken.balance,
+                    receiveDecimals: toToken.decimals,
+                    poolPayBalance: fromToken.balance,
+                    payDecimals: fromToken.decimals,
+                    payAmount: amount.raw,
+                    feeBps,
+                    payTransferFee: fromToken.transferFee,
+                })
+            )
+        } catch (error) {
+            if (!(error instanceof SwapQuoteError)) throw error
+            setQuoteError(error.message)
+            return
+        }
+        // Look for a better route through the pool's other assets
+        const [best] = findSwapRoutes(
+            { assets, feeBps },
+            fromToken.mint,
+            toToken.mint,
+            amount.raw
+        )
+        setRoute(best ?? null)
+    }, [amount, fromToken, toToken, assets, feeBps])
+
+    // The least each hop may receive before the program rejects it
+    const limits = route ? applyRouteSlippage(route, slippageBps) : null
+    const minReceive = limits ? limits.minReceive : null
+
+    const symbolOf = (mint: PublicKey) =>
+        assets.find((asset) => asset.mint.equals(mint))?.symbol ?? 'UNKN'
+    const decimalsOf = (mint: PublicKey) =>
+        assets.find((asset) => asset.mint.equals(mint))?.decimals ?? 0
+
+    const handleSlippageInput = (value: string) => {
+        setSlippageInput(value)
+        // A custom tolerance in percent, with up to 2 decimal places
+        try {
+            const bps = TokenAmount.fromDecimal(value, 2)
+            if (!bps.isNegative() && bps.raw <= BigInt(5000)) {
+                setSlippageBps(Number(bps.raw))
+            }
+        } catch {}
+    }
 
     const handleFlop = () => {
         setFromToken(toToken)
@@ -47,47 +111,31 @@ const SwapCard: React.FC<TokenSwapProps> = ({ assets }) => {
     }
 
     const swap = async () => {
-        if (wallet.publicKey) {
-            const LIQUIDITY_POOL_SEED_PREFIX = 'liquidity_pool'
-            const poolAddress = PublicKey.findProgramAddressSync(
-                [Buffer.from(LIQUIDITY_POOL_SEED_PREFIX)],
-                program.programId
-            )[0]
-
-            const sig = await program.methods
-                .swap(new BN(amount))
-                .accounts({
-                    pool: poolAddress,
-                    receiveMint: toToken.mint,
-                    poolReceiveTokenAccount: getAssociatedTokenAddressSync(
-                        toToken.mint,
-                        poolAddress,
-                        true
-                    ),
-                    payerReceiveTokenAccount: getAssociatedTokenAddressSync(
-                        toToken.mint,
-                        wallet.publicKey,
-                        true
-                    ),
-                    payMint: fromToken.mint,
-                    poolPayTokenAccount: getAssociatedTokenAddressSync(
-                        fromToken.mint,
-                        poolAddress,
-                        true
-                    ),
-                    payerPayTokenAccount: getAssociatedTokenAddressSync(
-                        fromToken.mint,
-                        wallet.publicKey
-                    ),
-                    payer: wallet.publicKey,
-                    tokenProgram: TOKEN_PROGRAM_ID,
+        if (wallet.publicKey && route && limits) {
+            try {
+                const client = new SwapClient(program)
+                // Routes through other assets are sent as a single transaction
+                const sig =
+                    route.hops.length > 1
+                        ? await client.swapRoute(route, slippageBps)
+                        : await client.swap(
+                              fromToken.mint,
+                              toToken.mint,
+                              route.payAmount,
+                              limits.hops[0].minReceive
+                          )
+                notify({
+                    type: 'success',
+                    message: 'Swap successful!',
+                    txid: sig,
                 })
-                .rpc()
-            notify({
-                type: 'success',
-                message: 'Swap successful!',
-                txid: sig,
-            })
+            } catch (error) {
+                await notifyTransactionError(
+                    program.provider.connection,
+                    error,
+                    'Swap failed!'
+                )
+            }
         }
     }
     return (
@@ -153,13 +201,10 @@ const SwapCard: React.FC<TokenSwapProps> = ({ assets }) => {
                                 id="pay"
                                 className="bg-black rounded-lg p-2"
                                 placeholder="Amount"
-                                type="number"
-                                onChange={(e) =>
-                                    setAmount(
-                                        Number(e.target.value) *
-                                            10 ** fromToken.decimals
-                                    )
-                                }
+                                type="text"
+                                inputMode="decimal"
+                                value={input}
+                                onChange={(e) => setInput(e.target.value)}
                             />
                         </div>
                         <div className="flex flex-col">
@@ -168,11 +213,131 @@ const SwapCard: React.FC<TokenSwapProps> = ({ assets }) => {
                                 id="receive"
                                 className="bg-green-950 text-white rounded-lg p-2"
                             >
-                                {receiveAmount}
+                                {route
+                                    ? new TokenAmount(
+                                          route.receiveAmount,
+                                          toToken.decimals
+                                      ).toString()
+                                    : '-'}
                             </div>
                         </div>
                     </div>
                 </div>
+                {quote && (
+                    <div className="text-xs text-stone-400 mt-2">
+                        <p>
+                            Price: {quote.effectivePrice.toPrecision(6)}{' '}
+                            {fromToken.symbol} per {toToken.symbol}
+                        </p>
+                        <p>
+                            Price impact: {(quote.priceImpact * 100).toFixed(2)}
+                            %
+                        </p>
+                        <p>
+                            Fee ({feeBps / 100}%):{' '}
+                            {new TokenAmount(
+                                quote.feeAmount,
+                                fromToken.decimals
+                            ).toString()}{' '}
+                            {fromToken.symbol}
+                        </p>
+                        {route && route.hops.length > 1 && (
+                            <div className="mt-1">
+                                <p>
+                                    Route:{' '}
+                                    {[route.hops[0].payMint]
+                                        .concat(
+                                            route.hops.map(
+                                                (hop) => hop.receiveMint
+                                            )
+                                        )
+                                        .map(symbolOf)
+                                        .join(' → ')}
+                                </p>
+                                {route.hops.map((hop, index) => (
+                                    <p key={index} className="ml-2">
+                                        {index + 1}. Pay{' '}
+                                        {new TokenAmount(
+                                            hop.payAmount,
+                                            decimalsOf(hop.payMint)
+                                        ).toString()}{' '}
+                                        {symbolOf(hop.payMint)}, receive{' '}
+                                        {new TokenAmount(
+                                            hop.receiveAmount,
+                                            decimalsOf(hop.receiveMint)
+                                        ).toString()}{' '}
+                                        {symbolOf(hop.receiveMint)} (fee{' '}
+                                        {new TokenAmount(
+                                            hop.feeAmount,
+                                            decimalsOf(hop.payMint)
+                                        ).toString()}{' '}
+                                        {symbolOf(hop.payMint)})
+                                    </p>
+                                ))}
+                                <p>
+                                    Total:{' '}
+                                    {new TokenAmount(
+                                        route.receiveAmount,
+                                        toToken.decimals
+                                    ).toString()}{' '}
+                                    {toToken.symbol} (direct:{' '}
+                                    {new TokenAmount(
+                                        quote.receiveAmount,
+                                        toToken.decimals
+                                    ).toString()}{' '}
+                                    {toToken.symbol})
+                                </p>
+                            </div>
+                        )}
+                        {route && route.hops.length === 1 && (
+                            <p>
+                                Route: {fromToken.symbol} → {toToken.symbol}{' '}
+                                (direct is best)
+                            </p>
+                        )}
+                        {minReceive !== null && (
+                            <p>
+                                Minimum received:{' '}
+                                {new TokenAmount(
+                                    minReceive,
+                                    toToken.decimals
+                                ).toString()}{' '}
+                                {toToken.symbol}
+                            </p>
+                        )}
+                    </div>
+                )}
+                <div className="flex items-center space-x-2 text-xs mt-2">
+                    <span>Slippage tolerance:</span>
+                    {SLIPPAGE_PRESETS_BPS.map((bps) => (
+                        <button
+                            key={bps}
+                            onClick={() => {
+                                setSlippageBps(bps)
+                                setSlippageInput('')
+                            }}
+                            className={`px-2 py-1 rounded ${
+                                bps === slippageBps && !slippageInput
+                                    ? 'bg-yellow-700'
+                                    : 'bg-black'
+                            }`}
+                        >
+                            {bps / 100}%
+                        </button>
+                    ))}
+                    <input
+                        className="bg-black rounded w-16 px-2 py-1"
+                        placeholder="Custom"
+                        type="text"
+                        inputMode="decimal"
+                        value={slippageInput}
+                        onChange={(e) => handleSlippageInput(e.target.value)}
+                    />
+                    <span>%</span>
+                </div>
+                {quoteError && (
+                    <p className="text-xs text-red-400 mt-2">{quoteError}</p>
+                )}
                 <button
                     className="w-full bg-yellow-700 hover:bg-yellow-900 h-12 mt-2 rounded-lg"
                     onClick={swap}
@@ -5,7 +5,8 @@ export type SwapProgram = {
     {
       "name": "createPool",
       "docs": [
-        "Initialize the program by creating the liquidity pool"
+        "Initialize the program by creating the liquidity pool and its LP share",
+        "mint, with a swap fee of `fee_bps` basis points"
       ],
       "accounts": [
         {
@@ -25,6 +26,24 @@ export type SwapProgram = {
             ]
           }
         },
+        {
+          "name": "lpMint",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "The mint for the Liquidity Pool's liquidity provider (LP) shares, whose",
+            "mint authority is the Liquidity Pool"
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "type": "string",
+                "value": "lp_mint"
+              }
+            ]
+          }
+        },
         {
           "name": "payer",
           "isMut": true,
@@ -40,14 +59,29 @@ export type SwapProgram = {
           "docs": [
             "System Program: Required for creating the Liquidity Pool"
           ]
+        },
+        {
+          "name": "tokenProgram",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "Token Program: Required for creating the LP share mint (always the SPL",
+            "Token program, whichever token program owns the pool's assets)"
+          ]
         }
       ],
-      "args": []
+      "args": [
+        {
+          "name": "feeBps",
+          "type": "u16"
+        }
+      ]
     },
     {
       "name": "fundPool",
       "docs": [
-        "Provide liquidity to the pool by funding it with some asset"
+        "Provide liquidity to the pool by funding it with some asset, in exchange",
+        "for LP shares"
       ],
       "accounts": [
         {
@@ -93,6 +127,32 @@ export type SwapProgram = {
             "being deposited into the pool"
           ]
         },
+        {
+          "name": "lpMint",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "The mint for the Liquidity Pool's LP shares"
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "type": "string",
+                "value": "lp_mint"
+              }
+            ]
+          }
+        },
+        {
+          "name": "payerLpTokenAccount",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "The payer's - or Liquidity Provider's - token account for the LP shares",
+            "issued for the deposit"
+          ]
+        },
         {
           "name": "payer",
           "isMut": true,
@@ -116,13 +176,23 @@ export type SwapProgram = {
             "Provider's token account into the Liquidity Pool's token account"
           ]
         },
+        {
+          "name": "lpTokenProgram",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "LP Token Program: Required for minting the LP shares (always the SPL",
+            "Token program)"
+          ]
+        },
         {
           "name": "associatedTokenProgram",
           "isMut": false,
           "isSigner": false,
           "docs": [
             "Associated Token Program: Required for creating the Liquidity Pool's",
-            "token account for the asset being deposited into the pool"
+            "token account for the asset being deposited into the pool, and the",
+            "payer's token account for the LP shares"
           ]
         }
       ],
@@ -136,7 +206,7 @@ export type SwapProgram = {
     {
       "name": "swap",
       "docs": [
-        "Swap assets using the DEX"
+        "Swap assets using the DEX, receiving no less than `min_receive`"
       ],
       "accounts": [
         {
@@ -241,76 +311,18 @@ export type SwapProgram = {
         {
           "name": "amountToSwap",
           "type": "u64"
+        },
+        {
+          "name": "minReceive",
+          "type": "u64"
         }
       ]
-    }
-  ],
-  "accounts": [
-    {
-      "name": "liquidityPool",
-      "docs": [
-        "The `LiquidityPool` state - the inner data of the program-derived address",
-        "that will be our Liquidity Pool"
-      ],
-      "type": {
-        "kind": "struct",
-        "fields": [
-          {
-            "name": "assets",
-            "type": {
-              "vec": "publicKey"
-            }
-          },
-          {
-            "name": "bump",
-            "type": "u8"
-          }
-        ]
-      }
-    }
-  ],
-  "errors": [
-    {
-      "code": 6000,
-      "name": "InvalidArithmetic",
-      "msg": "Math overflow on `u64` value"
-    },
-    {
-      "code": 6001,
-      "name": "InvalidAssetKey",
-      "msg": "An invalid asset mint address was provided"
-    },
-    {
-      "code": 6002,
-      "name": "InvalidSwapNotEnoughPay",
-      "msg": "The amount proposed to pay is not great enough for at least 1 returned asset quantity"
-    },
-    {
-      "code": 6003,
-      "name": "InvalidSwapNotEnoughLiquidity",
-      "msg": "The amount proposed to pay resolves to a receive amount that is greater than the current liquidity"
-    },
-    {
-      "code": 6004,
-      "name": "InvalidSwapMatchingAssets",
-      "msg": "The asset proposed to pay is the same asset as the requested asset to receive"
     },
     {
-      "code": 6005,
-      "name": "InvalidSwapZeroAmount",
-      "msg": "A user cannot propose to pay 0 of an asset"
-    }
-  ]
-};
-
-export const IDL: SwapProgram = {
-  "version": "0.1.0",
-  "name": "swap_program",
-  "instructions": [
-    {
-      "name": "createPool",
+      "name": "withdraw",
       "docs": [
-        "Initialize the program by creating the liquidity pool"
+        "Withdraw liquidity from the pool by redeeming LP shares for a",
+        "proportional slice of every asset in the pool"
       ],
       "accounts": [
         {
@@ -331,85 +343,37 @@ export const IDL: SwapProgram = {
           }
         },
         {
-          "name": "payer",
-          "isMut": true,
-          "isSigner": true,
-          "docs": [
-            "Rent payer"
-          ]
-        },
-        {
-          "name": "systemProgram",
-          "isMut": false,
-          "isSigner": false,
-          "docs": [
-            "System Program: Required for creating the Liquidity Pool"
-          ]
-        }
-      ],
-      "args": []
-    },
-    {
-      "name": "fundPool",
-      "docs": [
-        "Provide liquidity to the pool by funding it with some asset"
-      ],
-      "accounts": [
-        {
-          "name": "pool",
+          "name": "lpMint",
           "isMut": true,
           "isSigner": false,
           "docs": [
-            "Liquidity Pool"
+            "The mint for the Liquidity Pool's LP shares"
           ],
           "pda": {
             "seeds": [
               {
                 "kind": "const",
                 "type": "string",
-                "value": "liquidity_pool"
+                "value": "lp_mint"
               }
             ]
           }
         },
         {
-          "name": "mint",
-          "isMut": false,
-          "isSigner": false,
-          "docs": [
-            "The mint account for the asset being deposited into the pool"
-          ]
-        },
-        {
-          "name": "poolTokenAccount",
-          "isMut": true,
-          "isSigner": false,
-          "docs": [
-            "The Liquidity Pool's token account for the asset being deposited into",
-            "the pool"
-          ]
-        },
-        {
-          "name": "payerTokenAccount",
+          "name": "payerLpTokenAccount",
           "isMut": true,
           "isSigner": false,
           "docs": [
-            "The payer's - or Liquidity Provider's - token account for the asset",
-            "being deposited into the pool"
+            "The Liquidity Provider's token account for the LP shares being redeemed",
+            "(which will be burned)"
           ]
         },
         {
           "name": "payer",
           "isMut": true,
-          "isSigner": true
-        },
-        {
-          "name": "systemProgram",
-          "isMut": false,
-          "isSigner": false,
+          "isSigner": true,
           "docs": [
-            "System Program: Required for creating the Liquidity Pool's token account",
-            "for the asset being deposited into the pool"
+            "The Liquidity Provider redeeming their LP shares"
           ]
         },
         {
@@ -418,30 +382,31 @@ export const IDL: SwapProgram = {
           "isSigner": false,
           "docs": [
             "Token Program: Required for transferring the assets from the Liquidity",
-            "Provider's token account into the Liquidity Pool's token account"
+            "Pool's token accounts (the token program that owns all of the pool's",
+            "assets)"
           ]
         },
         {
-          "name": "associatedTokenProgram",
+          "name": "lpTokenProgram",
           "isMut": false,
           "isSigner": false,
           "docs": [
-            "Associated Token Program: Required for creating the Liquidity Pool's",
-            "token account for the asset being deposited into the pool"
+            "LP Token Program: Required for burning the LP shares (always the SPL",
+            "Token program)"
           ]
         }
       ],
       "args": [
         {
-          "name": "amount",
+          "name": "shares",
           "type": "u64"
         }
       ]
     },
     {
-      "name": "swap",
+      "name": "setPaused",
       "docs": [
-        "Swap assets using the DEX"
+        "Pause or resume swaps and deposits (authority only)"
       ],
       "accounts": [
         {
@@ -462,118 +427,1336 @@ export const IDL: SwapProgram = {
           }
         },
         {
-          "name": "receiveMint",
+          "name": "authority",
           "isMut": false,
-          "isSigner": false,
+          "isSigner": true,
           "docs": [
-            "The mint account for the asset the user is requesting to receive in",
-            "exchange"
+            "The Liquidity Pool's authority"
           ]
-        },
+        }
+      ],
+      "args": [
         {
-          "name": "poolReceiveTokenAccount",
-          "isMut": true,
-          "isSigner": false,
-          "docs": [
-            "The Liquidity Pool's token account for the mint of the asset the user is",
-            "requesting to receive in exchange (which will be debited)"
-          ]
-        },
+          "name": "paused",
+          "type": "bool"
+        }
+      ]
+    },
+    {
+      "name": "removeAsset",
+      "docs": [
+        "Delist an asset from the pool, sweeping the pool's balance of it to the",
+        "authority if `sweep` is set (authority only)"
+      ],
+      "accounts": [
         {
-          "name": "payerReceiveTokenAccount",
+          "name": "pool",
           "isMut": true,
           "isSigner": false,
           "docs": [
-            "The user's token account for the mint of the asset the user is",
-            "requesting to receive in exchange (which will be credited)"
-          ]
+            "Liquidity Pool"
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "type": "string",
+                "value": "liquidity_pool"
+              }
+            ]
+          }
         },
         {
-          "name": "payMint",
+          "name": "mint",
           "isMut": false,
           "isSigner": false,
           "docs": [
-            "The mint account for the asset the user is proposing to pay in the swap"
+            "The mint account for the asset being removed from the pool"
           ]
         },
         {
-          "name": "poolPayTokenAccount",
+          "name": "poolTokenAccount",
           "isMut": true,
           "isSigner": false,
           "docs": [
-            "The Liquidity Pool's token account for the mint of the asset the user is",
-            "proposing to pay in the swap (which will be credited)"
+            "The Liquidity Pool's token account for the asset being removed (which",
+            "will be debited, if its balance is swept)"
           ]
         },
         {
-          "name": "payerPayTokenAccount",
+          "name": "authorityTokenAccount",
           "isMut": true,
           "isSigner": false,
           "docs": [
-            "The user's token account for the mint of the asset the user is",
-            "proposing to pay in the swap (which will be debited)"
+            "The authority's token account for the asset being removed (which will",
+            "be credited, if the pool's balance is swept)"
           ]
         },
         {
-          "name": "payer",
+          "name": "authority",
           "isMut": true,
           "isSigner": true,
           "docs": [
-            "The authority requesting to swap (user)"
+            "The Liquidity Pool's authority, who also receives the rent the pool no",
+            "longer needs"
           ]
         },
         {
-          "name": "tokenProgram",
+          "name": "systemProgram",
           "isMut": false,
           "isSigner": false,
           "docs": [
-            "Token Program: Required for transferring the assets between all token",
-            "accounts involved in the swap"
+            "System Program: Required for creating the authority's token account"
           ]
         },
         {
-          "name": "systemProgram",
+          "name": "tokenProgram",
           "isMut": false,
-          "isSigner": false
+          "isSigner": false,
+          "docs": [
+            "Token Program: Required for sweeping the pool's balance (either the SPL",
+            "Token or the Token-2022 program, whichever owns the mint)"
+          ]
         },
         {
           "name": "associatedTokenProgram",
           "isMut": false,
-          "isSigner": false
+          "isSigner": false,
+          "docs": [
+            "Associated Token Program: Required for creating the authority's token",
+            "account"
+          ]
         }
       ],
       "args": [
         {
-          "name": "amountToSwap",
-          "type": "u64"
+          "name": "sweep",
+          "type": "bool"
         }
       ]
-    }
-  ],
-  "accounts": [
+    },
     {
-      "name": "liquidityPool",
+      "name": "transferAuthority",
       "docs": [
-        "The `LiquidityPool` state - the inner data of the program-derived address",
-        "that will be our Liquidity Pool"
+        "Hand the pool's authority over to a new address (authority only)"
       ],
-      "type": {
-        "kind": "struct",
-        "fields": [
+      "accounts": [
+        {
+          "name": "pool",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "Liquidity Pool"
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "type": "string",
+                "value": "liquidity_pool"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "isMut": false,
+          "isSigner": true,
+          "docs": [
+            "The Liquidity Pool's current authority"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "newAuthority",
+          "type": "publicKey"
+        }
+      ]
+    }
+  ],
+  "accounts": [
+    {
+      "name": "liquidityPool",
+      "docs": [
+        "The `LiquidityPool` state - the inner data of the program-derived address",
+        "that will be our Liquidity Pool"
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "assets",
+            "type": {
+              "vec": "publicKey"
+            }
+          },
+          {
+            "name": "tokenProgram",
+            "docs": [
+              "The token program that owns every asset's mint (either the SPL Token or",
+              "the Token-2022 program), set when the first asset is listed"
+            ],
+            "type": "publicKey"
+          },
+          {
+            "name": "bump",
+            "type": "u8"
+          },
+          {
+            "name": "lpMintBump",
+            "docs": [
+              "Bump of the mint for the pool's liquidity provider (LP) shares"
+            ],
+            "type": "u8"
+          },
+          {
+            "name": "feeBps",
+            "docs": [
+              "The swap fee, in basis points of the amount paid, which stays in the",
+              "pool for its Liquidity Providers"
+            ],
+            "type": "u16"
+          },
+          {
+            "name": "authority",
+            "docs": [
+              "The pool's administrator, who lists and delists assets, pauses the pool",
+              "and can hand the role over"
+            ],
+            "type": "publicKey"
+          },
+          {
+            "name": "paused",
+            "docs": [
+              "Whether swaps and deposits are paused (withdrawals never are)"
+            ],
+            "type": "bool"
+          },
+          {
+            "name": "priceAccumulators",
+            "docs": [
+              "The cumulative prices of every pair of assets swapped so far (see",
+              "`PriceAccumulator`)"
+            ],
+            "type": {
+              "vec": {
+                "defined": "PriceAccumulator"
+              }
+            }
+          }
+        ]
+      }
+    }
+  ],
+  "types": [
+    {
+      "name": "PriceAccumulator",
+      "docs": [
+        "The cumulative prices of a pair of the pool's assets, from which anyone can",
+        "calculate the pair's time-weighted average price (TWAP) between two",
+        "observations:",
+        "",
+        "```",
+        "TWAP = (cumulative_2 - cumulative_1) / (timestamp_2 - timestamp_1)",
+        "```",
+        "",
+        "Every swap, deposit or withdrawal that changes the pool's balance of either",
+        "asset adds the price it held since the last update times the seconds",
+        "elapsed, so moving the price within a single transaction (and back again)",
+        "barely moves the TWAP",
+        "",
+        "Prices are `Q64.64` fixed-point numbers (the price times 2^64) of one base",
+        "unit, and the cumulative prices wrap around on overflow, so only the",
+        "difference between two observations is meaningful"
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "mintA",
+            "docs": [
+              "The pair's lower mint address"
+            ],
+            "type": "publicKey"
+          },
+          {
+            "name": "mintB",
+            "docs": [
+              "The pair's higher mint address"
+            ],
+            "type": "publicKey"
+          },
+          {
+            "name": "balanceA",
+            "docs": [
+              "The pool's balance of `mint_a` as of the last update"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "balanceB",
+            "docs": [
+              "The pool's balance of `mint_b` as of the last update"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "priceACumulative",
+            "docs": [
+              "The cumulative price of `mint_a` in `mint_b`"
+            ],
+            "type": "u128"
+          },
+          {
+            "name": "priceBCumulative",
+            "docs": [
+              "The cumulative price of `mint_b` in `mint_a`"
+            ],
+            "type": "u128"
+          },
+          {
+            "name": "lastTimestamp",
+            "docs": [
+              "The Unix timestamp of the last update"
+            ],
+            "type": "i64"
+          }
+        ]
+      }
+    }
+  ],
+  "events": [
+    {
+      "name": "PoolCreated",
+      "fields": [
+        {
+          "name": "pool",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "lpMint",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "authority",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "feeBps",
+          "type": "u16",
+          "index": false
+        }
+      ]
+    },
+    {
+      "name": "PoolFunded",
+      "fields": [
+        {
+          "name": "pool",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "payer",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "mint",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "amount",
+          "type": "u64",
+          "index": false
+        },
+        {
+          "name": "shares",
+          "type": "u64",
+          "index": false
+        },
+        {
+          "name": "poolBalance",
+          "type": "u64",
+          "index": false
+        }
+      ]
+    },
+    {
+      "name": "Swapped",
+      "fields": [
+        {
+          "name": "pool",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "payer",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "payMint",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "payAmount",
+          "type": "u64",
+          "index": false
+        },
+        {
+          "name": "feeAmount",
+          "type": "u64",
+          "index": false
+        },
+        {
+          "name": "receiveMint",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "receiveAmount",
+          "type": "u64",
+          "index": false
+        },
+        {
+          "name": "poolPayBalance",
+          "type": "u64",
+          "index": false
+        },
+        {
+          "name": "poolReceiveBalance",
+          "type": "u64",
+          "index": false
+        }
+      ]
+    }
+  ],
+  "errors": [
+    {
+      "code": 6000,
+      "name": "InvalidArithmetic",
+      "msg": "Math overflow on `u64` value"
+    },
+    {
+      "code": 6001,
+      "name": "InvalidAssetKey",
+      "msg": "An invalid asset mint address was provided"
+    },
+    {
+      "code": 6002,
+      "name": "InvalidSwapNotEnoughPay",
+      "msg": "The amount proposed to pay is not great enough for at least 1 returned asset quantity"
+    },
+    {
+      "code": 6003,
+      "name": "InvalidSwapNotEnoughLiquidity",
+      "msg": "The amount proposed to pay resolves to a receive amount that is greater than the current liquidity"
+    },
+    {
+      "code": 6004,
+      "name": "InvalidSwapMatchingAssets",
+      "msg": "The asset proposed to pay is the same asset as the requested asset to receive"
+    },
+    {
+      "code": 6005,
+      "name": "InvalidSwapZeroAmount",
+      "msg": "A user cannot propose to pay 0 of an asset"
+    },
+    {
+      "code": 6006,
+      "name": "InvalidSwapSlippageExceeded",
+      "msg": "The amount to receive is less than the minimum amount the user will accept"
+    },
+    {
+      "code": 6007,
+      "name": "InvalidFundZeroShares",
+      "msg": "The amount proposed to fund is not great enough for at least 1 LP share"
+    },
+    {
+      "code": 6008,
+      "name": "InvalidWithdrawZeroShares",
+      "msg": "A user cannot propose to withdraw 0 LP shares"
+    },
+    {
+      "code": 6009,
+      "name": "InvalidWithdrawAccounts",
+      "msg": "The accounts provided do not match the Liquidity Pool's assets"
+    },
+    {
+      "code": 6010,
+      "name": "InvalidPoolFee",
+      "msg": "The swap fee cannot exceed 1,000 basis points (10%)"
+    },
+    {
+      "code": 6011,
+      "name": "InvalidPoolAuthority",
+      "msg": "The signer is not the Liquidity Pool's authority"
+    },
+    {
+      "code": 6012,
+      "name": "InvalidPoolPaused",
+      "msg": "The Liquidity Pool is paused"
+    },
+    {
+      "code": 6013,
+      "name": "InvalidRemoveAssetBalance",
+      "msg": "The Liquidity Pool still holds a balance of the asset to remove"
+    },
+    {
+      "code": 6014,
+      "name": "InvalidAssetTokenProgram",
+      "msg": "The asset's mint is not owned by the Liquidity Pool's token program"
+    }
+  ]
+};
+
+export const IDL: SwapProgram = {
+  "version": "0.1.0",
+  "name": "swap_program",
+  "instructions": [
+    {
+      "name": "createPool",
+      "docs": [
+        "Initialize the program by creating the liquidity pool and its LP share",
+        "mint, with a swap fee of `fee_bps` basis points"
+      ],
+      "accounts": [
+        {
+          "name": "pool",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "Liquidity Pool"
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "type": "string",
+                "value": "liquidity_pool"
+              }
+            ]
+          }
+        },
+        {
+          "name": "lpMint",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "The mint for the Liquidity Pool's liquidity provider (LP) shares, whose",
+            "mint authority is the Liquidity Pool"
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "type": "string",
+                "value": "lp_mint"
+              }
+            ]
+          }
+        },
+        {
+          "name": "payer",
+          "isMut": true,
+          "isSigner": true,
+          "docs": [
+            "Rent payer"
+          ]
+        },
+        {
+          "name": "systemProgram",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "System Program: Required for creating the Liquidity Pool"
+          ]
+        },
+        {
+          "name": "tokenProgram",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "Token Program: Required for creating the LP share mint (always the SPL",
+            "Token program, whichever token program owns the pool's assets)"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "feeBps",
+          "type": "u16"
+        }
+      ]
+    },
+    {
+      "name": "fundPool",
+      "docs": [
+        "Provide liquidity to the pool by funding it with some asset, in exchange",
+        "for LP shares"
+      ],
+      "accounts": [
+        {
+          "name": "pool",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "Liquidity Pool"
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "type": "string",
+                "value": "liquidity_pool"
+              }
+            ]
+          }
+        },
+        {
+          "name": "mint",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "The mint account for the asset being deposited into the pool"
+          ]
+        },
+        {
+          "name": "poolTokenAccount",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "The Liquidity Pool's token account for the asset being deposited into",
+            "the pool"
+          ]
+        },
+        {
+          "name": "payerTokenAccount",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "The payer's - or Liquidity Provider's - token account for the asset",
+            "being deposited into the pool"
+          ]
+        },
+        {
+          "name": "lpMint",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "The mint for the Liquidity Pool's LP shares"
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "type": "string",
+                "value": "lp_mint"
+              }
+            ]
+          }
+        },
+        {
+          "name": "payerLpTokenAccount",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "The payer's - or Liquidity Provider's - token account for the LP shares",
+            "issued for the deposit"
+          ]
+        },
+        {
+          "name": "payer",
+          "isMut": true,
+          "isSigner": true
+        },
+        {
+          "name": "systemProgram",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "System Program: Required for creating the Liquidity Pool's token account",
+            "for the asset being deposited into the pool"
+          ]
+        },
+        {
+          "name": "tokenProgram",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "Token Program: Required for transferring the assets from the Liquidity",
+            "Provider's token account into the Liquidity Pool's token account"
+          ]
+        },
+        {
+          "name": "lpTokenProgram",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "LP Token Program: Required for minting the LP shares (always the SPL",
+            "Token program)"
+          ]
+        },
+        {
+          "name": "associatedTokenProgram",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "Associated Token Program: Required for creating the Liquidity Pool's",
+            "token account for the asset being deposited into the pool, and the",
+            "payer's token account for the LP shares"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "amount",
+          "type": "u64"
+        }
+      ]
+    },
+    {
+      "name": "swap",
+      "docs": [
+        "Swap assets using the DEX, receiving no less than `min_receive`"
+      ],
+      "accounts": [
+        {
+          "name": "pool",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "Liquidity Pool"
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "type": "string",
+                "value": "liquidity_pool"
+              }
+            ]
+          }
+        },
+        {
+          "name": "receiveMint",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "The mint account for the asset the user is requesting to receive in",
+            "exchange"
+          ]
+        },
+        {
+          "name": "poolReceiveTokenAccount",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "The Liquidity Pool's token account for the mint of the asset the user is",
+            "requesting to receive in exchange (which will be debited)"
+          ]
+        },
+        {
+          "name": "payerReceiveTokenAccount",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "The user's token account for the mint of the asset the user is",
+            "requesting to receive in exchange (which will be credited)"
+          ]
+        },
+        {
+          "name": "payMint",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "The mint account for the asset the user is proposing to pay in the swap"
+          ]
+        },
+        {
+          "name": "poolPayTokenAccount",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "The Liquidity Pool's token account for the mint of the asset the user is",
+            "proposing to pay in the swap (which will be credited)"
+          ]
+        },
+        {
+          "name": "payerPayTokenAccount",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "The user's token account for the mint of the asset the user is",
+            "proposing to pay in the swap (which will be debited)"
+          ]
+        },
+        {
+          "name": "payer",
+          "isMut": true,
+          "isSigner": true,
+          "docs": [
+            "The authority requesting to swap (user)"
+          ]
+        },
+        {
+          "name": "tokenProgram",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "Token Program: Required for transferring the assets between all token",
+            "accounts involved in the swap"
+          ]
+        },
+        {
+          "name": "systemProgram",
+          "isMut": false,
+          "isSigner": false
+        },
+        {
+          "name": "associatedTokenProgram",
+          "isMut": false,
+          "isSigner": false
+        }
+      ],
+      "args": [
+        {
+          "name": "amountToSwap",
+          "type": "u64"
+        },
+        {
+          "name": "minReceive",
+          "type": "u64"
+        }
+      ]
+    },
+    {
+      "name": "withdraw",
+      "docs": [
+        "Withdraw liquidity from the pool by redeeming LP shares for a",
+        "proportional slice of every asset in the pool"
+      ],
+      "accounts": [
+        {
+          "name": "pool",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "Liquidity Pool"
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "type": "string",
+                "value": "liquidity_pool"
+              }
+            ]
+          }
+        },
+        {
+          "name": "lpMint",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "The mint for the Liquidity Pool's LP shares"
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "type": "string",
+                "value": "lp_mint"
+              }
+            ]
+          }
+        },
+        {
+          "name": "payerLpTokenAccount",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "The Liquidity Provider's token account for the LP shares being redeemed",
+            "(which will be burned)"
+          ]
+        },
+        {
+          "name": "payer",
+          "isMut": true,
+          "isSigner": true,
+          "docs": [
+            "The Liquidity Provider redeeming their LP shares"
+          ]
+        },
+        {
+          "name": "tokenProgram",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "Token Program: Required for transferring the assets from the Liquidity",
+            "Pool's token accounts (the token program that owns all of the pool's",
+            "assets)"
+          ]
+        },
+        {
+          "name": "lpTokenProgram",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "LP Token Program: Required for burning the LP shares (always the SPL",
+            "Token program)"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "shares",
+          "type": "u64"
+        }
+      ]
+    },
+    {
+      "name": "setPaused",
+      "docs": [
+        "Pause or resume swaps and deposits (authority only)"
+      ],
+      "accounts": [
+        {
+          "name": "pool",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "Liquidity Pool"
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "type": "string",
+                "value": "liquidity_pool"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "isMut": false,
+          "isSigner": true,
+          "docs": [
+            "The Liquidity Pool's authority"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "paused",
+          "type": "bool"
+        }
+      ]
+    },
+    {
+      "name": "removeAsset",
+      "docs": [
+        "Delist an asset from the pool, sweeping the pool's balance of it to the",
+        "authority if `sweep` is set (authority only)"
+      ],
+      "accounts": [
+        {
+          "name": "pool",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "Liquidity Pool"
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "type": "string",
+                "value": "liquidity_pool"
+              }
+            ]
+          }
+        },
+        {
+          "name": "mint",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "The mint account for the asset being removed from the pool"
+          ]
+        },
+        {
+          "name": "poolTokenAccount",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "The Liquidity Pool's token account for the asset being removed (which",
+            "will be debited, if its balance is swept)"
+          ]
+        },
+        {
+          "name": "authorityTokenAccount",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "The authority's token account for the asset being removed (which will",
+            "be credited, if the pool's balance is swept)"
+          ]
+        },
+        {
+          "name": "authority",
+          "isMut": true,
+          "isSigner": true,
+          "docs": [
+            "The Liquidity Pool's authority, who also receives the rent the pool no",
+            "longer needs"
+          ]
+        },
+        {
+          "name": "systemProgram",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "System Program: Required for creating the authority's token account"
+          ]
+        },
+        {
+          "name": "tokenProgram",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "Token Program: Required for sweeping the pool's balance (either the SPL",
+            "Token or the Token-2022 program, whichever owns the mint)"
+          ]
+        },
+        {
+          "name": "associatedTokenProgram",
+          "isMut": false,
+          "isSigner": false,
+          "docs": [
+            "Associated Token Program: Required for creating the authority's token",
+            "account"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "sweep",
+          "type": "bool"
+        }
+      ]
+    },
+    {
+      "name": "transferAuthority",
+      "docs": [
+        "Hand the pool's authority over to a new address (authority only)"
+      ],
+      "accounts": [
+        {
+          "name": "pool",
+          "isMut": true,
+          "isSigner": false,
+          "docs": [
+            "Liquidity Pool"
+          ],
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "type": "string",
+                "value": "liquidity_pool"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "isMut": false,
+          "isSigner": true,
+          "docs": [
+            "The Liquidity Pool's current authority"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "newAuthority",
+          "type": "publicKey"
+        }
+      ]
+    }
+  ],
+  "accounts": [
+    {
+      "name": "liquidityPool",
+      "docs": [
+        "The `LiquidityPool` state - the inner data of the program-derived address",
+        "that will be our Liquidity Pool"
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
           {
             "name": "assets",
             "type": {
               "vec": "publicKey"
             }
           },
+          {
+            "name": "tokenProgram",
+            "docs": [
+              "The token program that owns every asset's mint (either the SPL Token or",
+              "the Token-2022 program), set when the first asset is listed"
+            ],
+            "type": "publicKey"
+          },
           {
             "name": "bump",
             "type": "u8"
+          },
+          {
+            "name": "lpMintBump",
+            "docs": [
+              "Bump of the mint for the pool's liquidity provider (LP) shares"
+            ],
+            "type": "u8"
+          },
+          {
+            "name": "feeBps",
+            "docs": [
+              "The swap fee, in basis points of the amount paid, which stays in the",
+              "pool for its Liquidity Providers"
+            ],
+            "type": "u16"
+          },
+          {
+            "name": "authority",
+            "docs": [
+              "The pool's administrator, who lists and delists assets, pauses the pool",
+              "and can hand the role over"
+            ],
+            "type": "publicKey"
+          },
+          {
+            "name": "paused",
+            "docs": [
+              "Whether swaps and deposits are paused (withdrawals never are)"
+            ],
+            "type": "bool"
+          },
+          {
+            "name": "priceAccumulators",
+            "docs": [
+              "The cumulative prices of every pair of assets swapped so far (see",
+              "`PriceAccumulator`)"
+            ],
+            "type": {
+              "vec": {
+                "defined": "PriceAccumulator"
+              }
+            }
+          }
+        ]
+      }
+    }
+  ],
+  "types": [
+    {
+      "name": "PriceAccumulator",
+      "docs": [
+        "The cumulative prices of a pair of the pool's assets, from which anyone can",
+        "calculate the pair's time-weighted average price (TWAP) between two",
+        "observations:",
+        "",
+        "```",
+        "TWAP = (cumulative_2 - cumulative_1) / (timestamp_2 - timestamp_1)",
+        "```",
+        "",
+        "Every swap, deposit or withdrawal that changes the pool's balance of either",
+        "asset adds the price it held since the last update times the seconds",
+        "elapsed, so moving the price within a single transaction (and back again)",
+        "barely moves the TWAP",
+        "",
+        "Prices are `Q64.64` fixed-point numbers (the price times 2^64) of one base",
+        "unit, and the cumulative prices wrap around on overflow, so only the",
+        "difference between two observations is meaningful"
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "mintA",
+            "docs": [
+              "The pair's lower mint address"
+            ],
+            "type": "publicKey"
+          },
+          {
+            "name": "mintB",
+            "docs": [
+              "The pair's higher mint address"
+            ],
+            "type": "publicKey"
+          },
+          {
+            "name": "balanceA",
+            "docs": [
+              "The pool's balance of `mint_a` as of the last update"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "balanceB",
+            "docs": [
+              "The pool's balance of `mint_b` as of the last update"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "priceACumulative",
+            "docs": [
+              "The cumulative price of `mint_a` in `mint_b`"
+            ],
+            "type": "u128"
+          },
+          {
+            "name": "priceBCumulative",
+            "docs": [
+              "The cumulative price of `mint_b` in `mint_a`"
+            ],
+            "type": "u128"
+          },
+          {
+            "name": "lastTimestamp",
+            "docs": [
+              "The Unix timestamp of the last update"
+            ],
+            "type": "i64"
           }
         ]
       }
     }
   ],
+  "events": [
+    {
+      "name": "PoolCreated",
+      "fields": [
+        {
+          "name": "pool",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "lpMint",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "authority",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "feeBps",
+          "type": "u16",
+          "index": false
+        }
+      ]
+    },
+    {
+      "name": "PoolFunded",
+      "fields": [
+        {
+          "name": "pool",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "payer",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "mint",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "amount",
+          "type": "u64",
+          "index": false
+        },
+        {
+          "name": "shares",
+          "type": "u64",
+          "index": false
+        },
+        {
+          "name": "poolBalance",
+          "type": "u64",
+          "index": false
+        }
+      ]
+    },
+    {
+      "name": "Swapped",
+      "fields": [
+        {
+          "name": "pool",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "payer",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "payMint",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "payAmount",
+          "type": "u64",
+          "index": false
+        },
+        {
+          "name": "feeAmount",
+          "type": "u64",
+          "index": false
+        },
+        {
+          "name": "receiveMint",
+          "type": "publicKey",
+          "index": false
+        },
+        {
+          "name": "receiveAmount",
+          "type": "u64",
+          "index": false
+        },
+        {
+          "name": "poolPayBalance",
+          "type": "u64",
+          "index": false
+        },
+        {
+          "name": "poolReceiveBalance",
+          "type": "u64",
+          "index": false
+        }
+      ]
+    }
+  ],
   "errors": [
     {
       "code": 6000,
@@ -604,6 +1787,51 @@ export const IDL: SwapProgram = {
       "code": 6005,
       "name": "InvalidSwapZeroAmount",
       "msg": "A user cannot propose to pay 0 of an asset"
+    },
+    {
+      "code": 6006,
+      "name": "InvalidSwapSlippageExceeded",
+      "msg": "The amount to receive is less than the minimum amount the user will accept"
+    },
+    {
+      "code": 6007,
+      "name": "InvalidFundZeroShares",
+      "msg": "The amount proposed to fund is not great enough for at least 1 LP share"
+    },
+    {
+      "code": 6008,
+      "name": "InvalidWithdrawZeroShares",
+      "msg": "A user cannot propose to withdraw 0 LP shares"
+    },
+    {
+      "code": 6009,
+      "name": "InvalidWithdrawAccounts",
+      "msg": "The accounts provided do not match the Liquidity Pool's assets"
+    },
+    {
+      "code": 6010,
+      "name": "InvalidPoolFee",
+      "msg": "The swap fee cannot exceed 1,000 basis points (10%)"
+    },
+    {
+      "code": 6011,
+      "name": "InvalidPoolAuthority",
+      "msg": "The signer is not the Liquidity Pool's authority"
+    },
+    {
+      "code": 6012,
+      "name": "InvalidPoolPaused",
+      "msg": "The Liquidity Pool is paused"
+    },
+    {
+      "code": 6013,
+      "name": "InvalidRemoveAssetBalance",
+      "msg": "The Liquidity Pool still holds a balance of the asset to remove"
+    },
+    {
+      "code": 6014,
+      "name": "InvalidAssetTokenProgram",
+      "msg": "The asset's mint is not owned by the Liquidity Pool's token program"
     }
   ]
 };
@@ -0,0 +1,16 @@
+import Head from 'next/head'
+import { AnalyticsView } from '@/views';
+
+export default function Analytics() {
+  return (
+    <>
+      <Head>
+        <title>Pirate Swap - Analytics</title>
+        <meta name="description" content="The Pirate Swap Market's pool analytics" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <link rel="icon" href="/favicon.ico" />
+      </Head>
+      <AnalyticsView />
+    </>
+  )
+}
@@ -0,0 +1,801 @@
+import * as anchor from '@coral-xyz/anchor'
+import {
+    Metadata,
+    PROGRAM_ID as METADATA_PROGRAM_ID,
+} from '@metaplex-foundation/mpl-token-metadata'
+import {
+    ASSOCIATED_TOKEN_PROGRAM_ID,
+    TOKEN_PROGRAM_ID,
+    createAssociatedTokenAccountIdempotentInstruction,
+    getAccount as getTokenAccount,
+    getAssociatedTokenAddressSync,
+    getMint,
+    getMultipleAccounts as getMultipleTokenAccounts,
+    getTransferFeeConfig,
+    unpackMint,
+} from '@solana/spl-token'
+import {
+    AccountMeta,
+    ConfirmOptions,
+    Connection,
+    PublicKey,
+    SYSVAR_CLOCK_PUBKEY,
+    SystemProgram,
+    TransactionInstruction,
+} from '@solana/web3.js'
+import { SwapProgram } from '../idl/swap_program'
+import {
+    SwapEventCallback,
+    SwapEventName,
+    addSwapEventListener,
+} from './events'
+import { WithdrawAmount, quoteWithdraw } from './liquidity'
+import { SwapQuote, TransferFee, quoteSwapFromPool } from './quote'
+import { SwapRoute, applyRouteSlippage, findSwapRoutes } from './router'
+import { PriceAccumulator, PriceObservation, observePrice } from './twap'
+
+// Seed prefix for the Liquidity Pool from our program
+export const LIQUIDITY_POOL_SEED_PREFIX = 'liquidity_pool'
+
+// Seed prefix for the Liquidity Pool's LP share mint from our program
+export const LP_MINT_SEED_PREFIX = 'lp_mint'
+
+/**
+ * One of the assets held by the Liquidity Pool
+ */
+export interface PoolAsset {
+    mint: PublicKey
+    // The pool's associated token account for this mint
+    poolTokenAccount: PublicKey
+    // The pool's balance, in the mint's base units
+    balance: bigint
+    decimals: number
+    // The Token-2022 transfer fee in effect this epoch, withheld from every
+    // transfer of the asset (null when the mint has none)
+    transferFee: TransferFee | null
+    // From the mint's Metaplex metadata (placeholders when it has none)
+    name: string
+    symbol: string
+    uri: string
+}
+
+/**
+ * The Liquidity Pool's assets, along with their balances and metadata
+ */
+export interface PoolState {
+    address: PublicKey
+    // The token program that owns all of the pool's assets (recorded by the
+    // pool when its first asset is listed)
+    tokenProgram: PublicKey
+    assets: PoolAsset[]
+    // The mint of the pool's LP shares (owned by the SPL Token program)
+    lpMint: PublicKey
+    // The LP shares issued, in the LP share mint's base units
+    lpSupply: bigint
+    // The swap fee, in basis points of the amount paid
+    feeBps: number
+    // The pool's administrator
+    authority: PublicKey
+    // Whether swaps and deposits are paused (withdrawals never are)
+    paused: boolean
+    // The cumulative prices of every pair swapped so far, as of each pair's
+    // last update
+    priceAccumulators: PriceAccumulator[]
+}
+
+/**
+ * A Liquidity Provider's LP shares, and the slice of every asset in the pool
+ * they can be redeemed for
+ */
+export interface LiquidityPosition {
+    owner: PublicKey
+    // In the LP share mint's base units
+    shares: bigint
+    lpSupply: bigint
+    withdrawAmounts: WithdrawAmount[]
+}
+
+/**
+ * Derives the address of the Liquidity Pool program-derived address account
+ */
+export function getPoolAddress(programId: PublicKey): PublicKey {
+    return PublicKey.findProgramAddressSync(
+        [Buffer.from(LIQUIDITY_POOL_SEED_PREFIX)],
+        programId
+    )[0]
+}
+
+/**
+ * Derives the address of the Liquidity Pool's LP share mint
+ */
+export function getLpMintAddress(programId: PublicKey): PublicKey {
+    return PublicKey.findProgramAddressSync(
+        [Buffer.from(LP_MINT_SEED_PREFIX)],
+        programId
+    )[0]
+}
+
+/**
+ * Derives the address of a mint's Metaplex metadata account
+ */
+export function getMetadataAddress(mint: PublicKey): PublicKey {
+    return PublicKey.findProgramAddressSync(
+        [
+            Buffer.from('metadata'),
+            METADATA_PROGRAM_ID.toBuffer(),
+            mint.toBuffer(),
+        ],
+        METADATA_PROGRAM_ID
+    )[0]
+}
+
+/**
+ * Returns the token program that owns a mint (either the SPL Token or the
+ * Token-2022 program)
+ */
+export async function getTokenProgramId(
+    connection: Connection,
+    mint: PublicKey
+): Promise<PublicKey> {
+    const mintAccount = await connection.getAccountInfo(mint)
+    if (!mintAccount) {
+        throw new Error(`Mint not found: ${mint.toBase58()}`)
+    }
+    return mintAccount.owner
+}
+
+/**
+ * Returns the cluster's current Unix timestamp (from the `Clock` sysvar), the
+ * time the swap program's price accumulators are updated with
+ */
+export async function getClusterTimestamp(
+    connection: Connection
+): Promise<number> {
+    const clock = await connection.getAccountInfo(SYSVAR_CLOCK_PUBKEY)
+    if (!clock) {
+        throw new Error('Clock sysvar not found')
+    }
+    // `Clock`: slot, epoch start timestamp, epoch, leader schedule epoch, and
+    // the Unix timestamp (each 8 bytes)
+    return Number(clock.data.readBigInt64LE(32))
+}
+
+/**
+ * A client for the swap program, shared by the app and the tests
+ *
+ * Each instruction has a builder (`...Instruction`), which returns the
+ * instruction to be sent by the caller, and a send helper, which sends it
+ * with the program's provider
+ */
+export class SwapClient {
+    readonly poolAddress: PublicKey
+    readonly lpMint: PublicKey
+
+    constructor(readonly program: anchor.Program<SwapProgram>) {
+        this.poolAddress = getPoolAddress(program.programId)
+        this.lpMint = getLpMintAddress(program.programId)
+    }
+
+    get connection(): Connection {
+        return this.program.provider.connection
+    }
+
+    /**
+     * The wallet of the program's provider, used by the send helpers
+     */
+    private get wallet(): PublicKey {
+        const wallet = this.program.provider.publicKey
+        if (!wallet) {
+            throw new Error('The provider has no wallet to send with')
+        }
+        return wallet
+    }
+
+    /**
+     * Derives the Liquidity Pool's associated token account for a mint
+     */
+    getPoolTokenAccount(
+        mint: PublicKey,
+        tokenProgram: PublicKey = TOKEN_PROGRAM_ID
+    ): PublicKey {
+        return getAssociatedTokenAddressSync(
+            mint,
+            this.poolAddress,
+            true,
+            tokenProgram
+        )
+    }
+
+    /**
+     * Derives an owner's associated token account for the LP shares
+     */
+    getLpTokenAccount(owner: PublicKey): PublicKey {
+        return getAssociatedTokenAddressSync(this.lpMint, owner)
+    }
+
+    /**
+     * Builds the `create_pool` instruction, which also creates the LP share
+     * mint, with a swap fee of `feeBps` basis points (up to 1,000)
+     */
+    async createPoolInstruction(
+        payer: PublicKey,
+        feeBps: number
+    ): Promise<TransactionInstruction> {
+        return this.program.methods
+            .createPool(feeBps)
+            .accounts({
+                pool: this.poolAddress,
+                lpMint: this.lpMint,
+                payer,
+                systemProgram: SystemProgram.programId,
+                tokenProgram: TOKEN_PROGRAM_ID,
+            })
+            .instruction()
+    }
+
+    /**
+     * Builds the `fund_pool` instruction, transferring `amount` (in the
+     * mint's base units) from the payer's associated token account in
+     * exchange for LP shares (see `quoteDeposit`)
+     */
+    async fundPoolInstruction(
+        payer: PublicKey,
+        mint: PublicKey,
+        amount: bigint
+    ): Promise<TransactionInstruction> {
+        // The mint can be owned by either the SPL Token or the Token-2022 program
+        const tokenProgram = await getTokenProgramId(this.connection, mint)
+        return this.program.methods
+            .fundPool(new anchor.BN(amount.toString()))
+            .accounts({
+                pool: this.poolAddress,
+                mint,
+                poolTokenAccount: this.getPoolTokenAccount(mint, tokenProgram),
+                payerTokenAccount: getAssociatedTokenAddressSync(
+                    mint,
+                    payer,
+                    false,
+                    tokenProgram
+                ),
+                lpMint: this.lpMint,
+                payerLpTokenAccount: this.getLpTokenAccount(payer),
+                payer,
+                systemProgram: SystemProgram.programId,
+                tokenProgram,
+                lpTokenProgram: TOKEN_PROGRAM_ID,
+                associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
+            })
+            .instruction()
+    }
+
+    /**
+     * Builds the `swap` instruction, paying `amount` (in the pay mint's base
+     * units) in exchange for the receive mint
+     *
+     * The swap fails if it would receive less than `minReceive` (in the
+     * receive mint's base units, see `minReceiveWithSlippage`), so the default
+     * of 0 accepts any amount
+     */
+    async swapInstruction(
+        payer: PublicKey,
+        payMint: PublicKey,
+        receiveMint: PublicKey,
+        amount: bigint,
+        minReceive: bigint = BigInt(0)
+    ): Promise<TransactionInstruction> {
+        // Both mints must be owned by the same token program (either the SPL
+        // Token or the Token-2022 program)
+        const tokenProgram = await getTokenProgramId(this.connection, payMint)
+        return this.program.methods
+            .swap(
+                new anchor.BN(amount.toString()),
+                new anchor.BN(minReceive.toString())
+            )
+            .accounts({
+                pool: this.poolAddress,
+                receiveMint,
+                poolReceiveTokenAccount: this.getPoolTokenAccount(
+                    receiveMint,
+                    tokenProgram
+                ),
+                payerReceiveTokenAccount: getAssociatedTokenAddressSync(
+                    receiveMint,
+                    payer,
+                    false,
+                    tokenProgram
+                ),
+                payMint,
+                poolPayTokenAccount: this.getPoolTokenAccount(
+                    payMint,
+                    tokenProgram
+                ),
+                payerPayTokenAccount: getAssociatedTokenAddressSync(
+                    payMint,
+                    payer,
+                    false,
+                    tokenProgram
+                ),
+                payer,
+                tokenProgram,
+                systemProgram: SystemProgram.programId,
+                associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
+            })
+            .instruction()
+    }
+
+    /**
+     * Builds one `swap` instruction per hop of a route (see `findSwapRoutes`),
+     * to be sent together in a single transaction
+     *
+     * Every hop must receive at least its quote less the slippage tolerance
+     * (in basis points), and the next hop pays that minimum, so the whole
+     * route fails if the pool's balances moved too far (see
+     * `applyRouteSlippage`). The default of 0 requires the exact quotes
+     */
+    async swapRouteInstructions(
+        payer: PublicKey,
+        route: SwapRoute,
+        slippageBps: number = 0
+    ): Promise<TransactionInstruction[]> {
+        const limits = applyRouteSlippage(route, slippageBps)
+        return Promise.all(
+            route.hops.map((hop, index) =>
+                this.swapInstruction(
+                    payer,
+                    hop.payMint,
+                    hop.receiveMint,
+                    limits.hops[index].payAmount,
+                    limits.hops[index].minReceive
+                )
+            )
+        )
+    }
+
+    /**
+     * Builds the `withdraw` instruction, redeeming `shares` (in the LP share
+     * mint's base units) for a slice of every asset in the pool (see
+     * `quoteWithdraw`)
+     *
+     * It's preceded by instructions creating any of the payer's associated
+     * token accounts for the pool's assets that don't exist yet
+     */
+    async withdrawInstructions(
+        payer: PublicKey,
+        shares: bigint
+    ): Promise<TransactionInstruction[]> {
+        const pool = await this.program.account.liquidityPool.fetch(
+            this.poolAddress
+        )
+        const mints: PublicKey[] = pool.assets
+        const tokenProgram: PublicKey = mints.length
+            ? pool.tokenProgram
+            : TOKEN_PROGRAM_ID
+        const createTokenAccounts: TransactionInstruction[] = []
+        // Each asset's mint, pool token account and payer token account
+        const assetAccounts: AccountMeta[] = []
+        for (const mint of mints) {
+            const payerTokenAccount = getAssociatedTokenAddressSync(
+                mint,
+                payer,
+                false,
+                tokenProgram
+            )
+            createTokenAccounts.push(
+                createAssociatedTokenAccountIdempotentInstruction(
+                    payer,
+                    payerTokenAccount,
+                    payer,
+                    mint,
+                    tokenProgram
+                )
+            )
+            assetAccounts.push(
+                { pubkey: mint, isSigner: false, isWritable: false },
+                {
+                    pubkey: this.getPoolTokenAccount(mint, tokenProgram),
+                    isSigner: false,
+                    isWritable: true,
+                },
+                { pubkey: payerTokenAccount, isSigner: false, isWritable: true }
+            )
+        }
+        const withdraw = await this.program.methods
+            .withdraw(new anchor.BN(shares.toString()))
+            .accounts({
+                pool: this.poolAddress,
+                lpMint: this.lpMint,
+                payerLpTokenAccount: this.getLpTokenAccount(payer),
+                payer,
+                tokenProgram,
+                lpTokenProgram: TOKEN_PROGRAM_ID,
+            })
+            .remainingAccounts(assetAccounts)
+            .instruction()
+        return [...createTokenAccounts, withdraw]
+    }
+
+    /**
+     * Builds the `set_paused` instruction, pausing or resuming swaps and
+     * deposits (signed by the pool's authority)
+     */
+    async setPausedInstruction(
+        authority: PublicKey,
+        paused: boolean
+    ): Promise<TransactionInstruction> {
+        return this.program.methods
+            .setPaused(paused)
+            .accounts({ pool: this.poolAddress, authority })
+            .instruction()
+    }
+
+    /**
+     * Builds the `remove_asset` instruction, delisting an asset from the pool
+     * (signed by the pool's authority)
+     *
+     * If the pool still holds some of the asset, it's only removed with
+     * `sweep`, which transfers the pool's balance to the authority
+     */
+    async removeAssetInstruction(
+        authority: PublicKey,
+        mint: PublicKey,
+        sweep: boolean = false
+    ): Promise<TransactionInstruction> {
+        const tokenProgram = await getTokenProgramId(this.connection, mint)
+        return this.program.methods
+            .removeAsset(sweep)
+            .accounts({
+                pool: this.poolAddress,
+                mint,
+                poolTokenAccount: this.getPoolTokenAccount(mint, tokenProgram),
+                authorityTokenAccount: getAssociatedTokenAddressSync(
+                    mint,
+                    authority,
+                    false,
+                    tokenProgram
+                ),
+                authority,
+                systemProgram: SystemProgram.programId,
+                tokenProgram,
+                associatedTokenProgram: ASSOCIATED_TOKEN_PROGRAM_ID,
+            })
+            .instruction()
+    }
+
+    /**
+     * Builds the `transfer_authority` instruction, handing the pool's
+     * authority over to `newAuthority` (signed by the current authority)
+     */
+    async transferAuthorityInstruction(
+        authority: PublicKey,
+        newAuthority: PublicKey
+    ): Promise<TransactionInstruction> {
+        return this.program.methods
+            .transferAuthority(newAuthority)
+            .accounts({ pool: this.poolAddress, authority })
+            .instruction()
+    }
+
+    /**
+     * Sends instructions with the program's provider, returning the signature
+     */
+    private async send(
+        instructions: TransactionInstruction[],
+        options?: ConfirmOptions
+    ): Promise<string> {
+        const provider = this.program.provider
+        if (!provider.sendAndConfirm) {
+            throw new Error('The provider cannot send transactions')
+        }
+        return provider.sendAndConfirm(
+            new anchor.web3.Transaction().add(...instructions),
+            [],
+            options
+        )
+    }
+
+    /**
+     * Creates the Liquidity Pool with a swap fee of `feeBps` basis points, paid
+     * for by the provider's wallet
+     */
+    async createPool(
+        feeBps: number,
+        options?: ConfirmOptions
+    ): Promise<string> {
+        return this.send(
+            [await this.createPoolInstruction(this.wallet, feeBps)],
+            options
+        )
+    }
+
+    /**
+     * Funds the Liquidity Pool from the provider's wallet
+     */
+    async fundPool(
+        mint: PublicKey,
+        amount: bigint,
+        options?: ConfirmOptions
+    ): Promise<string> {
+        return this.send(
+            [await this.fundPoolInstruction(this.wallet, mint, amount)],
+            options
+        )
+    }
+
+    /**
+     * Withdraws from the Liquidity Pool to the provider's wallet
+     */
+    async withdraw(shares: bigint, options?: ConfirmOptions): Promise<string> {
+        return this.send(
+            await this.withdrawInstructions(this.wallet, shares),
+            options
+        )
+    }
+
+    /**
+     * Pauses or resumes the Liquidity Pool (the provider's wallet must be its
+     * authority)
+     */
+    async setPaused(
+        paused: boolean,
+        options?: ConfirmOptions
+    ): Promise<string> {
+        return this.send(
+            [await this.setPausedInstruction(this.wallet, paused)],
+            options
+        )
+    }
+
+    /**
+     * Removes an asset from the Liquidity Pool, sweeping its balance to the
+     * provider's wallet if `sweep` is set (the wallet must be its authority)
+     */
+    async removeAsset(
+        mint: PublicKey,
+        sweep?: boolean,
+        options?: ConfirmOptions
+    ): Promise<string> {
+        return this.send(
+            [await this.removeAssetInstruction(this.wallet, mint, sweep)],
+            options
+        )
+    }
+
+    /**
+     * Hands the Liquidity Pool's authority over from the provider's wallet
+     */
+    async transferAuthority(
+        newAuthority: PublicKey,
+        options?: ConfirmOptions
+    ): Promise<string> {
+        return this.send(
+            [
+                await this.transferAuthorityInstruction(
+                    this.wallet,
+                    newAuthority
+                ),
+            ],
+            options
+        )
+    }
+
+    /**
+     * Swaps from the provider's wallet, receiving no less than `minReceive`
+     */
+    async swap(
+        payMint: PublicKey,
+        receiveMint: PublicKey,
+        amount: bigint,
+        minReceive?: bigint,
+        options?: ConfirmOptions
+    ): Promise<string> {
+        return this.send(
+            [
+                await this.swapInstruction(
+                    this.wallet,
+                    payMint,
+                    receiveMint,
+                    amount,
+                    minReceive
+                ),
+            ],
+            options
+        )
+    }
+
+    /**
+     * Swaps along a route from the provider's wallet, in a single transaction
+     */
+    async swapRoute(
+        route: SwapRoute,
+        slippageBps?: number,
+        options?: ConfirmOptions
+    ): Promise<string> {
+        return this.send(
+            await this.swapRouteInstructions(this.wallet, route, slippageBps),
+            options
+        )
+    }
+
+    /**
+     * Quotes a swap against the Liquidity Pool's current balances, throwing a
+     * `SwapQuoteError` if the swap program would reject it
+     */
+    async quoteSwap(
+        payMint: PublicKey,
+        receiveMint: PublicKey,
+        amount: bigint
+    ): Promise<SwapQuote> {
+        return quoteSwapFromPool(
+            await this.fetchPoolState(),
+            payMint,
+            receiveMint,
+            amount
+        )
+    }
+
+    /**
+     * Finds the routes for a swap against the Liquidity Pool's current
+     * balances, best output first (see `findSwapRoutes`)
+     */
+    async findSwapRoutes(
+        payMint: PublicKey,
+        receiveMint: PublicKey,
+        amount: bigint,
+        maxHops?: number
+    ): Promise<SwapRoute[]> {
+        return findSwapRoutes(
+            await this.fetchPoolState(),
+            payMint,
+            receiveMint,
+            amount,
+            maxHops
+        )
+    }
+
+    /**
+     * Observes a pair's cumulative prices at the cluster's current time (see
+     * `observePrice`), to calculate its TWAP from two observations with
+     * `computeTwap`
+     */
+    async observePrice(
+        mintX: PublicKey,
+        mintY: PublicKey
+    ): Promise<PriceObservation> {
+        const [state, timestamp] = await Promise.all([
+            this.fetchPoolState(),
+            getClusterTimestamp(this.connection),
+        ])
+        return observePrice(state, mintX, mintY, timestamp)
+    }
+
+    /**
+     * Subscribes to one of the swap program's events, returning a function
+     * that unsubscribes (see `addSwapEventListener`)
+     */
+    addEventListener<E extends SwapEventName>(
+        name: E,
+        callback: SwapEventCallback<E>
+    ): () => Promise<void> {
+        return addSwapEventListener(this.program, name, callback)
+    }
+
+    /**
+     * Fetches an owner's LP shares, and the slice of every asset in the pool
+     * they can be redeemed for
+     */
+    async fetchLiquidityPosition(owner: PublicKey): Promise<LiquidityPosition> {
+        const [state, lpTokenAccount] = await Promise.all([
+            this.fetchPoolState(),
+            getTokenAccount(
+                this.connection,
+                this.getLpTokenAccount(owner)
+            ).catch(() => null),
+        ])
+        const shares = lpTokenAccount ? lpTokenAccount.amount : BigInt(0)
+        return {
+            owner,
+            shares,
+            lpSupply: state.lpSupply,
+            withdrawAmounts:
+                shares > BigInt(0) ? quoteWithdraw(state, shares) : [],
+        }
+    }
+
+    /**
+     * Fetches the Liquidity Pool's assets, with each asset's balance, decimals
+     * and metadata, along with its LP share supply
+     */
+    async fetchPoolState(): Promise<PoolState> {
+        const [pool, lpMint] = await Promise.all([
+            this.program.account.liquidityPool.fetch(this.poolAddress),
+            getMint(this.connection, this.lpMint),
+        ])
+        const priceAccumulators: PriceAccumulator[] =
+            pool.priceAccumulators.map((accumulator) => ({
+                mintA: accumulator.mintA,
+                mintB: accumulator.mintB,
+                balanceA: BigInt(accumulator.balanceA.toString()),
+                balanceB: BigInt(accumulator.balanceB.toString()),
+                priceACumulative: BigInt(
+                    accumulator.priceACumulative.toString()
+                ),
+                priceBCumulative: BigInt(
+                    accumulator.priceBCumulative.toString()
+                ),
+                timestamp: accumulator.lastTimestamp.toNumber(),
+            }))
+        const mints: PublicKey[] = pool.assets
+        if (mints.length === 0) {
+            return {
+                address: this.poolAddress,
+                tokenProgram: TOKEN_PROGRAM_ID,
+                assets: [],
+                lpMint: this.lpMint,
+                lpSupply: lpMint.supply,
+                feeBps: pool.feeBps,
+                authority: pool.authority,
+                paused: pool.paused,
+                priceAccumulators,
+            }
+        }
+
+        const [mintAccounts, metadataAccounts, { epoch }] = await Promise.all([
+            this.connection.getMultipleAccountsInfo(mints),
+            this.connection.getMultipleAccountsInfo(
+                mints.map((mint) => getMetadataAddress(mint))
+            ),
+            this.connection.getEpochInfo(),
+        ])
+        const tokenProgram: PublicKey = pool.tokenProgram
+        const poolTokenAccounts = await getMultipleTokenAccounts(
+            this.connection,
+            mints.map((mint) => this.getPoolTokenAccount(mint, tokenProgram)),
+            undefined,
+            tokenProgram
+        )
+
+        const assets = mints.map((mint, index) => {
+            const mintInfo = unpackMint(mint, mintAccounts[index], tokenProgram)
+            // The newer fee takes effect from its epoch on
+            const transferFeeConfig = getTransferFeeConfig(mintInfo)
+            const transferFee = transferFeeConfig
+                ? BigInt(epoch) >= transferFeeConfig.newerTransferFee.epoch
+                    ? transferFeeConfig.newerTransferFee
+                    : transferFeeConfig.olderTransferFee
+                : null
+            const metadataAccount = metadataAccounts[index]
+            const metadata = metadataAccount
+                ? Metadata.deserialize(metadataAccount.data)[0]
+                : null
+            return {
+                mint,
+                poolTokenAccount: poolTokenAccounts[index].address,
+                balance: poolTokenAccounts[index].amount,
+                decimals: mintInfo.decimals,
+                transferFee: transferFee && {
+                    basisPoints: transferFee.transferFeeBasisPoints,
+                    maximumFee: transferFee.maximumFee,
+                },
+                // Metaplex pads the metadata strings with null characters
+                name: metadata
+                    ? metadata.data.name.replace(/\0/g, '')
+                    : 'Unknown Asset',
+                symbol: metadata
+                    ? metadata.data.symbol.replace(/\0/g, '')
+                    : 'UNKN',
+                uri: metadata ? metadata.data.uri.replace(/\0/g, '') : '',
+            }
+        })
+        return {
+            address: this.poolAddress,
+            tokenProgram,
+            assets,
+            lpMint: this.lpMint,
+            lpSupply: lpMint.supply,
+            feeBps: pool.feeBps,
+            authority: pool.authority,
+            paused: pool.paused,
+            priceAccumulators,
+        }
+    }
+}
@@ -0,0 +1,103 @@
+import * as anchor from '@coral-xyz/anchor'
+import { PublicKey } from '@solana/web3.js'
+import { SwapProgram } from '../idl/swap_program'
+
+/**
+ * Emitted when the Liquidity Pool is created
+ */
+export interface PoolCreatedEvent {
+    pool: PublicKey
+    lpMint: PublicKey
+    authority: PublicKey
+    // The swap fee, in basis points of the amount paid
+    feeBps: number
+}
+
+/**
+ * Emitted when a Liquidity Provider funds the pool with some asset
+ */
+export interface PoolFundedEvent {
+    pool: PublicKey
+    payer: PublicKey
+    mint: PublicKey
+    // The amount the pool received, in the mint's base units
+    amount: bigint
+    // The LP shares minted, in the LP share mint's base units
+    shares: bigint
+    // The pool's balance of the asset after the deposit
+    poolBalance: bigint
+}
+
+/**
+ * Emitted for every swap, with all amounts in their mint's base units
+ */
+export interface SwappedEvent {
+    pool: PublicKey
+    payer: PublicKey
+    payMint: PublicKey
+    // Including the fee
+    payAmount: bigint
+    // The part of `payAmount` the pool kept as its fee
+    feeAmount: bigint
+    receiveMint: PublicKey
+    receiveAmount: bigint
+    // The pool's balances after the swap
+    poolPayBalance: bigint
+    poolReceiveBalance: bigint
+}
+
+/**
+ * The swap program's events, by name (as in the IDL)
+ */
+export interface SwapEvents {
+    PoolCreated: PoolCreatedEvent
+    PoolFunded: PoolFundedEvent
+    Swapped: SwappedEvent
+}
+
+export type SwapEventName = keyof SwapEvents
+
+/**
+ * Called with each event, along with the slot and signature of the
+ * transaction that emitted it
+ */
+export type SwapEventCallback<E extends SwapEventName> = (
+    event: SwapEvents[E],
+    slot: number,
+    signature: string
+) => void
+
+/**
+ * Converts an event decoded by Anchor (e.g. by `program.addEventListener` or
+ * an `EventParser`), whose `u64` fields are `BN`s, to the SDK's event type
+ */
+export function toSwapEvent<E extends SwapEventName>(
+    decoded: Record<string, unknown>
+): SwapEvents[E] {
+    const event: Record<string, unknown> = {}
+    for (const key of Object.keys(decoded)) {
+        const value = decoded[key]
+        event[key] = value instanceof anchor.BN ? BigInt(String(value)) : value
+    }
+    return event as unknown as SwapEvents[E]
+}
+
+/**
+ * Subscribes to one of the swap program's events (using the program's
+ * provider connection), and returns a function that unsubscribes
+ *
+ * Events are only delivered for transactions confirmed after subscribing, so
+ * fetch any earlier state separately
+ */
+export function addSwapEventListener<E extends SwapEventName>(
+    program: anchor.Program<SwapProgram>,
+    name: E,
+    callback: SwapEventCallback<E>
+): () => Promise<void> {
+    const listener = program.addEventListener(
+        name,
+        (decoded, slot, signature) =>
+            callback(toSwapEvent<E>(decoded), slot, signature)
+    )
+    return () => program.removeEventListener(listener)
+}
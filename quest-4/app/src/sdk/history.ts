@@ -0,0 +1,168 @@
+import * as anchor from '@coral-xyz/anchor'
+import {
+    ConfirmedSignatureInfo,
+    PublicKey,
+    VersionedTransactionResponse,
+} from '@solana/web3.js'
+import { SwapProgram } from '../idl/swap_program'
+import { getPoolAddress } from './client'
+import { SwappedEvent, toSwapEvent } from './events'
+
+// The most signatures `getSignaturesForAddress` returns at once
+const SIGNATURES_PAGE_SIZE = 1000
+
+// The transactions fetched with each `getTransactions` request
+const TRANSACTIONS_BATCH_SIZE = 50
+
+/**
+ * One of the pool's balances after a transaction, in the mint's base units
+ */
+export interface PoolBalance {
+    mint: PublicKey
+    balance: bigint
+}
+
+/**
+ * A successful transaction involving the Liquidity Pool
+ */
+export interface PoolHistoryEntry {
+    signature: string
+    slot: number
+    // Unix timestamp, in seconds (when the cluster has one)
+    blockTime: number | null
+    // The pool's balances after the transaction, of the assets it touched
+    balances: PoolBalance[]
+    // The transaction's swaps, in order
+    swaps: SwappedEvent[]
+}
+
+/**
+ * Parses a transaction involving the Liquidity Pool into a history entry,
+ * from the pool's token balances after the transaction and its `Swapped`
+ * events
+ */
+export function parsePoolTransaction(
+    program: anchor.Program<SwapProgram>,
+    transaction: VersionedTransactionResponse
+): PoolHistoryEntry {
+    const poolAddress = getPoolAddress(program.programId).toBase58()
+    const meta = transaction.meta
+    const balances: PoolBalance[] = (meta?.postTokenBalances ?? [])
+        .filter((tokenBalance) => tokenBalance.owner === poolAddress)
+        .map((tokenBalance) => ({
+            mint: new PublicKey(tokenBalance.mint),
+            balance: BigInt(tokenBalance.uiTokenAmount.amount),
+        }))
+
+    const swaps: SwappedEvent[] = []
+    const parser = new anchor.EventParser(program.programId, program.coder)
+    // `parseLogs` returns a generator, which the app's ES5 target can't iterate
+    // with `for...of`
+    const events = parser.parseLogs(meta?.logMessages ?? [])
+    for (let next = events.next(); !next.done; next = events.next()) {
+        const event = next.value
+        if (event && event.name === 'Swapped') {
+            swaps.push(toSwapEvent<'Swapped'>(event.data))
+        }
+    }
+
+    return {
+        signature: transaction.transaction.signatures[0],
+        slot: transaction.slot,
+        blockTime: transaction.blockTime ?? null,
+        balances,
+        swaps,
+    }
+}
+
+/**
+ * Fetches the Liquidity Pool's successful transactions, oldest first, using
+ * `getSignaturesForAddress` on the pool's address
+ *
+ * Pass the newest signature already fetched as `until` to only fetch the
+ * transactions after it
+ */
+export async function fetchPoolHistory(
+    program: anchor.Program<SwapProgram>,
+    until?: string
+): Promise<PoolHistoryEntry[]> {
+    const connection = program.provider.connection
+    const poolAddress = getPoolAddress(program.programId)
+
+    // Signatures are returned newest first, a page at a time
+    const signatures: ConfirmedSignatureInfo[] = []
+    let before: string | undefined = undefined
+    for (;;) {
+        const page: ConfirmedSignatureInfo[] =
+            await connection.getSignaturesForAddress(
+                poolAddress,
+                { before, until, limit: SIGNATURES_PAGE_SIZE },
+                'confirmed'
+            )
+        signatures.push(...page)
+        if (page.length < SIGNATURES_PAGE_SIZE) {
+            break
+        }
+        before = page[page.length - 1].signature
+    }
+    const succeeded = signatures
+        .filter((info) => !info.err)
+        .map((info) => info.signature)
+        .reverse()
+
+    const history: PoolHistoryEntry[] = []
+    for (let i = 0; i < succeeded.length; i += TRANSACTIONS_BATCH_SIZE) {
+        const transactions = await connection.getTransactions(
+            succeeded.slice(i, i + TRANSACTIONS_BATCH_SIZE),
+            { commitment: 'confirmed', maxSupportedTransactionVersion: 0 }
+        )
+        for (const transaction of transactions) {
+            if (transaction) {
+                history.push(parsePoolTransaction(program, transaction))
+            }
+        }
+    }
+    return history
+}
+
+/**
+ * Every asset's balance after each entry of the pool's history, in the order
+ * of `mints`, carrying forward the balances an entry didn't touch (which are
+ * 0 before an asset's first deposit)
+ */
+export function getBalanceHistory(
+    history: PoolHistoryEntry[],
+    mints: PublicKey[]
+): bigint[][] {
+    let current = mints.map(() => BigInt(0))
+    return history.map((entry) => {
+        current = mints.map((mint, index) => {
+            const touched = entry.balances.find((b) => b.mint.equals(mint))
+            return touched ? touched.balance : current[index]
+        })
+        return current
+    })
+}
+
+/**
+ * Every asset's total swap volume (the amounts paid into and out of the pool),
+ * in the order of `mints`
+ */
+export function getSwapVolumes(
+    history: PoolHistoryEntry[],
+    mints: PublicKey[]
+): bigint[] {
+    const volumes = mints.map(() => BigInt(0))
+    for (const entry of history) {
+        for (const swap of entry.swaps) {
+            mints.forEach((mint, index) => {
+                if (mint.equals(swap.payMint)) {
+                    volumes[index] += swap.payAmount
+                } else if (mint.equals(swap.receiveMint)) {
+                    volumes[index] += swap.receiveAmount
+                }
+            })
+        }
+    }
+    return volumes
+}
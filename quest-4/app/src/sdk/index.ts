@@ -0,0 +1,7 @@
+export * from './client'
+export * from './events'
+export * from './history'
+export * from './liquidity'
+export * from './quote'
+export * from './router'
+export * from './twap'
@@ -0,0 +1,171 @@
+import { PublicKey } from '@solana/web3.js'
+import { PoolState } from './client'
+import { SwapQuoteError, determineSwapFee } from './quote'
+
+// The app targets ES5, so `bigint` literals and `**` can't be used here
+const ZERO = BigInt(0)
+const ONE = BigInt(1)
+
+// Shares are found with `Q64.64` fixed-point math, as the swap program does
+const Q64_SHIFT = BigInt(64)
+const U64_MAX = (ONE << Q64_SHIFT) - ONE
+
+// The LP share mint's decimal places
+export const LP_MINT_DECIMALS = 9
+
+// The LP shares minted for the first deposit into a pool with no shares
+// (1,000 shares)
+export const INITIAL_LP_SHARES = BigInt('1000000000000')
+
+/**
+ * One asset's slice of a withdrawal, in the mint's base units
+ */
+export interface WithdrawAmount {
+    mint: PublicKey
+    amount: bigint
+}
+
+/**
+ * The LP shares to mint for a deposit, reproducing the swap program's
+ * `determine_lp_shares`: `s = S * ((B + d) / B)^(1/n) - S`, rounded down
+ *
+ * The shares are minted from the growth of the pool's invariant, after the
+ * swap fee is taken out of all but the deposit's own `d / n` slice. A new
+ * asset (or one with no balance) only seeds its price and mints no shares,
+ * and the first deposit into a pool with no shares mints `INITIAL_LP_SHARES`
+ */
+export function determineLpShares(
+    lpSupply: bigint,
+    poolBalance: bigint,
+    otherAssetCount: number,
+    deposit: bigint,
+    feeBps: number
+): bigint {
+    if (deposit === ZERO) {
+        return ZERO
+    }
+    if (lpSupply === ZERO) {
+        return INITIAL_LP_SHARES
+    }
+    if (poolBalance === ZERO) {
+        return ZERO
+    }
+    const n = BigInt(otherAssetCount + 1)
+    const d = deposit - determineSwapFee(deposit - deposit / n, feeBps)
+    // The growth of the asset's balance, `(B + d) / B`, rounded down
+    const growth = ((poolBalance + d) << Q64_SHIFT) / poolBalance
+    // `(1 + x)^(1/n) <= 1 + x/n`, so this bounds the binary search
+    let low = ZERO
+    let high = (lpSupply * d) / (n * poolBalance)
+    if (high > U64_MAX - lpSupply) {
+        high = U64_MAX - lpSupply
+    }
+    while (low < high) {
+        const mid = low + (high - low + ONE) / BigInt(2)
+        if (supplyGrowthWithin(lpSupply, mid, otherAssetCount + 1, growth)) {
+            low = mid
+        } else {
+            high = mid - ONE
+        }
+    }
+    return low
+}
+
+/**
+ * Whether minting `shares` grows the LP supply by no more than the `n`-th
+ * root of `growth` (a `Q64.64` fixed-point number), with the power rounded up
+ * at each step as the swap program's `supply_growth_within` does
+ */
+function supplyGrowthWithin(
+    lpSupply: bigint,
+    shares: bigint,
+    n: number,
+    growth: bigint
+): boolean {
+    const ratio =
+        (((lpSupply + shares) << Q64_SHIFT) + lpSupply - ONE) / lpSupply
+    let power = ONE << Q64_SHIFT
+    for (let i = 0; i < n; i++) {
+        const product = power * ratio
+        power =
+            (product >> Q64_SHIFT) +
+            (product % (ONE << Q64_SHIFT) === ZERO ? ZERO : ONE)
+        if (power > growth) {
+            return false
+        }
+    }
+    return true
+}
+
+/**
+ * The amount of an asset redeemed for LP shares, reproducing the swap
+ * program's `determine_withdraw_amount`: `w = (B * s) / S`, rounded down
+ */
+export function determineWithdrawAmount(
+    poolBalance: bigint,
+    shares: bigint,
+    lpSupply: bigint
+): bigint {
+    return (poolBalance * shares) / lpSupply
+}
+
+/**
+ * Quotes the LP shares a deposit into the pool would mint, throwing a
+ * `SwapQuoteError` if the swap program would reject it (listing a new asset
+ * in a pool with LP shares mints none)
+ *
+ * Note: for Token-2022 mints with a transfer fee, the shares are minted for
+ * the amount the pool receives, which is less than `amount`
+ */
+export function quoteDeposit(
+    state: PoolState,
+    mint: PublicKey,
+    amount: bigint
+): bigint {
+    const asset = state.assets.find((a) => a.mint.equals(mint))
+    const poolBalance = asset ? asset.balance : ZERO
+    // Listing a new asset only seeds its price
+    if (poolBalance === ZERO && state.lpSupply > ZERO) {
+        return ZERO
+    }
+    const otherAssetCount = state.assets.filter(
+        (a) => !a.mint.equals(mint)
+    ).length
+    const shares = determineLpShares(
+        state.lpSupply,
+        poolBalance,
+        otherAssetCount,
+        amount,
+        state.feeBps
+    )
+    if (shares === ZERO) {
+        throw new SwapQuoteError(
+            'InvalidFundZeroShares',
+            'The amount proposed to fund is not great enough for at least 1 LP share'
+        )
+    }
+    return shares
+}
+
+/**
+ * Quotes the slice of every asset in the pool that redeeming LP shares would
+ * withdraw, throwing a `SwapQuoteError` if the swap program would reject it
+ */
+export function quoteWithdraw(
+    state: PoolState,
+    shares: bigint
+): WithdrawAmount[] {
+    if (shares <= ZERO) {
+        throw new SwapQuoteError(
+            'InvalidWithdrawZeroShares',
+            'A user cannot propose to withdraw 0 LP shares'
+        )
+    }
+    if (shares > state.lpSupply) {
+        throw new Error('Cannot withdraw more LP shares than have been issued')
+    }
+    return state.assets.map((asset) => ({
+        mint: asset.mint,
+        amount: determineWithdrawAmount(asset.balance, shares, state.lpSupply),
+    }))
+}
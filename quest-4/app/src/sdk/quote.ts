@@ -0,0 +1,347 @@
+import { PublicKey } from '@solana/web3.js'
+import { PoolState } from './client'
+
+// The app targets ES5, so `bigint` literals and `**` can't be used here
+const ZERO = BigInt(0)
+
+const pow10 = (exponent: number) => BigInt('1' + '0'.repeat(exponent))
+
+// The precision prices are calculated with before converting to a `number`
+const PRICE_PRECISION = 12
+
+// Swap fees and slippage tolerances are expressed in basis points
+// (1 bps = 0.01%)
+const BPS_DENOMINATOR = BigInt(10000)
+
+// Every integer below `2^53` converts to a `number` exactly
+const MAX_EXACT_NUMBER = BigInt(Number.MAX_SAFE_INTEGER)
+
+// `f32` has 24 significant bits
+const F32_SIGNIFICAND_BITS = 24
+
+const U64_MAX = (BigInt(1) << BigInt(64)) - BigInt(1)
+
+/**
+ * The swap program errors a quote can fail with (named as in the IDL)
+ */
+export type SwapQuoteErrorCode =
+    | 'InvalidAssetKey'
+    | 'InvalidSwapNotEnoughPay'
+    | 'InvalidSwapNotEnoughLiquidity'
+    | 'InvalidSwapMatchingAssets'
+    | 'InvalidSwapZeroAmount'
+    | 'InvalidFundZeroShares'
+    | 'InvalidWithdrawZeroShares'
+
+/**
+ * Thrown when the swap program would reject the quoted swap (or deposit or
+ * withdrawal)
+ */
+export class SwapQuoteError extends Error {
+    constructor(readonly code: SwapQuoteErrorCode, message: string) {
+        super(message)
+        this.name = 'SwapQuoteError'
+        // Keeps `instanceof` working when compiled to ES5
+        Object.setPrototypeOf(this, SwapQuoteError.prototype)
+    }
+}
+
+/**
+ * A Token-2022 mint's transfer fee in effect for the current epoch, which is
+ * withheld from the amount every transfer of the mint delivers
+ */
+export interface TransferFee {
+    basisPoints: number
+    // In the mint's base units
+    maximumFee: bigint
+}
+
+/**
+ * The pool's balances and the amount offered to pay, all in base units, and
+ * the pool's swap fee (along with the pay mint's transfer fee, if it has one)
+ */
+export interface SwapQuoteParams {
+    poolReceiveBalance: bigint
+    receiveDecimals: number
+    poolPayBalance: bigint
+    payDecimals: number
+    payAmount: bigint
+    feeBps: number
+    payTransferFee?: TransferFee | null
+}
+
+/**
+ * The outcome of a swap, exactly as the swap program would process it
+ */
+export interface SwapQuote {
+    // In the pay mint's base units
+    payAmount: bigint
+    // The part of `payAmount` the pay mint withholds as its transfer fee, so
+    // the pool never receives it
+    transferFeeAmount: bigint
+    // The part of the amount the pool receives that it keeps as its fee
+    feeAmount: bigint
+    // In the receive mint's base units
+    receiveAmount: bigint
+    // The nominal price of one receive asset in the pay asset, before the swap
+    spotPrice: number
+    // The nominal price of one receive asset in the pay asset, for this swap
+    // (including the fee)
+    effectivePrice: number
+    // How much worse the effective price is than the spot price, leaving out
+    // the fee (from 0 to 1)
+    priceImpact: number
+}
+
+/**
+ * Converts the ratio of two `bigint` values to a `number`, keeping
+ * `PRICE_PRECISION` decimal places
+ */
+function ratioToNumber(numerator: bigint, denominator: bigint): number {
+    const scale = pow10(PRICE_PRECISION)
+    return Number((numerator * scale) / denominator) / Number(scale)
+}
+
+/**
+ * The swap fee taken out of the amount paid, reproducing the swap program's
+ * `determine_swap_fee`: `fee = (p * feeBps) / 10,000`, rounded up
+ */
+export function determineSwapFee(payAmount: bigint, feeBps: number): bigint {
+    const numerator = payAmount * BigInt(feeBps)
+    return (numerator + BPS_DENOMINATOR - BigInt(1)) / BPS_DENOMINATOR
+}
+
+/**
+ * The transfer fee a Token-2022 mint withholds from a transfer of `amount`,
+ * reproducing the Token-2022 program's `calculate_fee`: `(amount * bps) /
+ * 10,000`, rounded up and capped at the maximum fee
+ */
+export function determineTransferFee(
+    amount: bigint,
+    transferFee?: TransferFee | null
+): bigint {
+    if (!transferFee || transferFee.basisPoints === 0 || amount === ZERO) {
+        return ZERO
+    }
+    const numerator = amount * BigInt(transferFee.basisPoints)
+    const fee = (numerator + BPS_DENOMINATOR - BigInt(1)) / BPS_DENOMINATOR
+    return fee < transferFee.maximumFee ? fee : transferFee.maximumFee
+}
+
+/**
+ * Converts a `u64` to the nearest `f32` (ties to even), like Rust's `as f32`
+ *
+ * Above `2^53` a `number` would round the value once and `Math.fround` again,
+ * so the value is rounded to 24 significant bits as a `bigint` first
+ */
+function u64ToF32(value: bigint): number {
+    if (value <= MAX_EXACT_NUMBER) {
+        return Math.fround(Number(value))
+    }
+    const shift = BigInt(value.toString(2).length - F32_SIGNIFICAND_BITS)
+    const half = BigInt(1) << (shift - BigInt(1))
+    let significand = value >> shift
+    const remainder = value - (significand << shift)
+    if (
+        remainder > half ||
+        (remainder === half && significand % BigInt(2) === BigInt(1))
+    ) {
+        significand += BigInt(1)
+    }
+    return Math.fround(Number(significand) * Math.pow(2, Number(shift)))
+}
+
+/**
+ * Converts an `f32` to a `u64` like Rust's `as u64`: rounded toward zero, and
+ * saturating (`NaN` and negative values are 0)
+ */
+function f32ToU64(value: number): bigint {
+    if (!(value > 0)) {
+        return ZERO
+    }
+    if (value >= Math.pow(2, 64)) {
+        return U64_MAX
+    }
+    return BigInt(Math.floor(value))
+}
+
+/**
+ * `10^decimals` as an `f32`, like `f32::powf(10.0, decimals as f32)`
+ */
+function pow10F32(decimals: number): number {
+    return Math.fround(Math.pow(10, decimals))
+}
+
+/**
+ * Converts a balance to its nominal quantity as an `f32`, reproducing the
+ * swap program's `convert_to_float`
+ */
+function convertToFloat(value: bigint, decimals: number): number {
+    return Math.fround(u64ToF32(value) / pow10F32(decimals))
+}
+
+/**
+ * Converts a nominal `f32` quantity back to base units, reproducing the swap
+ * program's `convert_from_float`
+ */
+function convertFromFloat(value: number, decimals: number): bigint {
+    return f32ToU64(Math.fround(value * pow10F32(decimals)))
+}
+
+/**
+ * The constant-product algorithm `r = f(p) = (R * p) / (P + p)`, reproducing
+ * the swap program's `determine_swap_receive` bit for bit
+ *
+ * The program normalizes each value to its nominal quantity as an `f32`, using
+ * its mint's decimals. A `number` holds any `f32` exactly, and rounding the
+ * `number` result of an operation on two of them with `Math.fround` gives the
+ * same result as the `f32` operation, so each step is rounded like that
+ */
+export function determineSwapReceive(
+    poolReceiveBalance: bigint,
+    receiveDecimals: number,
+    poolPayBalance: bigint,
+    payDecimals: number,
+    payAmount: bigint
+): bigint {
+    const bigR = convertToFloat(poolReceiveBalance, receiveDecimals)
+    const bigP = convertToFloat(poolPayBalance, payDecimals)
+    const p = convertToFloat(payAmount, payDecimals)
+    const r = Math.fround(Math.fround(bigR * p) / Math.fround(bigP + p))
+    if (r > bigR) {
+        throw new SwapQuoteError(
+            'InvalidSwapNotEnoughLiquidity',
+            'The amount proposed to pay resolves to a receive amount that is greater than the current liquidity'
+        )
+    }
+    return convertFromFloat(r, receiveDecimals)
+}
+
+/**
+ * Quotes a swap from the pool's balances, throwing a `SwapQuoteError` if the
+ * swap program would reject it
+ *
+ * The receive amount is exact, since it reproduces the program's `f32` math
+ * (see `determineSwapReceive`)
+ *
+ * The pool keeps the whole amount it receives - the amount paid, less the pay
+ * mint's transfer fee - but only swaps what's left after its fee
+ */
+export function quoteSwap(params: SwapQuoteParams): SwapQuote {
+    const {
+        poolReceiveBalance,
+        receiveDecimals,
+        poolPayBalance,
+        payDecimals,
+        payAmount,
+        feeBps,
+        payTransferFee,
+    } = params
+    if (payAmount <= ZERO) {
+        throw new SwapQuoteError(
+            'InvalidSwapZeroAmount',
+            'A user cannot propose to pay 0 of an asset'
+        )
+    }
+    const transferFeeAmount = determineTransferFee(payAmount, payTransferFee)
+    const received = payAmount - transferFeeAmount
+    const feeAmount = determineSwapFee(received, feeBps)
+    const swapAmount = received - feeAmount
+    const receiveAmount = determineSwapReceive(
+        poolReceiveBalance,
+        receiveDecimals,
+        poolPayBalance,
+        payDecimals,
+        swapAmount
+    )
+    if (receiveAmount === ZERO) {
+        throw new SwapQuoteError(
+            'InvalidSwapNotEnoughPay',
+            'The amount proposed to pay is not great enough for at least 1 returned asset quantity'
+        )
+    }
+
+    // Prices are in nominal quantities: (pay / 10^dP) / (receive / 10^dR)
+    const receiveScale = pow10(receiveDecimals)
+    const payScale = pow10(payDecimals)
+    const spotPrice = ratioToNumber(
+        poolPayBalance * receiveScale,
+        poolReceiveBalance * payScale
+    )
+    const effectivePrice = ratioToNumber(
+        payAmount * receiveScale,
+        receiveAmount * payScale
+    )
+    // 1 - (spot / effective without the fee), where the decimals cancel out
+    // (and never below 0, though the `f32` math can round `r` up)
+    const priceImpact = Math.max(
+        0,
+        ratioToNumber(
+            poolReceiveBalance * swapAmount - poolPayBalance * receiveAmount,
+            poolReceiveBalance * swapAmount
+        )
+    )
+    return {
+        payAmount,
+        transferFeeAmount,
+        feeAmount,
+        receiveAmount,
+        spotPrice,
+        effectivePrice,
+        priceImpact,
+    }
+}
+
+/**
+ * Quotes a swap between two of the pool's assets, using a fetched
+ * `PoolState` (see `SwapClient.fetchPoolState`)
+ */
+export function quoteSwapFromPool(
+    state: PoolState,
+    payMint: PublicKey,
+    receiveMint: PublicKey,
+    payAmount: bigint
+): SwapQuote {
+    if (payMint.equals(receiveMint)) {
+        throw new SwapQuoteError(
+            'InvalidSwapMatchingAssets',
+            'The asset proposed to pay is the same asset as the requested asset to receive'
+        )
+    }
+    const pay = state.assets.find((a) => a.mint.equals(payMint))
+    const receive = state.assets.find((a) => a.mint.equals(receiveMint))
+    if (!pay || !receive) {
+        throw new SwapQuoteError(
+            'InvalidAssetKey',
+            'An invalid asset mint address was provided'
+        )
+    }
+    return quoteSwap({
+        poolReceiveBalance: receive.balance,
+        receiveDecimals: receive.decimals,
+        poolPayBalance: pay.balance,
+        payDecimals: pay.decimals,
+        payAmount,
+        feeBps: state.feeBps,
+        payTransferFee: pay.transferFee,
+    })
+}
+
+/**
+ * The least a quoted swap should receive (the swap instruction's
+ * `minReceive`) for a slippage tolerance in basis points, rounded up so the
+ * tolerance is never exceeded
+ */
+export function minReceiveWithSlippage(
+    receiveAmount: bigint,
+    slippageBps: number
+): bigint {
+    if (!Number.isInteger(slippageBps) || slippageBps < 0) {
+        throw new Error(`Invalid slippage tolerance: ${slippageBps} bps`)
+    }
+    if (slippageBps >= 10000) {
+        return ZERO
+    }
+    const numerator = receiveAmount * (BPS_DENOMINATOR - BigInt(slippageBps))
+    return (numerator + BPS_DENOMINATOR - BigInt(1)) / BPS_DENOMINATOR
+}
@@ -0,0 +1,218 @@
+import { PublicKey } from '@solana/web3.js'
+import { PoolState } from './client'
+import {
+    SwapQuote,
+    SwapQuoteError,
+    TransferFee,
+    determineTransferFee,
+    minReceiveWithSlippage,
+    quoteSwap,
+} from './quote'
+
+// Direct swaps, plus routes through one intermediate asset
+const DEFAULT_MAX_HOPS = 2
+
+/**
+ * One swap instruction of a route, quoted against the pool's balances after
+ * the route's previous hops
+ */
+export interface SwapRouteHop extends SwapQuote {
+    payMint: PublicKey
+    receiveMint: PublicKey
+    // Withheld from what the payer receives, before the next hop pays it
+    receiveTransferFee: TransferFee | null
+}
+
+/**
+ * A route from the pay asset to the receive asset, either direct (one hop)
+ * or through intermediate assets
+ */
+export interface SwapRoute {
+    hops: SwapRouteHop[]
+    // In the first hop's pay mint's base units
+    payAmount: bigint
+    // In the last hop's receive mint's base units, less its transfer fee (the
+    // amount the payer ends up with)
+    receiveAmount: bigint
+}
+
+/**
+ * The amount each hop of a route pays and the least it may receive (its swap
+ * instruction's `minReceive`), for a slippage tolerance
+ */
+export interface SwapRouteLimits {
+    hops: { payAmount: bigint; minReceive: bigint }[]
+    // In the last hop's receive mint's base units, less its transfer fee (the
+    // least the payer ends up with)
+    minReceive: bigint
+}
+
+/**
+ * Quotes a route through the pool's assets (`path` lists every mint, from
+ * the pay asset to the receive asset), throwing a `SwapQuoteError` if the
+ * swap program would reject any of its hops
+ *
+ * All hops are processed by the same pool, so each hop is quoted against the
+ * balances left by the hops before it, and pays the pool's fee
+ */
+export function quoteSwapRoute(
+    pool: Pick<PoolState, 'assets' | 'feeBps'>,
+    path: PublicKey[],
+    payAmount: bigint
+): SwapRoute {
+    const { assets, feeBps } = pool
+    const balances = new Map<string, bigint>(
+        assets.map((asset) => [asset.mint.toBase58(), asset.balance])
+    )
+    const hops: SwapRouteHop[] = []
+    let amount = payAmount
+    for (let i = 0; i < path.length - 1; i++) {
+        const payMint = path[i]
+        const receiveMint = path[i + 1]
+        if (payMint.equals(receiveMint)) {
+            throw new SwapQuoteError(
+                'InvalidSwapMatchingAssets',
+                'The asset proposed to pay is the same asset as the requested asset to receive'
+            )
+        }
+        const pay = assets.find((a) => a.mint.equals(payMint))
+        const receive = assets.find((a) => a.mint.equals(receiveMint))
+        if (!pay || !receive) {
+            throw new SwapQuoteError(
+                'InvalidAssetKey',
+                'An invalid asset mint address was provided'
+            )
+        }
+        const payKey = payMint.toBase58()
+        const receiveKey = receiveMint.toBase58()
+        const quote = quoteSwap({
+            poolReceiveBalance: balances.get(receiveKey)!,
+            receiveDecimals: receive.decimals,
+            poolPayBalance: balances.get(payKey)!,
+            payDecimals: pay.decimals,
+            payAmount: amount,
+            feeBps,
+            payTransferFee: pay.transferFee,
+        })
+        balances.set(
+            payKey,
+            balances.get(payKey)! + quote.payAmount - quote.transferFeeAmount
+        )
+        balances.set(
+            receiveKey,
+            balances.get(receiveKey)! - quote.receiveAmount
+        )
+        hops.push({
+            ...quote,
+            payMint,
+            receiveMint,
+            receiveTransferFee: receive.transferFee,
+        })
+        // The receive mint's transfer fee is withheld from what the payer
+        // gets, and pays on in the next hop
+        amount =
+            quote.receiveAmount -
+            determineTransferFee(quote.receiveAmount, receive.transferFee)
+    }
+    if (hops.length === 0) {
+        throw new Error('A route needs at least a pay and a receive mint')
+    }
+    return { hops, payAmount, receiveAmount: amount }
+}
+
+/**
+ * Applies a slippage tolerance in basis points to every hop of a route (see
+ * `minReceiveWithSlippage`)
+ *
+ * Each hop after the first pays the least the hop before it may receive, less
+ * the receive mint's transfer fee, so it never pays more than the payer got.
+ * Its quote is scaled down to that amount first - a constant-product swap
+ * receives at least its share of the quote for a smaller payment - so the
+ * tolerance compounds over the hops
+ */
+export function applyRouteSlippage(
+    route: SwapRoute,
+    slippageBps: number
+): SwapRouteLimits {
+    const hops: SwapRouteLimits['hops'] = []
+    let payAmount = route.payAmount
+    route.hops.forEach((hop) => {
+        const minReceive = minReceiveWithSlippage(
+            (hop.receiveAmount * payAmount) / hop.payAmount,
+            slippageBps
+        )
+        hops.push({ payAmount, minReceive })
+        payAmount =
+            minReceive -
+            determineTransferFee(minReceive, hop.receiveTransferFee)
+    })
+    return { hops, minReceive: payAmount }
+}
+
+/**
+ * Finds every route from the pay asset to the receive asset with up to
+ * `maxHops` hops (never visiting an asset twice), best output first
+ *
+ * Routes the swap program would reject are left out, and on equal outputs the
+ * route with fewer hops comes first
+ */
+export function findSwapRoutes(
+    pool: Pick<PoolState, 'assets' | 'feeBps'>,
+    payMint: PublicKey,
+    receiveMint: PublicKey,
+    payAmount: bigint,
+    maxHops: number = DEFAULT_MAX_HOPS
+): SwapRoute[] {
+    const routes: SwapRoute[] = []
+    if (payMint.equals(receiveMint)) {
+        return routes
+    }
+    const visit = (path: PublicKey[]) => {
+        const last = path[path.length - 1]
+        if (last.equals(receiveMint)) {
+            try {
+                routes.push(quoteSwapRoute(pool, path, payAmount))
+            } catch (error) {
+                if (!(error instanceof SwapQuoteError)) throw error
+            }
+            return
+        }
+        if (path.length > maxHops) {
+            return
+        }
+        for (const asset of pool.assets) {
+            if (!path.some((mint) => mint.equals(asset.mint))) {
+                visit([...path, asset.mint])
+            }
+        }
+    }
+    visit([payMint])
+    return routes.sort((a, b) =>
+        a.receiveAmount === b.receiveAmount
+            ? a.hops.length - b.hops.length
+            : a.receiveAmount > b.receiveAmount
+            ? -1
+            : 1
+    )
+}
+
+/**
+ * Finds the route with the best output, throwing the direct swap's
+ * `SwapQuoteError` if there is no route the swap program would accept
+ */
+export function findBestSwapRoute(
+    pool: Pick<PoolState, 'assets' | 'feeBps'>,
+    payMint: PublicKey,
+    receiveMint: PublicKey,
+    payAmount: bigint,
+    maxHops: number = DEFAULT_MAX_HOPS
+): SwapRoute {
+    const [best] = findSwapRoutes(
+        pool,
+        payMint,
+        receiveMint,
+        payAmount,
+        maxHops
+    )
+    return best ?? quoteSwapRoute(pool, [payMint, receiveMint], payAmount)
+}
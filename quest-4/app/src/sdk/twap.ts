@@ -0,0 +1,183 @@
+import { PublicKey } from '@solana/web3.js'
+import { PoolState } from './client'
+
+// The app targets ES5, so `bigint` literals and `**` can't be used here
+const ZERO = BigInt(0)
+
+// Prices are `Q64.64` fixed-point numbers (the price times 2^64)
+const Q64_SHIFT = BigInt(64)
+
+// The cumulative prices wrap around at 2^128, like the swap program's `u128`s
+const U128_MODULUS = BigInt(1) << BigInt(128)
+
+/**
+ * A pair's cumulative prices at a point in time, either as stored by the swap
+ * program's price accumulator (at its last update) or extrapolated to a later
+ * time (see `observePrice`)
+ */
+export interface PriceObservation {
+    // The pair's lower mint address
+    mintA: PublicKey
+    // The pair's higher mint address
+    mintB: PublicKey
+    // The cumulative price of one base unit of `mintA` in `mintB`, as a
+    // `Q64.64` fixed-point number times seconds (wrapping at 2^128)
+    priceACumulative: bigint
+    // The cumulative price of one base unit of `mintB` in `mintA`
+    priceBCumulative: bigint
+    // Unix timestamp, in seconds
+    timestamp: number
+}
+
+/**
+ * A pair's price accumulator, as stored by the swap program: its cumulative
+ * prices as of its last update, along with the pool's balances then
+ */
+export interface PriceAccumulator extends PriceObservation {
+    // The pool's balance of `mintA`, which every change updates the
+    // accumulator with, so the pair's price has held since
+    balanceA: bigint
+    // The pool's balance of `mintB`
+    balanceB: bigint
+}
+
+/**
+ * A pair's time-weighted average prices between two observations
+ */
+export interface Twap {
+    mintA: PublicKey
+    mintB: PublicKey
+    // The average price of one base unit of `mintA` in `mintB`, as a `Q64.64`
+    // fixed-point number
+    priceA: bigint
+    // The average price of one base unit of `mintB` in `mintA`
+    priceB: bigint
+    // In seconds
+    window: number
+}
+
+/**
+ * Orders a pair of mints the way the swap program stores its price
+ * accumulator (lower address first)
+ */
+export function getPairMints(
+    mintX: PublicKey,
+    mintY: PublicKey
+): [PublicKey, PublicKey] {
+    return Buffer.compare(mintX.toBuffer(), mintY.toBuffer()) < 0
+        ? [mintX, mintY]
+        : [mintY, mintX]
+}
+
+/**
+ * The price of one base unit of the denominator's asset in the numerator's,
+ * reproducing the swap program's `determine_price_q64`
+ */
+export function determinePriceQ64(
+    numerator: bigint,
+    denominator: bigint
+): bigint {
+    return (numerator << Q64_SHIFT) / denominator
+}
+
+/**
+ * Observes a pair's cumulative prices at `timestamp`, using a fetched
+ * `PoolState` (see `SwapClient.fetchPoolState`)
+ *
+ * Every change to either asset's balance updates the pair's accumulator, so
+ * the price from the balances it recorded has held since its last update, and
+ * is added for the seconds since, just as its next update will
+ */
+export function observePrice(
+    state: PoolState,
+    mintX: PublicKey,
+    mintY: PublicKey,
+    timestamp: number
+): PriceObservation {
+    const [mintA, mintB] = getPairMints(mintX, mintY)
+    const accumulator = state.priceAccumulators.find(
+        (a) => a.mintA.equals(mintA) && a.mintB.equals(mintB)
+    )
+    if (!accumulator) {
+        throw new Error(
+            `No price accumulator for ${mintA.toBase58()} / ${mintB.toBase58()}: the pair has never been swapped`
+        )
+    }
+    const { balanceA, balanceB } = accumulator
+    if (
+        timestamp <= accumulator.timestamp ||
+        balanceA === ZERO ||
+        balanceB === ZERO
+    ) {
+        return {
+            mintA,
+            mintB,
+            priceACumulative: accumulator.priceACumulative,
+            priceBCumulative: accumulator.priceBCumulative,
+            timestamp: accumulator.timestamp,
+        }
+    }
+    const elapsed = BigInt(timestamp - accumulator.timestamp)
+    return {
+        mintA,
+        mintB,
+        priceACumulative:
+            (accumulator.priceACumulative +
+                determinePriceQ64(balanceB, balanceA) * elapsed) %
+            U128_MODULUS,
+        priceBCumulative:
+            (accumulator.priceBCumulative +
+                determinePriceQ64(balanceA, balanceB) * elapsed) %
+            U128_MODULUS,
+        timestamp,
+    }
+}
+
+/**
+ * Calculates a pair's time-weighted average prices between two of its
+ * observations (`start` being the earlier one)
+ */
+export function computeTwap(
+    start: PriceObservation,
+    end: PriceObservation
+): Twap {
+    if (!start.mintA.equals(end.mintA) || !start.mintB.equals(end.mintB)) {
+        throw new Error('The observations are of different pairs')
+    }
+    const window = end.timestamp - start.timestamp
+    if (window <= 0) {
+        throw new Error('The end observation must be later than the start')
+    }
+    // The cumulative prices may have wrapped around between the observations
+    const difference = (endValue: bigint, startValue: bigint) =>
+        (endValue - startValue + U128_MODULUS) % U128_MODULUS
+    return {
+        mintA: start.mintA,
+        mintB: start.mintB,
+        priceA:
+            difference(end.priceACumulative, start.priceACumulative) /
+            BigInt(window),
+        priceB:
+            difference(end.priceBCumulative, start.priceBCumulative) /
+            BigInt(window),
+        window,
+    }
+}
+
+/**
+ * Converts an amount of one of the pair's assets into the other at the TWAP,
+ * both in their mint's base units (rounded down)
+ */
+export function convertAtTwap(
+    twap: Twap,
+    mint: PublicKey,
+    amount: bigint
+): bigint {
+    if (mint.equals(twap.mintA)) {
+        return (amount * twap.priceA) >> Q64_SHIFT
+    }
+    if (mint.equals(twap.mintB)) {
+        return (amount * twap.priceB) >> Q64_SHIFT
+    }
+    throw new Error(`Not one of the pair's mints: ${mint.toBase58()}`)
+}
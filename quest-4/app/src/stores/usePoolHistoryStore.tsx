@@ -0,0 +1,140 @@
+import { Program } from '@coral-xyz/anchor'
+import { PublicKey } from '@solana/web3.js'
+import { create } from 'zustand'
+import { SwapProgram } from '@/idl/swap_program'
+import { PoolHistoryEntry, fetchPoolHistory, getPoolAddress } from '@/sdk'
+
+// Bump when the cached format changes, to ignore older caches
+const CACHE_VERSION = 1
+
+// The parsed history, as stored in `localStorage` (`PublicKey`s as base58
+// strings and `bigint`s as decimal strings)
+type CachedEntry = {
+    signature: string
+    slot: number
+    blockTime: number | null
+    balances: { mint: string; balance: string }[]
+    swaps: {
+        payer: string
+        payMint: string
+        payAmount: string
+        feeAmount: string
+        receiveMint: string
+        receiveAmount: string
+        poolPayBalance: string
+        poolReceiveBalance: string
+    }[]
+}
+
+interface PoolHistoryStore {
+    history: PoolHistoryEntry[]
+    loading: boolean
+    error: string | null
+    refreshHistory: (program: Program<SwapProgram>) => Promise<void>
+}
+
+const getCacheKey = (program: Program<SwapProgram>) =>
+    `pool-history:${CACHE_VERSION}:${
+        program.provider.connection.rpcEndpoint
+    }:${getPoolAddress(program.programId).toBase58()}`
+
+function serialize(entry: PoolHistoryEntry): CachedEntry {
+    return {
+        signature: entry.signature,
+        slot: entry.slot,
+        blockTime: entry.blockTime,
+        balances: entry.balances.map((b) => ({
+            mint: b.mint.toBase58(),
+            balance: b.balance.toString(),
+        })),
+        swaps: entry.swaps.map((s) => ({
+            payer: s.payer.toBase58(),
+            payMint: s.payMint.toBase58(),
+            payAmount: s.payAmount.toString(),
+            feeAmount: s.feeAmount.toString(),
+            receiveMint: s.receiveMint.toBase58(),
+            receiveAmount: s.receiveAmount.toString(),
+            poolPayBalance: s.poolPayBalance.toString(),
+            poolReceiveBalance: s.poolReceiveBalance.toString(),
+        })),
+    }
+}
+
+function deserialize(entry: CachedEntry, pool: PublicKey): PoolHistoryEntry {
+    return {
+        signature: entry.signature,
+        slot: entry.slot,
+        blockTime: entry.blockTime,
+        balances: entry.balances.map((b) => ({
+            mint: new PublicKey(b.mint),
+            balance: BigInt(b.balance),
+        })),
+        swaps: entry.swaps.map((s) => ({
+            pool,
+            payer: new PublicKey(s.payer),
+            payMint: new PublicKey(s.payMint),
+            payAmount: BigInt(s.payAmount),
+            feeAmount: BigInt(s.feeAmount),
+            receiveMint: new PublicKey(s.receiveMint),
+            receiveAmount: BigInt(s.receiveAmount),
+            poolPayBalance: BigInt(s.poolPayBalance),
+            poolReceiveBalance: BigInt(s.poolReceiveBalance),
+        })),
+    }
+}
+
+function readCache(key: string, pool: PublicKey): PoolHistoryEntry[] {
+    try {
+        const cached = localStorage.getItem(key)
+        return cached
+            ? (JSON.parse(cached) as CachedEntry[]).map((entry) =>
+                  deserialize(entry, pool)
+              )
+            : []
+    } catch (e) {
+        console.log(`error reading the cached pool history: `, e)
+        return []
+    }
+}
+
+function writeCache(key: string, history: PoolHistoryEntry[]) {
+    try {
+        localStorage.setItem(key, JSON.stringify(history.map(serialize)))
+    } catch (e) {
+        // e.g. the storage quota is exceeded: the history is refetched next time
+        console.log(`error caching the pool history: `, e)
+    }
+}
+
+/**
+ * The Liquidity Pool's parsed transaction history, cached in `localStorage`
+ * (per cluster) so each refresh only fetches the transactions since the
+ * newest one cached
+ */
+const usePoolHistoryStore = create<PoolHistoryStore>((set, get) => ({
+    history: [],
+    loading: false,
+    error: null,
+    refreshHistory: async (program) => {
+        if (get().loading) {
+            return
+        }
+        const key = getCacheKey(program)
+        const cached = readCache(key, getPoolAddress(program.programId))
+        set({ history: cached, loading: true, error: null })
+        try {
+            const newest = cached.length
+                ? cached[cached.length - 1].signature
+                : undefined
+            const fetched = await fetchPoolHistory(program, newest)
+            const history = [...cached, ...fetched]
+            writeCache(key, history)
+            set({ history, loading: false })
+        } catch (e) {
+            console.log(`error fetching the pool history: `, e)
+            set({ loading: false, error: String(e) })
+        }
+    },
+}))
+
+export default usePoolHistoryStore
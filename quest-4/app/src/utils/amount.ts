@@ -0,0 +1,157 @@
+// The app targets ES5, so `bigint` literals and `**` can't be used here
+const ZERO = BigInt(0)
+const ONE = BigInt(1)
+const TWO = BigInt(2)
+
+const pow10 = (exponent: number) => BigInt('1' + '0'.repeat(exponent))
+
+/**
+ * An exact quantity of an SPL token, stored as a `bigint` of the mint's base
+ * units alongside the mint's decimal places
+ */
+export class TokenAmount {
+    constructor(readonly raw: bigint, readonly decimals: number) {
+        if (!Number.isInteger(decimals) || decimals < 0) {
+            throw new Error(`Invalid decimals: ${decimals}`)
+        }
+    }
+
+    /**
+     * Parses a nominal quantity typed by the user (such as `"12.5"`) into the
+     * mint's base units, throwing if it isn't a valid amount for the mint
+     */
+    static fromDecimal(value: string, decimals: number): TokenAmount {
+        const match = /^([+-]?)(\d*)(?:\.(\d*))?$/.exec(value.trim())
+        if (!match || (!match[2] && !match[3])) {
+            throw new Error(`Invalid token amount: ${value}`)
+        }
+        const [, sign, whole, fraction = ''] = match
+        const significant = fraction.replace(/0+$/, '')
+        if (significant.length > decimals) {
+            throw new Error(
+                `Token amount ${value} has more than ${decimals} decimal places`
+            )
+        }
+        const raw = BigInt((whole || '0') + significant.padEnd(decimals, '0'))
+        return new TokenAmount(sign === '-' ? -raw : raw, decimals)
+    }
+
+    /**
+     * Creates a quantity from the mint's base units (such as a token
+     * account's `amount`)
+     */
+    static fromRaw(
+        raw: bigint | number | string,
+        decimals: number
+    ): TokenAmount {
+        return new TokenAmount(BigInt(raw), decimals)
+    }
+
+    static zero(decimals: number): TokenAmount {
+        return new TokenAmount(ZERO, decimals)
+    }
+
+    private assertSameDecimals(other: TokenAmount) {
+        if (other.decimals !== this.decimals) {
+            throw new Error(
+                `Cannot combine token amounts with ${this.decimals} and ${other.decimals} decimals`
+            )
+        }
+    }
+
+    add(other: TokenAmount): TokenAmount {
+        this.assertSameDecimals(other)
+        return new TokenAmount(this.raw + other.raw, this.decimals)
+    }
+
+    sub(other: TokenAmount): TokenAmount {
+        this.assertSameDecimals(other)
+        return new TokenAmount(this.raw - other.raw, this.decimals)
+    }
+
+    mul(factor: bigint | number): TokenAmount {
+        return new TokenAmount(this.raw * BigInt(factor), this.decimals)
+    }
+
+    /**
+     * Divides by a whole divisor, rounding toward zero (like the program's
+     * integer division)
+     */
+    div(divisor: bigint | number): TokenAmount {
+        return new TokenAmount(this.raw / BigInt(divisor), this.decimals)
+    }
+
+    /**
+     * Returns `-1`, `0` or `1` if this quantity is lower, equal or greater
+     */
+    cmp(other: TokenAmount): number {
+        this.assertSameDecimals(other)
+        return this.raw < other.raw ? -1 : this.raw > other.raw ? 1 : 0
+    }
+
+    eq(other: TokenAmount): boolean {
+        return this.cmp(other) === 0
+    }
+
+    lt(other: TokenAmount): boolean {
+        return this.cmp(other) < 0
+    }
+
+    lte(other: TokenAmount): boolean {
+        return this.cmp(other) <= 0
+    }
+
+    gt(other: TokenAmount): boolean {
+        return this.cmp(other) > 0
+    }
+
+    gte(other: TokenAmount): boolean {
+        return this.cmp(other) >= 0
+    }
+
+    isZero(): boolean {
+        return this.raw === ZERO
+    }
+
+    isNegative(): boolean {
+        return this.raw < ZERO
+    }
+
+    /**
+     * Formats the nominal quantity with a fixed number of decimal places,
+     * rounding half away from zero
+     */
+    toFixed(fractionDigits: number): string {
+        const negative = this.raw < ZERO
+        let units = negative ? -this.raw : this.raw
+        let digits = this.decimals
+        if (fractionDigits < digits) {
+            const divisor = pow10(digits - fractionDigits)
+            const remainder = units % divisor
+            units = units / divisor + (remainder * TWO >= divisor ? ONE : ZERO)
+            digits = fractionDigits
+        }
+        const padded = units.toString().padStart(digits + 1, '0')
+        const whole = padded.slice(0, padded.length - digits)
+        const fraction = padded
+            .slice(padded.length - digits)
+            .padEnd(fractionDigits, '0')
+        const sign = negative && units !== ZERO ? '-' : ''
+        return sign + whole + (fraction ? '.' + fraction : '')
+    }
+
+    /**
+     * Formats the exact nominal quantity, without any trailing zeros
+     */
+    toString(): string {
+        const fixed = this.toFixed(this.decimals)
+        return this.decimals > 0 ? fixed.replace(/\.?0+$/, '') : fixed
+    }
+
+    /**
+     * Converts to a (lossy) `number`, only for display purposes like charts
+     */
+    toNumber(): number {
+        return Number(this.toString())
+    }
+}
@@ -0,0 +1,229 @@
+import { useWallet } from '@solana/wallet-adapter-react'
+import LineChart from '@/components/LineChart'
+import useAnchorProgram from '@/hooks/useAnchorProgram'
+import { FC, useEffect, useMemo, useState } from 'react'
+import { getPoolState } from '@/stores/useAssetsStore'
+import usePoolHistoryStore from '@/stores/usePoolHistoryStore'
+import { PoolState, SwapClient, getBalanceHistory, getSwapVolumes } from '@/sdk'
+import { TokenAmount } from '@/utils/amount'
+import { format } from 'date-fns'
+
+export const AnalyticsView: FC = () => {
+    const wallet = useWallet()
+    const program = useAnchorProgram()
+    const [pool, setPool] = useState<PoolState | undefined>()
+    const { history, loading, error, refreshHistory } = usePoolHistoryStore()
+    // The pair the implied price is charted for: the price of one `base` in
+    // `quote`
+    const [base, setBase] = useState(0)
+    const [quote, setQuote] = useState(1)
+
+    useEffect(() => {
+        if (program == null) {
+            return
+        }
+        const fn = async () => {
+            setPool(await getPoolState(program))
+            await refreshHistory(program)
+        }
+        fn()
+        // Fetch the new transactions after every swap
+        const unsubscribe = new SwapClient(program).addEventListener(
+            'Swapped',
+            () => fn()
+        )
+        return () => {
+            unsubscribe()
+        }
+    }, [program, refreshHistory])
+
+    const assets = useMemo(() => (pool ? pool.assets : []), [pool])
+    const labels = history.map((entry) =>
+        entry.blockTime
+            ? format(new Date(entry.blockTime * 1000), 'MM/dd HH:mm:ss')
+            : `Slot ${entry.slot}`
+    )
+    // Every asset's balance after each transaction, in its base units
+    const rawBalances = useMemo(
+        () =>
+            getBalanceHistory(
+                history,
+                assets.map((a) => a.mint)
+            ),
+        [history, assets]
+    )
+    const balances = useMemo(
+        () =>
+            rawBalances.map((point) =>
+                point.map((balance, index) =>
+                    new TokenAmount(balance, assets[index].decimals).toNumber()
+                )
+            ),
+        [rawBalances, assets]
+    )
+    // The constant-product `K` over the assets funded so far (in base units,
+    // as the program calculates it)
+    const k = useMemo(
+        () =>
+            rawBalances.map((point) => {
+                const funded = point.filter((balance) => balance > BigInt(0))
+                return funded.length
+                    ? Number(
+                          funded.reduce((product, b) => product * b, BigInt(1))
+                      )
+                    : NaN
+            }),
+        [rawBalances]
+    )
+    const volumes = useMemo(
+        () =>
+            getSwapVolumes(
+                history,
+                assets.map((a) => a.mint)
+            ).map((volume, index) =>
+                new TokenAmount(volume, assets[index].decimals).toNumber()
+            ),
+        [history, assets]
+    )
+    // Volumes are compared by their value in the quote asset, at the pool's
+    // current prices
+    const current = balances.length ? balances[balances.length - 1] : []
+    const volumeValues = volumes.map((volume, index) =>
+        current[index] && current[quote]
+            ? (volume * current[quote]) / current[index]
+            : 0
+    )
+    const maxVolumeValue = Math.max(0, ...volumeValues)
+
+    const assetSelect = (value: number, onChange: (index: number) => void) => (
+        <select
+            value={value}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="p-2 rounded-md border bg-black text-white"
+        >
+            {assets.map((a, index) => (
+                <option key={index} value={index}>
+                    {a.name}
+                </option>
+            ))}
+        </select>
+    )
+
+    return (
+        <div className="md:hero mx-auto p-4">
+            <div className="md:hero-content flex flex-col">
+                <div className="mt-6">
+                    <h1 className="mb-4 text-center text-4xl font-bold font-serif text-yellow-600">
+                        The harbor master&apos;s ledger
+                    </h1>
+                </div>
+                {wallet && program ? (
+                    <div className="w-full max-w-3xl">
+                        <div className="flex items-center justify-between text-xs text-stone-400">
+                            <span>
+                                {history.length} transactions
+                                {loading && ', fetching the latest...'}
+                            </span>
+                            <button
+                                className="px-3 py-1 rounded bg-yellow-700 hover:bg-yellow-900"
+                                onClick={() => refreshHistory(program)}
+                                disabled={loading}
+                            >
+                                Refresh
+                            </button>
+                        </div>
+                        {error && (
+                            <p className="text-xs text-red-400 mt-2">{error}</p>
+                        )}
+                        <LineChart
+                            title="Balances"
+                            labels={labels}
+                            series={assets.map((a, index) => ({
+                                label: a.symbol,
+                                values: balances.map((point) => point[index]),
+                            }))}
+                        />
+                        <LineChart
+                            title="Constant product (K)"
+                            labels={labels}
+                            series={[{ label: 'K', values: k }]}
+                            formatValue={(value) => value.toExponential(3)}
+                        />
+                        <div className="p-4 mt-4 shadow dark:bg-stone-900 dark:border-yellow-950 rounded-lg">
+                            <h2 className="text-xl font-bold font-serif text-yellow-600 mb-2">
+                                Implied price
+                            </h2>
+                            {assets.length > 1 && (
+                                <div className="flex items-center space-x-2 text-sm">
+                                    <span>1</span>
+                                    {assetSelect(base, setBase)}
+                                    <span>in</span>
+                                    {assetSelect(quote, setQuote)}
+                                </div>
+                            )}
+                        </div>
+                        {assets.length > 1 && (
+                            <LineChart
+                                title={`${assets[base].symbol} / ${assets[quote].symbol}`}
+                                labels={labels}
+                                series={[
+                                    {
+                                        label: `Price of 1 ${assets[base].symbol} in ${assets[quote].symbol}`,
+                                        values: balances.map((point) =>
+                                            point[base] && point[quote]
+                                                ? point[quote] / point[base]
+                                                : NaN
+                                        ),
+                                    },
+                                ]}
+                            />
+                        )}
+                        <div className="p-4 mt-4 shadow dark:bg-stone-900 dark:border-yellow-950 rounded-lg">
+                            <h2 className="text-xl font-bold font-serif text-yellow-600 mb-2">
+                                Volume
+                            </h2>
+                            {assets.length > 1 && (
+                                <p className="text-xs text-stone-400 mb-2">
+                                    Bars compare each asset&apos;s volume in{' '}
+                                    {assets[quote].symbol}, at the pool&apos;s
+                                    current prices
+                                </p>
+                            )}
+                            {assets.map((a, index) => (
+                                <div key={index} className="mb-1 text-xs">
+                                    <div className="flex justify-between">
+                                        <span>{a.symbol}</span>
+                                        <span className="text-stone-400">
+                                            {volumes[index].toLocaleString()}{' '}
+                                            {a.symbol}
+                                        </span>
+                                    </div>
+                                    <div className="h-2 bg-black rounded">
+                                        <div
+                                            className="h-2 bg-yellow-700 rounded"
+                                            style={{
+                                                width: `${
+                                                    maxVolumeValue
+                                                        ? (volumeValues[index] /
+                                                              maxVolumeValue) *
+                                                          100
+                                                        : 0
+                                                }%`,
+                                            }}
+                                        />
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                ) : (
+                    <div>
+                        <h3 className="mb-4 mt-6 text-center text-2xl font-bold font-serif text-stone-500">
+                            Connect a wallet to read the ledger
+                        </h3>
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
@@ -1,20 +1,23 @@
 import { useWallet } from '@solana/wallet-adapter-react'
 import SwapCard from '@/components/SwapCard'
+import LiquidityPanel from '@/components/LiquidityPanel'
+import RecentTrades from '@/components/RecentTrades'
 import LoanCard from '@/components/AssetCard'
 import useAnchorProgram from '@/hooks/useAnchorProgram'
 import { FC, useEffect, useState } from 'react'
-import { Asset, getAssets } from '@/stores/useAssetsStore'
+import { getPoolState } from '@/stores/useAssetsStore'
+import { PoolState } from '@/sdk'
 import Image from 'next/image'
 
 export const HomeView: FC = () => {
     const wallet = useWallet()
     const program = useAnchorProgram()
-    const [assets, setAssets] = useState<Asset[] | undefined>()
+    const [pool, setPool] = useState<PoolState | undefined>()
 
     useEffect(() => {
         const fn = async () => {
-            const assets = await getAssets(program)
-            setAssets(assets)
+            const pool = await getPoolState(program)
+            setPool(pool)
         }
         if (program != null) {
             fn()
@@ -31,7 +34,22 @@ export const HomeView: FC = () => {
                 </div>
                 {wallet && program ? (
                     <div>
-                        {assets && (
+                        {pool && pool.paused && (
+                            <div>
+                                <h3 className="mb-4 mt-6 text-center text-2xl font-bold font-serif text-stone-500">
+                                    The port is closed for trading, mate
+                                </h3>
+                                <p className="text-center text-stone-400">
+                                    Swaps and deposits are paused, but you can
+                                    still withdraw your liquidity
+                                </p>
+                                <LiquidityPanel
+                                    assets={pool.assets}
+                                    withdrawOnly
+                                />
+                            </div>
+                        )}
+                        {pool && !pool.paused && (
                             <div>
                                 <div className="flex items-center justify-center space-x-10">
                                     <Image
@@ -41,10 +59,15 @@ export const HomeView: FC = () => {
                                         width="350"
                                         height="350"
                                     />
-                                    <SwapCard assets={assets} />
+                                    <SwapCard
+                                        assets={pool.assets}
+                                        feeBps={pool.feeBps}
+                                    />
                                 </div>
+                                <LiquidityPanel assets={pool.assets} />
+                                <RecentTrades assets={pool.assets} />
                                 <div className="grid grid-cols-4 gap-4 mt-4">
-                                    {assets.map((asset, i) => (
+                                    {pool.assets.map((asset, i) => (
                                         <LoanCard
                                             key={i}
                                             name={asset.name}
@@ -1 +1,2 @@
 export { HomeView } from './home';
+export { AnalyticsView } from './analytics';
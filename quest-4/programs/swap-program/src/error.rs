@@ -33,4 +33,52 @@ pub enum SwapProgramError {
     /// The user proposed to pay 0 of an asset
     #[msg("A user cannot propose to pay 0 of an asset")]
     InvalidSwapZeroAmount,
+
+    /// The amount of the "receive" asset resolved by `r = f(p)` is less than
+    /// the minimum amount the user is willing to accept, likely because the
+    /// pool's balances moved between quoting and executing the swap
+    #[msg("The amount to receive is less than the minimum amount the user will accept")]
+    InvalidSwapSlippageExceeded,
+
+    /// The amount a Liquidity Provider has proposed to fund results, after
+    /// calculation of their share of the pool, in less than 1 LP share, thus
+    /// the deposit would be given away and will be rejected
+    #[msg("The amount proposed to fund is not great enough for at least 1 LP share")]
+    InvalidFundZeroShares,
+
+    /// A Liquidity Provider has proposed to withdraw 0 LP shares
+    #[msg("A user cannot propose to withdraw 0 LP shares")]
+    InvalidWithdrawZeroShares,
+
+    /// The accounts provided to withdraw do not match the mint addresses
+    /// stored in the `LiquidityPool` state - each asset requires its mint, the
+    /// pool's associated token account and the Liquidity Provider's token
+    /// account, in the same order
+    #[msg("The accounts provided do not match the Liquidity Pool's assets")]
+    InvalidWithdrawAccounts,
+
+    /// The swap fee proposed when creating the Liquidity Pool is above
+    /// `LiquidityPool::MAX_FEE_BPS`
+    #[msg("The swap fee cannot exceed 1,000 basis points (10%)")]
+    InvalidPoolFee,
+
+    /// The signer is not the Liquidity Pool's authority, which is required to
+    /// administer the pool or to list a new asset
+    #[msg("The signer is not the Liquidity Pool's authority")]
+    InvalidPoolAuthority,
+
+    /// The Liquidity Pool's authority has paused swaps and deposits
+    #[msg("The Liquidity Pool is paused")]
+    InvalidPoolPaused,
+
+    /// The asset proposed to remove still has a balance in the Liquidity Pool,
+    /// and the authority did not ask to sweep it
+    #[msg("The Liquidity Pool still holds a balance of the asset to remove")]
+    InvalidRemoveAssetBalance,
+
+    /// The mint of the asset proposed to list is owned by a different token
+    /// program than the Liquidity Pool's other assets, which the pool couldn't
+    /// transfer together
+    #[msg("The asset's mint is not owned by the Liquidity Pool's token program")]
+    InvalidAssetTokenProgram,
 }
@@ -0,0 +1,45 @@
+//! Swap program events
+use anchor_lang::prelude::*;
+
+/// Emitted when the Liquidity Pool is created
+#[event]
+pub struct PoolCreated {
+    pub pool: Pubkey,
+    pub lp_mint: Pubkey,
+    pub authority: Pubkey,
+    pub fee_bps: u16,
+}
+
+/// Emitted when a Liquidity Provider funds the pool with some asset
+#[event]
+pub struct PoolFunded {
+    pub pool: Pubkey,
+    pub payer: Pubkey,
+    pub mint: Pubkey,
+    /// The amount the pool received (after any Token-2022 transfer fee)
+    pub amount: u64,
+    /// The LP shares minted to the Liquidity Provider
+    pub shares: u64,
+    /// The pool's balance of the asset after the deposit
+    pub pool_balance: u64,
+}
+
+/// Emitted for every swap
+#[event]
+pub struct Swapped {
+    pub pool: Pubkey,
+    pub payer: Pubkey,
+    pub pay_mint: Pubkey,
+    /// The amount paid, including the fee
+    pub pay_amount: u64,
+    /// The part of the amount the pool received (`pay_amount`, less any
+    /// Token-2022 transfer fee) it kept as its fee
+    pub fee_amount: u64,
+    pub receive_mint: Pubkey,
+    /// The amount the pool paid out
+    pub receive_amount: u64,
+    /// The pool's balance of the paid asset after the swap
+    pub pool_pay_balance: u64,
+    /// The pool's balance of the received asset after the swap
+    pub pool_receive_balance: u64,
+}
@@ -1,16 +1,38 @@
 //! Instruction: InitializePriceData
 use anchor_lang::prelude::*;
+use anchor_spl::token::{Mint, Token};
 
+use crate::error::SwapProgramError;
+use crate::events::PoolCreated;
 use crate::state::*;
 
-/// Initialize the program by creating the liquidity pool
-pub fn create_pool(ctx: Context<CreatePool>) -> Result<()> {
+/// Initialize the program by creating the liquidity pool and its LP share mint,
+/// with the payer as the pool's authority
+///
+/// Every swap pays the pool a fee of `fee_bps` basis points of the amount paid,
+/// which is never swapped, so it accrues to the Liquidity Providers
+pub fn create_pool(ctx: Context<CreatePool>, fee_bps: u16) -> Result<()> {
+    if fee_bps > LiquidityPool::MAX_FEE_BPS {
+        return Err(SwapProgramError::InvalidPoolFee.into());
+    }
     // Initialize the new `LiquidityPool` state
     ctx.accounts.pool.set_inner(LiquidityPool::new(
         *ctx.bumps
             .get("pool")
             .expect("Failed to fetch bump for `pool`"),
+        *ctx.bumps
+            .get("lp_mint")
+            .expect("Failed to fetch bump for `lp_mint`"),
+        fee_bps,
+        ctx.accounts.payer.key(),
     ));
+
+    emit!(PoolCreated {
+        pool: ctx.accounts.pool.key(),
+        lp_mint: ctx.accounts.lp_mint.key(),
+        authority: ctx.accounts.payer.key(),
+        fee_bps,
+    });
     Ok(())
 }
 
@@ -25,9 +47,23 @@ pub struct CreatePool<'info> {
         bump,
     )]
     pub pool: Account<'info, LiquidityPool>,
+    /// The mint for the Liquidity Pool's liquidity provider (LP) shares, whose
+    /// mint authority is the Liquidity Pool
+    #[account(
+        init,
+        payer = payer,
+        seeds = [LiquidityPool::LP_MINT_SEED_PREFIX.as_bytes()],
+        bump,
+        mint::decimals = LiquidityPool::LP_MINT_DECIMALS,
+        mint::authority = pool,
+    )]
+    pub lp_mint: Account<'info, Mint>,
     /// Rent payer
     #[account(mut)]
     pub payer: Signer<'info>,
     /// System Program: Required for creating the Liquidity Pool
     pub system_program: Program<'info, System>,
+    /// Token Program: Required for creating the LP share mint (always the SPL
+    /// Token program, whichever token program owns the pool's assets)
+    pub token_program: Program<'info, Token>,
 }
@@ -1,13 +1,21 @@
 //! Instruction: InitializePriceData
 use anchor_lang::prelude::*;
-use anchor_spl::{associated_token, token};
+use anchor_spl::{associated_token, token, token_interface};
 
+use crate::error::SwapProgramError;
+use crate::events::PoolFunded;
 use crate::state::*;
 
-/// Provide liquidity to the pool by funding it with some asset
+/// Provide liquidity to the pool by funding it with some asset, in exchange
+/// for LP shares
 pub fn fund_pool(ctx: Context<FundPool>, amount: u64) -> Result<()> {
     let pool = &mut ctx.accounts.pool;
 
+    // The LP shares are determined from the pool before it's funded
+    let pool_balance = ctx.accounts.pool_token_account.amount;
+    let mint_key = ctx.accounts.mint.key();
+    let other_asset_count = pool.assets.iter().filter(|key| **key != mint_key).count() as u64;
+
     // Deposit: (From, To, amount)
     let deposit = (
         &ctx.accounts.mint,
@@ -21,7 +29,37 @@ pub fn fund_pool(ctx: Context<FundPool>, amount: u64) -> Result<()> {
         &ctx.accounts.payer,
         &ctx.accounts.system_program,
         &ctx.accounts.token_program,
-    )
+    )?;
+
+    // Use the amount the pool received, since Token-2022 transfer fees are
+    // withheld from it
+    ctx.accounts.pool_token_account.reload()?;
+    let received = ctx
+        .accounts
+        .pool_token_account
+        .amount
+        .checked_sub(pool_balance)
+        .ok_or(SwapProgramError::InvalidArithmetic)?;
+
+    // Every pair of the asset has a new price from here on
+    pool.accumulate_prices(&[(mint_key, ctx.accounts.pool_token_account.amount)])?;
+
+    let shares = pool.mint_shares(
+        &ctx.accounts.lp_mint,
+        &ctx.accounts.payer_lp_token_account,
+        (pool_balance, other_asset_count, received),
+        &ctx.accounts.lp_token_program,
+    )?;
+
+    emit!(PoolFunded {
+        pool: pool.key(),
+        payer: ctx.accounts.payer.key(),
+        mint: mint_key,
+        amount: received,
+        shares,
+        pool_balance: ctx.accounts.pool_token_account.amount,
+    });
+    Ok(())
 }
 
 #[derive(Accounts)]
@@ -31,10 +69,11 @@ pub struct FundPool<'info> {
         mut,
         seeds = [LiquidityPool::SEED_PREFIX.as_bytes()],
         bump = pool.bump,
+        constraint = !pool.paused @ SwapProgramError::InvalidPoolPaused,
     )]
     pub pool: Account<'info, LiquidityPool>,
     /// The mint account for the asset being deposited into the pool
-    pub mint: Account<'info, token::Mint>,
+    pub mint: InterfaceAccount<'info, token_interface::Mint>,
     /// The Liquidity Pool's token account for the asset being deposited into
     /// the pool
     #[account(
@@ -42,16 +81,35 @@ pub struct FundPool<'info> {
         payer = payer,
         associated_token::mint = mint,
         associated_token::authority = pool,
+        associated_token::token_program = token_program,
     )]
-    pub pool_token_account: Account<'info, token::TokenAccount>,
+    pub pool_token_account: InterfaceAccount<'info, token_interface::TokenAccount>,
     /// The payer's - or Liquidity Provider's - token account for the asset
     /// being deposited into the pool
     #[account(
         mut,
         associated_token::mint = mint,
         associated_token::authority = payer,
+        associated_token::token_program = token_program,
+    )]
+    pub payer_token_account: InterfaceAccount<'info, token_interface::TokenAccount>,
+    /// The mint for the Liquidity Pool's LP shares
+    #[account(
+        mut,
+        seeds = [LiquidityPool::LP_MINT_SEED_PREFIX.as_bytes()],
+        bump = pool.lp_mint_bump,
+    )]
+    pub lp_mint: Account<'info, token::Mint>,
+    /// The payer's - or Liquidity Provider's - token account for the LP shares
+    /// issued for the deposit
+    #[account(
+        init_if_needed,
+        payer = payer,
+        associated_token::mint = lp_mint,
+        associated_token::authority = payer,
+        associated_token::token_program = lp_token_program,
     )]
-    pub payer_token_account: Account<'info, token::TokenAccount>,
+    pub payer_lp_token_account: Account<'info, token::TokenAccount>,
     // Payer / Liquidity Provider
     #[account(mut)]
     pub payer: Signer<'info>,
@@ -59,9 +117,14 @@ pub struct FundPool<'info> {
     /// for the asset being deposited into the pool
     pub system_program: Program<'info, System>,
     /// Token Program: Required for transferring the assets from the Liquidity
-    /// Provider's token account into the Liquidity Pool's token account
-    pub token_program: Program<'info, token::Token>,
+    /// Provider's token account into the Liquidity Pool's token account (either
+    /// the SPL Token or the Token-2022 program, whichever owns the mint)
+    pub token_program: Interface<'info, token_interface::TokenInterface>,
+    /// LP Token Program: Required for minting the LP shares (always the SPL
+    /// Token program)
+    pub lp_token_program: Program<'info, token::Token>,
     /// Associated Token Program: Required for creating the Liquidity Pool's
-    /// token account for the asset being deposited into the pool
+    /// token account for the asset being deposited into the pool, and the
+    /// payer's token account for the LP shares
     pub associated_token_program: Program<'info, associated_token::AssociatedToken>,
 }
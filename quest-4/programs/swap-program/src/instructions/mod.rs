@@ -1,8 +1,16 @@
 //! Swap program instructions
 pub mod create_pool;
 pub mod fund_pool;
+pub mod remove_asset;
+pub mod set_paused;
 pub mod swap;
+pub mod transfer_authority;
+pub mod withdraw;
 
 pub use create_pool::*;
 pub use fund_pool::*;
+pub use remove_asset::*;
+pub use set_paused::*;
 pub use swap::*;
+pub use transfer_authority::*;
+pub use withdraw::*;
@@ -0,0 +1,78 @@
+//! Instruction: RemoveAsset
+use anchor_lang::prelude::*;
+use anchor_spl::{associated_token, token_interface};
+
+use crate::error::SwapProgramError;
+use crate::state::*;
+
+/// Delist an asset from the pool, so it can no longer be swapped or funded
+///
+/// The pool must not hold any of the asset, unless `sweep` is set, in which
+/// case the pool's balance is transferred to the authority first. Note: the
+/// swept balance belonged to the Liquidity Providers, whose LP shares are then
+/// only redeemable for the pool's remaining assets
+pub fn remove_asset(ctx: Context<RemoveAsset>, sweep: bool) -> Result<()> {
+    let pool = &mut ctx.accounts.pool;
+
+    let balance = ctx.accounts.pool_token_account.amount;
+    if balance > 0 {
+        if !sweep {
+            return Err(SwapProgramError::InvalidRemoveAssetBalance.into());
+        }
+        process_transfer_from_pool(
+            &ctx.accounts.pool_token_account,
+            &ctx.accounts.authority_token_account,
+            &ctx.accounts.mint,
+            balance,
+            pool,
+            &ctx.accounts.token_program,
+        )?;
+    }
+
+    pool.remove_asset(&ctx.accounts.mint.key(), &ctx.accounts.authority)
+}
+
+#[derive(Accounts)]
+pub struct RemoveAsset<'info> {
+    /// Liquidity Pool
+    #[account(
+        mut,
+        seeds = [LiquidityPool::SEED_PREFIX.as_bytes()],
+        bump = pool.bump,
+        has_one = authority @ SwapProgramError::InvalidPoolAuthority,
+    )]
+    pub pool: Account<'info, LiquidityPool>,
+    /// The mint account for the asset being removed from the pool
+    pub mint: InterfaceAccount<'info, token_interface::Mint>,
+    /// The Liquidity Pool's token account for the asset being removed (which
+    /// will be debited, if its balance is swept)
+    #[account(
+        mut,
+        associated_token::mint = mint,
+        associated_token::authority = pool,
+        associated_token::token_program = token_program,
+    )]
+    pub pool_token_account: InterfaceAccount<'info, token_interface::TokenAccount>,
+    /// The authority's token account for the asset being removed (which will
+    /// be credited, if the pool's balance is swept)
+    #[account(
+        init_if_needed,
+        payer = authority,
+        associated_token::mint = mint,
+        associated_token::authority = authority,
+        associated_token::token_program = token_program,
+    )]
+    pub authority_token_account: InterfaceAccount<'info, token_interface::TokenAccount>,
+    /// The Liquidity Pool's authority, who also receives the rent the pool no
+    /// longer needs
+    #[account(mut)]
+    pub authority: Signer<'info>,
+    /// System Program: Required for creating the authority's token account
+    pub system_program: Program<'info, System>,
+    /// Token Program: Required for sweeping the pool's balance (either the SPL
+    /// Token or the Token-2022 program, whichever owns the mint)
+    pub token_program: Interface<'info, token_interface::TokenInterface>,
+    /// Associated Token Program: Required for creating the authority's token
+    /// account
+    pub associated_token_program: Program<'info, associated_token::AssociatedToken>,
+}
@@ -0,0 +1,28 @@
+//! Instruction: SetPaused
+use anchor_lang::prelude::*;
+
+use crate::error::SwapProgramError;
+use crate::state::*;
+
+/// Pause or resume swaps and deposits, for example during an incident
+///
+/// Withdrawals are never paused, so Liquidity Providers can always redeem their
+/// LP shares
+pub fn set_paused(ctx: Context<SetPaused>, paused: bool) -> Result<()> {
+    ctx.accounts.pool.paused = paused;
+    Ok(())
+}
+
+#[derive(Accounts)]
+pub struct SetPaused<'info> {
+    /// Liquidity Pool
+    #[account(
+        mut,
+        seeds = [LiquidityPool::SEED_PREFIX.as_bytes()],
+        bump = pool.bump,
+        has_one = authority @ SwapProgramError::InvalidPoolAuthority,
+    )]
+    pub pool: Account<'info, LiquidityPool>,
+    /// The Liquidity Pool's authority
+    pub authority: Signer<'info>,
+}
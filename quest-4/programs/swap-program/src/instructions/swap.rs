@@ -1,13 +1,18 @@
 //! Instruction: SwapDia
 use anchor_lang::prelude::*;
 use anchor_spl::associated_token::AssociatedToken;
-use anchor_spl::token;
+use anchor_spl::token_interface;
 
 use crate::error::*;
+use crate::events::Swapped;
 use crate::state::*;
 
 /// Swap assets using the DEX
-pub fn swap(ctx: Context<Swap>, amount_to_swap: u64) -> Result<()> {
+///
+/// The swap is rejected if it would receive less than `min_receive` of the
+/// requested asset (in its real quantity), which protects the user from the
+/// pool's balances moving between quoting and executing the swap
+pub fn swap(ctx: Context<Swap>, amount_to_swap: u64, min_receive: u64) -> Result<()> {
     // Make sure the amount is not zero
     if amount_to_swap == 0 {
         return Err(SwapProgramError::InvalidSwapZeroAmount.into());
@@ -28,16 +33,50 @@ pub fn swap(ctx: Context<Swap>, amount_to_swap: u64) -> Result<()> {
     let pay = (
         ctx.accounts.pay_mint.as_ref(),
         ctx.accounts.payer_pay_token_account.as_ref(),
-        ctx.accounts.pool_pay_token_account.as_ref(),
+        ctx.accounts.pool_pay_token_account.as_mut(),
         amount_to_swap,
     );
 
-    pool.process_swap(
+    let (fee_amount, receive_amount) = pool.process_swap(
         receive,
         pay,
+        min_receive,
         &ctx.accounts.payer,
         &ctx.accounts.token_program,
-    )
+    )?;
+
+    // Reload the pool's token accounts for their balances after the swap
+    ctx.accounts.pool_pay_token_account.reload()?;
+    ctx.accounts.pool_receive_token_account.reload()?;
+
+    // Every pair of either asset has a new price from here on
+    let pay_balance = (
+        ctx.accounts.pay_mint.key(),
+        ctx.accounts.pool_pay_token_account.amount,
+    );
+    let receive_balance = (
+        ctx.accounts.receive_mint.key(),
+        ctx.accounts.pool_receive_token_account.amount,
+    );
+    pool.accumulate_prices(&[pay_balance, receive_balance])?;
+    pool.add_price_accumulator(
+        (pay_balance.0, receive_balance.0),
+        (pay_balance.1, receive_balance.1),
+        &ctx.accounts.payer,
+        &ctx.accounts.system_program,
+    )?;
+    emit!(Swapped {
+        pool: ctx.accounts.pool.key(),
+        payer: ctx.accounts.payer.key(),
+        pay_mint: ctx.accounts.pay_mint.key(),
+        pay_amount: amount_to_swap,
+        fee_amount,
+        receive_mint: ctx.accounts.receive_mint.key(),
+        receive_amount,
+        pool_pay_balance: ctx.accounts.pool_pay_token_account.amount,
+        pool_receive_balance: ctx.accounts.pool_receive_token_account.amount,
+    });
+    Ok(())
 }
 
 #[derive(Accounts)]
@@ -47,6 +86,7 @@ pub struct Swap<'info> {
         mut,
         seeds = [LiquidityPool::SEED_PREFIX.as_bytes()],
         bump = pool.bump,
+        constraint = !pool.paused @ SwapProgramError::InvalidPoolPaused,
     )]
     pub pool: Account<'info, LiquidityPool>,
     /// The mint account for the asset the user is requesting to receive in
@@ -54,15 +94,16 @@ pub struct Swap<'info> {
     #[account(
         constraint = !receive_mint.key().eq(&pay_mint.key()) @ SwapProgramError::InvalidSwapMatchingAssets
     )]
-    pub receive_mint: Box<Account<'info, token::Mint>>,
+    pub receive_mint: Box<InterfaceAccount<'info, token_interface::Mint>>,
     /// The Liquidity Pool's token account for the mint of the asset the user is
     /// requesting to receive in exchange (which will be debited)
     #[account(
         mut,
         associated_token::mint = receive_mint,
         associated_token::authority = pool,
+        associated_token::token_program = token_program,
     )]
-    pub pool_receive_token_account: Box<Account<'info, token::TokenAccount>>,
+    pub pool_receive_token_account: Box<InterfaceAccount<'info, token_interface::TokenAccount>>,
     /// The user's token account for the mint of the asset the user is
     /// requesting to receive in exchange (which will be credited)
     #[account(
@@ -70,32 +111,36 @@ pub struct Swap<'info> {
         payer = payer,
         associated_token::mint = receive_mint,
         associated_token::authority = payer,
+        associated_token::token_program = token_program,
     )]
-    pub payer_receive_token_account: Box<Account<'info, token::TokenAccount>>,
+    pub payer_receive_token_account: Box<InterfaceAccount<'info, token_interface::TokenAccount>>,
     /// The mint account for the asset the user is proposing to pay in the swap
-    pub pay_mint: Box<Account<'info, token::Mint>>,
+    pub pay_mint: Box<InterfaceAccount<'info, token_interface::Mint>>,
     /// The Liquidity Pool's token account for the mint of the asset the user is
     /// proposing to pay in the swap (which will be credited)
     #[account(
         mut,
         associated_token::mint = pay_mint,
         associated_token::authority = pool,
+        associated_token::token_program = token_program,
     )]
-    pub pool_pay_token_account: Box<Account<'info, token::TokenAccount>>,
+    pub pool_pay_token_account: Box<InterfaceAccount<'info, token_interface::TokenAccount>>,
     /// The user's token account for the mint of the asset the user is
     /// proposing to pay in the swap (which will be debited)
     #[account(
         mut,
         associated_token::mint = pay_mint,
         associated_token::authority = payer,
+        associated_token::token_program = token_program,
     )]
-    pub payer_pay_token_account: Box<Account<'info, token::TokenAccount>>,
+    pub payer_pay_token_account: Box<InterfaceAccount<'info, token_interface::TokenAccount>>,
     /// The authority requesting to swap (user)
     #[account(mut)]
     pub payer: Signer<'info>,
     /// Token Program: Required for transferring the assets between all token
-    /// accounts involved in the swap
-    pub token_program: Program<'info, token::Token>,
+    /// accounts involved in the swap (the token program that owns all of the
+    /// pool's assets)
+    pub token_program: Interface<'info, token_interface::TokenInterface>,
     pub system_program: Program<'info, System>,
     pub associated_token_program: Program<'info, AssociatedToken>,
 }
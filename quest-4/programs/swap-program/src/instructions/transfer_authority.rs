@@ -0,0 +1,28 @@
+//! Instruction: TransferAuthority
+use anchor_lang::prelude::*;
+
+use crate::error::SwapProgramError;
+use crate::state::*;
+
+/// Hand the pool's authority over to a new address
+///
+/// The new authority doesn't need to sign, so make sure it's an address you
+/// control: the current authority can no longer administer the pool afterwards
+pub fn transfer_authority(ctx: Context<TransferAuthority>, new_authority: Pubkey) -> Result<()> {
+    ctx.accounts.pool.authority = new_authority;
+    Ok(())
+}
+
+#[derive(Accounts)]
+pub struct TransferAuthority<'info> {
+    /// Liquidity Pool
+    #[account(
+        mut,
+        seeds = [LiquidityPool::SEED_PREFIX.as_bytes()],
+        bump = pool.bump,
+        has_one = authority @ SwapProgramError::InvalidPoolAuthority,
+    )]
+    pub pool: Account<'info, LiquidityPool>,
+    /// The Liquidity Pool's current authority
+    pub authority: Signer<'info>,
+}
@@ -0,0 +1,83 @@
+//! Instruction: Withdraw
+use anchor_lang::prelude::*;
+use anchor_spl::{token, token_interface};
+
+use crate::error::SwapProgramError;
+use crate::state::*;
+
+/// Withdraw liquidity from the pool by redeeming LP shares for a proportional
+/// slice of every asset in the pool
+///
+/// For each asset in the pool (in the order of the `LiquidityPool` data's list
+/// of mint addresses), the remaining accounts must include the mint, the
+/// pool's associated token account and the Liquidity Provider's token account
+///
+/// The pool's new balances are read from those associated token accounts and
+/// recorded into its price accumulators, so no other account owned by the
+/// pool can stand in for them
+pub fn withdraw(ctx: Context<Withdraw>, shares: u64) -> Result<()> {
+    // Make sure the amount is not zero
+    if shares == 0 {
+        return Err(SwapProgramError::InvalidWithdrawZeroShares.into());
+    }
+
+    // The slice of each asset is determined from the supply before burning
+    let lp_supply = ctx.accounts.lp_mint.supply;
+
+    process_burn_shares(
+        &ctx.accounts.lp_mint,
+        &ctx.accounts.payer_lp_token_account,
+        shares,
+        &ctx.accounts.payer,
+        &ctx.accounts.lp_token_program,
+    )?;
+
+    let balances = ctx.accounts.pool.process_withdraw(
+        ctx.remaining_accounts,
+        shares,
+        lp_supply,
+        &ctx.accounts.token_program,
+    )?;
+
+    // Every pair of assets has a new price from here on
+    ctx.accounts.pool.accumulate_prices(&balances)
+}
+
+#[derive(Accounts)]
+pub struct Withdraw<'info> {
+    /// Liquidity Pool
+    #[account(
+        mut,
+        seeds = [LiquidityPool::SEED_PREFIX.as_bytes()],
+        bump = pool.bump,
+    )]
+    pub pool: Account<'info, LiquidityPool>,
+    /// The mint for the Liquidity Pool's LP shares
+    #[account(
+        mut,
+        seeds = [LiquidityPool::LP_MINT_SEED_PREFIX.as_bytes()],
+        bump = pool.lp_mint_bump,
+    )]
+    pub lp_mint: Account<'info, token::Mint>,
+    /// The Liquidity Provider's token account for the LP shares being redeemed
+    /// (which will be burned)
+    #[account(
+        mut,
+        token::mint = lp_mint,
+        token::authority = payer,
+    )]
+    pub payer_lp_token_account: Account<'info, token::TokenAccount>,
+    /// The Liquidity Provider redeeming their LP shares
+    #[account(mut)]
+    pub payer: Signer<'info>,
+    /// Token Program: Required for transferring the assets from the Liquidity
+    /// Pool's token accounts (the token program that owns all of the pool's
+    /// assets)
+    #[account(
+        constraint = pool.assets.is_empty() || token_program.key() == pool.token_program @ SwapProgramError::InvalidAssetTokenProgram,
+    )]
+    pub token_program: Interface<'info, token_interface::TokenInterface>,
+    /// LP Token Program: Required for burning the LP shares (always the SPL
+    /// Token program)
+    pub lp_token_program: Program<'info, token::Token>,
+}
@@ -1,6 +1,7 @@
 //! Swap program
 #![allow(clippy::result_large_err)]
 pub mod error;
+pub mod events;
 pub mod instructions;
 pub mod state;
 
@@ -13,18 +14,45 @@ declare_id!("FVCG6YkMbACgskY3ZrwqWFr45ERgJuKrf7C9dRDh6LjX");
 pub mod swap_program {
     use super::*;
 
-    /// Initialize the program by creating the liquidity pool
-    pub fn create_pool(ctx: Context<CreatePool>) -> Result<()> {
-        instructions::create_pool(ctx)
+    /// Initialize the program by creating the liquidity pool and its LP share
+    /// mint, with a swap fee of `fee_bps` basis points
+    pub fn create_pool(ctx: Context<CreatePool>, fee_bps: u16) -> Result<()> {
+        instructions::create_pool(ctx, fee_bps)
     }
 
-    /// Provide liquidity to the pool by funding it with some asset
+    /// Provide liquidity to the pool by funding it with some asset, in exchange
+    /// for LP shares
     pub fn fund_pool(ctx: Context<FundPool>, amount: u64) -> Result<()> {
         instructions::fund_pool(ctx, amount)
     }
 
-    /// Swap assets using the DEX
-    pub fn swap(ctx: Context<Swap>, amount_to_swap: u64) -> Result<()> {
-        instructions::swap(ctx, amount_to_swap)
+    /// Swap assets using the DEX, receiving no less than `min_receive`
+    pub fn swap(ctx: Context<Swap>, amount_to_swap: u64, min_receive: u64) -> Result<()> {
+        instructions::swap(ctx, amount_to_swap, min_receive)
+    }
+
+    /// Withdraw liquidity from the pool by redeeming LP shares for a
+    /// proportional slice of every asset in the pool
+    pub fn withdraw(ctx: Context<Withdraw>, shares: u64) -> Result<()> {
+        instructions::withdraw(ctx, shares)
+    }
+
+    /// Pause or resume swaps and deposits (authority only)
+    pub fn set_paused(ctx: Context<SetPaused>, paused: bool) -> Result<()> {
+        instructions::set_paused(ctx, paused)
+    }
+
+    /// Delist an asset from the pool, sweeping the pool's balance of it to the
+    /// authority if `sweep` is set (authority only)
+    pub fn remove_asset(ctx: Context<RemoveAsset>, sweep: bool) -> Result<()> {
+        instructions::remove_asset(ctx, sweep)
+    }
+
+    /// Hand the pool's authority over to a new address (authority only)
+    pub fn transfer_authority(
+        ctx: Context<TransferAuthority>,
+        new_authority: Pubkey,
+    ) -> Result<()> {
+        instructions::transfer_authority(ctx, new_authority)
     }
 }
@@ -1,6 +1,10 @@
 //! Swap program account state
 use anchor_lang::{prelude::*, system_program};
-use anchor_spl::token::{transfer, Mint, Token, TokenAccount, Transfer};
+use anchor_spl::associated_token::get_associated_token_address_with_program_id;
+use anchor_spl::token::{self, Burn, MintTo, Token};
+use anchor_spl::token_interface::{
+    transfer_checked, Mint, TokenAccount, TokenInterface, TransferChecked,
+};
 use std::ops::{Add, Div, Mul};
 
 use crate::error::SwapProgramError;
@@ -10,7 +14,23 @@ use crate::error::SwapProgramError;
 #[account]
 pub struct LiquidityPool {
     pub assets: Vec<Pubkey>,
+    /// The token program that owns every asset's mint (either the SPL Token or
+    /// the Token-2022 program), set when the first asset is listed
+    pub token_program: Pubkey,
     pub bump: u8,
+    /// Bump of the mint for the pool's liquidity provider (LP) shares
+    pub lp_mint_bump: u8,
+    /// The swap fee, in basis points of the amount paid, which stays in the
+    /// pool for its Liquidity Providers
+    pub fee_bps: u16,
+    /// The pool's administrator, who lists and delists assets, pauses the pool
+    /// and can hand the role over
+    pub authority: Pubkey,
+    /// Whether swaps and deposits are paused (withdrawals never are)
+    pub paused: bool,
+    /// The cumulative prices of every pair of assets swapped so far (see
+    /// `PriceAccumulator`)
+    pub price_accumulators: Vec<PriceAccumulator>,
 }
 
 impl LiquidityPool {
@@ -18,18 +38,111 @@ impl LiquidityPool {
     /// derive it's program-derived address
     pub const SEED_PREFIX: &'static str = "liquidity_pool";
 
-    /// Anchor discriminator + Vec (empty) + u8
-    pub const SPACE: usize = 8 + 4 + 1;
+    /// The LP share mint's seed prefix, and the only seed used to derive its
+    /// program-derived address
+    pub const LP_MINT_SEED_PREFIX: &'static str = "lp_mint";
+
+    /// The LP share mint's decimal places
+    pub const LP_MINT_DECIMALS: u8 = 9;
+
+    /// The LP shares minted for the first deposit into a pool with no shares
+    /// (1,000 shares)
+    pub const INITIAL_LP_SHARES: u64 = 1_000_000_000_000;
+
+    /// The highest swap fee a pool can be created with, in basis points
+    /// (10%)
+    pub const MAX_FEE_BPS: u16 = 1_000;
+
+    /// Anchor discriminator + Vec (empty) + Pubkey + u8 + u8 + u16 + Pubkey +
+    /// bool + Vec (empty)
+    pub const SPACE: usize = 8 + 4 + 32 + 1 + 1 + 2 + 32 + 1 + 4;
 
     /// Creates a new `LiquidityPool1 state
-    pub fn new(bump: u8) -> Self {
+    pub fn new(bump: u8, lp_mint_bump: u8, fee_bps: u16, authority: Pubkey) -> Self {
         Self {
             assets: vec![],
+            token_program: Pubkey::default(),
             bump,
+            lp_mint_bump,
+            fee_bps,
+            authority,
+            paused: false,
+            price_accumulators: vec![],
         }
     }
 }
 
+/// The cumulative prices of a pair of the pool's assets, from which anyone can
+/// calculate the pair's time-weighted average price (TWAP) between two
+/// observations:
+///
+/// ```
+/// TWAP = (cumulative_2 - cumulative_1) / (timestamp_2 - timestamp_1)
+/// ```
+///
+/// Every swap, deposit or withdrawal that changes the pool's balance of either
+/// asset adds the price it held since the last update times the seconds
+/// elapsed, so moving the price within a single transaction (and back again)
+/// barely moves the TWAP
+///
+/// Prices are `Q64.64` fixed-point numbers (the price times 2^64) of one base
+/// unit, and the cumulative prices wrap around on overflow, so only the
+/// difference between two observations is meaningful
+#[derive(AnchorSerialize, AnchorDeserialize, Clone)]
+pub struct PriceAccumulator {
+    /// The pair's lower mint address
+    pub mint_a: Pubkey,
+    /// The pair's higher mint address
+    pub mint_b: Pubkey,
+    /// The pool's balance of `mint_a` as of the last update
+    pub balance_a: u64,
+    /// The pool's balance of `mint_b` as of the last update
+    pub balance_b: u64,
+    /// The cumulative price of `mint_a` in `mint_b`
+    pub price_a_cumulative: u128,
+    /// The cumulative price of `mint_b` in `mint_a`
+    pub price_b_cumulative: u128,
+    /// The Unix timestamp of the last update
+    pub last_timestamp: i64,
+}
+
+impl PriceAccumulator {
+    /// Pubkey + Pubkey + u64 + u64 + u128 + u128 + i64
+    pub const SPACE: usize = 32 + 32 + 8 + 8 + 16 + 16 + 8;
+
+    /// Creates a new `PriceAccumulator` for a pair, starting at `timestamp`
+    /// with the pool's balances of each asset
+    pub fn new(mint_a: Pubkey, mint_b: Pubkey, balances: (u64, u64), timestamp: i64) -> Self {
+        Self {
+            mint_a,
+            mint_b,
+            balance_a: balances.0,
+            balance_b: balances.1,
+            price_a_cumulative: 0,
+            price_b_cumulative: 0,
+            last_timestamp: timestamp,
+        }
+    }
+
+    /// Adds the pair's price since the last update - from the pool's balances
+    /// of each asset recorded then - times the seconds elapsed, and records
+    /// the pool's new balances
+    pub fn update(&mut self, balance_a: u64, balance_b: u64, timestamp: i64) {
+        if timestamp > self.last_timestamp && self.balance_a > 0 && self.balance_b > 0 {
+            let elapsed = (timestamp - self.last_timestamp) as u128;
+            self.price_a_cumulative = self.price_a_cumulative.wrapping_add(
+                determine_price_q64(self.balance_b, self.balance_a).wrapping_mul(elapsed),
+            );
+            self.price_b_cumulative = self.price_b_cumulative.wrapping_add(
+                determine_price_q64(self.balance_a, self.balance_b).wrapping_mul(elapsed),
+            );
+        }
+        self.balance_a = balance_a;
+        self.balance_b = balance_b;
+        self.last_timestamp = self.last_timestamp.max(timestamp);
+    }
+}
+
 /// Trait used to wrap functionality for the Liquidity Pool that can be called
 /// on the Liquidity Pool account as it's pulled from an Anchor Context, ie.
 /// `Account<'_, LiquidityPool>`
@@ -40,6 +153,16 @@ pub trait LiquidityPoolAccount<'info> {
         key: Pubkey,
         payer: &Signer<'info>,
         system_program: &Program<'info, System>,
+        token_program: &Interface<'info, TokenInterface>,
+    ) -> Result<()>;
+    fn remove_asset(&mut self, key: &Pubkey, authority: &Signer<'info>) -> Result<()>;
+    fn accumulate_prices(&mut self, balances: &[(Pubkey, u64)]) -> Result<()>;
+    fn add_price_accumulator(
+        &mut self,
+        mints: (Pubkey, Pubkey),
+        balances: (u64, u64),
+        payer: &Signer<'info>,
+        system_program: &Program<'info, System>,
     ) -> Result<()>;
     fn realloc(
         &mut self,
@@ -50,31 +173,46 @@ pub trait LiquidityPoolAccount<'info> {
     fn fund(
         &mut self,
         deposit: (
-            &Account<'info, Mint>,
-            &Account<'info, TokenAccount>,
-            &Account<'info, TokenAccount>,
+            &InterfaceAccount<'info, Mint>,
+            &InterfaceAccount<'info, TokenAccount>,
+            &InterfaceAccount<'info, TokenAccount>,
             u64,
         ),
         authority: &Signer<'info>,
         system_program: &Program<'info, System>,
-        token_program: &Program<'info, Token>,
+        token_program: &Interface<'info, TokenInterface>,
     ) -> Result<()>;
     fn process_swap(
-        &mut self,
+        &self,
         receive: (
-            &Account<'info, Mint>,
-            &Account<'info, TokenAccount>,
-            &Account<'info, TokenAccount>,
+            &InterfaceAccount<'info, Mint>,
+            &InterfaceAccount<'info, TokenAccount>,
+            &InterfaceAccount<'info, TokenAccount>,
         ),
         pay: (
-            &Account<'info, Mint>,
-            &Account<'info, TokenAccount>,
-            &Account<'info, TokenAccount>,
+            &InterfaceAccount<'info, Mint>,
+            &InterfaceAccount<'info, TokenAccount>,
+            &mut InterfaceAccount<'info, TokenAccount>,
             u64,
         ),
+        min_receive: u64,
         authority: &Signer<'info>,
-        token_program: &Program<'info, Token>,
-    ) -> Result<()>;
+        token_program: &Interface<'info, TokenInterface>,
+    ) -> Result<(u64, u64)>;
+    fn mint_shares(
+        &self,
+        lp_mint: &Account<'info, token::Mint>,
+        to: &Account<'info, token::TokenAccount>,
+        deposit: (u64, u64, u64),
+        lp_token_program: &Program<'info, Token>,
+    ) -> Result<u64>;
+    fn process_withdraw(
+        &self,
+        asset_accounts: &[AccountInfo<'info>],
+        shares: u64,
+        lp_supply: u64,
+        token_program: &Interface<'info, TokenInterface>,
+    ) -> Result<Vec<(Pubkey, u64)>>;
 }
 
 impl<'info> LiquidityPoolAccount<'info> for Account<'info, LiquidityPool> {
@@ -91,6 +229,13 @@ impl<'info> LiquidityPoolAccount<'info> for Account<'info, LiquidityPool> {
     /// Adds an asset to the Liquidity Pool's list of mint addresses if it does
     /// not already exist in the list
     ///
+    /// Only the pool's authority can list a new asset, so a payer who isn't
+    /// the authority can only fund assets already in the pool
+    ///
+    /// Every asset must be owned by the same token program, since swaps and
+    /// withdrawals transfer all of them with one, so the first asset listed
+    /// sets the pool's `token_program`
+    ///
     /// if the mint address is added, this will require reallocation of the
     /// account's size since the vector will be increasing by one `Pubkey`,
     /// which has a size of 32 bytes
@@ -99,10 +244,19 @@ impl<'info> LiquidityPoolAccount<'info> for Account<'info, LiquidityPool> {
         key: Pubkey,
         payer: &Signer<'info>,
         system_program: &Program<'info, System>,
+        token_program: &Interface<'info, TokenInterface>,
     ) -> Result<()> {
         match self.check_asset_key(&key) {
             Ok(()) => (),
             Err(_) => {
+                if payer.key() != self.authority {
+                    return Err(SwapProgramError::InvalidPoolAuthority.into());
+                }
+                if self.assets.is_empty() {
+                    self.token_program = token_program.key();
+                } else if token_program.key() != self.token_program {
+                    return Err(SwapProgramError::InvalidAssetTokenProgram.into());
+                }
                 self.realloc(32, payer, system_program)?;
                 self.assets.push(key)
             }
@@ -110,6 +264,99 @@ impl<'info> LiquidityPoolAccount<'info> for Account<'info, LiquidityPool> {
         Ok(())
     }
 
+    /// Removes an asset from the Liquidity Pool's list of mint addresses, along
+    /// with the price accumulators of its pairs
+    ///
+    /// The account shrinks by the removed `Pubkey` (32 bytes) and accumulators,
+    /// and the rent it no longer needs is returned to the authority
+    fn remove_asset(&mut self, key: &Pubkey, authority: &Signer<'info>) -> Result<()> {
+        self.check_asset_key(key)?;
+        self.assets.retain(|asset| asset != key);
+        let accumulator_count = self.price_accumulators.len();
+        self.price_accumulators
+            .retain(|accumulator| accumulator.mint_a != *key && accumulator.mint_b != *key);
+        let removed_accumulators = accumulator_count - self.price_accumulators.len();
+
+        let account_info = self.to_account_info();
+        let new_account_size =
+            account_info.data_len() - 32 - removed_accumulators * PriceAccumulator::SPACE;
+        account_info.realloc(new_account_size, false)?;
+
+        // The pool is owned by this program, so it can debit its own lamports
+        let excess_rent = account_info
+            .lamports()
+            .saturating_sub((Rent::get()?).minimum_balance(new_account_size));
+        **account_info.try_borrow_mut_lamports()? -= excess_rent;
+        **authority.to_account_info().try_borrow_mut_lamports()? += excess_rent;
+        Ok(())
+    }
+
+    /// Updates the price accumulator of every pair of assets involving one of
+    /// the assets whose balance changed, given the pool's new balances of
+    /// those assets
+    ///
+    /// Each pair's price held since its last update, so every change to
+    /// either asset's balance must update it - the balance of a pair's other
+    /// asset is unchanged since then, as its accumulator recorded it
+    fn accumulate_prices(&mut self, balances: &[(Pubkey, u64)]) -> Result<()> {
+        let timestamp = Clock::get()?.unix_timestamp;
+        let new_balance = |mint: &Pubkey| {
+            balances
+                .iter()
+                .find(|(key, _)| key == mint)
+                .map(|(_, balance)| *balance)
+        };
+        for accumulator in self.price_accumulators.iter_mut() {
+            let balance_a = new_balance(&accumulator.mint_a);
+            let balance_b = new_balance(&accumulator.mint_b);
+            if balance_a.is_some() || balance_b.is_some() {
+                accumulator.update(
+                    balance_a.unwrap_or(accumulator.balance_a),
+                    balance_b.unwrap_or(accumulator.balance_b),
+                    timestamp,
+                );
+            }
+        }
+        Ok(())
+    }
+
+    /// Creates the price accumulator of a pair of assets on the pair's first
+    /// swap, from the pool's balances of each after the swap
+    ///
+    /// Creating the accumulator requires reallocation of the account's size,
+    /// paid for by the payer, since the vector will be increasing by one
+    /// `PriceAccumulator`
+    fn add_price_accumulator(
+        &mut self,
+        mints: (Pubkey, Pubkey),
+        balances: (u64, u64),
+        payer: &Signer<'info>,
+        system_program: &Program<'info, System>,
+    ) -> Result<()> {
+        // Each pair is stored once, ordered by mint address
+        let ((mint_a, balance_a), (mint_b, balance_b)) = if mints.0 < mints.1 {
+            ((mints.0, balances.0), (mints.1, balances.1))
+        } else {
+            ((mints.1, balances.1), (mints.0, balances.0))
+        };
+        if self
+            .price_accumulators
+            .iter()
+            .any(|accumulator| accumulator.mint_a == mint_a && accumulator.mint_b == mint_b)
+        {
+            return Ok(());
+        }
+        let timestamp = Clock::get()?.unix_timestamp;
+        self.realloc(PriceAccumulator::SPACE, payer, system_program)?;
+        self.price_accumulators.push(PriceAccumulator::new(
+            mint_a,
+            mint_b,
+            (balance_a, balance_b),
+            timestamp,
+        ));
+        Ok(())
+    }
+
     /// Reallocates the account's size to accommodate for changes in the data
     /// size. This is used in this program to reallocate the Liquidity Pool's
     /// account when it's vector of mint addresses (`Vec<Pubkey>`) is increased
@@ -154,18 +401,18 @@ impl<'info> LiquidityPoolAccount<'info> for Account<'info, LiquidityPool> {
     fn fund(
         &mut self,
         deposit: (
-            &Account<'info, Mint>,
-            &Account<'info, TokenAccount>,
-            &Account<'info, TokenAccount>,
+            &InterfaceAccount<'info, Mint>,
+            &InterfaceAccount<'info, TokenAccount>,
+            &InterfaceAccount<'info, TokenAccount>,
             u64,
         ),
         authority: &Signer<'info>,
         system_program: &Program<'info, System>,
-        token_program: &Program<'info, Token>,
+        token_program: &Interface<'info, TokenInterface>,
     ) -> Result<()> {
         let (mint, from, to, amount) = deposit;
-        self.add_asset(mint.key(), authority, system_program)?;
-        process_transfer_to_pool(from, to, amount, authority, token_program)?;
+        self.add_asset(mint.key(), authority, system_program, token_program)?;
+        process_transfer_to_pool(from, to, mint, amount, authority, token_program)?;
         Ok(())
     }
 
@@ -176,103 +423,275 @@ impl<'info> LiquidityPoolAccount<'info> for Account<'info, LiquidityPool> {
     /// exchange - are present in the `LiquidityPool` data's list of supported
     /// mint addresses
     ///
-    /// It will then calculate the amount of the requested "receive" assets
-    /// based on the user's proposed amount of asset to pay, using the
-    /// constant-product algorithm `r = f(p)`
+    /// It will then transfer the user's proposed amount of asset to pay into the
+    /// pool, and calculate the amount of the requested "receive" assets based
+    /// on the amount the pool received (less than the amount paid for
+    /// Token-2022 mints with a transfer fee, which is withheld from it), using
+    /// the constant-product algorithm `r = f(p)`, and make sure it is at least
+    /// the `min_receive` amount the user is willing to accept
     ///
-    /// Once calculated, it will process both transfers
+    /// Once calculated, it will transfer the receive amount to the user, and
+    /// return the swap's `(fee, receive_amount)`
     fn process_swap(
-        &mut self,
+        &self,
         receive: (
-            &Account<'info, Mint>,
-            &Account<'info, TokenAccount>,
-            &Account<'info, TokenAccount>,
+            &InterfaceAccount<'info, Mint>,
+            &InterfaceAccount<'info, TokenAccount>,
+            &InterfaceAccount<'info, TokenAccount>,
         ),
         pay: (
-            &Account<'info, Mint>,
-            &Account<'info, TokenAccount>,
-            &Account<'info, TokenAccount>,
+            &InterfaceAccount<'info, Mint>,
+            &InterfaceAccount<'info, TokenAccount>,
+            &mut InterfaceAccount<'info, TokenAccount>,
             u64,
         ),
+        min_receive: u64,
         authority: &Signer<'info>,
-        token_program: &Program<'info, Token>,
-    ) -> Result<()> {
+        token_program: &Interface<'info, TokenInterface>,
+    ) -> Result<(u64, u64)> {
         // (From, To)
         let (receive_mint, pool_recieve, payer_recieve) = receive;
         self.check_asset_key(&receive_mint.key())?;
         // (From, To)
         let (pay_mint, payer_pay, pool_pay, pay_amount) = pay;
         self.check_asset_key(&pay_mint.key())?;
+        // Transfer the payment in first, and use the amount the pool received,
+        // since Token-2022 transfer fees are withheld from it
+        let pool_pay_balance = pool_pay.amount;
+        process_transfer_to_pool(
+            payer_pay,
+            pool_pay,
+            pay_mint,
+            pay_amount,
+            authority,
+            token_program,
+        )?;
+        pool_pay.reload()?;
+        let received = pool_pay
+            .amount
+            .checked_sub(pool_pay_balance)
+            .ok_or(SwapProgramError::InvalidArithmetic)?;
+        // Take the pool's fee out of the amount received: the pool keeps all
+        // of `p`, but only `p - fee` is swapped, so `K` grows by the fee
+        let fee = determine_swap_fee(received, self.fee_bps)?;
         // Determine the amount the payer will recieve of the requested asset
         let receive_amount = determine_swap_receive(
             pool_recieve.amount,
             receive_mint.decimals,
-            pool_pay.amount,
+            pool_pay_balance,
             pay_mint.decimals,
-            pay_amount,
+            received - fee,
         )?;
         // Process the swap
         if receive_amount == 0 {
             Err(SwapProgramError::InvalidSwapNotEnoughPay.into())
+        } else if receive_amount < min_receive {
+            Err(SwapProgramError::InvalidSwapSlippageExceeded.into())
         } else {
-            process_transfer_to_pool(payer_pay, pool_pay, pay_amount, authority, token_program)?;
             process_transfer_from_pool(
                 pool_recieve,
                 payer_recieve,
+                receive_mint,
                 receive_amount,
                 self,
                 token_program,
             )?;
-            Ok(())
+            Ok((fee, receive_amount))
         }
     }
+
+    /// Mints LP shares to a Liquidity Provider's token account for their
+    /// deposit, signed by the Liquidity Pool (the LP share mint's authority),
+    /// and returns the shares minted
+    ///
+    /// The deposit is provided as the pool's balance of the asset before the
+    /// deposit, the number of other assets in the pool (both measured before
+    /// funding) and the amount the pool received
+    ///
+    /// Listing a new asset in a pool that already has LP shares only seeds the
+    /// asset's price, so it mints no shares (see `determine_lp_shares`)
+    fn mint_shares(
+        &self,
+        lp_mint: &Account<'info, token::Mint>,
+        to: &Account<'info, token::TokenAccount>,
+        deposit: (u64, u64, u64),
+        lp_token_program: &Program<'info, Token>,
+    ) -> Result<u64> {
+        let (pool_balance, other_asset_count, amount) = deposit;
+        if pool_balance == 0 && lp_mint.supply > 0 {
+            return Ok(0);
+        }
+        let shares = determine_lp_shares(
+            lp_mint.supply,
+            pool_balance,
+            other_asset_count,
+            amount,
+            self.fee_bps,
+        )?;
+        if shares == 0 {
+            return Err(SwapProgramError::InvalidFundZeroShares.into());
+        }
+        token::mint_to(
+            CpiContext::new_with_signer(
+                lp_token_program.to_account_info(),
+                MintTo {
+                    mint: lp_mint.to_account_info(),
+                    to: to.to_account_info(),
+                    authority: self.to_account_info(),
+                },
+                &[&[LiquidityPool::SEED_PREFIX.as_bytes(), &[self.bump]]],
+            ),
+            shares,
+        )?;
+        Ok(shares)
+    }
+
+    /// Processes a withdrawal of `shares` out of the LP share mint's
+    /// `lp_supply`, transferring the Liquidity Provider their proportional
+    /// slice of every asset in the pool
+    ///
+    /// The asset accounts are provided as three accounts for each asset in
+    /// the `LiquidityPool` data's list of mint addresses (and in the same
+    /// order): the mint, the pool's token account and the Liquidity Provider's
+    /// token account
+    ///
+    /// The pool's token account must be the pool's associated token account
+    /// for the asset, since both the amount withdrawn and the balance recorded
+    /// for its price accumulators are read from it
+    ///
+    /// Returns the pool's new balance of every asset
+    fn process_withdraw(
+        &self,
+        asset_accounts: &[AccountInfo<'info>],
+        shares: u64,
+        lp_supply: u64,
+        token_program: &Interface<'info, TokenInterface>,
+    ) -> Result<Vec<(Pubkey, u64)>> {
+        if asset_accounts.len() != self.assets.len() * 3 {
+            return Err(SwapProgramError::InvalidWithdrawAccounts.into());
+        }
+        let mut balances = Vec::with_capacity(self.assets.len());
+        for (key, accounts) in self.assets.iter().zip(asset_accounts.chunks(3)) {
+            let mint = InterfaceAccount::<Mint>::try_from(&accounts[0])?;
+            let pool_token_account = InterfaceAccount::<TokenAccount>::try_from(&accounts[1])?;
+            let provider_token_account = InterfaceAccount::<TokenAccount>::try_from(&accounts[2])?;
+            // Make sure the accounts belong to this asset, and that the
+            // pool's token account is the pool's associated token account
+            let pool_ata =
+                get_associated_token_address_with_program_id(&self.key(), key, &self.token_program);
+            if !mint.key().eq(key)
+                || !pool_token_account.key().eq(&pool_ata)
+                || !provider_token_account.mint.eq(key)
+            {
+                return Err(SwapProgramError::InvalidWithdrawAccounts.into());
+            }
+            let amount = determine_withdraw_amount(pool_token_account.amount, shares, lp_supply)?;
+            if amount > 0 {
+                process_transfer_from_pool(
+                    &pool_token_account,
+                    &provider_token_account,
+                    &mint,
+                    amount,
+                    self,
+                    token_program,
+                )?;
+            }
+            balances.push((*key, pool_token_account.amount - amount));
+        }
+        Ok(balances)
+    }
 }
 
 /// Process a transfer from one the payer's token account to the
 /// pool's token account using a CPI
+///
+/// Transfers are checked against the mint, so they work for both SPL Token and
+/// Token-2022 mints. Note: for Token-2022 mints with a transfer fee, the fee is
+/// withheld from the amount the pool receives
 fn process_transfer_to_pool<'info>(
-    from: &Account<'info, TokenAccount>,
-    to: &Account<'info, TokenAccount>,
+    from: &InterfaceAccount<'info, TokenAccount>,
+    to: &InterfaceAccount<'info, TokenAccount>,
+    mint: &InterfaceAccount<'info, Mint>,
     amount: u64,
     authority: &Signer<'info>,
-    token_program: &Program<'info, Token>,
+    token_program: &Interface<'info, TokenInterface>,
 ) -> Result<()> {
-    transfer(
+    transfer_checked(
         CpiContext::new(
             token_program.to_account_info(),
-            Transfer {
+            TransferChecked {
                 from: from.to_account_info(),
+                mint: mint.to_account_info(),
                 to: to.to_account_info(),
                 authority: authority.to_account_info(),
             },
         ),
         amount,
+        mint.decimals,
     )
 }
 
 /// Process a transfer from the pool's token account to the
 /// payer's token account using a CPI with signer seeds
-fn process_transfer_from_pool<'info>(
-    from: &Account<'info, TokenAccount>,
-    to: &Account<'info, TokenAccount>,
+pub fn process_transfer_from_pool<'info>(
+    from: &InterfaceAccount<'info, TokenAccount>,
+    to: &InterfaceAccount<'info, TokenAccount>,
+    mint: &InterfaceAccount<'info, Mint>,
     amount: u64,
     pool: &Account<'info, LiquidityPool>,
-    token_program: &Program<'info, Token>,
+    token_program: &Interface<'info, TokenInterface>,
 ) -> Result<()> {
-    transfer(
+    transfer_checked(
         CpiContext::new_with_signer(
             token_program.to_account_info(),
-            Transfer {
+            TransferChecked {
                 from: from.to_account_info(),
+                mint: mint.to_account_info(),
                 to: to.to_account_info(),
                 authority: pool.to_account_info(),
             },
             &[&[LiquidityPool::SEED_PREFIX.as_bytes(), &[pool.bump]]],
         ),
         amount,
+        mint.decimals,
     )
 }
 
+/// The swap fee taken out of the amount paid `p`, in the pay asset's real
+/// quantity:
+///
+/// ```
+/// fee = (p * fee_bps) / 10,000
+/// ```
+///
+/// Rounded up in favor of the pool, so any nonzero fee charges at least 1
+/// unit - `fee_bps` never exceeds `LiquidityPool::MAX_FEE_BPS`, so the fee is
+/// always less than `p`
+fn determine_swap_fee(pay_amount: u64, fee_bps: u16) -> Result<u64> {
+    let p = pay_amount as u128;
+    let numerator = p
+        .checked_mul(fee_bps as u128)
+        .ok_or(SwapProgramError::InvalidArithmetic)?;
+    let fee = numerator
+        .checked_add(9_999)
+        .ok_or(SwapProgramError::InvalidArithmetic)?
+        / 10_000;
+    // `fee` can't exceed `p`, so it always fits in a `u64`
+    Ok(fee as u64)
+}
+
+/// A price as a `Q64.64` fixed-point number: the amount of the numerator's
+/// asset for one base unit of the denominator's asset, times 2^64
+///
+/// ```
+/// price = (numerator << 64) / denominator
+/// ```
+///
+/// The numerator is a `u64`, so the price always fits in a `u128`
+fn determine_price_q64(numerator: u64, denominator: u64) -> u128 {
+    ((numerator as u128) << 64) / (denominator as u128)
+}
+
 /// The constant-product algorithm `f(p)` to determine the allowed amount of the
 /// receiving asset that can be returned in exchange for the amount of the paid
 /// asset offered
@@ -336,3 +755,153 @@ fn convert_to_float(value: u64, decimals: u8) -> f32 {
 fn convert_from_float(value: f32, decimals: u8) -> u64 {
     value.mul(f32::powf(10.0, decimals as f32)) as u64
 }
+
+/// Burns a Liquidity Provider's LP shares as they're redeemed
+pub fn process_burn_shares<'info>(
+    lp_mint: &Account<'info, token::Mint>,
+    from: &Account<'info, token::TokenAccount>,
+    shares: u64,
+    authority: &Signer<'info>,
+    lp_token_program: &Program<'info, Token>,
+) -> Result<()> {
+    token::burn(
+        CpiContext::new(
+            lp_token_program.to_account_info(),
+            Burn {
+                mint: lp_mint.to_account_info(),
+                from: from.to_account_info(),
+                authority: authority.to_account_info(),
+            },
+        ),
+        shares,
+    )
+}
+
+/// The LP shares to mint for depositing `deposit` of an asset, given the LP
+/// share mint's `lp_supply`, the pool's balance of the asset (`B`) before the
+/// deposit and the pool's swap fee
+///
+/// A one-asset deposit is worth what it grows the pool's invariant by, so the
+/// shares are minted from the growth of `K^(1/n)` - the pool's value per
+/// share is measured by it, and it never falls when the LP shares are
+/// redeemed again:
+///
+/// ```
+/// s = S * ((B + d) / B)^(1/n) - S
+/// ```
+///
+/// Depositing one asset and withdrawing a slice of every asset swaps all but
+/// the deposit's own `d / n` slice, so that part of the deposit pays the swap
+/// fee first. `s` is found by a binary search for the most shares with
+/// `((S + s) / S)^n <= (B + d) / B`, rounded down in favor of the pool
+///
+/// A new asset (or one with no balance) has no price in the pool yet, so
+/// listing it only seeds its price and mints no shares, and the first deposit
+/// into a pool with no shares mints `INITIAL_LP_SHARES`
+fn determine_lp_shares(
+    lp_supply: u64,
+    pool_balance: u64,
+    other_asset_count: u64,
+    deposit: u64,
+    fee_bps: u16,
+) -> Result<u64> {
+    if deposit == 0 {
+        return Ok(0);
+    }
+    if lp_supply == 0 {
+        return Ok(LiquidityPool::INITIAL_LP_SHARES);
+    }
+    if pool_balance == 0 {
+        return Ok(0);
+    }
+    let n = other_asset_count + 1;
+    let swapped = deposit - deposit / n;
+    let d = deposit - determine_swap_fee(swapped, fee_bps)?;
+    // The growth of the asset's balance, `(B + d) / B`, rounded down
+    let growth = (pool_balance as u128)
+        .checked_add(d as u128)
+        .and_then(|balance| balance.checked_mul(Q64_ONE))
+        .ok_or(SwapProgramError::InvalidArithmetic)?
+        / (pool_balance as u128);
+    // `((1 + x)^(1/n) <= 1 + x/n`, so the shares can't exceed `(S * d) / (n *
+    // B)`
+    let max_shares = (lp_supply as u128)
+        .checked_mul(d as u128)
+        .ok_or(SwapProgramError::InvalidArithmetic)?
+        / (n as u128 * pool_balance as u128);
+    let mut low = 0u64;
+    let mut high = u64::try_from(max_shares)
+        .unwrap_or(u64::MAX)
+        .min(u64::MAX - lp_supply);
+    while low < high {
+        let mid = low + (high - low + 1) / 2;
+        if supply_growth_within(lp_supply, mid, n, growth) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+    Ok(low)
+}
+
+/// 1 as a `Q64.64` fixed-point number
+const Q64_ONE: u128 = 1 << 64;
+
+/// Whether minting `shares` grows the LP share mint's `lp_supply` (`S`) by no
+/// more than the `n`-th root of `growth` (a `Q64.64` fixed-point number)
+///
+/// ```
+/// ((S + s) / S)^n <= growth
+/// ```
+///
+/// The power is rounded up, so it's never mistaken as within the growth
+fn supply_growth_within(lp_supply: u64, shares: u64, n: u64, growth: u128) -> bool {
+    // `S + s` fits in a `u64`, so shifting it by 64 bits can't overflow
+    let new_supply = (lp_supply as u128 + shares as u128) << 64;
+    let ratio = (new_supply + lp_supply as u128 - 1) / lp_supply as u128;
+    let mut power = Q64_ONE;
+    for _ in 0..n {
+        power = match mul_q64_round_up(power, ratio) {
+            Some(power) if power <= growth => power,
+            _ => return false,
+        };
+    }
+    true
+}
+
+/// Multiplies two `Q64.64` fixed-point numbers, rounding up, or returns `None`
+/// if the product doesn't fit in a `u128`
+///
+/// Each number is split into 64-bit halves, so none of the partial products
+/// can overflow:
+///
+/// ```
+/// (a * b) >> 64 = (a1 * b1) << 64 + a1 * b0 + a0 * b1 + (a0 * b0) >> 64
+/// ```
+fn mul_q64_round_up(a: u128, b: u128) -> Option<u128> {
+    let (a1, a0) = (a >> 64, a & (Q64_ONE - 1));
+    let (b1, b0) = (b >> 64, b & (Q64_ONE - 1));
+    let low = a0 * b0;
+    let carry = (low >> 64) + u128::from(low & (Q64_ONE - 1) != 0);
+    (a1 * b1)
+        .checked_mul(Q64_ONE)?
+        .checked_add(a1 * b0)?
+        .checked_add(a0 * b1)?
+        .checked_add(carry)
+}
+
+/// The amount of an asset to transfer for redeeming `shares` out of the LP
+/// share mint's `lp_supply`, rounded down in favor of the pool
+///
+/// ```
+/// w = (B * s) / S
+/// ```
+fn determine_withdraw_amount(pool_balance: u64, shares: u64, lp_supply: u64) -> Result<u64> {
+    let w = (pool_balance as u128)
+        .checked_mul(shares as u128)
+        .ok_or(SwapProgramError::InvalidArithmetic)?
+        .checked_div(lp_supply as u128)
+        .ok_or(SwapProgramError::InvalidArithmetic)?;
+    // `s` can't exceed `S`, so `w` can't exceed `B` and always fits in a `u64`
+    Ok(w as u64)
+}
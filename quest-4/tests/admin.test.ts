@@ -0,0 +1,198 @@
+import * as anchor from '@coral-xyz/anchor'
+import {
+    createMint,
+    getOrCreateAssociatedTokenAccount,
+    mintTo,
+} from '@solana/spl-token'
+import { Keypair, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js'
+import { assert } from 'chai'
+import { SwapClient } from '../app/src/sdk'
+import { SwapProgram } from '../target/types/swap_program'
+import {
+    fundPool,
+    removeAsset,
+    setPaused,
+    swap,
+    transferAuthority,
+} from './instructions'
+import { TokenAmount } from './util/amount'
+import { mintExistingTokens } from './util/token'
+
+// Decimals and quantity of the asset listed (and removed) by these tests
+const NEW_ASSET_DECIMALS = 6
+const NEW_ASSET_QUANTITY = 100
+
+/**
+ * Administers the pool with its authority (the local wallet), and checks
+ * nobody else can
+ *
+ * Run `main.test.ts` first, so the Liquidity Pool is created and funded
+ */
+describe('[Running Admin Tests]: Swap Program', async () => {
+    // Configurations
+    const provider = anchor.AnchorProvider.env()
+    anchor.setProvider(provider)
+    const program = anchor.workspace.SwapProgram as anchor.Program<SwapProgram>
+    const payer = (provider.wallet as anchor.Wallet).payer
+    const client = new SwapClient(program)
+    // Someone who isn't the pool's authority
+    const outsider = Keypair.generate()
+
+    /**
+     *
+     * Sends a transaction and checks the program rejects it with an error
+     *
+     * @param send The sent transaction
+     * @param code The name of the expected error (as in the IDL)
+     */
+    async function assertRejects(send: Promise<unknown>, code: string) {
+        let logs: string[] = []
+        try {
+            await send
+        } catch (error) {
+            logs = error.logs ?? []
+        }
+        assert.isTrue(
+            logs.some((line) => line.indexOf(`Error Code: ${code}.`) >= 0),
+            `The program must reject the transaction with ${code}`
+        )
+    }
+
+    before('          Fund the outsider', async () => {
+        const signature = await provider.connection.requestAirdrop(
+            outsider.publicKey,
+            LAMPORTS_PER_SOL
+        )
+        await provider.connection.confirmTransaction(
+            {
+                signature,
+                ...(await provider.connection.getLatestBlockhash()),
+            },
+            'confirmed'
+        )
+    })
+
+    it('          Only Authority Can Pause', async () => {
+        const state = await client.fetchPoolState()
+        assert.isTrue(state.authority.equals(payer.publicKey))
+        await assertRejects(
+            setPaused(program, outsider, true),
+            'InvalidPoolAuthority'
+        )
+    })
+
+    it('          Pause Rejects Swaps And Deposits', async () => {
+        const [receive, pay] = (await client.fetchPoolState()).assets
+        await mintExistingTokens(
+            provider.connection,
+            payer,
+            pay.mint,
+            1,
+            pay.decimals
+        )
+        await setPaused(program, payer, true)
+        try {
+            assert.isTrue((await client.fetchPoolState()).paused)
+            await assertRejects(
+                swap(program, payer, receive.mint, pay.mint, 1, pay.decimals),
+                'InvalidPoolPaused'
+            )
+            await assertRejects(
+                fundPool(program, payer, pay.mint, 1, pay.decimals),
+                'InvalidPoolPaused'
+            )
+        } finally {
+            await setPaused(program, payer, false)
+        }
+        assert.isFalse((await client.fetchPoolState()).paused)
+        await swap(program, payer, receive.mint, pay.mint, 1, pay.decimals)
+    })
+
+    it('          Only Authority Can List And Remove Assets', async () => {
+        // A new mint, held by both the outsider and the authority (owned by
+        // the same token program as the pool's other assets)
+        const { tokenProgram } = await client.fetchPoolState()
+        const mint = await createMint(
+            provider.connection,
+            payer,
+            payer.publicKey,
+            null,
+            NEW_ASSET_DECIMALS,
+            undefined,
+            undefined,
+            tokenProgram
+        )
+        for (const owner of [outsider.publicKey, payer.publicKey]) {
+            const tokenAccount = await getOrCreateAssociatedTokenAccount(
+                provider.connection,
+                payer,
+                mint,
+                owner,
+                false,
+                undefined,
+                undefined,
+                tokenProgram
+            )
+            await mintTo(
+                provider.connection,
+                payer,
+                mint,
+                tokenAccount.address,
+                payer,
+                TokenAmount.fromDecimal(NEW_ASSET_QUANTITY, NEW_ASSET_DECIMALS)
+                    .raw,
+                [],
+                undefined,
+                tokenProgram
+            )
+        }
+
+        await assertRejects(
+            fundPool(
+                program,
+                outsider,
+                mint,
+                NEW_ASSET_QUANTITY,
+                NEW_ASSET_DECIMALS
+            ),
+            'InvalidPoolAuthority'
+        )
+        await fundPool(
+            program,
+            payer,
+            mint,
+            NEW_ASSET_QUANTITY,
+            NEW_ASSET_DECIMALS
+        )
+        const listed = (await client.fetchPoolState()).assets
+        assert.isTrue(listed.some((a) => a.mint.equals(mint)))
+
+        await assertRejects(
+            removeAsset(program, outsider, mint, true),
+            'InvalidPoolAuthority'
+        )
+        await assertRejects(
+            removeAsset(program, payer, mint),
+            'InvalidRemoveAssetBalance'
+        )
+        await removeAsset(program, payer, mint, true)
+        const remaining = (await client.fetchPoolState()).assets
+        assert.equal(remaining.length, listed.length - 1)
+        assert.isFalse(remaining.some((a) => a.mint.equals(mint)))
+    })
+
+    it('          Transfer Authority', async () => {
+        await assertRejects(
+            transferAuthority(program, outsider, outsider.publicKey),
+            'InvalidPoolAuthority'
+        )
+        await transferAuthority(program, payer, outsider.publicKey)
+        let authority: PublicKey = (await client.fetchPoolState()).authority
+        assert.isTrue(authority.equals(outsider.publicKey))
+
+        // Hand it back, so the local wallet can keep administering the pool
+        await transferAuthority(program, outsider, payer.publicKey)
+        authority = (await client.fetchPoolState()).authority
+        assert.isTrue(authority.equals(payer.publicKey))
+    })
+})
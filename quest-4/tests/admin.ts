@@ -0,0 +1,139 @@
+import * as anchor from '@coral-xyz/anchor'
+import { PublicKey } from '@solana/web3.js'
+import { LP_MINT_DECIMALS, PoolState, SwapClient } from '../app/src/sdk'
+import { SwapProgram } from '../target/types/swap_program'
+import { removeAsset, setPaused, transferAuthority } from './instructions'
+import { TokenAmount } from './util/amount'
+
+const USAGE = `Usage:
+    anchor run admin -- status
+    anchor run admin -- pause
+    anchor run admin -- unpause
+    anchor run admin -- remove-asset <mint> [--sweep]
+    anchor run admin -- transfer-authority <address>`
+
+const COMMANDS = [
+    'status',
+    'pause',
+    'unpause',
+    'remove-asset',
+    'transfer-authority',
+]
+
+/**
+ *
+ * Prints the Liquidity Pool's administration settings and assets
+ *
+ * @param state The Liquidity Pool's state (see `SwapClient.fetchPoolState`)
+ */
+function logStatus(state: PoolState) {
+    console.log('   Liquidity Pool:')
+    console.log(`       Address:    ${state.address.toBase58()}`)
+    console.log(`       Authority:  ${state.authority.toBase58()}`)
+    console.log(`       Paused:     ${state.paused ? 'yes' : 'no'}`)
+    console.log(`       Fee:        ${state.feeBps} bps`)
+    console.log(
+        `       LP shares:  ${new TokenAmount(
+            state.lpSupply,
+            LP_MINT_DECIMALS
+        )}`
+    )
+    console.log('       Assets:')
+    for (const asset of state.assets) {
+        console.log(
+            `                   ${asset.symbol.padEnd(
+                6,
+                ' '
+            )} : ${new TokenAmount(asset.balance, asset.decimals)
+                .toFixed(6)
+                .padStart(12, ' ')} : ${asset.mint.toBase58()}`
+        )
+    }
+}
+
+/**
+ * Administers the Liquidity Pool with the local wallet in `Anchor.toml`,
+ * which must be the pool's authority (except for `status`)
+ *
+ * - `status`: prints the pool's authority, pause switch, fee and assets
+ * - `pause` / `unpause`: pauses or resumes swaps and deposits
+ * - `remove-asset <mint> [--sweep]`: delists an asset, which the pool must no
+ *   longer hold unless `--sweep` transfers its balance to the authority
+ * - `transfer-authority <address>`: hands the pool's authority over
+ */
+async function main() {
+    const provider = anchor.AnchorProvider.env()
+    anchor.setProvider(provider)
+    const program = anchor.workspace.SwapProgram as anchor.Program<SwapProgram>
+    const authority = (provider.wallet as anchor.Wallet).payer
+
+    const sweep = process.argv.includes('--sweep')
+    const [command, arg] = process.argv.slice(2).filter((a) => a !== '--sweep')
+    if (COMMANDS.indexOf(command) < 0) {
+        console.log(USAGE)
+        process.exitCode = 1
+        return
+    }
+
+    const state = await new SwapClient(program).fetchPoolState()
+    if (command === 'status') {
+        logStatus(state)
+        return
+    }
+    if (!state.authority.equals(authority.publicKey)) {
+        throw new Error(
+            `The local wallet (${authority.publicKey.toBase58()}) is not the Liquidity Pool's authority (${state.authority.toBase58()})`
+        )
+    }
+
+    if (command === 'pause' || command === 'unpause') {
+        const paused = command === 'pause'
+        if (state.paused === paused) {
+            console.log(`   Pool already ${paused ? 'paused' : 'resumed'}`)
+            return
+        }
+        const { signature } = await setPaused(program, authority, paused)
+        console.log(`   Pool ${paused ? 'paused' : 'resumed'}: ${signature}`)
+        return
+    }
+
+    if (!arg) {
+        console.log(USAGE)
+        process.exitCode = 1
+        return
+    }
+    const address = new PublicKey(arg)
+
+    if (command === 'remove-asset') {
+        const asset = state.assets.find((a) => a.mint.equals(address))
+        if (!asset) {
+            throw new Error(`Not one of the pool's assets: ${arg}`)
+        }
+        if (asset.balance > BigInt(0) && !sweep) {
+            throw new Error(
+                `The pool still holds ${new TokenAmount(
+                    asset.balance,
+                    asset.decimals
+                )} ${
+                    asset.symbol
+                }: pass --sweep to transfer it to the authority`
+            )
+        }
+        const { signature } = await removeAsset(
+            program,
+            authority,
+            address,
+            sweep
+        )
+        console.log(`   Removed ${asset.symbol}: ${signature}`)
+        return
+    }
+
+    const { signature } = await transferAuthority(program, authority, address)
+    console.log(`   Authority transferred to ${arg}: ${signature}`)
+}
+
+main().catch((error) => {
+    console.error(error)
+    process.exit(1)
+})
@@ -1,5 +1,6 @@
 import * as anchor from '@coral-xyz/anchor'
 import { Keypair } from '@solana/web3.js'
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token'
 import fs from 'fs'
 import { mintNewTokens } from './util/token'
 import { ASSETS } from './util/const'
@@ -7,6 +8,15 @@ import { ASSETS } from './util/const'
 // Constant to control whether or not metadata is added to the tokens
 const METADATA = false
 
+// Set `TOKEN_2022=true` to create every asset as a Token-2022 mint (the swap
+// program requires all of the pool's assets to use the same token program)
+const TOKEN_PROGRAM_ID_FOR_ASSETS =
+    process.env.TOKEN_2022 === 'true' ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID
+
+// The URIs uploaded to the local storage by the `upload-json` script, which
+// replace the Arweave URIs in `ASSETS`
+const LOCAL_URIS_FILE = './tests/util/uris.json'
+
 /**
  * Script to create new assets and mint them to the local keypair for testing
  */
@@ -24,14 +34,23 @@ describe('[Running Setup Script]: Create Assets', () => {
             assets: [],
         }
 
-        for (const a of ASSETS) {
+        const localUris: { [name: string]: string } = fs.existsSync(
+            LOCAL_URIS_FILE
+        )
+            ? JSON.parse(fs.readFileSync(LOCAL_URIS_FILE, 'utf-8'))
+            : {}
+
+        for (const asset of ASSETS) {
+            const a: typeof asset = [...asset]
+            a[3] = localUris[a[0]] || a[3]
             const mintKeypair = Keypair.generate()
             await mintNewTokens(
                 provider.connection,
                 payer,
                 mintKeypair,
                 a,
-                METADATA
+                METADATA,
+                TOKEN_PROGRAM_ID_FOR_ASSETS
             )
             assets_conf.assets.push({
                 name: a[0],
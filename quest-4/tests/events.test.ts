@@ -0,0 +1,123 @@
+import * as anchor from '@coral-xyz/anchor'
+import { assert } from 'chai'
+import {
+    SwapClient,
+    SwapEventName,
+    SwapEvents,
+    quoteDeposit,
+    quoteSwapFromPool,
+} from '../app/src/sdk'
+import { SwapProgram } from '../target/types/swap_program'
+import { fundPool, swap } from './instructions'
+import { TokenAmount } from './util/amount'
+import { mintExistingTokens } from './util/token'
+
+// How long to wait for a transaction's event, in milliseconds
+const EVENT_TIMEOUT = 30000
+
+/**
+ * Checks the swap program's events match the swaps and deposits that emit
+ * them
+ *
+ * Run `main.test.ts` first, so the Liquidity Pool is created and funded
+ */
+describe('[Running Event Tests]: Swap Program', async () => {
+    // Configurations
+    const provider = anchor.AnchorProvider.env()
+    anchor.setProvider(provider)
+    const program = anchor.workspace.SwapProgram as anchor.Program<SwapProgram>
+    const payer = (provider.wallet as anchor.Wallet).payer
+    const client = new SwapClient(program)
+
+    /**
+     *
+     * Sends a transaction, and waits for the event it emits
+     *
+     * @param name The name of the event (as in the IDL)
+     * @param send Sends the transaction, returning its signature
+     * @returns The transaction's event
+     */
+    async function sendForEvent<E extends SwapEventName>(
+        name: E,
+        send: () => Promise<{ signature: string }>
+    ): Promise<SwapEvents[E]> {
+        // Subscribe first, since the event can arrive before the
+        // transaction is confirmed
+        const events = new Map<string, SwapEvents[E]>()
+        const unsubscribe = client.addEventListener(
+            name,
+            (event, _slot, signature) => events.set(signature, event)
+        )
+        try {
+            const { signature } = await send()
+            const deadline = Date.now() + EVENT_TIMEOUT
+            while (!events.has(signature) && Date.now() < deadline) {
+                await new Promise((resolve) => setTimeout(resolve, 500))
+            }
+            const event = events.get(signature)
+            assert.isDefined(event, `No ${name} event for ${signature}`)
+            return event
+        } finally {
+            await unsubscribe()
+        }
+    }
+
+    it('          Swap Emits Swapped', async () => {
+        const state = await client.fetchPoolState()
+        const [receive, pay] = state.assets
+        await mintExistingTokens(
+            provider.connection,
+            payer,
+            pay.mint,
+            1,
+            pay.decimals
+        )
+        const payAmount = TokenAmount.fromDecimal(1, pay.decimals).raw
+        const quote = quoteSwapFromPool(
+            state,
+            pay.mint,
+            receive.mint,
+            payAmount
+        )
+
+        const event = await sendForEvent('Swapped', () =>
+            swap(program, payer, receive.mint, pay.mint, 1, pay.decimals)
+        )
+        assert.isTrue(event.pool.equals(state.address))
+        assert.isTrue(event.payer.equals(payer.publicKey))
+        assert.isTrue(event.payMint.equals(pay.mint))
+        assert.isTrue(event.receiveMint.equals(receive.mint))
+        assert.equal(event.payAmount, payAmount)
+        assert.equal(event.feeAmount, quote.feeAmount)
+        assert.equal(event.receiveAmount, quote.receiveAmount)
+
+        const assets = (await client.fetchPoolState()).assets
+        const find = (mint: anchor.web3.PublicKey) =>
+            assets.find((a) => a.mint.equals(mint))
+        assert.equal(event.poolPayBalance, find(pay.mint).balance)
+        assert.equal(event.poolReceiveBalance, find(receive.mint).balance)
+    })
+
+    it('          Deposit Emits PoolFunded', async () => {
+        const state = await client.fetchPoolState()
+        const asset = state.assets[0]
+        await mintExistingTokens(
+            provider.connection,
+            payer,
+            asset.mint,
+            1,
+            asset.decimals
+        )
+        const amount = TokenAmount.fromDecimal(1, asset.decimals).raw
+
+        const event = await sendForEvent('PoolFunded', () =>
+            fundPool(program, payer, asset.mint, 1, asset.decimals)
+        )
+        assert.isTrue(event.pool.equals(state.address))
+        assert.isTrue(event.payer.equals(payer.publicKey))
+        assert.isTrue(event.mint.equals(asset.mint))
+        assert.equal(event.amount, amount)
+        assert.equal(event.shares, quoteDeposit(state, asset.mint, amount))
+        assert.equal(event.poolBalance, asset.balance + amount)
+    })
+})
@@ -1,8 +1,13 @@
 import * as anchor from '@coral-xyz/anchor'
 import { Keypair, PublicKey } from '@solana/web3.js'
-import { getAssociatedTokenAddressSync } from '@solana/spl-token'
+import { SwapClient, SwapRoute } from '../../app/src/sdk'
 import { SwapProgram } from '../../target/types/swap_program'
-import { toBigIntQuantity } from '../util/token'
+import { TokenAmount } from '../util/amount'
+import {
+    SendTransactionOptions,
+    TransactionResult,
+    sendTransactionWithRetries,
+} from '../util/transaction'
 
 /**
  *
@@ -11,22 +16,27 @@ import { toBigIntQuantity } from '../util/token'
  *
  * @param program The swap program as an `anchor.Program<SwapProgram>`
  * @param payer The Liquidity Provider (local wallet in `Anchor.toml`)
- * @param poolAddress The address of the Liquidity Pool program-derived address account
+ * @param feeBps The swap fee, in basis points of the amount paid
+ * @param options Options for sending the transaction (priority fees, retries)
+ * @returns The confirmed transaction's details
  */
 export async function createPool(
     program: anchor.Program<SwapProgram>,
     payer: Keypair,
-    poolAddress: PublicKey
-) {
-    await program.methods
-        .createPool()
-        .accounts({
-            pool: poolAddress,
-            payer: payer.publicKey,
-            systemProgram: anchor.web3.SystemProgram.programId,
-        })
-        .signers([payer])
-        .rpc()
+    feeBps: number,
+    options?: SendTransactionOptions
+): Promise<TransactionResult> {
+    const ix = await new SwapClient(program).createPoolInstruction(
+        payer.publicKey,
+        feeBps
+    )
+    return sendTransactionWithRetries(
+        program.provider.connection,
+        payer.publicKey,
+        [payer],
+        [ix],
+        options
+    )
 }
 
 /**
@@ -36,38 +46,32 @@ export async function createPool(
  *
  * @param program The swap program as an `anchor.Program<SwapProgram>`
  * @param payer The Liquidity Provider (local wallet in `Anchor.toml`)
- * @param pool The address of the Liquidity Pool program-derived address account
  * @param mint The address of the mint being funded to the Liquidity Pool
  * @param quantity The quantity to fund of the provided mint
  * @param decimals the decimals of this mint (used to calculate real quantity)
+ * @param options Options for sending the transaction (priority fees, retries)
+ * @returns The confirmed transaction's details
  */
 export async function fundPool(
     program: anchor.Program<SwapProgram>,
     payer: Keypair,
-    pool: PublicKey,
     mint: PublicKey,
-    quantity: number,
-    decimals: number
-) {
-    await program.methods
-        .fundPool(
-            new anchor.BN(toBigIntQuantity(quantity, decimals).toString())
-        )
-        .accounts({
-            pool,
-            mint,
-            poolTokenAccount: getAssociatedTokenAddressSync(mint, pool, true),
-            payerTokenAccount: getAssociatedTokenAddressSync(
-                mint,
-                payer.publicKey
-            ),
-            payer: payer.publicKey,
-            systemProgram: anchor.web3.SystemProgram.programId,
-            tokenProgram: anchor.utils.token.TOKEN_PROGRAM_ID,
-            associatedTokenProgram: anchor.utils.token.ASSOCIATED_PROGRAM_ID,
-        })
-        .signers([payer])
-        .rpc()
+    quantity: number | string,
+    decimals: number,
+    options?: SendTransactionOptions
+): Promise<TransactionResult> {
+    const ix = await new SwapClient(program).fundPoolInstruction(
+        payer.publicKey,
+        mint,
+        TokenAmount.fromDecimal(quantity, decimals).raw
+    )
+    return sendTransactionWithRetries(
+        program.provider.connection,
+        payer.publicKey,
+        [payer],
+        [ix],
+        options
+    )
 }
 
 /**
@@ -77,48 +81,192 @@ export async function fundPool(
  *
  * @param program The swap program as an `anchor.Program<SwapProgram>`
  * @param payer The Liquidity Provider (local wallet in `Anchor.toml`)
- * @param pool The address of the Liquidity Pool program-derived address account
  * @param receiveMint The address of the mint the user is requesting to receive in exchange
  * @param payMint The address of the mint the user is offering to pay in the swap
  * @param quantity The quantity of the mint the user is offering to pay
  * @param decimals The decimals of the mint the user is offering to pay (used to calculate real quantity)
+ * @param minReceive The least the user will accept of the receive mint, in its base units (0 accepts any amount)
+ * @param options Options for sending the transaction (priority fees, retries)
+ * @returns The confirmed transaction's details
  */
 export async function swap(
     program: anchor.Program<SwapProgram>,
     payer: Keypair,
-    pool: PublicKey,
     receiveMint: PublicKey,
     payMint: PublicKey,
-    quantity: number,
-    decimals: number
-) {
-    await program.methods
-        .swap(new anchor.BN(toBigIntQuantity(quantity, decimals).toString()))
-        .accounts({
-            pool,
-            receiveMint,
-            poolReceiveTokenAccount: getAssociatedTokenAddressSync(
-                receiveMint,
-                pool,
-                true
-            ),
-            payerReceiveTokenAccount: getAssociatedTokenAddressSync(
-                receiveMint,
-                payer.publicKey
-            ),
-            payMint,
-            poolPayTokenAccount: getAssociatedTokenAddressSync(
-                payMint,
-                pool,
-                true
-            ),
-            payerPayTokenAccount: getAssociatedTokenAddressSync(
-                payMint,
-                payer.publicKey
-            ),
-            payer: payer.publicKey,
-            tokenProgram: anchor.utils.token.TOKEN_PROGRAM_ID,
-        })
-        .signers([payer])
-        .rpc()
+    quantity: number | string,
+    decimals: number,
+    minReceive: bigint = BigInt(0),
+    options?: SendTransactionOptions
+): Promise<TransactionResult> {
+    const ix = await new SwapClient(program).swapInstruction(
+        payer.publicKey,
+        payMint,
+        receiveMint,
+        TokenAmount.fromDecimal(quantity, decimals).raw,
+        minReceive
+    )
+    return sendTransactionWithRetries(
+        program.provider.connection,
+        payer.publicKey,
+        [payer],
+        [ix],
+        options
+    )
+}
+
+/**
+ *
+ * Sends a transaction containing one of the swap program's `swap`
+ * instructions for each hop of a route
+ *
+ * @param program The swap program as an `anchor.Program<SwapProgram>`
+ * @param payer The Liquidity Provider (local wallet in `Anchor.toml`)
+ * @param route The route to swap along (see `findSwapRoutes`)
+ * @param slippageBps The slippage tolerance of every hop, in basis points (0 requires the exact quotes)
+ * @param options Options for sending the transaction (priority fees, retries)
+ * @returns The confirmed transaction's details
+ */
+export async function swapRoute(
+    program: anchor.Program<SwapProgram>,
+    payer: Keypair,
+    route: SwapRoute,
+    slippageBps: number = 0,
+    options?: SendTransactionOptions
+): Promise<TransactionResult> {
+    const ixs = await new SwapClient(program).swapRouteInstructions(
+        payer.publicKey,
+        route,
+        slippageBps
+    )
+    return sendTransactionWithRetries(
+        program.provider.connection,
+        payer.publicKey,
+        [payer],
+        ixs,
+        options
+    )
+}
+
+/**
+ *
+ * Sends a transaction containing the instruction for the swap program's
+ * `withdraw` instruction (creating any missing token accounts first)
+ *
+ * @param program The swap program as an `anchor.Program<SwapProgram>`
+ * @param payer The Liquidity Provider (local wallet in `Anchor.toml`)
+ * @param shares The LP shares to redeem, in the LP share mint's base units
+ * @param options Options for sending the transaction (priority fees, retries)
+ * @returns The confirmed transaction's details
+ */
+export async function withdraw(
+    program: anchor.Program<SwapProgram>,
+    payer: Keypair,
+    shares: bigint,
+    options?: SendTransactionOptions
+): Promise<TransactionResult> {
+    const ixs = await new SwapClient(program).withdrawInstructions(
+        payer.publicKey,
+        shares
+    )
+    return sendTransactionWithRetries(
+        program.provider.connection,
+        payer.publicKey,
+        [payer],
+        ixs,
+        options
+    )
+}
+
+/**
+ *
+ * Sends a transaction containing the instruction for the swap program's
+ * `set_paused` instruction
+ *
+ * @param program The swap program as an `anchor.Program<SwapProgram>`
+ * @param authority The Liquidity Pool's authority
+ * @param paused Whether to pause or resume swaps and deposits
+ * @param options Options for sending the transaction (priority fees, retries)
+ * @returns The confirmed transaction's details
+ */
+export async function setPaused(
+    program: anchor.Program<SwapProgram>,
+    authority: Keypair,
+    paused: boolean,
+    options?: SendTransactionOptions
+): Promise<TransactionResult> {
+    const ix = await new SwapClient(program).setPausedInstruction(
+        authority.publicKey,
+        paused
+    )
+    return sendTransactionWithRetries(
+        program.provider.connection,
+        authority.publicKey,
+        [authority],
+        [ix],
+        options
+    )
+}
+
+/**
+ *
+ * Sends a transaction containing the instruction for the swap program's
+ * `remove_asset` instruction
+ *
+ * @param program The swap program as an `anchor.Program<SwapProgram>`
+ * @param authority The Liquidity Pool's authority
+ * @param mint The address of the mint being removed from the Liquidity Pool
+ * @param sweep Whether to transfer the pool's balance of the asset to the authority
+ * @param options Options for sending the transaction (priority fees, retries)
+ * @returns The confirmed transaction's details
+ */
+export async function removeAsset(
+    program: anchor.Program<SwapProgram>,
+    authority: Keypair,
+    mint: PublicKey,
+    sweep: boolean = false,
+    options?: SendTransactionOptions
+): Promise<TransactionResult> {
+    const ix = await new SwapClient(program).removeAssetInstruction(
+        authority.publicKey,
+        mint,
+        sweep
+    )
+    return sendTransactionWithRetries(
+        program.provider.connection,
+        authority.publicKey,
+        [authority],
+        [ix],
+        options
+    )
+}
+
+/**
+ *
+ * Sends a transaction containing the instruction for the swap program's
+ * `transfer_authority` instruction
+ *
+ * @param program The swap program as an `anchor.Program<SwapProgram>`
+ * @param authority The Liquidity Pool's current authority
+ * @param newAuthority The address to hand the Liquidity Pool's authority over to
+ * @param options Options for sending the transaction (priority fees, retries)
+ * @returns The confirmed transaction's details
+ */
+export async function transferAuthority(
+    program: anchor.Program<SwapProgram>,
+    authority: Keypair,
+    newAuthority: PublicKey,
+    options?: SendTransactionOptions
+): Promise<TransactionResult> {
+    const ix = await new SwapClient(program).transferAuthorityInstruction(
+        authority.publicKey,
+        newAuthority
+    )
+    return sendTransactionWithRetries(
+        program.provider.connection,
+        authority.publicKey,
+        [authority],
+        [ix],
+        options
+    )
 }
@@ -0,0 +1,241 @@
+import * as anchor from '@coral-xyz/anchor'
+import {
+    createAccount,
+    getAccount,
+    getAssociatedTokenAddressSync,
+} from '@solana/spl-token'
+import { Keypair, PublicKey } from '@solana/web3.js'
+import { assert } from 'chai'
+import {
+    LP_MINT_DECIMALS,
+    PoolAsset,
+    SwapClient,
+    quoteDeposit,
+    quoteWithdraw,
+} from '../app/src/sdk'
+import { SwapProgram } from '../target/types/swap_program'
+import { fundPool, withdraw } from './instructions'
+import { TokenAmount } from './util/amount'
+import { mintExistingTokens } from './util/token'
+import { sendTransactionWithRetries } from './util/transaction'
+
+// Provide this quantity of an asset as liquidity
+const PROVIDE_QUANTITY = 10
+
+/**
+ * Provides liquidity to the pool and withdraws it again, checking the LP
+ * shares and the withdrawn assets against the SDK's quotes
+ *
+ * Run `main.test.ts` first, so the Liquidity Pool is created and funded
+ */
+describe('[Running Liquidity Tests]: Swap Program', async () => {
+    // Configurations
+    const provider = anchor.AnchorProvider.env()
+    anchor.setProvider(provider)
+    const program = anchor.workspace.SwapProgram as anchor.Program<SwapProgram>
+    const payer = (provider.wallet as anchor.Wallet).payer
+    const client = new SwapClient(program)
+
+    // The LP shares issued for the liquidity provided
+    let shares = BigInt(0)
+
+    /**
+     *
+     * Fetches the balance of one of the payer's token accounts
+     *
+     * @param mint The mint of the token account
+     * @param tokenProgram The token program that owns the mint
+     * @returns The balance, in the mint's base units
+     */
+    async function getPayerBalance(
+        mint: PublicKey,
+        tokenProgram: PublicKey
+    ): Promise<bigint> {
+        const tokenAccount = getAssociatedTokenAddressSync(
+            mint,
+            payer.publicKey,
+            false,
+            tokenProgram
+        )
+        const account = await getAccount(
+            provider.connection,
+            tokenAccount,
+            'confirmed',
+            tokenProgram
+        ).catch(() => null)
+        return account ? account.amount : BigInt(0)
+    }
+
+    /**
+     *
+     * Calculates the pool's constant-product `K` from its balances
+     *
+     * @param assets The pool's assets
+     * @returns The product of every asset's balance, in base units
+     */
+    function getK(assets: PoolAsset[]): bigint {
+        return assets.reduce((k, asset) => k * asset.balance, BigInt(1))
+    }
+
+    /**
+     * Funds the pool with an existing asset, which must issue exactly the
+     * quoted LP shares
+     */
+    it('          Provide Liquidity', async () => {
+        const state = await client.fetchPoolState()
+        const asset = state.assets[0]
+        const amount = TokenAmount.fromDecimal(PROVIDE_QUANTITY, asset.decimals)
+        await mintExistingTokens(
+            provider.connection,
+            payer,
+            asset.mint,
+            PROVIDE_QUANTITY,
+            asset.decimals
+        )
+        const quoted = quoteDeposit(state, asset.mint, amount.raw)
+        const { shares: sharesBefore } = await client.fetchLiquidityPosition(
+            payer.publicKey
+        )
+        await fundPool(
+            program,
+            payer,
+            asset.mint,
+            PROVIDE_QUANTITY,
+            asset.decimals
+        )
+        const { shares: sharesAfter } = await client.fetchLiquidityPosition(
+            payer.publicKey
+        )
+
+        shares = sharesAfter - sharesBefore
+        console.log(
+            `   Provided ${amount} ${asset.symbol}, received ${new TokenAmount(
+                shares,
+                LP_MINT_DECIMALS
+            )} LP shares`
+        )
+        assert.equal(
+            shares.toString(),
+            quoted.toString(),
+            'The deposit must issue exactly the quoted LP shares'
+        )
+    })
+
+    /**
+     * Redeems the LP shares just issued from another token account owned by
+     * the pool, which must be rejected - only the pool's associated token
+     * accounts hold its assets, and their balances are what the withdrawal
+     * records into the price accumulators
+     */
+    it('          Reject Withdrawing From Another Pool Token Account', async () => {
+        const state = await client.fetchPoolState()
+        const asset = state.assets[0]
+        const decoy = await createAccount(
+            provider.connection,
+            payer,
+            asset.mint,
+            client.poolAddress,
+            Keypair.generate(),
+            undefined,
+            state.tokenProgram
+        )
+        const poolTokenAccount = client.getPoolTokenAccount(
+            asset.mint,
+            state.tokenProgram
+        )
+        const ixs = await client.withdrawInstructions(payer.publicKey, shares)
+        ixs[ixs.length - 1].keys.forEach((key) => {
+            if (key.pubkey.equals(poolTokenAccount)) key.pubkey = decoy
+        })
+
+        let logs: string[] = []
+        try {
+            await sendTransactionWithRetries(
+                provider.connection,
+                payer.publicKey,
+                [payer],
+                ixs,
+                { maxAttempts: 1 }
+            )
+        } catch (error) {
+            logs = error.logs ?? []
+        }
+        assert.isTrue(
+            logs.some(
+                (line) =>
+                    line.indexOf('Error Code: InvalidWithdrawAccounts.') >= 0
+            ),
+            'The program must reject a pool token account that is not its associated token account'
+        )
+    })
+
+    /**
+     * Redeems the LP shares just issued, which must withdraw exactly the
+     * quoted slice of every asset
+     */
+    it('          Withdraw Liquidity', async () => {
+        const state = await client.fetchPoolState()
+        const quoted = quoteWithdraw(state, shares)
+        const balancesBefore = await Promise.all(
+            state.assets.map((a) => getPayerBalance(a.mint, state.tokenProgram))
+        )
+        await withdraw(program, payer, shares)
+        const balancesAfter = await Promise.all(
+            state.assets.map((a) => getPayerBalance(a.mint, state.tokenProgram))
+        )
+
+        state.assets.forEach((asset, index) => {
+            const withdrawn = new TokenAmount(
+                balancesAfter[index] - balancesBefore[index],
+                asset.decimals
+            )
+            console.log(`   Withdrew ${withdrawn} ${asset.symbol}`)
+            assert.equal(
+                withdrawn.raw.toString(),
+                quoted[index].amount.toString(),
+                'The withdrawal must transfer exactly the quoted amount'
+            )
+        })
+    })
+
+    /**
+     * Deposits as much of each asset as the pool holds - the deposit that
+     * would move the asset's price the most - and redeems the shares right
+     * away, which must never lower `K` (otherwise a deposit and a withdrawal
+     * would drain the pool)
+     */
+    it('          Deposit And Withdraw Without Lowering K', async () => {
+        const { assets } = await client.fetchPoolState()
+        for (const asset of assets) {
+            const before = await client.fetchPoolState()
+            const kBefore = getK(before.assets)
+            const quantity = new TokenAmount(
+                asset.balance,
+                asset.decimals
+            ).toString()
+            await mintExistingTokens(
+                provider.connection,
+                payer,
+                asset.mint,
+                Math.ceil(Number(quantity)),
+                asset.decimals
+            )
+            const { shares: sharesBefore } =
+                await client.fetchLiquidityPosition(payer.publicKey)
+            await fundPool(program, payer, asset.mint, quantity, asset.decimals)
+            const { shares: sharesAfter } = await client.fetchLiquidityPosition(
+                payer.publicKey
+            )
+            await withdraw(program, payer, sharesAfter - sharesBefore)
+
+            const kAfter = getK((await client.fetchPoolState()).assets)
+            console.log(
+                `   Deposited and withdrew ${quantity} ${asset.symbol}, K: ${kBefore} -> ${kAfter}`
+            )
+            assert.isTrue(
+                kAfter >= kBefore,
+                'A deposit and withdrawal must never lower K'
+            )
+        }
+    })
+})
@@ -1,5 +1,11 @@
 import * as anchor from '@coral-xyz/anchor'
 import { PublicKey } from '@solana/web3.js'
+import { assert } from 'chai'
+import {
+    SwapClient,
+    determineSwapFee,
+    determineSwapReceive,
+} from '../app/src/sdk'
 import { SwapProgram } from '../target/types/swap_program'
 import assetsConfig from './util/assets.json'
 import { createPool, fundPool, swap } from './instructions'
@@ -17,7 +23,8 @@ import {
     logPreSwap,
 } from './util/log'
 import { mintExistingTokens } from './util/token'
-import { ASSETS } from './util/const'
+import { TokenAmount } from './util/amount'
+import { ASSETS, SWAP_FEE_BPS } from './util/const'
 
 // Seed prefix for the Liquidity Pool from our program
 const LIQUIDITY_POOL_SEED_PREFIX = 'liquidity_pool'
@@ -76,7 +83,7 @@ describe('[Running Unit Tests]: Swap Program', async () => {
      */
     it('          Create Pool', async () => {
         if (!programInitialized) {
-            await createPool(program, payer, poolAddress)
+            await createPool(program, payer, SWAP_FEE_BPS)
         }
     })
 
@@ -95,7 +102,6 @@ describe('[Running Unit Tests]: Swap Program', async () => {
             await fundPool(
                 program,
                 payer,
-                poolAddress,
                 asset.address,
                 asset.quantity,
                 asset.decimals
@@ -178,7 +184,6 @@ describe('[Running Unit Tests]: Swap Program', async () => {
         await swap(
             program,
             payer,
-            poolAddress,
             receive.address,
             pay.address,
             payAmount,
@@ -219,4 +224,80 @@ describe('[Running Unit Tests]: Swap Program', async () => {
             )
         })
     }
+
+    /**
+     * Swaps 1 of one asset for another and checks `K` grows by exactly the
+     * fee: the pool keeps all of `p` but only swaps `p - fee`, so without a
+     * fee `K` would only change by the rounding of `f(p)`
+     */
+    it('          Swap Fee Grows K', async () => {
+        const receive = assets[0]
+        const pay = assets[1]
+        const payQuantity = 1
+        const payAmount = TokenAmount.fromDecimal(payQuantity, pay.decimals).raw
+        await mintExistingTokens(
+            provider.connection,
+            payer,
+            pay.address,
+            payQuantity,
+            pay.decimals
+        )
+        const state = await new SwapClient(program).fetchPoolState()
+        const balanceOf = (mint: PublicKey) =>
+            state.assets.find((a) => a.mint.equals(mint))!.balance
+        const bigP = balanceOf(pay.address)
+        const bigR = balanceOf(receive.address)
+        const initialK = await getPoolData(false)
+
+        await swap(
+            program,
+            payer,
+            receive.address,
+            pay.address,
+            payQuantity,
+            pay.decimals
+        )
+        const resultingK = await getPoolData(false)
+
+        // Only `P` and `R` change, so `K` scales by `(P + p)(R - r) / PR`
+        const scaleK = (receiveAmount: bigint) =>
+            (initialK / (bigP * bigR)) *
+            (bigP + payAmount) *
+            (bigR - receiveAmount)
+        const fee = determineSwapFee(payAmount, state.feeBps)
+        const receiveFor = (swapAmount: bigint) =>
+            determineSwapReceive(
+                bigR,
+                receive.decimals,
+                bigP,
+                pay.decimals,
+                swapAmount
+            )
+        const expectedK = scaleK(receiveFor(payAmount - fee))
+        const noFeeK = scaleK(receiveFor(payAmount))
+        console.log(
+            `   Paid ${new TokenAmount(payAmount, pay.decimals)} ${
+                pay.name
+            }, fee: ${new TokenAmount(fee, pay.decimals)} ${pay.name} (${
+                state.feeBps
+            } bps)`
+        )
+        logChangeInK(calculateChangeInK(initialK, resultingK))
+        console.log(
+            `     Expected: ${calculateChangeInK(
+                initialK,
+                expectedK
+            )} (${calculateChangeInK(initialK, noFeeK)} without the fee)`
+        )
+        assert.equal(state.feeBps, SWAP_FEE_BPS)
+        assert.equal(
+            resultingK.toString(),
+            expectedK.toString(),
+            'K must grow by exactly the fee kept by the pool'
+        )
+        assert.isTrue(
+            resultingK > noFeeK,
+            'K must grow more than it would without a fee'
+        )
+    })
 })
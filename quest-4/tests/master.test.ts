@@ -6,6 +6,7 @@ import { createPool, fundPool, swap } from './instructions'
 import { calculateK, fetchPool, fetchPoolTokenAccounts } from './util/swap'
 import { logPool } from './util/log'
 import { mintExistingTokens } from './util/token'
+import { SWAP_FEE_BPS } from './util/const'
 
 // Seed prefix for the Liquidity Pool from our program
 const LIQUIDITY_POOL_SEED_PREFIX = 'liquidity_pool'
@@ -137,7 +138,7 @@ describe('[Running Unit Tests]: Swap Program', async () => {
      */
     it('          Create Pool', async () => {
         if (!programInitialized) {
-            await createPool(program, payer, poolAddress)
+            await createPool(program, payer, SWAP_FEE_BPS)
         }
     })
 
@@ -160,7 +161,6 @@ describe('[Running Unit Tests]: Swap Program', async () => {
             await fundPool(
                 program,
                 payer,
-                poolAddress,
                 asset.address,
                 asset.quantity,
                 asset.decimals
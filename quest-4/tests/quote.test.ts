@@ -0,0 +1,278 @@
+import * as anchor from '@coral-xyz/anchor'
+import { getAccount, getAssociatedTokenAddressSync } from '@solana/spl-token'
+import { PublicKey } from '@solana/web3.js'
+import { assert } from 'chai'
+import {
+    SwapClient,
+    SwapQuoteError,
+    quoteSwapFromPool,
+    quoteSwapRoute,
+} from '../app/src/sdk'
+import { SwapProgram } from '../target/types/swap_program'
+import { swap, swapRoute } from './instructions'
+import { TokenAmount } from './util/amount'
+import { mintExistingTokens } from './util/token'
+
+// Pay up to this quantity of an asset in each swap
+const MAX_PAY_QUANTITY = 20
+
+// Util function for random number below max
+function getRandomInt(max: number): number {
+    return Math.floor(Math.random() * max)
+}
+
+/**
+ * Cross-checks the SDK's off-chain swap quotes against real swaps
+ *
+ * Run `main.test.ts` first, so the Liquidity Pool is created and funded
+ */
+describe('[Running Quote Tests]: Swap Program', async () => {
+    // Configurations
+    const provider = anchor.AnchorProvider.env()
+    anchor.setProvider(provider)
+    const program = anchor.workspace.SwapProgram as anchor.Program<SwapProgram>
+    const payer = (provider.wallet as anchor.Wallet).payer
+    const client = new SwapClient(program)
+
+    /**
+     *
+     * Fetches the balance of one of the payer's token accounts
+     *
+     * @param mint The mint of the token account
+     * @param tokenProgram The token program that owns the mint
+     * @returns The balance, in the mint's base units
+     */
+    async function getPayerBalance(
+        mint: PublicKey,
+        tokenProgram: PublicKey
+    ): Promise<bigint> {
+        const tokenAccount = getAssociatedTokenAddressSync(
+            mint,
+            payer.publicKey,
+            false,
+            tokenProgram
+        )
+        const account = await getAccount(
+            provider.connection,
+            tokenAccount,
+            'confirmed',
+            tokenProgram
+        ).catch(() => null)
+        return account ? account.amount : BigInt(0)
+    }
+
+    /**
+     * Runs 10 random swaps, each of which must receive exactly the quote (so
+     * they're sent with the quote as their `min_receive`)
+     */
+    for (let x = 0; x < 10; x++) {
+        it('          Quote Matches Swap', async () => {
+            const state = await client.fetchPoolState()
+            const maxAssetIndex = state.assets.length - 1
+            const receive = state.assets[getRandomInt(maxAssetIndex)]
+            // Pay asset can't be the same as receive asset
+            let pay = state.assets[getRandomInt(maxAssetIndex)]
+            while (pay.mint.equals(receive.mint)) {
+                pay = state.assets[getRandomInt(maxAssetIndex)]
+            }
+            // Pay amount can't be zero
+            let payQuantity = getRandomInt(MAX_PAY_QUANTITY)
+            while (payQuantity === 0) {
+                payQuantity = getRandomInt(MAX_PAY_QUANTITY)
+            }
+            const payAmount = TokenAmount.fromDecimal(payQuantity, pay.decimals)
+
+            await mintExistingTokens(
+                provider.connection,
+                payer,
+                pay.mint,
+                payQuantity,
+                pay.decimals
+            )
+            // Quote against the latest balances, right before swapping
+            const quote = await client.quoteSwap(
+                pay.mint,
+                receive.mint,
+                payAmount.raw
+            )
+            const balanceBefore = await getPayerBalance(
+                receive.mint,
+                state.tokenProgram
+            )
+            await swap(
+                program,
+                payer,
+                receive.mint,
+                pay.mint,
+                payQuantity,
+                pay.decimals,
+                quote.receiveAmount
+            )
+            const balanceAfter = await getPayerBalance(
+                receive.mint,
+                state.tokenProgram
+            )
+
+            const received = new TokenAmount(
+                balanceAfter - balanceBefore,
+                receive.decimals
+            )
+            console.log(
+                `   Paid ${payAmount} ${pay.symbol}, received ${received} ${receive.symbol}`
+            )
+            console.log(
+                `     Price: ${quote.effectivePrice} (impact: ${(
+                    quote.priceImpact * 100
+                ).toFixed(4)}%)`
+            )
+            assert.equal(
+                received.raw.toString(),
+                quote.receiveAmount.toString(),
+                'The swap must receive exactly the quoted amount'
+            )
+        })
+    }
+
+    /**
+     * Pays 1 base unit of the pool's largest balance for its smallest one,
+     * which resolves to nothing, so both the quote and the program reject it
+     */
+    it('          Quote Rejects Like Swap', async () => {
+        const state = await client.fetchPoolState()
+        const byBalance = state.assets
+            .slice()
+            .sort((a, b) => (a.balance < b.balance ? -1 : 1))
+        const receive = byBalance[0]
+        const pay = byBalance[byBalance.length - 1]
+        const payAmount = BigInt(1)
+
+        let quoteError: SwapQuoteError | undefined
+        try {
+            quoteSwapFromPool(state, pay.mint, receive.mint, payAmount)
+        } catch (error) {
+            quoteError = error
+        }
+        assert.instanceOf(quoteError, SwapQuoteError)
+        assert.equal(quoteError.code, 'InvalidSwapNotEnoughPay')
+
+        let logs: string[] = []
+        try {
+            await swap(
+                program,
+                payer,
+                receive.mint,
+                pay.mint,
+                new TokenAmount(payAmount, pay.decimals).toString(),
+                pay.decimals
+            )
+        } catch (error) {
+            logs = error.logs ?? []
+        }
+        assert.isTrue(
+            logs.some(
+                (line) => line.indexOf(`Error Code: ${quoteError.code}.`) >= 0
+            ),
+            'The program must reject the swap with the same error'
+        )
+    })
+
+    /**
+     * Asks for 1 base unit more than the quote, which the program must reject
+     * as exceeding the swap's slippage tolerance
+     */
+    it('          Swap Rejects Beyond Slippage', async () => {
+        const state = await client.fetchPoolState()
+        const [receive, pay] = state.assets
+        const payQuantity = 1
+        await mintExistingTokens(
+            provider.connection,
+            payer,
+            pay.mint,
+            payQuantity,
+            pay.decimals
+        )
+        const quote = await client.quoteSwap(
+            pay.mint,
+            receive.mint,
+            TokenAmount.fromDecimal(payQuantity, pay.decimals).raw
+        )
+
+        let logs: string[] = []
+        try {
+            await swap(
+                program,
+                payer,
+                receive.mint,
+                pay.mint,
+                payQuantity,
+                pay.decimals,
+                quote.receiveAmount + BigInt(1)
+            )
+        } catch (error) {
+            logs = error.logs ?? []
+        }
+        assert.isTrue(
+            logs.some(
+                (line) =>
+                    line.indexOf('Error Code: InvalidSwapSlippageExceeded.') >=
+                    0
+            ),
+            'The program must reject a swap receiving less than `min_receive`'
+        )
+    })
+
+    /**
+     * Swaps through an intermediate asset in a single transaction, which must
+     * receive exactly the route's quote (and never more than the direct swap)
+     */
+    it('          Route Matches Swaps', async () => {
+        const state = await client.fetchPoolState()
+        const [pay, intermediate, receive] = state.assets
+        const payQuantity = 1
+        const payAmount = TokenAmount.fromDecimal(payQuantity, pay.decimals)
+        await mintExistingTokens(
+            provider.connection,
+            payer,
+            pay.mint,
+            payQuantity,
+            pay.decimals
+        )
+        const route = quoteSwapRoute(
+            state,
+            [pay.mint, intermediate.mint, receive.mint],
+            payAmount.raw
+        )
+        const direct = quoteSwapFromPool(
+            state,
+            pay.mint,
+            receive.mint,
+            payAmount.raw
+        )
+        const balanceBefore = await getPayerBalance(
+            receive.mint,
+            state.tokenProgram
+        )
+        await swapRoute(program, payer, route)
+        const balanceAfter = await getPayerBalance(
+            receive.mint,
+            state.tokenProgram
+        )
+
+        const received = new TokenAmount(
+            balanceAfter - balanceBefore,
+            receive.decimals
+        )
+        console.log(
+            `   Paid ${payAmount} ${pay.symbol} via ${intermediate.symbol}, received ${received} ${receive.symbol}`
+        )
+        assert.equal(
+            received.raw.toString(),
+            route.receiveAmount.toString(),
+            'The route must receive exactly the quoted amount'
+        )
+        assert.isTrue(
+            route.receiveAmount <= direct.receiveAmount,
+            'Within one pool, a route never beats the direct swap'
+        )
+    })
+})
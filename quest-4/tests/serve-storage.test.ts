@@ -0,0 +1,22 @@
+import { startStorageServer } from './util/storage'
+
+/**
+ * Script to serve the files uploaded to the local storage by the
+ * `upload-json` script, so the app can load the assets' metadata and images
+ * without any storage provider
+ *
+ * This runs until it is stopped (with Ctrl+C)
+ */
+describe('[Running Setup Script]: Serve Local Storage', () => {
+    it('          Serving Local Storage', async () => {
+        const server = await startStorageServer()
+        const address = server.address()
+        console.log(
+            `   Serving the local storage on port ${
+                typeof address === 'string' ? address : address?.port
+            }`
+        )
+        // Keep serving until the script is stopped
+        await new Promise(() => {})
+    })
+})
@@ -0,0 +1,105 @@
+import * as anchor from '@coral-xyz/anchor'
+import {
+    PoolAsset,
+    SwapClient,
+    computeTwap,
+    convertAtTwap,
+    determinePriceQ64,
+} from '../app/src/sdk'
+import { SwapProgram } from '../target/types/swap_program'
+import { TokenAmount } from './util/amount'
+
+// The default TWAP window, in seconds
+const DEFAULT_WINDOW = 30
+
+// Seven Seas' `upgrade_ship` charges a constant amount of Gold for each level
+// (see quest-6/seven-seas/program/programs/seven-seas/src/instructions/upgrade_ship.rs).
+// Here each upgrade instead needs Cannons, and charges what they're worth in
+// Gold at the pool's TWAP
+const UPGRADES: {
+    level: number
+    health: number
+    gold: number
+    cannons: number
+}[] = [
+    { level: 1, health: 50, gold: 5, cannons: 1 },
+    { level: 2, health: 120, gold: 200, cannons: 4 },
+    { level: 3, health: 300, gold: 1500, cannons: 12 },
+    { level: 4, health: 500, gold: 25000, cannons: 40 },
+]
+
+/**
+ *
+ * Finds one of the pool's assets by its symbol
+ *
+ * @param assets The pool's assets (see `SwapClient.fetchPoolState`)
+ * @param symbol The asset's symbol (see `tests/util/const.ts`)
+ * @returns The asset
+ */
+function findAsset(assets: PoolAsset[], symbol: string): PoolAsset {
+    const asset = assets.find((a) => a.symbol === symbol)
+    if (!asset) {
+        throw new Error(`The pool has no ${symbol}`)
+    }
+    return asset
+}
+
+/**
+ * Prices Seven Seas' ship upgrades off the pool's Gold / Cannon TWAP, sampled
+ * from two observations `window` seconds apart (the first argument)
+ *
+ * The pair must have been swapped at least once (e.g. by `main.test.ts`), and
+ * swapping it during the window moves the TWAP
+ */
+async function main() {
+    const provider = anchor.AnchorProvider.env()
+    anchor.setProvider(provider)
+    const program = anchor.workspace.SwapProgram as anchor.Program<SwapProgram>
+    const client = new SwapClient(program)
+
+    const window = Number(process.argv[2] ?? DEFAULT_WINDOW)
+    if (!Number.isInteger(window) || window <= 0) {
+        throw new Error(`Invalid TWAP window: ${process.argv[2]} seconds`)
+    }
+    const { assets } = await client.fetchPoolState()
+    const gold = findAsset(assets, 'GOLD')
+    const cannon = findAsset(assets, 'CAN')
+
+    const start = await client.observePrice(gold.mint, cannon.mint)
+    console.log(`   Sampling the Gold / Cannon TWAP over ${window} seconds...`)
+    await new Promise((resolve) => setTimeout(resolve, window * 1000))
+    const end = await client.observePrice(gold.mint, cannon.mint)
+    const twap = computeTwap(start, end)
+
+    // The spot price, for comparison
+    const state = await client.fetchPoolState()
+    const spot = determinePriceQ64(
+        findAsset(state.assets, 'GOLD').balance,
+        findAsset(state.assets, 'CAN').balance
+    )
+    const cannonUnits = (quantity: number) =>
+        TokenAmount.fromDecimal(quantity, cannon.decimals).raw
+
+    console.log(`   Ship upgrades (over ${twap.window} seconds):`)
+    for (const upgrade of UPGRADES) {
+        const cannons = cannonUnits(upgrade.cannons)
+        const twapCost = convertAtTwap(twap, cannon.mint, cannons)
+        const spotCost = (cannons * spot) >> BigInt(64)
+        console.log(
+            `       Level ${upgrade.level} (${upgrade.health} health): ${
+                upgrade.cannons
+            } CAN = ${new TokenAmount(
+                twapCost,
+                gold.decimals
+            )} GOLD at the TWAP (${new TokenAmount(
+                spotCost,
+                gold.decimals
+            )} GOLD at the spot price, ${upgrade.gold} GOLD constant)`
+        )
+    }
+}
+
+main().catch((error) => {
+    console.error(error)
+    process.exit(1)
+})
@@ -0,0 +1,142 @@
+import * as anchor from '@coral-xyz/anchor'
+import { assert } from 'chai'
+import {
+    PoolState,
+    PriceAccumulator,
+    SwapClient,
+    computeTwap,
+    determinePriceQ64,
+    getPairMints,
+    observePrice,
+} from '../app/src/sdk'
+import { SwapProgram } from '../target/types/swap_program'
+import { swap } from './instructions'
+import { mintExistingTokens } from './util/token'
+
+// How long to hold the price between the two swaps, in milliseconds
+const HOLD_PRICE_FOR = 3000
+
+/**
+ * Checks the pool's price accumulators against the prices held between swaps
+ *
+ * Run `main.test.ts` first, so the Liquidity Pool is created and funded
+ */
+describe('[Running TWAP Tests]: Swap Program', async () => {
+    // Configurations
+    const provider = anchor.AnchorProvider.env()
+    anchor.setProvider(provider)
+    const program = anchor.workspace.SwapProgram as anchor.Program<SwapProgram>
+    const payer = (provider.wallet as anchor.Wallet).payer
+    const client = new SwapClient(program)
+
+    /**
+     *
+     * Finds the stored price accumulator of a pair of the pool's assets
+     *
+     * @param state The Liquidity Pool's state (see `SwapClient.fetchPoolState`)
+     * @param mintA The pair's lower mint address
+     * @param mintB The pair's higher mint address
+     * @returns The pair's accumulator, as of its last update
+     */
+    function findAccumulator(
+        state: PoolState,
+        mintA: anchor.web3.PublicKey,
+        mintB: anchor.web3.PublicKey
+    ): PriceAccumulator {
+        const accumulator = state.priceAccumulators.find(
+            (a) => a.mintA.equals(mintA) && a.mintB.equals(mintB)
+        )
+        assert.isDefined(accumulator, 'The pair must have an accumulator')
+        return accumulator
+    }
+
+    it('          TWAP Matches Held Price', async () => {
+        const [receive, pay] = (await client.fetchPoolState()).assets
+        const [mintA, mintB] = getPairMints(receive.mint, pay.mint)
+        await mintExistingTokens(
+            provider.connection,
+            payer,
+            pay.mint,
+            2,
+            pay.decimals
+        )
+
+        // The first swap sets the price held until the second one
+        await swap(program, payer, receive.mint, pay.mint, 1, pay.decimals)
+        const held = await client.fetchPoolState()
+        const start = findAccumulator(held, mintA, mintB)
+        const balance = (mint: anchor.web3.PublicKey) =>
+            held.assets.find((a) => a.mint.equals(mint)).balance
+
+        await new Promise((resolve) => setTimeout(resolve, HOLD_PRICE_FOR))
+        await swap(program, payer, receive.mint, pay.mint, 1, pay.decimals)
+        const end = findAccumulator(await client.fetchPoolState(), mintA, mintB)
+
+        const twap = computeTwap(start, end)
+        assert.isAbove(twap.window, 0)
+        assert.equal(
+            twap.priceA,
+            determinePriceQ64(balance(mintB), balance(mintA))
+        )
+        assert.equal(
+            twap.priceB,
+            determinePriceQ64(balance(mintA), balance(mintB))
+        )
+    })
+
+    it('          Observation Extrapolates Current Price', async () => {
+        const state = await client.fetchPoolState()
+        const [first] = state.priceAccumulators
+        const later = observePrice(
+            state,
+            first.mintA,
+            first.mintB,
+            first.timestamp + 60
+        )
+        const balance = (mint: anchor.web3.PublicKey) =>
+            state.assets.find((a) => a.mint.equals(mint)).balance
+
+        const twap = computeTwap(first, later)
+        assert.equal(twap.window, 60)
+        assert.equal(
+            twap.priceA,
+            determinePriceQ64(balance(first.mintB), balance(first.mintA))
+        )
+    })
+
+    /**
+     * Swapping one of a pair's assets for a third asset moves the pair's
+     * price too, so it must update the pair's accumulator with the price held
+     * until then - otherwise its next update would assume the moved price
+     * held all along
+     */
+    it('          Other Pairs Update The Accumulator', async () => {
+        const [assetA, assetB, other] = (await client.fetchPoolState()).assets
+        const [mintA, mintB] = getPairMints(assetA.mint, assetB.mint)
+        await mintExistingTokens(
+            provider.connection,
+            payer,
+            assetA.mint,
+            1,
+            assetA.decimals
+        )
+        const before = await client.fetchPoolState()
+        const start = findAccumulator(before, mintA, mintB)
+
+        await new Promise((resolve) => setTimeout(resolve, HOLD_PRICE_FOR))
+        await swap(program, payer, other.mint, assetA.mint, 1, assetA.decimals)
+        const after = await client.fetchPoolState()
+        const end = findAccumulator(after, mintA, mintB)
+        const balance = (mint: anchor.web3.PublicKey) =>
+            after.assets.find((a) => a.mint.equals(mint)).balance
+
+        assert.isAbove(end.timestamp, start.timestamp)
+        assert.equal(end.balanceA, balance(mintA))
+        assert.equal(end.balanceB, balance(mintB))
+        // The price before the swap held over the whole window
+        assert.equal(
+            computeTwap(start, end).priceA,
+            determinePriceQ64(start.balanceB, start.balanceA)
+        )
+    })
+})
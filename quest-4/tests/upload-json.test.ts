@@ -2,14 +2,21 @@ import { bundlrStorage, Metaplex, keypairIdentity, toMetaplexFile } from "@metap
 import { Connection, Keypair } from "@solana/web3.js";
 import fs from 'fs';
 import os from 'os';
-import { ASSETS } from "./util/const";
+import { localStorage } from "./util/storage";
+
+// Set `UPLOAD_TO_ARWEAVE=true` to upload to Arweave (via Bundlr on devnet),
+// instead of to the local storage served by `anchor run serve-storage`
+const UPLOAD_TO_ARWEAVE = process.env.UPLOAD_TO_ARWEAVE === 'true'
 
 /**
- * Script to upload images and JSON files to Arweave using Metaplex's JS
- * SDK so our assets have images!
+ * Script to upload images and JSON files using Metaplex's JS SDK so our
+ * assets have images!
+ * 
+ * By default the files are uploaded to the local storage, and their URIs are
+ * saved to `tests/util/uris.json` to be used by the `create-assets` script.
  * 
- * This should only need to be run once, and then you should
- * update the URI fields in the `ASSETS` array in `tests/util/const.ts`
+ * When uploading to Arweave, this should only need to be run once, and then
+ * you should update the URI fields in the `ASSETS` array in `tests/util/const.ts`
  */
 describe('[Running Setup Script]: Upload Assets', () => {
 
@@ -30,10 +37,13 @@ describe('[Running Setup Script]: Upload Assets', () => {
     // Util function to sleep
     const sleepSeconds = async (s: number) =>
         await new Promise((f) => setTimeout(f, s * 1000))
+
+    // The uploaded URIs, by asset name
+    const uris: { [name: string]: string } = {}
     
     /**
      * 
-     * Uploads an asset's image and JSON payload to Arweave
+     * Uploads an asset's image and JSON payload to Arweave or the local storage
      * 
      * @param name The asset's name
      * @param symbol The symbol for the asset's token
@@ -59,7 +69,10 @@ describe('[Running Setup Script]: Upload Assets', () => {
                     )))
                 )
             ))
-            .use(bundlrStorage({ address: `https://devnet.bundlr.network` }));
+            .use(UPLOAD_TO_ARWEAVE
+                ? bundlrStorage({ address: `https://devnet.bundlr.network` })
+                : localStorage()
+            );
         const { uri } = await metaplex.nfts().uploadMetadata({
             name,
             symbol,
@@ -67,6 +80,7 @@ describe('[Running Setup Script]: Upload Assets', () => {
             image: toMetaplexFile(fs.readFileSync(imagePath), imageName, { contentType: 'image' }),
         });
         console.log(`ASSET: ${name.padEnd(18, ' ')} URI: ${uri}`);
+        uris[name] = uri
     }
 
     /**
@@ -78,4 +92,12 @@ describe('[Running Setup Script]: Upload Assets', () => {
             sleepSeconds(3)
         })
     }
+
+    /**
+     * Save the local URIs for the `create-assets` script
+     */
+    after(() => {
+        if (!UPLOAD_TO_ARWEAVE)
+            fs.writeFileSync('./tests/util/uris.json', JSON.stringify(uris))
+    })
 })
@@ -90,3 +90,6 @@ export const ASSETS: [string, string, string, string, number, number][] = [
         10,
     ],
 ]
+
+// The swap fee the Liquidity Pool is created with, in basis points (0.3%)
+export const SWAP_FEE_BPS = 30
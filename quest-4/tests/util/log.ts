@@ -5,7 +5,8 @@ import {
     getAccount as getTokenAccount,
 } from '@solana/spl-token'
 import { Connection, PublicKey } from '@solana/web3.js'
-import { fromBigIntQuantity } from './token'
+import { TokenAmount } from './amount'
+import { getTokenProgramId } from './token'
 import { calculateBalances } from './swap'
 
 /**
@@ -196,8 +197,16 @@ export async function logPool(
     console.log('       Holdings:')
     for (const a of assets) {
         const holding = getHoldings(a.address, tokenAccounts)
-        const mint = await getMint(connection, a.address)
-        const normalizedHolding = fromBigIntQuantity(holding, mint.decimals)
+        const mint = await getMint(
+            connection,
+            a.address,
+            undefined,
+            await getTokenProgramId(connection, a.address)
+        )
+        const normalizedHolding = new TokenAmount(
+            holding,
+            mint.decimals
+        ).toFixed(6)
         console.log(
             `                   ${a.name.padEnd(
                 padding,
@@ -0,0 +1,169 @@
+import {
+    AssetNotFoundError,
+    MetaplexFile,
+    MetaplexPlugin,
+    StorageDriver,
+    lamports,
+    toMetaplexFile,
+} from '@metaplex-foundation/js'
+import crypto from 'crypto'
+import fs from 'fs'
+import http from 'http'
+import path from 'path'
+
+// The default directory to store the uploaded files within
+const DEFAULT_STORAGE_DIR = './.local_storage'
+
+// The default URL the storage directory is served at
+const DEFAULT_STORAGE_URL = 'http://localhost:7878'
+
+// The content types of the served files, by extension
+const CONTENT_TYPES: { [extension: string]: string } = {
+    '.json': 'application/json',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.svg': 'image/svg+xml',
+    '.webp': 'image/webp',
+}
+
+/**
+ * Options for the local storage driver and server
+ */
+export interface LocalStorageOptions {
+    // The directory to store the files within (defaults to `LOCAL_STORAGE_DIR`)
+    directory?: string
+    // The URL the directory is served at (defaults to `LOCAL_STORAGE_URL`)
+    baseUrl?: string
+}
+
+/**
+ *
+ * Resolve the storage options, falling back to the env variables
+ *
+ * @param options Local storage options
+ * @returns The storage directory and the URL it is served at
+ */
+function resolveOptions(options: LocalStorageOptions = {}) {
+    const directory = path.resolve(
+        options.directory ||
+            process.env.LOCAL_STORAGE_DIR ||
+            DEFAULT_STORAGE_DIR
+    )
+    const baseUrl =
+        options.baseUrl || process.env.LOCAL_STORAGE_URL || DEFAULT_STORAGE_URL
+    return {
+        directory,
+        baseUrl: baseUrl.endsWith('/') ? baseUrl : baseUrl + '/',
+    }
+}
+
+/**
+ * Metaplex storage driver that saves files to a local directory, named by
+ * the hash of their content, so they can be served by `startStorageServer`
+ */
+export class LocalStorageDriver implements StorageDriver {
+    readonly directory: string
+    readonly baseUrl: string
+
+    constructor(options?: LocalStorageOptions) {
+        const resolved = resolveOptions(options)
+        this.directory = resolved.directory
+        this.baseUrl = resolved.baseUrl
+        fs.mkdirSync(this.directory, { recursive: true })
+    }
+
+    async getUploadPrice() {
+        return lamports(0)
+    }
+
+    async upload(file: MetaplexFile) {
+        const hash = crypto
+            .createHash('sha256')
+            .update(file.buffer)
+            .digest('hex')
+        const fileName = file.extension ? `${hash}.${file.extension}` : hash
+        const filePath = path.join(this.directory, fileName)
+        if (!fs.existsSync(filePath)) fs.writeFileSync(filePath, file.buffer)
+        return this.baseUrl + fileName
+    }
+
+    async download(uri: string) {
+        const filePath = path.join(
+            this.directory,
+            path.basename(uri.slice(this.baseUrl.length))
+        )
+        if (!uri.startsWith(this.baseUrl) || !fs.existsSync(filePath))
+            throw new AssetNotFoundError(uri)
+        return toMetaplexFile(fs.readFileSync(filePath), path.basename(uri))
+    }
+}
+
+/**
+ *
+ * Metaplex plugin to upload files to a local directory
+ *
+ * @param options Local storage options
+ * @returns The Metaplex plugin
+ */
+export function localStorage(options?: LocalStorageOptions): MetaplexPlugin {
+    return {
+        install(metaplex) {
+            metaplex.storage().setDriver(new LocalStorageDriver(options))
+        },
+    }
+}
+
+/**
+ *
+ * Start an HTTP server for the local storage directory, on the port of its
+ * URL. Any origin can fetch the files, so the app can load the metadata
+ *
+ * @param options Local storage options
+ * @returns The started server
+ */
+export function startStorageServer(
+    options?: LocalStorageOptions
+): Promise<http.Server> {
+    const { directory, baseUrl } = resolveOptions(options)
+    const url = new URL(baseUrl)
+
+    const server = http.createServer((req, res) => {
+        res.setHeader('Access-Control-Allow-Origin', '*')
+        // A malformed percent-encoding can't name a file, and must not take
+        // the server down
+        let requestPath: string
+        try {
+            requestPath = decodeURIComponent((req.url || '').split('?')[0])
+        } catch {
+            res.writeHead(400).end('Bad request')
+            return
+        }
+        // Only the files directly within the directory are served (ignoring
+        // the null padding of URIs read from on-chain metadata)
+        const fileName = path.basename(requestPath).replace(/\0/g, '')
+        const filePath = path.join(directory, fileName)
+        if (
+            !fileName ||
+            !fs.existsSync(filePath) ||
+            !fs.statSync(filePath).isFile()
+        ) {
+            res.writeHead(404).end('Not found')
+            return
+        }
+        res.writeHead(200, {
+            'Content-Type':
+                CONTENT_TYPES[path.extname(fileName)] ||
+                'application/octet-stream',
+        })
+        fs.createReadStream(filePath).pipe(res)
+    })
+
+    return new Promise((resolve, reject) => {
+        server.once('error', reject)
+        server.listen(Number(url.port || 80), url.hostname, () =>
+            resolve(server)
+        )
+    })
+}
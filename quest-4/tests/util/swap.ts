@@ -7,7 +7,8 @@ import {
 } from '@solana/spl-token'
 import { Connection, PublicKey } from '@solana/web3.js'
 import { SwapProgram } from '../../target/types/swap_program'
-import { fromBigIntQuantity } from './token'
+import { TokenAmount } from './amount'
+import { getTokenProgramId } from './token'
 
 /**
  *
@@ -41,10 +42,16 @@ export async function fetchPoolTokenAccounts(
     poolAddress: PublicKey,
     pool: anchor.IdlTypes<anchor.Idl>['LiquidityPool']
 ): Promise<TokenAccount[]> {
+    const tokenProgramId: PublicKey = pool.tokenProgram
     const tokenAddresses = pool.assets.map((m) =>
-        getAssociatedTokenAddressSync(m, poolAddress, true)
+        getAssociatedTokenAddressSync(m, poolAddress, true, tokenProgramId)
+    )
+    return getMultipleTokenAccounts(
+        connection,
+        tokenAddresses,
+        undefined,
+        tokenProgramId
     )
-    return getMultipleTokenAccounts(connection, tokenAddresses)
 }
 
 /**
@@ -69,38 +76,57 @@ export async function calculateBalances(
     payAddress: PublicKey,
     payDecimals: number
 ): Promise<[string, string, string, string]> {
+    const tokenProgramId = await getTokenProgramId(connection, payAddress)
     const receiveUserTokenAccount = await getTokenAccount(
         connection,
-        getAssociatedTokenAddressSync(receiveAddress, owner)
+        getAssociatedTokenAddressSync(
+            receiveAddress,
+            owner,
+            false,
+            tokenProgramId
+        ),
+        undefined,
+        tokenProgramId
     )
-    const receiveUserBalance = fromBigIntQuantity(
+    const receiveUserBalance = new TokenAmount(
         receiveUserTokenAccount.amount,
         receiveDecimals
-    )
+    ).toFixed(6)
     const payUserTokenAccount = await getTokenAccount(
         connection,
-        getAssociatedTokenAddressSync(payAddress, owner)
+        getAssociatedTokenAddressSync(payAddress, owner, false, tokenProgramId),
+        undefined,
+        tokenProgramId
     )
-    const payUserBalance = fromBigIntQuantity(
+    const payUserBalance = new TokenAmount(
         payUserTokenAccount.amount,
         payDecimals
-    )
+    ).toFixed(6)
     const receivePoolTokenAccount = await getTokenAccount(
         connection,
-        getAssociatedTokenAddressSync(receiveAddress, pool, true)
+        getAssociatedTokenAddressSync(
+            receiveAddress,
+            pool,
+            true,
+            tokenProgramId
+        ),
+        undefined,
+        tokenProgramId
     )
-    const receivePoolBalance = fromBigIntQuantity(
+    const receivePoolBalance = new TokenAmount(
         receivePoolTokenAccount.amount,
         receiveDecimals
-    )
+    ).toFixed(6)
     const payPoolTokenAccount = await getTokenAccount(
         connection,
-        getAssociatedTokenAddressSync(payAddress, pool, true)
+        getAssociatedTokenAddressSync(payAddress, pool, true, tokenProgramId),
+        undefined,
+        tokenProgramId
     )
-    const payPoolBalance = fromBigIntQuantity(
+    const payPoolBalance = new TokenAmount(
         payPoolTokenAccount.amount,
         payDecimals
-    )
+    ).toFixed(6)
     return [
         receiveUserBalance,
         receivePoolBalance,
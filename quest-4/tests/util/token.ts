@@ -8,53 +8,60 @@ import {
     createMintToInstruction,
     getAssociatedTokenAddressSync,
     MINT_SIZE,
+    TOKEN_2022_PROGRAM_ID,
     TOKEN_PROGRAM_ID,
 } from '@solana/spl-token'
 import { Connection, Keypair, PublicKey, SystemProgram } from '@solana/web3.js'
-import { buildTransaction } from './transaction'
+import { TokenAmount } from './amount'
+import { sendTransactionWithRetries } from './transaction'
 import { logNewMint } from './log'
+import {
+    createInitializeMetadataPointerInstruction,
+    createInitializeTokenMetadataInstruction,
+    getMetadataPointerMintLen,
+    getTokenMetadataLen,
+} from './token2022'
 
 /**
  *
- * Returns the real quantity of a `quantity` parameter by
- * increasing the number using the mint's decimal places
- *
- * @param quantity The provided quantity argument
- * @param decimals The decimals of the associated mint
- * @returns The real quantity of a `quantity` parameter
- */
-export function toBigIntQuantity(quantity: number, decimals: number): bigint {
-    return BigInt(quantity) * BigInt(10) ** BigInt(decimals)
-}
-
-/**
- *
- * Returns the nominal quantity of a `quantity` parameter by
- * decreasing the number using the mint's decimal places
+ * Returns the token program that owns a mint (either the SPL Token or the
+ * Token-2022 program)
  *
- * @param quantity The real quantity of a `quantity` parameter
- * @param decimals The decimals of the associated mint
- * @returns The nominal quantity of a `quantity` parameter
+ * @param connection Connection to Solana RPC
+ * @param mint The mint's address
+ * @returns The address of the token program that owns the mint
  */
-export function fromBigIntQuantity(quantity: bigint, decimals: number): string {
-    return (Number(quantity) / 10 ** decimals).toFixed(6)
+export async function getTokenProgramId(
+    connection: Connection,
+    mint: PublicKey
+): Promise<PublicKey> {
+    const mintAccount = await connection.getAccountInfo(mint)
+    if (!mintAccount) throw Error(`Mint not found: ${mint.toBase58()}`)
+    return mintAccount.owner
 }
 
 /**
  *
  * Creates and mints new SPL tokens to the local keypair
  *
+ * Token-2022 mints store their metadata directly on the mint (using the
+ * metadata pointer and token metadata extensions) instead of in a separate
+ * Metaplex metadata account
+ *
  * @param connection Connection to Solana RPC
  * @param payer The Liquidity Provider (local wallet in `Anchor.toml`)
  * @param mintKeypair The generated keypair to be used for the new mint
  * @param asset The associated asset this new mint will represent
+ * @param metadata Whether or not to add metadata to the new mint
+ * @param tokenProgramId The token program to create the mint with (defaults to the SPL Token program)
  */
 export async function mintNewTokens(
     connection: Connection,
     payer: Keypair,
     mintKeypair: Keypair,
     asset: [string, string, string, string, number, number],
-    metadata: boolean
+    metadata: boolean,
+    tokenProgramId: PublicKey = TOKEN_PROGRAM_ID
 ) {
     const assetName = asset[0]
     const assetSymbol = asset[1]
@@ -62,23 +69,40 @@ export async function mintNewTokens(
     const decimals = asset[4]
     const quantity = asset[5]
 
+    const token2022Metadata =
+        metadata && tokenProgramId.equals(TOKEN_2022_PROGRAM_ID)
+
     const tokenAccount = getAssociatedTokenAddressSync(
         mintKeypair.publicKey,
-        payer.publicKey
+        payer.publicKey,
+        false,
+        tokenProgramId
     )
 
+    // The token metadata is reallocated into the mint account when it's
+    // initialized, so the account is only funded for it up front
+    const mintSpace = token2022Metadata
+        ? getMetadataPointerMintLen()
+        : MINT_SIZE
+    const mintRentSpace = token2022Metadata
+        ? mintSpace + getTokenMetadataLen(assetName, assetSymbol, assetUri)
+        : mintSpace
+
     const createMintAccountIx = SystemProgram.createAccount({
         fromPubkey: payer.publicKey,
         newAccountPubkey: mintKeypair.publicKey,
-        lamports: await connection.getMinimumBalanceForRentExemption(MINT_SIZE),
-        space: MINT_SIZE,
-        programId: TOKEN_PROGRAM_ID,
+        lamports: await connection.getMinimumBalanceForRentExemption(
+            mintRentSpace
+        ),
+        space: mintSpace,
+        programId: tokenProgramId,
     })
     const initializeMintIx = createInitializeMintInstruction(
         mintKeypair.publicKey,
         decimals,
         payer.publicKey,
-        payer.publicKey
+        payer.publicKey,
+        tokenProgramId
     )
     const createMetadataIx = createCreateMetadataAccountV3Instruction(
         {
@@ -116,20 +140,43 @@ export async function mintNewTokens(
             payer.publicKey,
             tokenAccount,
             payer.publicKey,
-            mintKeypair.publicKey
+            mintKeypair.publicKey,
+            tokenProgramId
         )
     const mintToWalletIx = createMintToInstruction(
         mintKeypair.publicKey,
         tokenAccount,
         payer.publicKey,
-        toBigIntQuantity(quantity, decimals)
+        TokenAmount.fromDecimal(quantity, decimals).raw,
+        [],
+        tokenProgramId
     )
 
-    const tx = await buildTransaction(
+    const { signature } = await sendTransactionWithRetries(
         connection,
         payer.publicKey,
         [payer, mintKeypair],
-        metadata
+        token2022Metadata
+            ? [
+                  createMintAccountIx,
+                  // Extensions must be initialized before the mint, but the
+                  // token metadata only after it
+                  createInitializeMetadataPointerInstruction(
+                      mintKeypair.publicKey,
+                      payer.publicKey
+                  ),
+                  initializeMintIx,
+                  createInitializeTokenMetadataInstruction(
+                      mintKeypair.publicKey,
+                      payer.publicKey,
+                      assetName,
+                      assetSymbol,
+                      assetUri
+                  ),
+                  createAssociatedtokenAccountIx,
+                  mintToWalletIx,
+              ]
+            : metadata
             ? [
                   createMintAccountIx,
                   initializeMintIx,
@@ -144,7 +191,6 @@ export async function mintNewTokens(
                   mintToWalletIx,
               ]
     )
-    const signature = await connection.sendTransaction(tx)
     logNewMint(
         assetName.toUpperCase(),
         decimals,
@@ -171,20 +217,27 @@ export async function mintExistingTokens(
     quantity: number,
     decimals: number
 ) {
-    const tokenAccount = getAssociatedTokenAddressSync(mint, payer.publicKey)
+    const tokenProgramId = await getTokenProgramId(connection, mint)
+    const tokenAccount = getAssociatedTokenAddressSync(
+        mint,
+        payer.publicKey,
+        false,
+        tokenProgramId
+    )
 
     const mintToWalletIx = createMintToInstruction(
         mint,
         tokenAccount,
         payer.publicKey,
-        toBigIntQuantity(quantity, decimals)
+        TokenAmount.fromDecimal(quantity, decimals).raw,
+        [],
+        tokenProgramId
     )
 
-    const tx = await buildTransaction(
+    await sendTransactionWithRetries(
         connection,
         payer.publicKey,
         [payer],
         [mintToWalletIx]
     )
-    await connection.sendTransaction(tx)
 }
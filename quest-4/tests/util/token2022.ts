@@ -0,0 +1,136 @@
+import {
+    ACCOUNT_SIZE,
+    ACCOUNT_TYPE_SIZE,
+    LENGTH_SIZE,
+    TOKEN_2022_PROGRAM_ID,
+    TYPE_SIZE,
+} from '@solana/spl-token'
+import { PublicKey, TransactionInstruction } from '@solana/web3.js'
+import crypto from 'crypto'
+
+// The installed `@solana/spl-token` doesn't include the metadata pointer or
+// token metadata extensions yet, so their instructions are built by hand
+const METADATA_POINTER_EXTENSION_SIZE = 64
+const METADATA_POINTER_EXTENSION_INSTRUCTION = 39
+
+/**
+ *
+ * Borsh encodes a string (a u32 length, followed by the utf-8 bytes)
+ *
+ * @param value The string to encode
+ * @returns The encoded string
+ */
+function encodeString(value: string): Buffer {
+    const bytes = Buffer.from(value, 'utf-8')
+    const length = Buffer.alloc(4)
+    length.writeUInt32LE(bytes.length)
+    return Buffer.concat([length, bytes])
+}
+
+/**
+ *
+ * Returns the space a Token-2022 mint account needs for the metadata pointer
+ * extension
+ *
+ * @returns The mint account's space (without the token metadata)
+ */
+export function getMetadataPointerMintLen(): number {
+    return (
+        ACCOUNT_SIZE +
+        ACCOUNT_TYPE_SIZE +
+        TYPE_SIZE +
+        LENGTH_SIZE +
+        METADATA_POINTER_EXTENSION_SIZE
+    )
+}
+
+/**
+ *
+ * Returns the space the token metadata extension adds to a mint account
+ *
+ * @param name The name of the token
+ * @param symbol The symbol of the token
+ * @param uri The URI of the token's off-chain metadata
+ * @returns The token metadata's space
+ */
+export function getTokenMetadataLen(
+    name: string,
+    symbol: string,
+    uri: string
+): number {
+    return (
+        TYPE_SIZE +
+        LENGTH_SIZE +
+        // Update authority + mint
+        64 +
+        encodeString(name).length +
+        encodeString(symbol).length +
+        encodeString(uri).length +
+        // Additional metadata vector length
+        4
+    )
+}
+
+/**
+ *
+ * Creates an instruction to initialize the metadata pointer extension,
+ * pointing to the mint itself (where the token metadata is stored)
+ *
+ * @param mint The Token-2022 mint (not yet initialized)
+ * @param authority The authority able to change the metadata pointer
+ * @returns The instruction
+ */
+export function createInitializeMetadataPointerInstruction(
+    mint: PublicKey,
+    authority: PublicKey
+): TransactionInstruction {
+    return new TransactionInstruction({
+        programId: TOKEN_2022_PROGRAM_ID,
+        keys: [{ pubkey: mint, isSigner: false, isWritable: true }],
+        data: Buffer.concat([
+            Buffer.from([METADATA_POINTER_EXTENSION_INSTRUCTION, 0]),
+            authority.toBuffer(),
+            mint.toBuffer(),
+        ]),
+    })
+}
+
+/**
+ *
+ * Creates an instruction to initialize the token metadata stored directly on
+ * a Token-2022 mint (the mint must already be initialized)
+ *
+ * @param mint The Token-2022 mint
+ * @param authority The mint authority, which also becomes the update authority
+ * @param name The name of the token
+ * @param symbol The symbol of the token
+ * @param uri The URI of the token's off-chain metadata
+ * @returns The instruction
+ */
+export function createInitializeTokenMetadataInstruction(
+    mint: PublicKey,
+    authority: PublicKey,
+    name: string,
+    symbol: string,
+    uri: string
+): TransactionInstruction {
+    return new TransactionInstruction({
+        programId: TOKEN_2022_PROGRAM_ID,
+        keys: [
+            { pubkey: mint, isSigner: false, isWritable: true },
+            { pubkey: authority, isSigner: false, isWritable: false },
+            { pubkey: mint, isSigner: false, isWritable: false },
+            { pubkey: authority, isSigner: true, isWritable: false },
+        ],
+        data: Buffer.concat([
+            crypto
+                .createHash('sha256')
+                .update('spl_token_metadata_interface:initialize_account')
+                .digest()
+                .subarray(0, 8),
+            encodeString(name),
+            encodeString(symbol),
+            encodeString(uri),
+        ]),
+    })
+}
@@ -82,6 +82,7 @@ pub fn try_arbitrage(args: TryArbitrageArgs<'_, '_>) -> ProgramResult {
                                     args.associated_token_program.to_owned(),
                                 ],
                                 user_i.3,
+                                0,
                             ),
                             (
                                 *args.swap_2_program.key,
@@ -99,6 +100,7 @@ pub fn try_arbitrage(args: TryArbitrageArgs<'_, '_>) -> ProgramResult {
                                     args.associated_token_program.to_owned(),
                                 ],
                                 r_swap_1,
+                                user_i.3,
                             ),
                         )
                     }
@@ -121,7 +123,8 @@ pub fn try_arbitrage(args: TryArbitrageArgs<'_, '_>) -> ProgramResult {
                                     args.system_program.to_owned(),
                                     args.associated_token_program.to_owned(),
                                 ],
-                                r_swap_2,
+                                user_i.3,
+                                0,
                             ),
                             (
                                 *args.swap_1_program.key,
@@ -138,7 +141,10 @@ pub fn try_arbitrage(args: TryArbitrageArgs<'_, '_>) -> ProgramResult {
                                     args.system_program.to_owned(),
                                     args.associated_token_program.to_owned(),
                                 ],
-                                user_j.3,
+                                // Sell what the buy returned, like Swap #1 does,
+                                // so the sell's `min_receive` covers the trade
+                                r_swap_2,
+                                user_i.3,
                             ),
                         )
                     }
@@ -183,11 +189,14 @@ fn check_for_arbitrage(r_swap_1: u64, r_swap_2: u64, temperature: u8) -> Option<
 /// Invokes the arbitrage trade by sending a cross-program invocation (CPI)
 /// first to the swap program we intend to buy from (receive), and then
 /// immediately send another CPI to the swap program we intend to sell to
+///
+/// Each swap is given as its program, its accounts, the amount to pay and the
+/// minimum amount to receive
 fn invoke_arbitrage(
-    buy: (Pubkey, &[AccountInfo], u64),
-    sell: (Pubkey, &[AccountInfo], u64),
+    buy: (Pubkey, &[AccountInfo], u64, u64),
+    sell: (Pubkey, &[AccountInfo], u64, u64),
 ) -> ProgramResult {
-    let (buy_swap_ix_data, sell_swap_ix_data) = build_ix_datas(buy.2, sell.2);
+    let (buy_swap_ix_data, sell_swap_ix_data) = build_ix_datas((buy.2, buy.3), (sell.2, sell.3));
     let ix_buy = Instruction::new_with_borsh(
         buy.0,
         &buy_swap_ix_data,
@@ -207,18 +216,31 @@ fn invoke_arbitrage(
 
 /// Used to build the instruction data for the `swap` instruction
 /// on each swap program
-fn build_ix_datas(buy_amount: u64, sell_amount: u64) -> ([u8; 16], [u8; 16]) {
+///
+/// The swap programs take a `min_receive` after the amount to pay. The buy
+/// takes none, since our `f(p)` doesn't include the pools' fees and can't
+/// match their math exactly, but the sell must return at least what we paid
+/// for the buy, so the whole trade fails (and we pay nothing) unless it
+/// turns a profit
+fn build_ix_datas(
+    (buy_amount, buy_min_receive): (u64, u64),
+    (sell_amount, sell_min_receive): (u64, u64),
+) -> ([u8; 24], [u8; 24]) {
     // Initialize both datas
-    let mut buy_swap_ix_data = [0u8; 16];
-    let mut sell_swap_ix_data = [0u8; 16];
+    let mut buy_swap_ix_data = [0u8; 24];
+    let mut sell_swap_ix_data = [0u8; 24];
     // Lay out the configs
     let swap_ix_hash = solana_program::hash::hash(b"global:swap");
     let buy_amount_as_bytes: [u8; 8] = buy_amount.to_le_bytes();
     let sell_amount_as_bytes: [u8; 8] = sell_amount.to_le_bytes();
+    let buy_min_receive_as_bytes: [u8; 8] = buy_min_receive.to_le_bytes();
+    let sell_min_receive_as_bytes: [u8; 8] = sell_min_receive.to_le_bytes();
     // Copy in the bytes
     buy_swap_ix_data[..8].copy_from_slice(&swap_ix_hash.to_bytes()[..8]);
-    buy_swap_ix_data[8..].copy_from_slice(&buy_amount_as_bytes);
+    buy_swap_ix_data[8..16].copy_from_slice(&buy_amount_as_bytes);
+    buy_swap_ix_data[16..].copy_from_slice(&buy_min_receive_as_bytes);
     sell_swap_ix_data[..8].copy_from_slice(&swap_ix_hash.to_bytes()[..8]);
-    sell_swap_ix_data[8..].copy_from_slice(&sell_amount_as_bytes);
+    sell_swap_ix_data[8..16].copy_from_slice(&sell_amount_as_bytes);
+    sell_swap_ix_data[16..].copy_from_slice(&sell_min_receive_as_bytes);
     (buy_swap_ix_data, sell_swap_ix_data)
 }
@@ -15,7 +15,10 @@ import {
     buildTransactionV0WithLookupTable,
     createAddressLookupTable,
     extendAddressLookupTable,
+    getAddressLookupTable,
     printAddressLookupTable,
+    sendTransactionWithRetries,
+    TransactionFailedError,
 } from './util/transaction'
 import { before, describe, it } from 'mocha'
 
@@ -196,20 +199,45 @@ describe('Arbitrage Bot', async () => {
         // console.log(
         //     `Tx size WITHOUT Lookup Table   : ${txNoLT.serialize().length}`
         // )
+        const lookupTableAccount = await getAddressLookupTable(
+            connection,
+            lookupTable
+        )
         try {
-            await connection.sendTransaction(tx, { skipPreflight: true })
+            await sendTransactionWithRetries(
+                connection,
+                [ix],
+                payer.publicKey,
+                [payer],
+                { lookupTables: [lookupTableAccount] }
+            )
             console.log('====================================')
             console.log('   Arbitrage trade placed!')
             console.log('====================================')
         } catch (error) {
-            if (error instanceof SendTransactionError) {
-                if (error.message.includes('custom program error: 0x3')) {
-                    console.log('====================================')
-                    console.log('   No arbitrage opportunity found')
-                    console.log('====================================')
-                } else {
-                    throw error
-                }
+            // `NoArbitrage` is custom program error 3, reported either by
+            // the preflight checks or by the processed transaction
+            if (
+                (error instanceof SendTransactionError &&
+                    error.message.includes('custom program error: 0x3')) ||
+                (error instanceof TransactionFailedError &&
+                    error.message.includes('{"Custom":3}'))
+            ) {
+                console.log('====================================')
+                console.log('   No arbitrage opportunity found')
+                console.log('====================================')
+            } else if (
+                // The swap programs' `InvalidSwapSlippageExceeded` (custom
+                // program error 6006): the sell would have returned less than
+                // the buy paid, so the trade was rolled back
+                (error instanceof SendTransactionError &&
+                    error.message.includes('custom program error: 0x1776')) ||
+                (error instanceof TransactionFailedError &&
+                    error.message.includes('{"Custom":6006}'))
+            ) {
+                console.log('====================================')
+                console.log('   Arbitrage trade would not profit')
+                console.log('====================================')
             } else {
                 throw error
             }
@@ -0,0 +1,248 @@
+const ZERO = BigInt(0)
+const ONE = BigInt(1)
+const TWO = BigInt(2)
+const TEN = BigInt(10)
+
+/**
+ *
+ * Expands a number's string representation (which may use exponential
+ * notation, like `1e-7` or `2.5e+21`) into a plain decimal string
+ *
+ * @param value The number to expand
+ * @returns The number as a plain decimal string
+ */
+function numberToDecimalString(value: number): string {
+    if (!isFinite(value)) {
+        throw new Error(`Invalid token amount: ${value}`)
+    }
+    const [coefficient, exponent] = String(value).split('e')
+    if (exponent === undefined) {
+        return coefficient
+    }
+    const negative = coefficient.charAt(0) === '-'
+    const [whole, fraction = ''] = coefficient.replace('-', '').split('.')
+    const digits = whole + fraction
+    const point = whole.length + Number(exponent)
+    const expanded =
+        point <= 0
+            ? '0.' + '0'.repeat(-point) + digits
+            : point >= digits.length
+            ? digits + '0'.repeat(point - digits.length)
+            : digits.slice(0, point) + '.' + digits.slice(point)
+    return (negative ? '-' : '') + expanded
+}
+
+/**
+ *
+ * An exact quantity of an SPL token, stored as a `bigint` of the mint's base
+ * units alongside the mint's decimal places
+ *
+ * Unlike a `number`, it never loses precision, no matter the mint's decimals
+ * or the size of the supply
+ */
+export class TokenAmount {
+    /**
+     *
+     * @param raw The quantity in the mint's base units
+     * @param decimals The decimals of the associated mint
+     */
+    constructor(readonly raw: bigint, readonly decimals: number) {
+        if (!Number.isInteger(decimals) || decimals < 0) {
+            throw new Error(`Invalid decimals: ${decimals}`)
+        }
+    }
+
+    /**
+     *
+     * Parses a nominal quantity (such as `"12.5"` or `12.5`) into the mint's
+     * base units
+     *
+     * @param value The nominal quantity, as a decimal string or a number
+     * @param decimals The decimals of the associated mint
+     * @returns The quantity as a `TokenAmount`
+     */
+    static fromDecimal(value: string | number, decimals: number): TokenAmount {
+        const text =
+            typeof value === 'number'
+                ? numberToDecimalString(value)
+                : value.trim()
+        const match = /^([+-]?)(\d*)(?:\.(\d*))?$/.exec(text)
+        if (!match || (!match[2] && !match[3])) {
+            throw new Error(`Invalid token amount: ${value}`)
+        }
+        const [, sign, whole, fraction = ''] = match
+        const significant = fraction.replace(/0+$/, '')
+        if (significant.length > decimals) {
+            throw new Error(
+                `Token amount ${value} has more than ${decimals} decimal places`
+            )
+        }
+        const raw = BigInt(
+            (whole || '0') +
+                significant +
+                '0'.repeat(decimals - significant.length)
+        )
+        return new TokenAmount(sign === '-' ? -raw : raw, decimals)
+    }
+
+    /**
+     *
+     * Creates a quantity from the mint's base units (such as a token account's
+     * `amount`, or an on-chain `u64` as a string)
+     *
+     * @param raw The quantity in the mint's base units
+     * @param decimals The decimals of the associated mint
+     * @returns The quantity as a `TokenAmount`
+     */
+    static fromRaw(
+        raw: bigint | number | string,
+        decimals: number
+    ): TokenAmount {
+        return new TokenAmount(BigInt(raw), decimals)
+    }
+
+    /**
+     *
+     * Creates an empty quantity of a mint
+     *
+     * @param decimals The decimals of the associated mint
+     * @returns A `TokenAmount` of zero
+     */
+    static zero(decimals: number): TokenAmount {
+        return new TokenAmount(ZERO, decimals)
+    }
+
+    /**
+     * Throws if the other quantity is of a mint with different decimals
+     */
+    private assertSameDecimals(other: TokenAmount) {
+        if (other.decimals !== this.decimals) {
+            throw new Error(
+                `Cannot combine token amounts with ${this.decimals} and ${other.decimals} decimals`
+            )
+        }
+    }
+
+    add(other: TokenAmount): TokenAmount {
+        this.assertSameDecimals(other)
+        return new TokenAmount(this.raw + other.raw, this.decimals)
+    }
+
+    sub(other: TokenAmount): TokenAmount {
+        this.assertSameDecimals(other)
+        return new TokenAmount(this.raw - other.raw, this.decimals)
+    }
+
+    /**
+     *
+     * Multiplies the quantity by a whole factor
+     *
+     * @param factor The factor to multiply by
+     * @returns The product as a `TokenAmount`
+     */
+    mul(factor: bigint | number): TokenAmount {
+        return new TokenAmount(this.raw * BigInt(factor), this.decimals)
+    }
+
+    /**
+     *
+     * Divides the quantity by a whole divisor, rounding toward zero (the same
+     * as integer division on-chain)
+     *
+     * @param divisor The divisor to divide by
+     * @returns The quotient as a `TokenAmount`
+     */
+    div(divisor: bigint | number): TokenAmount {
+        return new TokenAmount(this.raw / BigInt(divisor), this.decimals)
+    }
+
+    /**
+     *
+     * Compares this quantity to another of the same mint
+     *
+     * @param other The quantity to compare to
+     * @returns `-1`, `0` or `1` if this quantity is lower, equal or greater
+     */
+    cmp(other: TokenAmount): number {
+        this.assertSameDecimals(other)
+        return this.raw < other.raw ? -1 : this.raw > other.raw ? 1 : 0
+    }
+
+    eq(other: TokenAmount): boolean {
+        return this.cmp(other) === 0
+    }
+
+    lt(other: TokenAmount): boolean {
+        return this.cmp(other) < 0
+    }
+
+    lte(other: TokenAmount): boolean {
+        return this.cmp(other) <= 0
+    }
+
+    gt(other: TokenAmount): boolean {
+        return this.cmp(other) > 0
+    }
+
+    gte(other: TokenAmount): boolean {
+        return this.cmp(other) >= 0
+    }
+
+    isZero(): boolean {
+        return this.raw === ZERO
+    }
+
+    isNegative(): boolean {
+        return this.raw < ZERO
+    }
+
+    /**
+     *
+     * Formats the nominal quantity with a fixed number of decimal places,
+     * rounding half away from zero
+     *
+     * @param fractionDigits The number of decimal places to show
+     * @returns The nominal quantity as a decimal string
+     */
+    toFixed(fractionDigits: number): string {
+        const negative = this.raw < ZERO
+        let units = negative ? -this.raw : this.raw
+        let digits = this.decimals
+        if (fractionDigits < digits) {
+            const divisor = TEN ** BigInt(digits - fractionDigits)
+            const remainder = units % divisor
+            units = units / divisor + (remainder * TWO >= divisor ? ONE : ZERO)
+            digits = fractionDigits
+        }
+        const padded = units.toString().padStart(digits + 1, '0')
+        const whole = padded.slice(0, padded.length - digits)
+        const fraction = (
+            padded.slice(padded.length - digits) +
+            '0'.repeat(fractionDigits - digits)
+        ).slice(0, fractionDigits)
+        const sign = negative && units !== ZERO ? '-' : ''
+        return sign + whole + (fraction ? '.' + fraction : '')
+    }
+
+    /**
+     *
+     * Formats the exact nominal quantity, without any trailing zeros
+     *
+     * @returns The nominal quantity as a decimal string
+     */
+    toString(): string {
+        const fixed = this.toFixed(this.decimals)
+        return this.decimals > 0 ? fixed.replace(/\.?0+$/, '') : fixed
+    }
+
+    /**
+     *
+     * Converts the nominal quantity to a `number` (which may lose precision, so
+     * only use it for display purposes like charts)
+     *
+     * @returns The nominal quantity as a `number`
+     */
+    toNumber(): number {
+        return Number(this.toString())
+    }
+}
@@ -7,33 +7,8 @@ import {
     TOKEN_PROGRAM_ID,
 } from '@solana/spl-token'
 import { Connection, Keypair, PublicKey, SystemProgram } from '@solana/web3.js'
-import { buildTransactionV0 } from './transaction'
-
-/**
- *
- * Returns the real quantity of a `quantity` parameter by
- * increasing the number using the mint's decimal places
- *
- * @param quantity The provided quantity argument
- * @param decimals The decimals of the associated mint
- * @returns The real quantity of a `quantity` parameter
- */
-export function toBigIntQuantity(quantity: number, decimals: number): bigint {
-    return BigInt(quantity) * BigInt(10) ** BigInt(decimals)
-}
-
-/**
- *
- * Returns the nominal quantity of a `quantity` parameter by
- * decreasing the number using the mint's decimal places
- *
- * @param quantity The real quantity of a `quantity` parameter
- * @param decimals The decimals of the associated mint
- * @returns The nominal quantity of a `quantity` parameter
- */
-export function fromBigIntQuantity(quantity: bigint, decimals: number): string {
-    return (Number(quantity) / 10 ** decimals).toFixed(6)
-}
+import { TokenAmount } from './amount'
+import { sendTransactionWithRetries } from './transaction'
 
 /**
  *
@@ -57,13 +32,12 @@ export async function mintExistingTokens(
         mint,
         tokenAccount,
         payer.publicKey,
-        toBigIntQuantity(quantity, decimals)
+        TokenAmount.fromDecimal(quantity, decimals).raw
     )
-    const tx = await buildTransactionV0(
+    await sendTransactionWithRetries(
         connection,
         [mintToWalletIx],
         payer.publicKey,
         [payer]
     )
-    await connection.sendTransaction(tx)
 }
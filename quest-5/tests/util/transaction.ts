@@ -2,14 +2,75 @@ import {
     Connection,
     Keypair,
     PublicKey,
+    SendTransactionError,
     TransactionInstruction,
     VersionedTransaction,
     TransactionMessage,
     AddressLookupTableProgram,
     AddressLookupTableAccount,
+    Commitment,
+    ComputeBudgetProgram,
+    TransactionError,
 } from '@solana/web3.js'
+import bs58 from 'bs58'
 import { sleepSeconds } from '.'
 
+// How often an unconfirmed transaction is re-broadcast to the cluster
+const REBROADCAST_INTERVAL_SECONDS = 2
+
+// The maximum compute units a transaction may request
+const MAX_COMPUTE_UNIT_LIMIT = 1_400_000
+
+/**
+ * Options for adding priority fees to a transaction
+ */
+export interface PriorityFeeOptions {
+    // The percentile of the recent prioritization fees to pay (0-100)
+    percentile?: number
+    // The upper bound of the compute unit price, in micro-lamports
+    maxMicroLamports?: number
+    // The compute unit limit to request (estimated by simulation when not set)
+    computeUnitLimit?: number
+}
+
+/**
+ * Options for sending a transaction with `sendTransactionWithRetries`
+ */
+export interface SendTransactionOptions {
+    // Prepend ComputeBudget instructions to the transaction
+    priorityFee?: boolean | PriorityFeeOptions
+    // The number of times to sign with a fresh blockhash before giving up
+    maxAttempts?: number
+    commitment?: Commitment
+    lookupTables?: AddressLookupTableAccount[]
+}
+
+/**
+ * The details of a confirmed transaction
+ */
+export interface TransactionResult {
+    signature: string
+    slot: number
+    computeUnitsConsumed?: number
+    // The total fee paid, in lamports
+    fee: number
+    logs: string[]
+}
+
+/**
+ * Thrown when a sent transaction was processed by the cluster, but failed
+ */
+export class TransactionFailedError extends Error {
+    constructor(
+        public signature: string,
+        public err: TransactionError,
+        public logs: string[] = []
+    ) {
+        super(`Transaction ${signature} failed: ${JSON.stringify(err)}`)
+        this.name = 'TransactionFailedError'
+    }
+}
+
 /**
  *
  * Creates an Address Lookup Table
@@ -30,13 +91,12 @@ export async function createAddressLookupTable(
             payer: payer.publicKey,
             recentSlot,
         })
-    const tx = await buildTransactionV0(
+    await sendTransactionWithRetries(
         connection,
         [createLookupTableIx],
         payer.publicKey,
         [payer]
     )
-    await connection.sendTransaction(tx)
     return lookupTable
 }
 
@@ -61,13 +121,12 @@ export async function extendAddressLookupTable(
         lookupTable,
         payer: payer.publicKey,
     })
-    const tx = await buildTransactionV0(
+    await sendTransactionWithRetries(
         connection,
         [extendLookupTableIx],
         payer.publicKey,
         [payer]
     )
-    await connection.sendTransaction(tx)
 }
 
 /**
@@ -181,3 +240,296 @@ export async function buildTransactionV0WithLookupTable(
     signers.forEach((s) => tx.sign([s]))
     return tx
 }
+
+/**
+ *
+ * Checks if sending a transaction failed its preflight simulation, in which
+ * case the RPC never forwarded it to the cluster (a simulation that only
+ * failed on an unknown blockhash is retried)
+ *
+ * @param error The error thrown by `sendRawTransaction`
+ */
+function isPreflightFailure(error: unknown): boolean {
+    return (
+        error instanceof SendTransactionError &&
+        error.message.indexOf('simulation failed') >= 0 &&
+        error.message.indexOf('Blockhash not found') < 0
+    )
+}
+
+/**
+ *
+ * Builds and signs a transaction using the V0 format with the provided blockhash
+ *
+ * @param instructions Instructions to send
+ * @param payer Transaction Fee Payer
+ * @param signers All required signers, in order
+ * @param blockhash The recent blockhash to sign with
+ * @param lookupTables Any Address Lookup Tables to use
+ * @returns The signed transaction v0
+ */
+function signTransactionV0(
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    signers: Keypair[],
+    blockhash: string,
+    lookupTables?: AddressLookupTableAccount[]
+): VersionedTransaction {
+    const messageV0 = new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: blockhash,
+        instructions,
+    }).compileToV0Message(lookupTables)
+    const tx = new VersionedTransaction(messageV0)
+    tx.sign(signers)
+    return tx
+}
+
+/**
+ *
+ * Gets the compute unit price (in micro-lamports) paid by the given
+ * percentile of the recent transactions that locked any of the accounts
+ *
+ * @param connection Connection to Solana RPC
+ * @param writableAccounts The writable accounts of the transaction
+ * @param percentile The percentile of the recent prioritization fees (0-100)
+ * @returns The compute unit price, in micro-lamports
+ */
+export async function getPriorityFeeEstimate(
+    connection: Connection,
+    writableAccounts: PublicKey[],
+    percentile: number = 75
+): Promise<number> {
+    const fees = (
+        await connection.getRecentPrioritizationFees({
+            lockedWritableAccounts: writableAccounts,
+        })
+    )
+        .map((f) => f.prioritizationFee)
+        .sort((a, b) => a - b)
+    if (fees.length == 0) return 0
+    return fees[
+        Math.min(fees.length - 1, Math.floor((fees.length * percentile) / 100))
+    ]
+}
+
+/**
+ *
+ * Builds the ComputeBudget instructions to prepend to a transaction, pricing
+ * the compute units from the recent prioritization fees and estimating the
+ * compute unit limit by simulating the transaction
+ *
+ * @param connection Connection to Solana RPC
+ * @param instructions Instructions to send
+ * @param payer Transaction Fee Payer
+ * @param signers All required signers, in order
+ * @param options The priority fee options
+ * @param lookupTables Any Address Lookup Tables to use
+ * @returns The ComputeBudget instructions
+ */
+async function buildComputeBudgetInstructions(
+    connection: Connection,
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    signers: Keypair[],
+    options: PriorityFeeOptions,
+    lookupTables?: AddressLookupTableAccount[]
+): Promise<TransactionInstruction[]> {
+    const writableAccounts: PublicKey[] = []
+    instructions.forEach((ix) =>
+        ix.keys.forEach((k) => {
+            if (k.isWritable) writableAccounts.push(k.pubkey)
+        })
+    )
+    const microLamports = Math.min(
+        options.maxMicroLamports ?? 1_000_000,
+        await getPriorityFeeEstimate(
+            connection,
+            writableAccounts,
+            options.percentile
+        )
+    )
+    const priceInstructions = microLamports
+        ? [ComputeBudgetProgram.setComputeUnitPrice({ microLamports })]
+        : []
+    let computeUnitLimit = options.computeUnitLimit
+    if (!computeUnitLimit) {
+        // Estimate the compute units used, so the fee isn't paid on unused units
+        const { blockhash } = await connection.getLatestBlockhash()
+        const simulation = await connection.simulateTransaction(
+            signTransactionV0(
+                [
+                    ComputeBudgetProgram.setComputeUnitLimit({
+                        units: MAX_COMPUTE_UNIT_LIMIT,
+                    }),
+                    ...priceInstructions,
+                    ...instructions,
+                ],
+                payer,
+                signers,
+                blockhash,
+                lookupTables
+            ),
+            { sigVerify: false, replaceRecentBlockhash: true }
+        )
+        // A failed simulation is left to be reported when actually sending
+        if (simulation.value.err || !simulation.value.unitsConsumed)
+            return priceInstructions
+        // Add some headroom, since accounts may change before the tx lands
+        computeUnitLimit = Math.min(
+            MAX_COMPUTE_UNIT_LIMIT,
+            Math.ceil(simulation.value.unitsConsumed * 1.1)
+        )
+    }
+    return [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }),
+        ...priceInstructions,
+    ]
+}
+
+/**
+ *
+ * Fetches a processed transaction's details, retrying while the RPC has not
+ * indexed it yet
+ *
+ * @param connection Connection to Solana RPC
+ * @param signature The transaction signature
+ * @returns The transaction's details
+ */
+async function fetchTransactionResult(
+    connection: Connection,
+    signature: string
+): Promise<TransactionResult> {
+    for (let attempt = 0; attempt < 10; attempt++) {
+        const tx = await connection.getTransaction(signature, {
+            commitment: 'confirmed',
+            maxSupportedTransactionVersion: 0,
+        })
+        if (tx) {
+            if (tx.meta?.err)
+                throw new TransactionFailedError(
+                    signature,
+                    tx.meta.err,
+                    tx.meta.logMessages ?? []
+                )
+            return {
+                signature,
+                slot: tx.slot,
+                computeUnitsConsumed: tx.meta?.computeUnitsConsumed,
+                fee: tx.meta?.fee ?? 0,
+                logs: tx.meta?.logMessages ?? [],
+            }
+        }
+        await sleepSeconds(REBROADCAST_INTERVAL_SECONDS)
+    }
+    throw Error(`Unable to fetch the details of transaction ${signature}`)
+}
+
+/**
+ *
+ * Signs, sends and confirms a transaction using the V0 format, re-broadcasting
+ * it until it is confirmed and re-signing it with a fresh blockhash when its
+ * blockhash expires
+ *
+ * @param connection Connection to Solana RPC
+ * @param instructions Instructions to send
+ * @param payer Transaction Fee Payer
+ * @param signers All required signers, in order
+ * @param options Priority fee, retry and Address Lookup Table options
+ * @returns The confirmed transaction's details
+ */
+export async function sendTransactionWithRetries(
+    connection: Connection,
+    instructions: TransactionInstruction[],
+    payer: PublicKey,
+    signers: Keypair[],
+    options: SendTransactionOptions = {}
+): Promise<TransactionResult> {
+    const { priorityFee, maxAttempts = 3, commitment = 'confirmed' } = options
+    if (priorityFee) {
+        instructions = [
+            ...(await buildComputeBudgetInstructions(
+                connection,
+                instructions,
+                payer,
+                signers,
+                priorityFee === true ? {} : priorityFee,
+                options.lookupTables
+            )),
+            ...instructions,
+        ]
+    }
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const { blockhash, lastValidBlockHeight } =
+            await connection.getLatestBlockhash(commitment)
+        const tx = signTransactionV0(
+            instructions,
+            payer,
+            signers,
+            blockhash,
+            options.lookupTables
+        )
+        const rawTransaction = tx.serialize()
+        // The signature is known before sending, so the transaction can be
+        // tracked even if sending it errors
+        const signature = bs58.encode(tx.signatures[0])
+        // The first broadcast runs the preflight checks, so failures error right away
+        try {
+            await connection.sendRawTransaction(rawTransaction, {
+                maxRetries: 0,
+            })
+        } catch (error: unknown) {
+            if (isPreflightFailure(error)) throw error
+            // Any other error (like a timeout) may have happened after the tx
+            // was forwarded, so keep tracking it until its blockhash expires
+            // rather than re-signing it right away
+            console.warn(
+                `Unable to send transaction ${signature} (attempt ${attempt}/${maxAttempts}): ${
+                    error instanceof Error ? error.message : error
+                }`
+            )
+        }
+        // Re-broadcast the transaction until it's confirmed or its blockhash expires
+        while (true) {
+            // Check the block height first: a tx still unknown after expiry never lands
+            const expired =
+                (await connection.getBlockHeight(commitment)) >
+                lastValidBlockHeight
+            const status = (await connection.getSignatureStatuses([signature]))
+                .value[0]
+            if (status?.err) {
+                const failed = await connection
+                    .getTransaction(signature, {
+                        commitment: 'confirmed',
+                        maxSupportedTransactionVersion: 0,
+                    })
+                    .catch(() => null)
+                throw new TransactionFailedError(
+                    signature,
+                    status.err,
+                    failed?.meta?.logMessages ?? []
+                )
+            }
+            if (
+                status?.confirmationStatus === 'finalized' ||
+                (status?.confirmationStatus === 'confirmed' &&
+                    commitment !== 'finalized')
+            )
+                return fetchTransactionResult(connection, signature)
+            // Only re-sign when the tx was never processed, so it can't land twice
+            if (expired && !status) break
+            await sleepSeconds(REBROADCAST_INTERVAL_SECONDS)
+            if (!status)
+                await connection
+                    .sendRawTransaction(rawTransaction, {
+                        skipPreflight: true,
+                        maxRetries: 0,
+                    })
+                    .catch(() => null)
+        }
+        console.warn(
+            `Transaction ${signature} expired (attempt ${attempt}/${maxAttempts})`
+        )
+    }
+    throw Error(`Transaction was not confirmed after ${maxAttempts} attempts`)
+}
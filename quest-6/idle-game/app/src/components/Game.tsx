@@ -5,6 +5,7 @@ import {
 } from "@solana/wallet-adapter-react"
 import { FC, useCallback, useEffect, useState } from "react"
 import { notify } from "../utils/notifications"
+import { notifyTransactionError } from "../utils/errors"
 import { AnchorProvider, Program, setProvider } from "@coral-xyz/anchor"
 import { IdleGame, IDL } from "../idl/idle_game"
 import { IDLE_GAME_PROGRAM_ID } from "utils/anchor"
@@ -200,7 +201,7 @@ export const Game: FC = () => {
 
       notify({ type: "success", message: "Chopped tree!", txid: txSig })
     } catch (error: any) {
-      logError(error?.message)
+      logError(error)
     }
   }, [gameDataPDA, connection])
 
@@ -223,7 +224,7 @@ export const Game: FC = () => {
       })
       await connection.confirmTransaction(txSig, "confirmed")
     } catch (error: any) {
-      logError(error?.message)
+      logError(error)
     }
   }, [gameDataPDA, connection])
 
@@ -247,7 +248,7 @@ export const Game: FC = () => {
       await connection.confirmTransaction(txSig, "confirmed")
     } catch (error: any) {
       console.log(JSON.stringify(error))
-      logError(error?.message)
+      logError(error)
     }
   }, [gameDataPDA, connection])
 
@@ -270,7 +271,7 @@ export const Game: FC = () => {
       })
       await connection.confirmTransaction(txSig, "confirmed")
     } catch (error: any) {
-      logError(error?.message)
+      logError(error)
     }
   }, [gameDataPDA, connection])
 
@@ -299,18 +300,13 @@ export const Game: FC = () => {
       })
       await connection.confirmTransaction(txSig, "confirmed")
     } catch (error: any) {
-      logError(error?.message)
+      logError(error)
     }
   }, [gameDataPDA, connection])
 
-  function logError(error: string) {
-    notify({
-      type: "error",
-      message: `Error!`,
-      description: error,
-      txid: "",
-    })
-    console.log("error", `Error! ${error}`, "")
+  function logError(error: any) {
+    // decode the failed program and its error for the notification
+    notifyTransactionError(connection, error, "Error!")
   }
 
   return (
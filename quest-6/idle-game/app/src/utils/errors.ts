@@ -0,0 +1,146 @@
+import { Connection } from "@solana/web3.js"
+import { IDL } from "../idl/idle_game"
+import { IDLE_GAME_PROGRAM_ID } from "./anchor"
+import { notify } from "./notifications"
+
+/**
+ * The errors section of an Anchor IDL
+ */
+export interface IdlErrors {
+  name: string
+  errors?: { code: number; name: string; msg?: string }[]
+}
+
+/**
+ * A failed transaction, decoded into the program that failed and its error
+ */
+export interface DecodedTransactionError {
+  signature?: string
+  programId?: string
+  programName?: string
+  instructionIndex?: number
+  code?: number
+  name?: string
+  message: string
+  logs: string[]
+}
+
+// The programs with known errors, by program id
+const registry = new Map<string, IdlErrors>([[IDLE_GAME_PROGRAM_ID, IDL]])
+
+/**
+ * Register the errors of another program from its IDL, so they can be decoded
+ */
+export function registerProgramErrors(programId: string, idl: IdlErrors) {
+  registry.set(programId, idl)
+}
+
+/**
+ * Decode an error thrown when sending or simulating a transaction, fetching
+ * the transaction's logs when the error does not include them
+ */
+export async function decodeTransactionError(
+  connection: Connection,
+  error: any
+): Promise<DecodedTransactionError> {
+  const signature: string | undefined =
+    error?.signature ??
+    /(Transaction|Signature) ([A-Za-z0-9]{32,}) /.exec(
+      error?.message ?? ""
+    )?.[2]
+  let logs: string[] = error?.logs ?? []
+  if (!logs.length && signature) {
+    logs = await connection
+      .getTransaction(signature, {
+        commitment: "confirmed",
+        maxSupportedTransactionVersion: 0,
+      })
+      .then((tx) => tx?.meta?.logMessages ?? [])
+      .catch(() => [])
+  }
+
+  // The last program to fail is the one that returned the error
+  const failed = logs
+    .map((line) => /^Program (\w{32,44}) failed: (.*)$/.exec(line))
+    .filter((match) => !!match)
+    .pop()
+  const reason: string = failed?.[2] ?? error?.message ?? String(error)
+
+  const instructionError = error?.err?.InstructionError
+  const instructionMatch = /Error processing Instruction (\d+)/.exec(
+    error?.message ?? ""
+  )
+  const hexCode = /custom program error: (0x[0-9a-f]+)/i.exec(reason)?.[1]
+  const decoded: DecodedTransactionError = {
+    signature,
+    programId: failed?.[1],
+    instructionIndex:
+      instructionError?.[0] ??
+      (instructionMatch ? Number(instructionMatch[1]) : undefined),
+    code:
+      instructionError?.[1]?.Custom ??
+      (hexCode ? parseInt(hexCode, 16) : undefined),
+    message: reason,
+    logs,
+  }
+
+  // Anchor programs log their errors, so use them for unknown programs
+  const anchorError = logs
+    .map((line) =>
+      /Error Code: (\w+)\. Error Number: (\d+)\. Error Message: (.*?)\.?$/.exec(
+        line
+      )
+    )
+    .find((match) => !!match)
+  if (anchorError) {
+    decoded.name = anchorError[1]
+    decoded.code = Number(anchorError[2])
+    decoded.message = anchorError[3]
+  }
+
+  const idl = decoded.programId ? registry.get(decoded.programId) : undefined
+  if (idl) {
+    decoded.programName = idl.name
+    const idlError = idl.errors?.find((e) => e.code === decoded.code)
+    if (idlError) {
+      decoded.name = idlError.name
+      decoded.message = idlError.msg ?? idlError.name
+    }
+  }
+  return decoded
+}
+
+/**
+ * Format a decoded transaction error as a short, human readable summary
+ */
+export function formatDecodedError(decoded: DecodedTransactionError) {
+  const program = decoded.programName ?? decoded.programId ?? "Unknown program"
+  const error =
+    decoded.code === undefined
+      ? decoded.name
+      : `${decoded.name ?? "Custom error"} (${
+          decoded.code
+        } / 0x${decoded.code.toString(16)})`
+  return error
+    ? `${program}: ${error} - ${decoded.message}`
+    : `${program}: ${decoded.message}`
+}
+
+/**
+ * Decode a failed transaction's error and show it as a notification toast
+ */
+export async function notifyTransactionError(
+  connection: Connection,
+  error: any,
+  message: string = "Transaction failed!"
+) {
+  const decoded = await decodeTransactionError(connection, error)
+  console.error(formatDecodedError(decoded), decoded.logs)
+  notify({
+    type: "error",
+    message,
+    description: formatDecodedError(decoded),
+    txid: decoded.signature,
+  })
+  return decoded
+}
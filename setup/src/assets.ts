@@ -0,0 +1,119 @@
+/**
+ * The in-game assets that can be created by the setup CLI
+ */
+
+export type AssetConfig = {
+  // on-chain metadata name
+  name: string;
+  // on-chain metadata symbol
+  symbol: string;
+  // description used when uploading new JSON metadata
+  description: string;
+  // decimals of the SPL token mint (ignored for NFTs)
+  decimals: number;
+  // already uploaded JSON metadata, when available
+  uri?: string;
+  // local image (relative to the `setup` directory) to upload when there is no `uri`
+  image: string;
+};
+
+/**
+ * All known assets, keyed by the name used on the command line
+ * (e.g. `node dist/index.js cannons --spl 120`)
+ */
+export const ASSETS: { [key: string]: AssetConfig } = {
+  cannons: {
+    name: "Cannon",
+    symbol: "CAN",
+    description: "A cannon for defending yer ship!",
+    decimals: 9,
+    uri: "https://arweave.net/ArreGQ6DYdIPGs_KiwVXE7AMVclLliICTlls6Ff8DbY",
+    image: "../assets/cannon.png",
+  },
+  compasses: {
+    name: "Compass",
+    symbol: "COMP",
+    description: "A compass to navigate the seven seas!",
+    decimals: 3,
+    uri: "https://arweave.net/MvWxgCu231-0IrE3FWoaAYoFaD1MgWKOqDjCv5v6LEA",
+    image: "../assets/compass.png",
+  },
+  "fishing-nets": {
+    name: "Fishing Net",
+    symbol: "FISH",
+    description: "A fishing net for catching meals for the crew!",
+    decimals: 3,
+    uri: "https://arweave.net/2wCk8mVH8KyqwbYLlxae9kBBKb4jTRPeiXVrqUTvjUE",
+    image: "../assets/fishing-net.png",
+  },
+  gold: {
+    name: "Gold",
+    symbol: "GOLD",
+    description: "Ahh the finest gold in all of these waters!",
+    decimals: 9,
+    uri: "https://arweave.net/46B9y63MXlLnprZLvrRjS_50yecOydiLbxTbieAREBk",
+    image: "../assets/coin1-tp.png",
+  },
+  "grappling-hooks": {
+    name: "Grappling Hook",
+    symbol: "GRAP",
+    description: "A grappling hook for boarding other ships!",
+    decimals: 3,
+    uri: "https://arweave.net/RT9sF6ENI__DQGYD74H4SdncsjLyeO1Rm3dRQ1T1Tz0",
+    image: "../assets/grappling-hook.png",
+  },
+  gunpowder: {
+    name: "Gunpowder",
+    symbol: "GUNP",
+    description: "Gunpowder for ye muskets!",
+    decimals: 9,
+    uri: "https://arweave.net/eLqSxbbW7ATsQioluBZt9KG0YnU0jRoR_46g0EJU75Q",
+    image: "../assets/gunpowder.png",
+  },
+  kraken: {
+    name: "Kraken",
+    symbol: "KRKN",
+    description: "Release the Kraken!",
+    decimals: 0,
+    image: "../assets/kraken-1.png",
+  },
+  muskets: {
+    name: "Musket",
+    symbol: "MUSK",
+    description: "A musket for firing on enemies!",
+    decimals: 3,
+    uri: "https://arweave.net/tKdMfImOkHEqo8xWulIv92MybdpkbnWjDJmazj3lTpU",
+    image: "../assets/musket.png",
+  },
+  rum: {
+    name: "Rum",
+    symbol: "RUM",
+    description: "Rum, more rum!",
+    decimals: 9,
+    uri: "https://arweave.net/NJGvUP2EuK-LJ7QV6qRifcGC8ao2Vd9WSW2GjiGSpVw",
+    image: "../assets/rum.png",
+  },
+  telescopes: {
+    name: "Telescope",
+    symbol: "TELE",
+    description: "A telescope for spotting booty amongst the seas!",
+    decimals: 0,
+    uri: "https://arweave.net/NmBFKuCWk4yfAB4a6EGwXlWM92q5B9nBZMlRhpVA4y4",
+    image: "../assets/telescope.png",
+  },
+  "treasure-maps": {
+    name: "Treasure Map",
+    symbol: "TMAP",
+    description: "A map to help ye find long lost treasures!",
+    decimals: 0,
+    uri: "https://arweave.net/_cM90jcVdRRYt-OA8xIV--gZCAOpe18BCLvV2TVW7Fc",
+    image: "../assets/treasure-map-1.png",
+  },
+  trophies: {
+    name: "Battle Trophy",
+    symbol: "TRPHY",
+    description: "Awarded to the victors of the high seas!",
+    decimals: 0,
+    image: "../assets/battle-winner-1.png",
+  },
+};
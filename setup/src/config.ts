@@ -0,0 +1,61 @@
+/**
+ * Loads the master keypair and RPC connection used for the setup scripts
+ */
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Connection, Keypair, clusterApiUrl } from "@solana/web3.js";
+
+// default location of the Solana CLI config (written by `solana config set`)
+const SOLANA_CLI_CONFIG = path.join(os.homedir(), ".config", "solana", "cli", "config.yml");
+
+/*
+  Read a single `key: value` entry from the Solana CLI config file
+*/
+function readCliConfigValue(key: string): string | undefined {
+  if (!fs.existsSync(SOLANA_CLI_CONFIG)) return undefined;
+
+  const config = fs.readFileSync(SOLANA_CLI_CONFIG, { encoding: "utf-8" });
+  const match = new RegExp(`^${key}:\\s*"?([^"\\n]+)"?\\s*$`, "m").exec(config);
+
+  return match?.[1];
+}
+
+/*
+  Load a locally stored JSON keypair file and convert it to a valid Keypair
+*/
+export function loadKeypairFromFile(absPath: string) {
+  if (!fs.existsSync(absPath)) throw Error(`Keypair file does not exist: ${absPath}`);
+
+  const keyfileBytes = JSON.parse(fs.readFileSync(absPath, { encoding: "utf-8" }));
+  return Keypair.fromSecretKey(new Uint8Array(keyfileBytes));
+}
+
+/**
+ * Load the master keypair, in order of precedence:
+ * - the `KEYPAIR_PATH` env variable
+ * - the `keypair_path` set via `solana config set --keypair <path>`
+ * - the Solana CLI's default `~/.config/solana/id.json`
+ */
+export function loadMasterKeypair() {
+  const keypairPath =
+    process.env.KEYPAIR_PATH ??
+    readCliConfigValue("keypair_path") ??
+    path.join(os.homedir(), ".config", "solana", "id.json");
+
+  return loadKeypairFromFile(keypairPath);
+}
+
+/**
+ * Create the RPC connection, in order of precedence:
+ * - the `RPC_URL` env variable
+ * - the `json_rpc_url` set via `solana config set --url <url>`
+ * - devnet
+ */
+export function createConnection() {
+  const rpcUrl =
+    process.env.RPC_URL ?? readCliConfigValue("json_rpc_url") ?? clusterApiUrl("devnet");
+
+  return new Connection(rpcUrl, "confirmed");
+}
@@ -0,0 +1,112 @@
+/**
+ * Pirate Bootcamp asset provisioning CLI
+ *
+ * Creates an in-game asset (as an SPL token or a set of NFTs) with its Metaplex
+ * metadata, mints it to the master keypair and records every created address to
+ * the manifest file
+ *
+ * Usage:
+ *   node dist/index.js <asset> --spl <supply> [--manifest <path>]
+ *   node dist/index.js <asset> --nft <count> [--manifest <path>]
+ */
+
+import { ASSETS } from "./assets";
+import { createConnection, loadMasterKeypair } from "./config";
+import { DEFAULT_MANIFEST_PATH, loadManifest, recordManifestEntry } from "./manifest";
+import { createMetaplex, createNftAsset, createSplAsset, resolveMetadataUri } from "./mint";
+
+type CliArgs = {
+  asset: string;
+  type: "spl" | "nft";
+  amount: number;
+  manifest: string;
+};
+
+const USAGE = [
+  "Usage:",
+  "  node dist/index.js <asset> --spl <supply> [--manifest <path>]",
+  "  node dist/index.js <asset> --nft <count> [--manifest <path>]",
+  "",
+  `Assets: ${Object.keys(ASSETS).join(", ")}`,
+].join("\n");
+
+/*
+  Parse and validate the command line arguments
+*/
+function parseArgs(argv: string[]): CliArgs {
+  let asset: string | undefined;
+  let type: CliArgs["type"] | undefined;
+  let amount: string | undefined;
+  let manifest = DEFAULT_MANIFEST_PATH;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === "--spl" || arg === "--nft") {
+      if (type) throw Error("Only one of `--spl` or `--nft` can be provided");
+      type = arg === "--spl" ? "spl" : "nft";
+      amount = argv[++i];
+    } else if (arg === "--manifest") manifest = argv[++i];
+    else if (arg.startsWith("--")) throw Error(`Unknown option: ${arg}`);
+    else if (!asset) asset = arg;
+    else throw Error(`Unexpected argument: ${arg}`);
+  }
+
+  if (!asset) throw Error("No asset name provided");
+  if (!ASSETS[asset]) throw Error(`Unknown asset: ${asset}`);
+  if (!type) throw Error("One of `--spl <supply>` or `--nft <count>` is required");
+  if (!amount || !/^[1-9]\d*$/.test(amount))
+    throw Error(`\`--${type}\` must be a positive whole number, received: ${amount}`);
+  if (!manifest) throw Error("`--manifest` requires a path");
+
+  return { asset, type, amount: Number(amount), manifest };
+}
+
+async function main() {
+  let args: CliArgs;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (err) {
+    console.error((err as Error).message, "\n");
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const asset = { ...ASSETS[args.asset] };
+  const connection = createConnection();
+  const payer = loadMasterKeypair();
+  const metaplex = createMetaplex(connection, payer);
+
+  console.log("RPC url:", connection.rpcEndpoint);
+  console.log("Master keypair:", payer.publicKey.toBase58());
+  console.log("Manifest:", args.manifest);
+
+  const manifest = loadManifest(args.manifest, connection.rpcEndpoint, payer.publicKey.toBase58());
+  const uri = await resolveMetadataUri(metaplex, asset);
+
+  if (args.type === "spl") {
+    console.log(`\nCreating SPL token "${asset.name}" with a supply of ${args.amount}...`);
+
+    const entry = await createSplAsset(connection, payer, asset, uri, args.amount);
+    recordManifestEntry(args.manifest, manifest, args.asset, entry);
+
+    console.log(`  Mint: ${entry.mint}`);
+    console.log(`  Transaction signature: ${entry.signature}`);
+  } else {
+    console.log(`\nCreating ${args.amount} "${asset.name}" NFT(s)...`);
+
+    for (let i = 1; i <= args.amount; i++) {
+      const entry = await createNftAsset(metaplex, asset, uri, i);
+      recordManifestEntry(args.manifest, manifest, args.asset, entry);
+
+      console.log(`  [${i}/${args.amount}] ${entry.name}: ${entry.mint}`);
+    }
+  }
+
+  console.log(`\nAll addresses recorded to ${args.manifest}`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
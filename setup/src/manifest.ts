@@ -0,0 +1,65 @@
+/**
+ * Records every asset created by the setup CLI to a local manifest file
+ */
+
+import fs from "fs";
+
+// default manifest location (relative to the `setup` directory)
+export const DEFAULT_MANIFEST_PATH = "manifest.json";
+
+export type ManifestEntry = {
+  type: "spl" | "nft";
+  name: string;
+  symbol: string;
+  mint: string;
+  metadata: string;
+  tokenAccount: string;
+  decimals: number;
+  // nominal quantity minted to the master keypair
+  quantity: string;
+  uri: string;
+  signature: string;
+  createdAt: string;
+};
+
+export type Manifest = {
+  rpcUrl: string;
+  authority: string;
+  assets: { [key: string]: ManifestEntry[] };
+};
+
+/*
+  Load the manifest from the filesystem, or start a new one
+*/
+export function loadManifest(absPath: string, rpcUrl: string, authority: string): Manifest {
+  if (!fs.existsSync(absPath)) return { rpcUrl, authority, assets: {} };
+
+  const manifest: Manifest = JSON.parse(fs.readFileSync(absPath, { encoding: "utf-8" }));
+
+  if (manifest.rpcUrl !== rpcUrl || manifest.authority !== authority)
+    console.warn(
+      `Manifest ${absPath} was created for ${manifest.authority} on ${manifest.rpcUrl}, ` +
+        "new entries will be appended to it anyway",
+    );
+
+  return { ...manifest, assets: manifest.assets ?? {} };
+}
+
+/*
+  Append a created asset to the manifest and save it immediately, so a failure
+  part way through a run never loses the addresses that were already created
+*/
+export function recordManifestEntry(
+  absPath: string,
+  manifest: Manifest,
+  asset: string,
+  entry: ManifestEntry,
+) {
+  manifest.assets[asset] = [...(manifest.assets[asset] ?? []), entry];
+
+  fs.writeFileSync(absPath, JSON.stringify(manifest, null, 2), {
+    encoding: "utf-8",
+  });
+
+  return manifest;
+}
@@ -0,0 +1,235 @@
+/**
+ * Creates the SPL token and NFT assets (with their Metaplex metadata) and mints
+ * them to the master keypair
+ */
+
+import fs from "fs";
+import path from "path";
+import {
+  Connection,
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from "@solana/web3.js";
+import {
+  MINT_SIZE,
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountInstruction,
+  createInitializeMint2Instruction,
+  createMintToInstruction,
+  getAssociatedTokenAddressSync,
+} from "@solana/spl-token";
+import {
+  PROGRAM_ID as METADATA_PROGRAM_ID,
+  createCreateMetadataAccountV3Instruction,
+} from "@metaplex-foundation/mpl-token-metadata";
+import { Metaplex, bundlrStorage, keypairIdentity, toMetaplexFile } from "@metaplex-foundation/js";
+import { AssetConfig } from "./assets";
+import { ManifestEntry } from "./manifest";
+
+/*
+  Returns the real quantity of a nominal `quantity` using the mint's decimal places
+*/
+export function toBigIntQuantity(quantity: number, decimals: number): bigint {
+  return BigInt(quantity) * BigInt(10) ** BigInt(decimals);
+}
+
+/*
+  Derive the pda address for a mint's Metadata account
+*/
+export function getMetadataAddress(mint: PublicKey) {
+  return PublicKey.findProgramAddressSync(
+    [Buffer.from("metadata"), METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+    METADATA_PROGRAM_ID,
+  )[0];
+}
+
+/*
+  Build, sign, send and confirm a versioned transaction
+*/
+async function sendTransaction(
+  connection: Connection,
+  payer: Keypair,
+  signers: Keypair[],
+  instructions: TransactionInstruction[],
+) {
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash();
+
+  const tx = new VersionedTransaction(
+    new TransactionMessage({
+      payerKey: payer.publicKey,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message(),
+  );
+  tx.sign([payer, ...signers]);
+
+  const signature = await connection.sendTransaction(tx);
+  const confirmation = await connection.confirmTransaction({
+    signature,
+    blockhash,
+    lastValidBlockHeight,
+  });
+
+  if (confirmation.value.err)
+    throw Error(`Transaction ${signature} failed: ${JSON.stringify(confirmation.value.err)}`);
+
+  return signature;
+}
+
+/**
+ * Create a Metaplex instance for the master keypair, using Bundlr for any
+ * metadata that still needs to be uploaded
+ */
+export function createMetaplex(connection: Connection, payer: Keypair) {
+  const bundlrAddress = connection.rpcEndpoint.includes("devnet")
+    ? "https://devnet.bundlr.network"
+    : "https://node1.bundlr.network";
+
+  return Metaplex.make(connection)
+    .use(keypairIdentity(payer))
+    .use(bundlrStorage({ address: bundlrAddress }));
+}
+
+/**
+ * Get the JSON metadata uri for an asset, uploading its image and metadata
+ * when it has not been uploaded yet
+ */
+export async function resolveMetadataUri(metaplex: Metaplex, asset: AssetConfig) {
+  if (asset.uri) return asset.uri;
+
+  console.log(`Uploading image and metadata for ${asset.name}...`);
+
+  const { uri } = await metaplex.nfts().uploadMetadata({
+    name: asset.name,
+    symbol: asset.symbol,
+    description: asset.description,
+    image: toMetaplexFile(fs.readFileSync(asset.image), path.basename(asset.image)),
+  });
+
+  // reuse the uploaded metadata for every other mint of this run
+  asset.uri = uri;
+  return uri;
+}
+
+/**
+ * Create a new SPL token mint with metadata and mint `supply` tokens to the payer
+ */
+export async function createSplAsset(
+  connection: Connection,
+  payer: Keypair,
+  asset: AssetConfig,
+  uri: string,
+  supply: number,
+): Promise<ManifestEntry> {
+  const mintKeypair = Keypair.generate();
+  const metadataAccount = getMetadataAddress(mintKeypair.publicKey);
+  const tokenAccount = getAssociatedTokenAddressSync(mintKeypair.publicKey, payer.publicKey);
+
+  const instructions = [
+    // allocate the mint account, owned by the token program
+    SystemProgram.createAccount({
+      fromPubkey: payer.publicKey,
+      newAccountPubkey: mintKeypair.publicKey,
+      space: MINT_SIZE,
+      lamports: await connection.getMinimumBalanceForRentExemption(MINT_SIZE),
+      programId: TOKEN_PROGRAM_ID,
+    }),
+    // initialize that account as a Mint
+    createInitializeMint2Instruction(
+      mintKeypair.publicKey,
+      asset.decimals,
+      payer.publicKey,
+      payer.publicKey,
+    ),
+    // store the token's metadata on chain
+    createCreateMetadataAccountV3Instruction(
+      {
+        metadata: metadataAccount,
+        mint: mintKeypair.publicKey,
+        mintAuthority: payer.publicKey,
+        payer: payer.publicKey,
+        updateAuthority: payer.publicKey,
+      },
+      {
+        createMetadataAccountArgsV3: {
+          data: {
+            creators: null,
+            name: asset.name,
+            symbol: asset.symbol,
+            uri,
+            sellerFeeBasisPoints: 0,
+            collection: null,
+            uses: null,
+          },
+          collectionDetails: null,
+          isMutable: true,
+        },
+      },
+    ),
+    // create the payer's ata and mint the supply into it
+    createAssociatedTokenAccountInstruction(
+      payer.publicKey,
+      tokenAccount,
+      payer.publicKey,
+      mintKeypair.publicKey,
+    ),
+    createMintToInstruction(
+      mintKeypair.publicKey,
+      tokenAccount,
+      payer.publicKey,
+      toBigIntQuantity(supply, asset.decimals),
+    ),
+  ];
+
+  const signature = await sendTransaction(connection, payer, [mintKeypair], instructions);
+
+  return {
+    type: "spl",
+    name: asset.name,
+    symbol: asset.symbol,
+    mint: mintKeypair.publicKey.toBase58(),
+    metadata: metadataAccount.toBase58(),
+    tokenAccount: tokenAccount.toBase58(),
+    decimals: asset.decimals,
+    quantity: supply.toString(),
+    uri,
+    signature,
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Create a single NFT (mint, metadata and master edition) owned by the payer
+ */
+export async function createNftAsset(
+  metaplex: Metaplex,
+  asset: AssetConfig,
+  uri: string,
+  index: number,
+): Promise<ManifestEntry> {
+  const { nft, tokenAddress, response } = await metaplex.nfts().create({
+    uri,
+    name: `${asset.name} #${index}`,
+    symbol: asset.symbol,
+    sellerFeeBasisPoints: 0,
+    isMutable: true,
+  });
+
+  return {
+    type: "nft",
+    name: nft.name,
+    symbol: nft.symbol,
+    mint: nft.address.toBase58(),
+    metadata: nft.metadataAddress.toBase58(),
+    tokenAccount: tokenAddress.toBase58(),
+    decimals: 0,
+    quantity: "1",
+    uri,
+    signature: response.signature,
+    createdAt: new Date().toISOString(),
+  };
+}